@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+
+/**
+ * Script para repopular o cache de Shift e User do Attendance Service
+ *
+ * Pede snapshots paginados ao shift-service e ao user-service (RabbitMQ Request/Reply)
+ * e grava no Redis. Útil após flush do Redis ou em deploy novo.
+ *
+ * Execute: npx ts-node scripts/resync-cache.ts [--only=shifts|users] [--if-empty]
+ */
+
+import dotenv from 'dotenv';
+dotenv.config();
+
+import type { CacheResyncTarget } from '../src/services/CacheResyncService';
+
+function parseArgs(argv: string[]): { targets?: CacheResyncTarget[]; ifEmpty: boolean } {
+  const only = argv.find((arg) => arg.startsWith('--only='))?.split('=')[1];
+
+  if (only && only !== 'shifts' && only !== 'users') {
+    console.error(`❌ Valor inválido para --only: ${only} (use shifts ou users)`);
+    process.exit(1);
+  }
+
+  return {
+    targets: only ? [only as CacheResyncTarget] : undefined,
+    ifEmpty: argv.includes('--if-empty'),
+  };
+}
+
+async function resyncCache() {
+  const { targets, ifEmpty } = parseArgs(process.argv.slice(2));
+  let exitCode = 0;
+
+  const { redisCache } = await import('../src/services/cache/RedisCache');
+  const { rabbitMQ } = await import('../src/messaging/RabbitMQConnection');
+
+  try {
+    console.log('🔄 Conectando ao Redis e RabbitMQ...');
+    await redisCache.connect();
+    await rabbitMQ.connect();
+
+    const { shiftRequestReply } = await import('../src/services/ShiftLookupService');
+    const { userRequestReply, cacheResyncService } = await import('../src/services/CacheResyncService');
+    await shiftRequestReply.initialize();
+    await userRequestReply.initialize();
+
+    const result = ifEmpty
+      ? await cacheResyncService.resyncIfEmpty()
+      : await cacheResyncService.resync(targets);
+
+    if (!result) {
+      console.log('✅ Cache já populado, nada a fazer');
+    } else {
+      console.log('\n📊 Resultado do resync:');
+      console.log('─'.repeat(60));
+      for (const target of ['shifts', 'users'] as const) {
+        const summary = result[target];
+        if (!summary) continue;
+
+        const status = summary.error ? `❌ ${summary.error}` : '✅';
+        console.log(`${target}: ${summary.cached} itens em ${summary.pages} páginas ${status}`);
+        if (summary.error) exitCode = 1;
+      }
+      console.log(`⏱️ Duração: ${result.durationMs}ms`);
+    }
+  } catch (error) {
+    console.error('❌ Erro no resync do cache:', error);
+    exitCode = 1;
+  } finally {
+    await rabbitMQ.close();
+    await redisCache.close();
+  }
+
+  process.exit(exitCode);
+}
+
+resyncCache();
@@ -54,9 +54,11 @@ async function testEventDrivenService() {
     
     const { ShiftCacheService } = await import('../src/services/cache/ShiftCacheService');
     const { UserCacheService } = await import('../src/services/cache/UserCacheService');
+    const { HealthUnitCacheService } = await import('../src/services/cache/HealthUnitCacheService');
     
     const shiftCache = new ShiftCacheService();
     const userCache = new UserCacheService();
+    const healthUnitCache = new HealthUnitCacheService();
     
     // Cachear dados de teste
     await shiftCache.cacheShift({
@@ -98,7 +100,7 @@ async function testEventDrivenService() {
     console.log('\n5️⃣ Testando AttendanceFacade...');
     const { AttendanceFacade } = await import('../src/facades/AttendanceFacade');
     
-    const facade = new AttendanceFacade(shiftCache, userCache, attendanceEventPublisher);
+    const facade = new AttendanceFacade(shiftCache, userCache, attendanceEventPublisher, healthUnitCache);
     console.log('✅ AttendanceFacade instanciado com sucesso');
 
     console.log('\n🎉 TODOS OS TESTES PASSARAM! 🎉');
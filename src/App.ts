@@ -5,13 +5,35 @@ import { AppDataSource } from '@/config/database';
 import { errorHandler } from '@/middleware/errorHandler';
 import { notFoundHandler } from '@/middleware/notFoundHandler';
 import { AttendanceRoutes } from '@/routes/AttendanceRoutes';
+import { AttendancePolicyRoutes } from '@/routes/AttendancePolicyRoutes';
+import { CacheAdminRoutes } from '@/routes/CacheAdminRoutes';
+import { DeadLetterRoutes } from '@/routes/DeadLetterRoutes';
 import { HealthRoutes } from '@/routes/HealthRoutes';
-import { rabbitMQ } from '@/messaging/RabbitMQConnection';
+import { PhotoRoutes } from '@/routes/PhotoRoutes';
+import { FaceEnrollmentRoutes } from '@/routes/FaceEnrollmentRoutes';
+import { messageBroker } from '@/messaging/MessageBroker';
 import { redisCache } from '@/services/cache/RedisCache';
 import { externalEventConsumer } from '@/events/ExternalEventConsumer';
 import { ShiftCacheService } from '@/services/cache/ShiftCacheService';
 import { UserCacheService } from '@/services/cache/UserCacheService';
+import { HealthUnitCacheService } from '@/services/cache/HealthUnitCacheService';
+import { cacheResyncService } from '@/services/CacheResyncService';
+import { deadLetterService } from '@/services/DeadLetterService';
+import { photoStorage } from '@/services/storage/PhotoStorage';
+import { LocalPhotoStorage } from '@/services/storage/LocalPhotoStorage';
 import { attendanceEventPublisher } from '@/events/AttendanceEventPublisher';
+import { AttendancePolicyService } from '@/services/AttendancePolicyService';
+import { FaceEnrollmentService } from '@/services/FaceEnrollmentService';
+import { AttendancePolicyRepository } from '@/repositories/AttendancePolicyRepository';
+import { AttendanceRepository } from '@/repositories/AttendanceRepository';
+import { AttendanceNoShowRepository } from '@/repositories/AttendanceNoShowRepository';
+import { FaceEnrollmentRepository } from '@/repositories/FaceEnrollmentRepository';
+import { AttendanceNoShowService } from '@/services/AttendanceNoShowService';
+import { NoShowDetectorJob } from '@/jobs/NoShowDetectorJob';
+import { EventOutboxRepository } from '@/repositories/EventOutboxRepository';
+import { EventOutboxService } from '@/services/EventOutboxService';
+import { OutboxRelayJob } from '@/jobs/OutboxRelayJob';
+import { Attendance, AttendancePolicy, AttendanceNoShow, EventOutbox, FaceEnrollment } from '@/entities';
 
 // Carregar variáveis de ambiente
 dotenv.config();
@@ -19,6 +41,12 @@ dotenv.config();
 class AttendanceServiceApp {
   private app: express.Application;
   private readonly port: number;
+  private noShowJob?: NoShowDetectorJob;
+  private outboxRelayJob?: OutboxRelayJob;
+  private readonly outboxService = new EventOutboxService(
+    new EventOutboxRepository(AppDataSource.getRepository(EventOutbox)),
+    attendanceEventPublisher
+  );
 
   constructor() {
     this.app = express();
@@ -48,27 +76,21 @@ class AttendanceServiceApp {
     console.log('🔄 Inicializando rotas...');
     
     // Health check routes (POO) - sempre disponível
-    const healthRoutes = new HealthRoutes();
+    const healthRoutes = new HealthRoutes(this.outboxService);
     this.app.use('/health', healthRoutes.getRouter());
     
-    // Se estamos em ambiente de teste E2E e DB não está conectado, não inicializar outras rotas
-    if (process.env.NODE_ENV === 'test' && process.env.JEST_WORKER_ID && !AppDataSource.isInitialized) {
-      console.log('⚠️  [TEST MODE] DB não inicializado - pulando inicialização de rotas de negócio');
-      return;
-    }
-    
     try {
       // Criar cache services (Singleton pattern)
       const shiftCache = new ShiftCacheService();
       const userCache = new UserCacheService();
+      const healthUnitCache = new HealthUnitCacheService();
       
       // Criar serviços especializados
       const faceService = new (require('@/services/FaceRecognitionService').FaceRecognitionService)();
       const notificationService = new (require('@/services/NotificationService').NotificationService)(attendanceEventPublisher);
       
       // Criar repository
-      const AttendanceRepositoryClass = require('@/repositories/AttendanceRepository').AttendanceRepository;
-      const attendanceRepository = new AttendanceRepositoryClass();
+      const attendanceRepository = new AttendanceRepository(AppDataSource.getRepository(Attendance));
       
       // API routes com dependency injection (POO)
       const attendanceRoutes = new AttendanceRoutes(
@@ -77,9 +99,39 @@ class AttendanceServiceApp {
         attendanceEventPublisher,
         faceService,
         notificationService,
-        attendanceRepository
+        attendanceRepository,
+        healthUnitCache
       );
       this.app.use('/v2', attendanceRoutes.getRouter());
+
+      // Cadastro facial (médico) e reset do cadastro (admin)
+      const faceEnrollmentService = new FaceEnrollmentService(
+        new FaceEnrollmentRepository(AppDataSource.getRepository(FaceEnrollment)),
+        faceService
+      );
+      const faceEnrollmentRoutes = new FaceEnrollmentRoutes(faceEnrollmentService);
+      this.app.use('/v2', faceEnrollmentRoutes.getRouter());
+
+      // Políticas de attendance (admin, versionadas)
+      const policyService = new AttendancePolicyService(
+        new AttendancePolicyRepository(AppDataSource.getRepository(AttendancePolicy))
+      );
+      const policyRoutes = new AttendancePolicyRoutes(policyService);
+      this.app.use('/v2', policyRoutes.getRouter());
+
+      // Administração do cache (resync via snapshots)
+      const cacheAdminRoutes = new CacheAdminRoutes(cacheResyncService);
+      this.app.use('/v2', cacheAdminRoutes.getRouter());
+
+      // Dead-letter das queues de sync (inspeção e replay)
+      const deadLetterRoutes = new DeadLetterRoutes(deadLetterService);
+      this.app.use('/v2', deadLetterRoutes.getRouter());
+
+      // Fotos servidas pela API apenas no driver fs (no S3 a URL assinada aponta para o bucket)
+      if (photoStorage instanceof LocalPhotoStorage) {
+        const photoRoutes = new PhotoRoutes(photoStorage);
+        this.app.use('/v2', photoRoutes.getRouter());
+      }
       
       console.log('✅ Rotas inicializadas com sucesso');
     } catch (error) {
@@ -99,6 +151,7 @@ class AttendanceServiceApp {
         endpoints: {
           health: '/health',
           attendance: '/v2/attendance',
+          policies: '/v2/policies',
           docs: '/v2/attendance/docs'
         }
       });
@@ -124,19 +177,48 @@ class AttendanceServiceApp {
       console.log('🔄 Conectando ao Redis...');
       await redisCache.connect();
 
-      // Inicializar RabbitMQ
-      console.log('🔄 Conectando ao RabbitMQ...');
-      await rabbitMQ.connect();
+      // Inicializar message broker (RabbitMQ ou em memória, ver MESSAGE_BROKER)
+      await messageBroker.connect();
 
       // Inicializar RabbitMQ Request/Reply Service
       console.log('🔄 Inicializando RabbitMQ Request/Reply Service...');
       const { rabbitMQRequestReply } = await import('./services/RabbitMQRequestReplyService');
       await rabbitMQRequestReply.initialize();
 
+      // Request/Reply com o shift-service (fallback em cache miss de shift)
+      const { shiftRequestReply } = await import('./services/ShiftLookupService');
+      await shiftRequestReply.initialize();
+
+      // Request/Reply com o user-service (snapshots para resync do cache)
+      const { userRequestReply } = await import('./services/CacheResyncService');
+      await userRequestReply.initialize();
+
       // Iniciar consumo de eventos externos
       console.log('🔄 Iniciando consumo de eventos externos...');
       await externalEventConsumer.startConsuming();
 
+      // Resync do cache em background quando o Redis está vazio (deploy novo / flush)
+      if (process.env.CACHE_RESYNC_ON_STARTUP !== 'false') {
+        cacheResyncService.resyncIfEmpty().catch((error) => {
+          console.error('❌ Erro no resync do cache na inicialização:', error);
+        });
+      }
+
+      // Job de detecção de faltas (no-show)
+      this.noShowJob = new NoShowDetectorJob(
+        new AttendanceNoShowService(
+          new AttendanceRepository(AppDataSource.getRepository(Attendance)),
+          new AttendanceNoShowRepository(AppDataSource.getRepository(AttendanceNoShow)),
+          new ShiftCacheService(),
+          attendanceEventPublisher
+        )
+      );
+      this.noShowJob.start();
+
+      // Relay do outbox (publica eventos gravados junto com as mudanças de attendance)
+      this.outboxRelayJob = new OutboxRelayJob(this.outboxService);
+      this.outboxRelayJob.start();
+
       // Inicializar servidor
       this.app.listen(this.port, () => {
         console.log(`🚀 Attendance Service rodando na porta ${this.port}`);
@@ -153,6 +235,14 @@ class AttendanceServiceApp {
     }
   }
 
+  /**
+   * Parar jobs em background (graceful shutdown)
+   */
+  public stopBackgroundJobs(): void {
+    this.noShowJob?.stop();
+    this.outboxRelayJob?.stop();
+  }
+
   public getApp(): express.Application {
     return this.app;
   }
@@ -215,8 +305,11 @@ if (require.main === module) {
 
   async function gracefulShutdown() {
     try {
-      // Fechar RabbitMQ
-      await rabbitMQ.close();
+      // Parar jobs em background
+      app.stopBackgroundJobs();
+
+      // Fechar message broker
+      await messageBroker.close();
       
       // Fechar Redis
       await redisCache.close();
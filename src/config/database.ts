@@ -1,10 +1,18 @@
 import { DataSource } from 'typeorm';
-import { Attendance } from '@/entities';
+import {
+  Attendance,
+  AttendancePolicy,
+  AttendanceHistory,
+  AttendanceCorrectionRequest,
+  AttendanceNoShow,
+  EventOutbox,
+  FaceEnrollment,
+} from '@/entities';
 
 /**
  * Configuração do banco de dados do Attendance Service
  * 
- * IMPORTANTE: Este microserviço possui APENAS a entidade Attendance.
+ * IMPORTANTE: Este microserviço possui APENAS entidades próprias (Attendance e suas políticas).
  * Dados de Shift e User são acessados via cache Redis, alimentado por eventos RabbitMQ.
  */
 export const AppDataSource = new DataSource({
@@ -17,7 +25,7 @@ export const AppDataSource = new DataSource({
   ssl: process.env.DATABASE_SSL === 'true' ? { rejectUnauthorized: false } : false,
   synchronize: process.env.NODE_ENV === 'development',
   logging: process.env.NODE_ENV === 'development',
-  entities: [Attendance], // Apenas Attendance!
+  entities: [Attendance, AttendancePolicy, AttendanceHistory, AttendanceCorrectionRequest, AttendanceNoShow, EventOutbox, FaceEnrollment], // Apenas entidades deste serviço!
   migrations: ['src/migrations/*.ts'],
   subscribers: ['src/subscribers/*.ts'],
   connectTimeoutMS: 30000,
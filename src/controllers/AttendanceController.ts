@@ -4,16 +4,42 @@ import {
   CreateAttendanceDTO,
   ApproveAttendanceDTO,
   RejectAttendanceDTO,
-  ListAttendancesDTO 
+  ListAttendancesDTO,
+  BulkApproveAttendancesDTO,
+  BulkRejectAttendancesDTO,
+  CreateAttendanceCorrectionDTO,
+  ApproveAttendanceCorrectionDTO,
+  DenyAttendanceCorrectionDTO,
+  CreateLivenessChallengeDTO,
+  UploadedPhoto,
 } from "../dto";
 import { ShiftCacheService } from "../services/cache/ShiftCacheService";
 import { UserCacheService } from "../services/cache/UserCacheService";
+import { HealthUnitCacheService } from "../services/cache/HealthUnitCacheService";
+import { FaceVerificationAttemptCacheService } from "../services/cache/FaceVerificationAttemptCacheService";
 import { AttendanceEventPublisher } from "../events/AttendanceEventPublisher";
 import { FaceRecognitionService } from "../services/FaceRecognitionService";
+import { FaceEnrollmentService } from "../services/FaceEnrollmentService";
+import {
+  LivenessChallenge,
+  LivenessChallengeService,
+  LIVENESS_MIN_FRAMES,
+  isLivenessRequired,
+} from "../services/LivenessChallengeService";
+import { LIVENESS_MAX_FRAMES } from "../middleware/upload";
 import { NotificationService, NotificationType } from "../services/NotificationService";
 import { AttendanceService } from "../services/AttendanceService";
 import { AttendanceStatus } from "../entities/Attendance";
 import { AttendanceRepository } from "../repositories/AttendanceRepository";
+import { AttendanceHistoryRepository } from "../repositories/AttendanceHistoryRepository";
+import { AttendanceHistoryService, AuditActor } from "../services/AttendanceHistoryService";
+import { AttendanceHistory } from "../entities/AttendanceHistory";
+import { FaceEnrollment } from "../entities/FaceEnrollment";
+import { FaceEnrollmentRepository } from "../repositories/FaceEnrollmentRepository";
+import { CorrectionStatus } from "../entities/AttendanceCorrectionRequest";
+import { AppDataSource } from "../config/database";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { UserRole } from "../middleware/authorization";
 import { FaceVerificationData } from "../dto/AttendanceResponse.dto";
 import { AppError } from "../errors/AppError";
 import { getErrorMessage } from "../utils/errorUtils";
@@ -33,6 +59,9 @@ import { getErrorMessage } from "../utils/errorUtils";
 export class AttendanceController {
   private facade: AttendanceFacade;
   private faceService: FaceRecognitionService;
+  private faceAttempts: FaceVerificationAttemptCacheService;
+  private faceEnrollmentService: FaceEnrollmentService;
+  private livenessService: LivenessChallengeService;
   private notificationService: NotificationService;
   private attendanceService: AttendanceService;
 
@@ -42,15 +71,25 @@ export class AttendanceController {
     eventPublisher: AttendanceEventPublisher,
     faceService: FaceRecognitionService,
     notificationService: NotificationService,
-    attendanceRepository: AttendanceRepository
+    attendanceRepository: AttendanceRepository,
+    healthUnitCache: HealthUnitCacheService
   ) {
-    this.facade = new AttendanceFacade(shiftCache, userCache, eventPublisher);
+    this.facade = new AttendanceFacade(shiftCache, userCache, eventPublisher, healthUnitCache);
     this.faceService = faceService;
+    this.faceAttempts = new FaceVerificationAttemptCacheService();
+    this.faceEnrollmentService = new FaceEnrollmentService(
+      new FaceEnrollmentRepository(AppDataSource.getRepository(FaceEnrollment)),
+      faceService
+    );
+    this.livenessService = new LivenessChallengeService();
     this.notificationService = notificationService;
     this.attendanceService = new AttendanceService(
       attendanceRepository,
       shiftCache,
-      userCache
+      userCache,
+      new AttendanceHistoryService(
+        new AttendanceHistoryRepository(AppDataSource.getRepository(AttendanceHistory))
+      )
     );
   }
 
@@ -65,6 +104,47 @@ export class AttendanceController {
     );
   }
 
+  /**
+   * Extrai o ator da requisição (auditoria)
+   */
+  private extractActor(req: Request): AuditActor {
+    const user = (req as AuthenticatedRequest).user;
+    return {
+      id: user?.id || null,
+      role: user?.role || null,
+      ip: this.extractIp(req),
+    };
+  }
+
+  /**
+   * Usuário de hospital (escopo restrito ao hospital do token)
+   */
+  private isHospitalUser(req: Request): boolean {
+    const role = (req as AuthenticatedRequest).user?.role;
+    return role === UserRole.CLIENT_HOSPITAL || role === UserRole.CLIENT_HOSPITAL_WORKER;
+  }
+
+  /**
+   * Resolve o hospital da operação
+   * - Usuários de hospital: sempre o hospital do token (hospitalId do body é ignorado)
+   * - Admins: hospitalId informado na requisição
+   */
+  private resolveHospitalId(req: Request, requestedHospitalId?: string): string {
+    const user = (req as AuthenticatedRequest).user;
+
+    if (this.isHospitalUser(req)) {
+      if (!user?.hospitalId) {
+        throw new AppError(403, "Usuário sem hospital vinculado.");
+      }
+      return user.hospitalId;
+    }
+
+    if (!requestedHospitalId) {
+      throw new AppError(400, "hospitalId é obrigatório");
+    }
+    return requestedHospitalId;
+  }
+
   /**
    * Extrai location do request (headers customizados)
    */
@@ -72,6 +152,13 @@ export class AttendanceController {
     return (req.headers['x-user-location'] as string) || 'unknown';
   }
 
+  /**
+   * Converte arquivo do multer na foto usada pelos services
+   */
+  private toUploadedPhoto(file: Express.Multer.File): UploadedPhoto {
+    return { buffer: file.buffer, mimetype: file.mimetype, originalname: file.originalname, size: file.size };
+  }
+
   /**
    * Retorna mensagem humanizada baseada no status e motivo
    */
@@ -81,6 +168,9 @@ export class AttendanceController {
     }
     
     if (status === 'PENDING') {
+      if (statusReason?.toLowerCase().includes('facial') || statusReason?.toLowerCase().includes('face') || statusReason?.toLowerCase().includes('prova de vida')) {
+        return '🙂 Ponto registrado com sucesso! Como a verificação facial (ou a prova de vida) não confirmou sua identidade, ele entrará em revisão manual pelo hospital.';
+      }
       if (statusReason?.toLowerCase().includes('tardio') || statusReason?.toLowerCase().includes('tempo')) {
         return `⏰ Ponto registrado com sucesso! Como o check-${type?.toLowerCase() || 'out'} foi realizado fora do horário esperado, ele entrará em revisão manual pelo hospital.`;
       }
@@ -100,13 +190,47 @@ export class AttendanceController {
     return 'Ponto processado com sucesso.';
   }
 
+  /**
+   * POST /attendances/challenge
+   * Emitir desafio de prova de vida (nonce de uso único + gesto) para o próximo ponto
+   */
+  async createChallenge(req: Request, res: Response): Promise<void> {
+    try {
+      const dto: CreateLivenessChallengeDTO = req.body;
+      console.log(`🎲 [CONTROLLER] POST /attendances/challenge - ${dto.doctorId}`);
+
+      const challenge = await this.livenessService.createChallenge(dto.doctorId, dto.shiftId);
+
+      res.status(201).json({
+        success: true,
+        data: {
+          nonce: challenge.nonce,
+          gesture: challenge.gesture,
+          expiresAt: challenge.expiresAt,
+          minFrames: LIVENESS_MIN_FRAMES,
+          maxFrames: LIVENESS_MAX_FRAMES,
+        },
+        message: `Capture de ${LIVENESS_MIN_FRAMES} a ${LIVENESS_MAX_FRAMES} fotos executando o gesto ${challenge.gesture} e envie no campo "frames" com o challengeNonce antes de ${challenge.expiresAt}`,
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao emitir desafio de prova de vida:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
   /**
    * POST /attendances
    * Registrar novo ponto (IN ou OUT)
    * 
    * 🔐 Features implementadas:
-   * - Verificação facial CONDICIONAL (flag useFaceRecognition)
-   * - Bloqueio 403 se face não corresponder
+   * - Verificação facial obrigatória com cadastro ativo ou FACE_RECOGNITION_REQUIRED (useFaceRecognition só pode pedir)
+   * - Face não verificada (ou confiança baixa): ponto registrado como PENDING para revisão
+   * - Prova de vida (FACE_LIVENESS_REQUIRED): challengeNonce + fotos no campo "frames" (a foto deve ser um dos frames)
    * - Notificação com geo data detalhado
    * - faceVerification na resposta
    */
@@ -118,67 +242,127 @@ export class AttendanceController {
     try {
       console.log(`📝 [CONTROLLER] POST /attendances - ${req.body.type}`);
 
+      // attendanceUpload: "photo" (1) + "frames" (sequência da prova de vida)
+      const uploads = (req.files || {}) as Record<string, Express.Multer.File[]>;
+      const frames = (uploads.frames || []).map((file) => this.toUploadedPhoto(file));
+
       const dto: CreateAttendanceDTO = {
         doctorId: req.body.doctorId,
         shiftId: req.body.shiftId,
         type: req.body.type,
         latitude: parseFloat(req.body.latitude),
         longitude: parseFloat(req.body.longitude),
-        photo: req.body.photo,
+        // Foto via multipart (campo "photo"); campos do form chegam como string
+        photo: uploads.photo?.[0] ? this.toUploadedPhoto(uploads.photo[0]) : undefined,
         reason: req.body.reason,
-        useFaceRecognition: req.body.useFaceRecognition,
+        useFaceRecognition: req.body.useFaceRecognition === true || req.body.useFaceRecognition === 'true',
       };
 
-      // 🔐 VERIFICAÇÃO FACIAL CONDICIONAL
+      // 🔐 VERIFICAÇÃO FACIAL: decidida no servidor (política ou cadastro ativo); o cliente só pode pedir, não dispensar
       let faceVerification: FaceVerificationData | undefined;
+      const faceCheckRequired =
+        dto.useFaceRecognition === true || (await this.faceEnrollmentService.isFaceCheckRequired(dto.doctorId));
       
-      if (dto.useFaceRecognition === true) {
+      if (faceCheckRequired) {
         console.log('🔍 Verificação facial habilitada para check-' + dto.type.toLowerCase());
-        
+
+        if (!dto.photo) {
+          throw new AppError(400, 'A foto é obrigatória para a verificação facial');
+        }
+
+        // Sem cadastro facial ativo não há face de referência (412 com orientação para cadastrar)
+        await this.faceEnrollmentService.assertEnrolled(dto.doctorId);
+
+        // 🎭 Prova de vida: nonce de uso único (POST /attendances/challenge) + sequência de fotos
+        let challenge: LivenessChallenge | undefined;
+        let referenceFrameIndex = -1;
+        if (isLivenessRequired()) {
+          if (!req.body.challengeNonce) {
+            throw new AppError(400, 'Prova de vida obrigatória: solicite um desafio em POST /v2/attendances/challenge e envie o challengeNonce');
+          }
+          if (frames.length < LIVENESS_MIN_FRAMES) {
+            throw new AppError(400, `Envie ao menos ${LIVENESS_MIN_FRAMES} fotos no campo "frames" para a prova de vida`);
+          }
+
+          // A foto verificada precisa ser um dos frames: a prova de vida vale para a mesma pessoa da foto
+          const photo = dto.photo;
+          referenceFrameIndex = frames.findIndex((frame) => frame.buffer.equals(photo.buffer));
+          if (referenceFrameIndex < 0) {
+            throw new AppError(400, 'A foto do ponto deve ser uma das fotos enviadas no campo "frames" da prova de vida');
+          }
+
+          // Consumido antes da verificação: o nonce não pode ser reaproveitado mesmo se a verificação falhar
+          challenge = await this.livenessService.consumeChallenge(
+            String(req.body.challengeNonce),
+            dto.doctorId,
+            dto.shiftId
+          );
+        }
+
+        // Conta todas as tentativas deste ponto (inclusive as que falharam com erro técnico)
+        const attempts = await this.faceAttempts.registerAttempt(dto.shiftId, dto.doctorId, dto.type);
+
         try {
+          const livenessResult = challenge
+            ? await this.faceService.checkLiveness(dto.doctorId, challenge, frames, referenceFrameIndex)
+            : undefined;
+
           const faceResult = await this.faceService.verifyFace(
             dto.doctorId,
-            dto.photo.buffer
+            dto.photo.buffer,
+            dto.photo.mimetype
           );
+          const requiredConfidence = faceResult.requiredConfidence ?? this.faceService.getConfig().requiredConfidence;
 
           faceVerification = {
             verified: faceResult.verified,
             confidence: faceResult.confidence,
             message: faceResult.message,
-            requiredConfidence: 0.80,
+            requiredConfidence,
+            liveness: livenessResult && challenge
+              ? { passed: livenessResult.passed, gesture: challenge.gesture, message: livenessResult.message }
+              : undefined,
           };
 
-          console.log(`✅ Face verificada: ${faceResult.verified} (${(faceResult.confidence * 100).toFixed(1)}%)`);
+          // Resultado segue para o facade: decide o status e vai no attendance/evento
+          dto.faceVerification = {
+            verified: faceResult.verified,
+            confidence: faceResult.confidence,
+            requiredConfidence,
+            attempts,
+            livenessPassed: livenessResult?.passed,
+          };
+
+          console.log(`✅ Face verificada: ${faceResult.verified} (${(faceResult.confidence * 100).toFixed(1)}%, tentativa ${attempts})`);
 
-          // 🔒 BLOQUEAR se a face não corresponder
-          if (!faceResult.verified) {
-            console.error('❌ Face não corresponde ao registro - CHECK-' + dto.type + ' BLOQUEADO');
+          if (livenessResult) {
+            console.log(`${livenessResult.passed ? '✅' : '⚠️'} Prova de vida (${challenge?.gesture}): ${livenessResult.message}`);
+          }
+
+          // ⏳ Face ou prova de vida não verificada: o ponto é registrado, mas fica PENDING para revisão
+          const faceMatched = faceResult.verified && faceResult.confidence >= requiredConfidence;
+          if (!faceMatched || livenessResult?.passed === false) {
+            console.warn('⚠️ Face não verificada - CHECK-' + dto.type + ' será registrado como PENDING');
 
-            // Enviar notificação de tentativa bloqueada
             await this.notificationService.sendNotification({
               userId: dto.doctorId,
-              title: `🚫 Tentativa de Check-${dto.type} Bloqueada`,
-              message: `Tentativa de check-${dto.type.toLowerCase()} BLOQUEADA no plantão ${dto.shiftId}. Face não corresponde ao registro. Confidence: ${(faceResult.confidence * 100).toFixed(1)}%`,
+              title: `⚠️ Check-${dto.type} em Revisão: Face Não Verificada`,
+              message: `Check-${dto.type.toLowerCase()} do plantão ${dto.shiftId} registrado para revisão manual. ${
+                faceMatched
+                  ? livenessResult?.message
+                  : `Face não confirmada. Confidence: ${(faceResult.confidence * 100).toFixed(1)}% (mínimo ${(requiredConfidence * 100).toFixed(1)}%)`
+              }`,
               type: NotificationType.FACE_VERIFICATION_FAILED,
               metadata: {
                 shiftId: dto.shiftId,
                 type: dto.type,
-                status: 'BLOCKED',
+                status: 'PENDING',
                 ip,
                 location,
                 timestamp,
               },
               priority: 'urgent',
             });
-
-            // Bloquear o check-in/out
-            res.status(403).json({
-              success: false,
-              error: 'Face Verification Failed',
-              message: `Face não corresponde ao registro cadastrado. Confiança: ${(faceResult.confidence * 100).toFixed(1)}%. Check-${dto.type.toLowerCase()} bloqueado por segurança.`,
-              faceVerification,
-            });
-            return;
           }
         } catch (faceErr: unknown) {
           console.error('❌ Erro na verificação facial:', getErrorMessage(faceErr));
@@ -212,7 +396,7 @@ export class AttendanceController {
       }
 
       // Registrar ponto (se passou pela verificação facial ou não era obrigatória)
-      const result = await this.facade.recordAttendance(dto);
+      const result = await this.facade.recordAttendance(dto, this.extractActor(req));
 
       // 🌍 Enviar notificação com GEO DATA DETALHADO
       await this.notificationService.sendNotification({
@@ -304,7 +488,7 @@ export class AttendanceController {
         reason: req.body.reason,
       };
 
-      const result = await this.facade.approveAttendance(dto);
+      const result = await this.facade.approveAttendance(dto, this.extractActor(req));
 
       res.json({
         success: true,
@@ -338,7 +522,7 @@ export class AttendanceController {
         reason: req.body.reason,
       };
 
-      const result = await this.facade.rejectAttendance(dto);
+      const result = await this.facade.rejectAttendance(dto, this.extractActor(req));
 
       res.json({
         success: true,
@@ -358,6 +542,74 @@ export class AttendanceController {
     }
   }
 
+  /**
+   * POST /attendances/bulk-approve
+   * Aprovar pontos em lote (IDs ou filtro)
+   * 
+   * Body: { hospitalId? (admins), attendanceIds?: string[], filter?: { date?, statusReason? }, applyDiscount?, reason? }
+   */
+  async bulkApproveAttendances(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`✅ [CONTROLLER] POST /attendances/bulk-approve`);
+
+      const dto: BulkApproveAttendancesDTO = {
+        ...req.body,
+        hospitalId: this.resolveHospitalId(req, req.body.hospitalId),
+      };
+      const result = await this.facade.bulkApproveAttendances(dto, this.extractActor(req));
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.succeeded} de ${result.total} pontos aprovados`,
+      });
+
+      console.log(`✅ [CONTROLLER] Lote aprovado - ${result.succeeded}/${result.total}`);
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao aprovar pontos em lote:`, error);
+      
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * POST /attendances/bulk-reject
+   * Rejeitar pontos em lote (IDs ou filtro)
+   * 
+   * Body: { hospitalId? (admins), attendanceIds?: string[], filter?: { date?, statusReason? }, reason? }
+   */
+  async bulkRejectAttendances(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`❌ [CONTROLLER] POST /attendances/bulk-reject`);
+
+      const dto: BulkRejectAttendancesDTO = {
+        ...req.body,
+        hospitalId: this.resolveHospitalId(req, req.body.hospitalId),
+      };
+      const result = await this.facade.bulkRejectAttendances(dto, this.extractActor(req));
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.succeeded} de ${result.total} pontos rejeitados`,
+      });
+
+      console.log(`❌ [CONTROLLER] Lote rejeitado - ${result.succeeded}/${result.total}`);
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao rejeitar pontos em lote:`, error);
+      
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
   /**
    * GET /attendances
    * Listar pontos com filtros
@@ -400,6 +652,245 @@ export class AttendanceController {
     }
   }
 
+  /**
+   * GET /attendances/:id/history
+   * Trilha de auditoria do ponto (compliance / disputas de pagamento)
+   */
+  async getAttendanceHistory(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`🧾 [CONTROLLER] GET /attendances/${req.params.id}/history`);
+
+      // Admins sem hospitalId na query veem qualquer ponto
+      const requestedHospitalId = req.query.hospitalId as string | undefined;
+      const hospitalId =
+        this.isHospitalUser(req) || requestedHospitalId
+          ? this.resolveHospitalId(req, requestedHospitalId)
+          : undefined;
+
+      const history = await this.facade.getAttendanceHistory(req.params.id, hospitalId);
+
+      res.json({
+        success: true,
+        data: history,
+        message: "Histórico do ponto carregado com sucesso",
+      });
+
+      console.log(`🧾 [CONTROLLER] ${history.length} registros de auditoria`);
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao buscar histórico do ponto:`, error);
+      
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * Extrai o filtro de status das correções (query string)
+   */
+  private parseCorrectionStatus(value: unknown): CorrectionStatus | undefined {
+    if (value === undefined || value === "") return undefined;
+    if (value === "PENDING" || value === "APPROVED" || value === "DENIED") return value;
+    throw new AppError(400, "status deve ser PENDING, APPROVED ou DENIED");
+  }
+
+  /**
+   * POST /attendances/corrections
+   * Médico solicita correção de ponto (esquecido ou horário errado)
+   */
+  async requestCorrection(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`📝 [CONTROLLER] POST /attendances/corrections`);
+
+      const doctorId = (req as AuthenticatedRequest).user?.id;
+      if (!doctorId) {
+        throw new AppError(401, "Usuário não autenticado");
+      }
+
+      const dto: CreateAttendanceCorrectionDTO = req.body;
+      const correction = await this.facade.requestCorrection(
+        doctorId,
+        dto,
+        this.extractActor(req)
+      );
+
+      res.status(201).json({
+        success: true,
+        data: correction,
+        message: "Solicitação de correção registrada com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao solicitar correção:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * GET /attendances/corrections/mine
+   * Correções solicitadas pelo médico autenticado
+   */
+  async listMyCorrections(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`🔍 [CONTROLLER] GET /attendances/corrections/mine`);
+
+      const doctorId = (req as AuthenticatedRequest).user?.id;
+      if (!doctorId) {
+        throw new AppError(401, "Usuário não autenticado");
+      }
+
+      const corrections = await this.facade.listDoctorCorrections(
+        doctorId,
+        this.parseCorrectionStatus(req.query.status)
+      );
+
+      res.json({
+        success: true,
+        data: corrections,
+        message: "Correções carregadas com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao listar correções do médico:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * GET /attendances/corrections?hospitalId=...&status=PENDING
+   * Fila de correções do hospital
+   */
+  async listCorrections(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`🔍 [CONTROLLER] GET /attendances/corrections`);
+
+      const hospitalId = this.resolveHospitalId(req, req.query.hospitalId as string | undefined);
+
+      const corrections = await this.facade.listCorrections(
+        hospitalId,
+        this.parseCorrectionStatus(req.query.status)
+      );
+
+      res.json({
+        success: true,
+        data: corrections,
+        message: "Correções carregadas com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao listar correções:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * GET /attendances/corrections/:id
+   * Buscar solicitação de correção
+   */
+  async getCorrection(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`🔍 [CONTROLLER] GET /attendances/corrections/${req.params.id}`);
+
+      const correction = await this.facade.getCorrection(req.params.id);
+
+      res.json({
+        success: true,
+        data: correction,
+        message: "Correção encontrada",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao buscar correção:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * PUT /attendances/corrections/:id/approve
+   * Hospital aprova a correção (cria/ajusta o ponto e publica attendance.corrected)
+   */
+  async approveCorrection(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`✅ [CONTROLLER] PUT /attendances/corrections/${req.params.id}/approve`);
+
+      const dto: ApproveAttendanceCorrectionDTO = {
+        ...req.body,
+        hospitalId: this.resolveHospitalId(req, req.body.hospitalId),
+      };
+      const result = await this.facade.approveCorrection(
+        req.params.id,
+        dto,
+        this.extractActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: "Correção aprovada com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao aprovar correção:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * PUT /attendances/corrections/:id/deny
+   * Hospital nega a correção
+   */
+  async denyCorrection(req: Request, res: Response): Promise<void> {
+    try {
+      console.log(`❌ [CONTROLLER] PUT /attendances/corrections/${req.params.id}/deny`);
+
+      const dto: DenyAttendanceCorrectionDTO = {
+        ...req.body,
+        hospitalId: this.resolveHospitalId(req, req.body.hospitalId),
+      };
+      const correction = await this.facade.denyCorrection(
+        req.params.id,
+        dto,
+        this.extractActor(req)
+      );
+
+      res.json({
+        success: true,
+        data: correction,
+        message: "Correção negada",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao negar correção:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
   /**
    * GET /attendances/:id
    * Buscar ponto específico
@@ -478,7 +969,8 @@ export class AttendanceController {
         req.params.id,
         hospitalId,
         useDiscount,
-        reason
+        reason,
+        this.extractActor(req)
       );
 
       res.json({
@@ -543,7 +1035,8 @@ export class AttendanceController {
         req.params.shiftId,
         hospitalId,
         useDiscount,
-        reason
+        reason,
+        this.extractActor(req)
       );
 
       res.json({
@@ -624,9 +1117,9 @@ export class AttendanceController {
 
   /**
    * GET /attendances/missing
-   * Listar pontos faltando (IN sem OUT)
+   * Listar plantões com ponto faltando (no-show, IN sem OUT, OUT sem IN)
    * 
-   * Query: { shiftId?: string }
+   * Query: { shiftId?: string, startDate?: string, endDate?: string, page?: number, limit?: number }
    */
   async listMissingPunches(req: Request, res: Response): Promise<void> {
     try {
@@ -635,6 +1128,10 @@ export class AttendanceController {
       const userId = req.query.userId as string;
       const role = req.query.role as string;
       const shiftId = req.query.shiftId as string;
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
 
       if (!userId || !role) {
         res.status(400).json({
@@ -645,20 +1142,33 @@ export class AttendanceController {
         return;
       }
 
+      if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+        throw new AppError(400, "startDate/endDate devem estar no formato YYYY-MM-DD");
+      }
+
       const missingPunches = await this.attendanceService.getMissingPunchesForUser(
         userId,
         role,
-        shiftId
+        { shiftId, startDate, endDate }
       );
 
+      const total = missingPunches.length;
+      const data = missingPunches.slice((page - 1) * limit, page * limit);
+
       res.json({
         success: true,
-        data: missingPunches,
-        total: missingPunches.length,
-        message: `${missingPunches.length} pontos faltando encontrados`,
+        data,
+        total,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        message: `${total} pontos faltando encontrados`,
       });
 
-      console.log(`🔍 [CONTROLLER] ${missingPunches.length} pontos faltando`);
+      console.log(`🔍 [CONTROLLER] ${total} pontos faltando`);
     } catch (error: unknown) {
       console.error(`❌ [CONTROLLER] Erro ao listar pontos faltando:`, error);
       
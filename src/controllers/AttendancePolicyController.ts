@@ -0,0 +1,154 @@
+import { Response } from "express";
+import { AttendancePolicyService } from "../services/AttendancePolicyService";
+import { CreateAttendancePolicyDTO, UpdateAttendancePolicyDTO } from "../dto";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { AppError } from "../errors/AppError";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * Controller de Políticas de Attendance (admin)
+ * 
+ * - Toda alteração gera uma nova versão com data de vigência (effectiveFrom)
+ * - Versões anteriores nunca são sobrescritas (auditoria)
+ */
+export class AttendancePolicyController {
+  constructor(private policyService: AttendancePolicyService) {}
+
+  /**
+   * POST /policies
+   * Criar política (versão 1) para um hospital ou unidade
+   */
+  async createPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      console.log(`📋 [CONTROLLER] POST /policies`);
+
+      const dto: CreateAttendancePolicyDTO = req.body;
+      const result = await this.policyService.createPolicy(dto, req.user?.id);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: "Política criada com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao criar política:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * GET /policies/:policyId
+   * Buscar política (versão em vigor e última versão)
+   */
+  async getPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      console.log(`🔍 [CONTROLLER] GET /policies/${req.params.policyId}`);
+
+      const result = await this.policyService.getPolicy(req.params.policyId);
+
+      res.json({
+        success: true,
+        data: result,
+        message: "Política encontrada",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao buscar política:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * PUT /policies/:policyId
+   * Atualizar política (cria nova versão)
+   */
+  async updatePolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      console.log(`📋 [CONTROLLER] PUT /policies/${req.params.policyId}`);
+
+      const dto: UpdateAttendancePolicyDTO = req.body;
+      const result = await this.policyService.updatePolicy(
+        req.params.policyId,
+        dto,
+        req.user?.id
+      );
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Política atualizada (versão ${result.version})`,
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao atualizar política:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * GET /policies/hospital/:hospitalId
+   * Listar políticas de um hospital
+   */
+  async listByHospital(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      console.log(`📋 [CONTROLLER] GET /policies/hospital/${req.params.hospitalId}`);
+
+      const result = await this.policyService.listForHospital(req.params.hospitalId);
+
+      res.json({
+        success: true,
+        data: result,
+        total: result.length,
+        message: "Políticas listadas com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao listar políticas:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+
+  /**
+   * GET /policies/:policyId/versions
+   * Histórico de versões de uma política
+   */
+  async listVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      console.log(`📜 [CONTROLLER] GET /policies/${req.params.policyId}/versions`);
+
+      const result = await this.policyService.listVersions(req.params.policyId);
+
+      res.json({
+        success: true,
+        data: result,
+        total: result.length,
+        message: "Histórico de versões listado com sucesso",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro ao listar versões da política:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+}
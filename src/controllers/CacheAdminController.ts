@@ -0,0 +1,43 @@
+import { Response } from "express";
+import { CacheResyncService } from "../services/CacheResyncService";
+import { CacheResyncDTO } from "../dto";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { AppError } from "../errors/AppError";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * Controller de administração do cache (admin)
+ *
+ * - Resync manual dos caches de Shift e User a partir dos snapshots dos serviços de origem
+ */
+export class CacheAdminController {
+  constructor(private resyncService: CacheResyncService) {}
+
+  /**
+   * POST /admin/cache/resync
+   * Repopular cache de shifts e/ou users
+   */
+  async resync(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const dto: CacheResyncDTO = req.body;
+      console.log(`🔄 [CONTROLLER] POST /admin/cache/resync (por ${req.user?.id})`);
+
+      const result = await this.resyncService.resync(dto.targets);
+      const failed = [result.shifts, result.users].some((target) => target?.error);
+
+      res.json({
+        success: !failed,
+        data: result,
+        message: failed ? "Resync concluído com falhas" : "Resync do cache concluído",
+      });
+    } catch (error: unknown) {
+      console.error(`❌ [CONTROLLER] Erro no resync do cache:`, error);
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+}
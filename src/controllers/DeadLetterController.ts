@@ -0,0 +1,89 @@
+import { Response } from "express";
+import { DeadLetterService, DeadLetterSource, DEAD_LETTER_SOURCES } from "../services/DeadLetterService";
+import { DeadLetterReplayDTO } from "../dto";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { AppError } from "../errors/AppError";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * Controller de dead-letter das queues de sync (admin)
+ *
+ * - Listar, inspecionar e reprocessar mensagens que esgotaram as retentativas
+ */
+export class DeadLetterController {
+  constructor(private deadLetterService: DeadLetterService) {}
+
+  /**
+   * GET /admin/dead-letters/:source
+   * Listar mensagens da DLQ (shift | user)
+   */
+  async list(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const source = this.parseSource(req.params.source);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 500);
+      console.log(`☠️ [CONTROLLER] GET /admin/dead-letters/${source}`);
+
+      const result = await this.deadLetterService.list(source, limit);
+
+      res.json({ success: true, data: result });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao listar dead-letters");
+    }
+  }
+
+  /**
+   * GET /admin/dead-letters/:source/:messageId
+   * Inspecionar uma mensagem da DLQ
+   */
+  async get(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const source = this.parseSource(req.params.source);
+      console.log(`☠️ [CONTROLLER] GET /admin/dead-letters/${source}/${req.params.messageId}`);
+
+      const message = await this.deadLetterService.get(source, req.params.messageId);
+
+      res.json({ success: true, data: message });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao buscar dead-letter");
+    }
+  }
+
+  /**
+   * POST /admin/dead-letters/:source/replay
+   * Reenviar mensagens da DLQ para a queue original
+   */
+  async replay(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const source = this.parseSource(req.params.source);
+      const dto: DeadLetterReplayDTO = req.body;
+      console.log(`🔁 [CONTROLLER] POST /admin/dead-letters/${source}/replay (por ${req.user?.id})`);
+
+      const result = await this.deadLetterService.replay(source, dto.messageIds);
+
+      res.json({
+        success: true,
+        data: result,
+        message: `${result.replayed.length} mensagem(ns) reenviada(s)`,
+      });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro no replay de dead-letters");
+    }
+  }
+
+  private parseSource(source: string): DeadLetterSource {
+    if (!DEAD_LETTER_SOURCES.includes(source as DeadLetterSource)) {
+      throw new AppError(400, `Origem inválida: ${source} (use ${DEAD_LETTER_SOURCES.join(" ou ")})`);
+    }
+    return source as DeadLetterSource;
+  }
+
+  private handleError(res: Response, error: unknown, context: string): void {
+    console.error(`❌ [CONTROLLER] ${context}:`, error);
+
+    res.status((error instanceof AppError ? error.code : null) || 500).json({
+      success: false,
+      error: getErrorMessage(error) || "Erro interno do servidor",
+      code: (error instanceof AppError ? error.code : null) || 500,
+    });
+  }
+}
@@ -0,0 +1,134 @@
+import { Response } from "express";
+import { FaceEnrollmentService } from "../services/FaceEnrollmentService";
+import { FaceEnrollmentResetDTO, UploadedPhoto } from "../dto";
+import { AuthenticatedRequest } from "../middleware/authMiddleware";
+import { AppError } from "../errors/AppError";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * Controller de cadastro facial
+ *
+ * - Médico: cadastrar, recadastrar e consultar a própria face de referência
+ * - Admin: consultar e remover (reset) o cadastro de um médico
+ */
+export class FaceEnrollmentController {
+  constructor(private enrollmentService: FaceEnrollmentService) {}
+
+  /**
+   * POST /faces/enroll
+   * Cadastrar a face do médico autenticado (foto via multipart no campo "photo")
+   */
+  async enroll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+      console.log(`🙂 [CONTROLLER] POST /faces/enroll - ${userId}`);
+
+      const enrollment = await this.enrollmentService.enroll(userId, this.getPhoto(req));
+
+      res.status(201).json({
+        success: true,
+        data: enrollment,
+        message: "Face cadastrada com sucesso",
+      });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao cadastrar face");
+    }
+  }
+
+  /**
+   * PUT /faces/enroll
+   * Recadastrar a face do médico autenticado
+   */
+  async reenroll(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+      console.log(`🔄 [CONTROLLER] PUT /faces/enroll - ${userId}`);
+
+      const enrollment = await this.enrollmentService.reenroll(userId, this.getPhoto(req));
+
+      res.json({
+        success: true,
+        data: enrollment,
+        message: "Face recadastrada com sucesso",
+      });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao recadastrar face");
+    }
+  }
+
+  /**
+   * GET /faces/enroll
+   * Situação do cadastro do médico autenticado
+   */
+  async getMine(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const enrollment = await this.enrollmentService.getStatus(this.getUserId(req));
+      res.json({ success: true, data: enrollment });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao consultar cadastro facial");
+    }
+  }
+
+  /**
+   * GET /admin/faces/:userId
+   * Situação do cadastro de um médico (admin)
+   */
+  async getForUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const enrollment = await this.enrollmentService.getStatus(req.params.userId);
+      res.json({ success: true, data: enrollment });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao consultar cadastro facial");
+    }
+  }
+
+  /**
+   * POST /admin/faces/:userId/reset
+   * Remover o cadastro de um médico (ele precisará cadastrar novamente)
+   */
+  async reset(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const dto: FaceEnrollmentResetDTO = req.body;
+      console.log(`🗑️ [CONTROLLER] POST /admin/faces/${req.params.userId}/reset (por ${req.user?.id})`);
+
+      const enrollment = await this.enrollmentService.reset(req.params.userId, req.user?.id ?? null, dto.reason);
+
+      res.json({
+        success: true,
+        data: enrollment,
+        message: "Cadastro facial removido. O médico precisa cadastrar a face novamente",
+      });
+    } catch (error: unknown) {
+      this.handleError(res, error, "Erro ao remover cadastro facial");
+    }
+  }
+
+  private getUserId(req: AuthenticatedRequest): string {
+    if (!req.user?.id) {
+      throw new AppError(401, "Usuário não autenticado");
+    }
+    return req.user.id;
+  }
+
+  private getPhoto(req: AuthenticatedRequest): UploadedPhoto {
+    if (!req.file) {
+      throw new AppError(400, "A foto é obrigatória (campo \"photo\")");
+    }
+    return {
+      buffer: req.file.buffer,
+      mimetype: req.file.mimetype,
+      originalname: req.file.originalname,
+      size: req.file.size,
+    };
+  }
+
+  private handleError(res: Response, error: unknown, context: string): void {
+    console.error(`❌ [CONTROLLER] ${context}:`, error);
+
+    res.status((error instanceof AppError ? error.code : null) || 500).json({
+      success: false,
+      error: getErrorMessage(error) || "Erro interno do servidor",
+      code: (error instanceof AppError ? error.code : null) || 500,
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import { Request, Response } from "express";
+import { LocalPhotoStorage } from "../services/storage/LocalPhotoStorage";
+import { isValidPhotoKey } from "../services/storage/photoKey";
+import { AppError } from "../errors/AppError";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * Controller de fotos (driver fs)
+ *
+ * - Serve fotos do storage local mediante URL assinada (HMAC + expiração)
+ */
+export class PhotoController {
+  constructor(private storage: LocalPhotoStorage) {}
+
+  /**
+   * GET /photos/:key?expires=&signature=
+   * Servir foto com URL assinada
+   */
+  async getPhoto(req: Request, res: Response): Promise<void> {
+    try {
+      const key = req.params.key;
+      const expires = Number(req.query.expires);
+      const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+
+      if (!isValidPhotoKey(key)) {
+        throw new AppError(404, "Foto não encontrada");
+      }
+
+      const check = this.storage.verifySignature(key, expires, signature);
+      if (check !== "valid") {
+        throw new AppError(403, check === "expired" ? "URL da foto expirada" : "Assinatura da URL inválida");
+      }
+
+      const photo = await this.storage.get(key);
+      if (!photo) {
+        throw new AppError(404, "Foto não encontrada");
+      }
+
+      const maxAge = Math.max(expires - Math.floor(Date.now() / 1000), 0);
+      res.set({
+        "Content-Type": photo.contentType,
+        "Cache-Control": `private, max-age=${maxAge}`,
+        "X-Content-Type-Options": "nosniff",
+      });
+      res.send(photo.body);
+    } catch (error: unknown) {
+      if (!(error instanceof AppError)) {
+        console.error(`❌ [CONTROLLER] Erro ao servir foto:`, error);
+      }
+
+      res.status((error instanceof AppError ? error.code : null) || 500).json({
+        success: false,
+        error: getErrorMessage(error) || "Erro interno do servidor",
+        code: (error instanceof AppError ? error.code : null) || 500,
+      });
+    }
+  }
+}
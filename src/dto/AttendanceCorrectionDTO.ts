@@ -0,0 +1,110 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { PunchDirection } from "../entities/Attendance";
+import { CorrectionStatus } from "../entities/AttendanceCorrectionRequest";
+
+/**
+ * Limite de evidências por solicitação
+ */
+export const CORRECTION_MAX_EVIDENCES = 10;
+
+/**
+ * DTO para solicitação de correção de ponto (médico)
+ * - Sem attendanceId: ponto esquecido (MISSING_PUNCH)
+ * - Com attendanceId: ajuste de horário (ADJUST_TIMESTAMP)
+ */
+export class CreateAttendanceCorrectionDTO {
+  @IsNotEmpty({ message: "O ID do plantão é obrigatório" })
+  @IsUUID("all", { message: "shiftId deve ser um UUID" })
+  shiftId!: string;
+
+  @IsIn(["IN", "OUT"], { message: "type deve ser IN ou OUT" })
+  type!: PunchDirection;
+
+  @IsNotEmpty({ message: "O horário proposto é obrigatório" })
+  @IsDateString({}, { message: "proposedTimestamp deve estar no formato ISO 8601" })
+  proposedTimestamp!: string;
+
+  @IsNotEmpty({ message: "A justificativa é obrigatória" })
+  @IsString()
+  @MaxLength(2000)
+  justification!: string;
+
+  @IsOptional()
+  @IsUUID("all", { message: "attendanceId deve ser um UUID" })
+  attendanceId?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-90, { message: "Latitude deve estar entre -90 e 90" })
+  @Max(90, { message: "Latitude deve estar entre -90 e 90" })
+  latitude?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-180, { message: "Longitude deve estar entre -180 e 180" })
+  @Max(180, { message: "Longitude deve estar entre -180 e 180" })
+  longitude?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(CORRECTION_MAX_EVIDENCES)
+  @IsString({ each: true })
+  evidenceUrls?: string[];
+}
+
+/**
+ * DTO para aprovação de correção (hospital)
+ */
+export class ApproveAttendanceCorrectionDTO {
+  @IsOptional()
+  @IsString()
+  hospitalId!: string; // Apenas admins; usuários de hospital usam o hospital do token
+
+  @IsOptional()
+  @IsBoolean()
+  applyDiscount?: boolean;
+
+  // ADJUST_TIMESTAMP: também aprovar o ponto ajustado (por padrão mantém o status atual)
+  @IsOptional()
+  @IsBoolean()
+  approveAttendance?: boolean;
+
+  @IsOptional()
+  @IsString()
+  reviewNote?: string;
+}
+
+/**
+ * DTO para negação de correção (hospital)
+ */
+export class DenyAttendanceCorrectionDTO {
+  @IsOptional()
+  @IsString()
+  hospitalId!: string; // Apenas admins; usuários de hospital usam o hospital do token
+
+  @IsNotEmpty({ message: "O motivo da negação é obrigatório" })
+  @IsString()
+  reviewNote!: string;
+}
+
+/**
+ * Filtros da fila de correções do hospital
+ */
+export interface ListAttendanceCorrectionsQuery {
+  hospitalId: string;
+  status?: CorrectionStatus;
+}
@@ -38,6 +38,11 @@ export interface FaceVerificationData {
   confidence: number;
   message: string;
   requiredConfidence: number;
+  liveness?: {
+    passed: boolean;
+    gesture: string;
+    message: string;
+  };
 }
 
 /**
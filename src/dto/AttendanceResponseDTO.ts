@@ -1,4 +1,6 @@
 import { AttendanceStatus, AttendanceType } from '../entities/Attendance';
+import { MatchedDiscountRule } from '../types/discountRules.types';
+import type { FaceVerificationOutcome } from './CreateAttendanceDTO';
 
 /**
  * DTO para resposta de attendance
@@ -12,8 +14,7 @@ export class AttendanceResponseDTO {
   reason?: string; // Motivo fornecido pelo USUÁRIO (médico)
   statusReason?: string; // Motivo gerado pelo SISTEMA (automático)
   status!: AttendanceStatus;
-  photoS3Key?: string;
-  photoSignedUrl?: string | null;
+  photoSignedUrl?: string | null; // URL temporária da foto (a key do storage não é exposta)
   createdAt!: Date;
   updatedAt!: Date;
 
@@ -23,6 +24,10 @@ export class AttendanceResponseDTO {
   hasAutomaticDiscount!: boolean;
   discountPercentage!: number;
   approvedWithDiscount!: boolean;
+  discountRule?: MatchedDiscountRule | null; // Regra de desconto aplicada
+
+  // Versão da política aplicada no registro (null = política padrão)
+  policyVersionId?: string | null;
 
   // Relações
   doctor?: {
@@ -56,12 +61,8 @@ export class AttendanceResponseDTO {
     };
   };
 
-  // Informações de verificação facial
-  faceVerification?: {
-    verified: boolean;
-    confidence: number;
-    message: string;
-  };
+  // Verificação facial registrada com o ponto (null = sem useFaceRecognition)
+  faceVerification?: FaceVerificationOutcome | null;
 
   // Debug info (opcional)
   debug?: {
@@ -0,0 +1,106 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { AttendanceStatus } from "../entities/Attendance";
+
+/**
+ * Limite de registros por operação em lote
+ */
+export const BULK_DECISION_MAX_ITEMS = 500;
+
+/**
+ * Filtro para seleção de pontos PENDING em lote
+ */
+export class BulkAttendanceFilterDTO {
+  @IsOptional()
+  @IsDateString({}, { message: "date deve estar no formato YYYY-MM-DD" })
+  date?: string;
+
+  @IsOptional()
+  @IsString()
+  statusReason?: string; // Trecho do motivo gerado pelo sistema (ex.: "Fora da área")
+}
+
+/**
+ * DTO para aprovação em lote (IDs ou filtro)
+ */
+export class BulkApproveAttendancesDTO {
+  @IsOptional()
+  @IsString()
+  hospitalId!: string; // Apenas admins; usuários de hospital usam o hospital do token
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty({ message: "attendanceIds não pode ser vazio" })
+  @ArrayMaxSize(BULK_DECISION_MAX_ITEMS)
+  @IsUUID("all", { each: true })
+  attendanceIds?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkAttendanceFilterDTO)
+  filter?: BulkAttendanceFilterDTO;
+
+  @IsOptional()
+  @IsBoolean()
+  applyDiscount?: boolean;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+/**
+ * DTO para rejeição em lote (IDs ou filtro)
+ */
+export class BulkRejectAttendancesDTO {
+  @IsOptional()
+  @IsString()
+  hospitalId!: string; // Apenas admins; usuários de hospital usam o hospital do token
+
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty({ message: "attendanceIds não pode ser vazio" })
+  @ArrayMaxSize(BULK_DECISION_MAX_ITEMS)
+  @IsUUID("all", { each: true })
+  attendanceIds?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => BulkAttendanceFilterDTO)
+  filter?: BulkAttendanceFilterDTO;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+/**
+ * Resultado por item de uma decisão em lote
+ */
+export interface BulkDecisionItemResultDTO {
+  attendanceId: string;
+  success: boolean;
+  status?: AttendanceStatus;
+  error?: string;
+  code?: number;
+}
+
+/**
+ * Resultado de uma decisão em lote
+ */
+export interface BulkDecisionResultDTO {
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BulkDecisionItemResultDTO[];
+}
@@ -0,0 +1,14 @@
+import { ArrayNotEmpty, IsArray, IsIn, IsOptional } from "class-validator";
+import type { CacheResyncTarget } from "../services/CacheResyncService";
+
+/**
+ * DTO para resync manual do cache (admin)
+ * Sem targets: resync de shifts e users
+ */
+export class CacheResyncDTO {
+  @IsOptional()
+  @IsArray({ message: "targets deve ser uma lista" })
+  @ArrayNotEmpty({ message: "targets não pode ser vazio" })
+  @IsIn(["shifts", "users"], { each: true, message: "targets aceita apenas shifts e users" })
+  targets?: CacheResyncTarget[];
+}
@@ -8,6 +8,27 @@ export enum AttendanceType {
   OUT = 'OUT'
 }
 
+/**
+ * Foto recebida via multipart (campo "photo", ver middleware/upload.ts)
+ */
+export interface UploadedPhoto {
+  buffer: Buffer;
+  mimetype: string;
+  originalname?: string;
+  size?: number;
+}
+
+/**
+ * Resultado da verificação facial feita no controller (antes do registro)
+ */
+export interface FaceVerificationOutcome {
+  verified: boolean;
+  confidence: number;
+  requiredConfidence: number;
+  attempts: number;
+  livenessPassed?: boolean; // Prova de vida (ausente quando não exigida)
+}
+
 /**
  * DTO para criação de attendance (registro de ponto)
  */
@@ -35,18 +56,20 @@ export class CreateAttendanceDTO {
   @Max(180, { message: "Longitude deve estar entre -180 e 180" })
   longitude!: number;
 
-  @IsNotEmpty({ message: "A foto é obrigatória" })
-  photo!: {
-    buffer: Buffer;
-    mimetype: string;
-    originalname?: string;
-  };
+  // Opcional, exceto quando o ponto exige verificação facial
+  @IsOptional()
+  photo?: UploadedPhoto;
 
   @IsOptional()
   @IsString()
   reason?: string;
 
+  // Só pede a verificação facial; com cadastro ativo ou FACE_RECOGNITION_REQUIRED ela é obrigatória
   @IsOptional()
   @IsBoolean()
   useFaceRecognition?: boolean;
+
+  // Preenchido pelo controller quando há verificação facial (não vem do cliente)
+  @IsOptional()
+  faceVerification?: FaceVerificationOutcome;
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString } from "class-validator";
+
+/**
+ * DTO para solicitar desafio de prova de vida antes do ponto
+ * O nonce fica vinculado ao médico e ao plantão
+ */
+export class CreateLivenessChallengeDTO {
+  @IsNotEmpty({ message: "O ID do médico é obrigatório" })
+  @IsString()
+  doctorId!: string;
+
+  @IsNotEmpty({ message: "O ID do plantão é obrigatório" })
+  @IsString()
+  shiftId!: string;
+}
@@ -0,0 +1,14 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsOptional, IsString } from "class-validator";
+
+/**
+ * DTO para replay de mensagens da DLQ (admin)
+ * Sem messageIds: reprocessa todas as mensagens da DLQ
+ */
+export class DeadLetterReplayDTO {
+  @IsOptional()
+  @IsArray({ message: "messageIds deve ser uma lista" })
+  @ArrayNotEmpty({ message: "messageIds não pode ser vazio" })
+  @ArrayMaxSize(500, { message: "messageIds aceita no máximo 500 itens" })
+  @IsString({ each: true, message: "messageIds deve conter apenas strings" })
+  messageIds?: string[];
+}
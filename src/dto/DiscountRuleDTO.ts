@@ -0,0 +1,84 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import {
+  DiscountRuleAppliesTo,
+  DiscountRuleMode,
+  DiscountValueKind,
+} from "../types/discountRules.types";
+
+/**
+ * DTO de uma faixa de atraso (limites inclusivos, em minutos)
+ */
+export class DiscountTierDTO {
+  @IsInt()
+  @Min(0, { message: "fromMinutes não pode ser negativo" })
+  fromMinutes!: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0, { message: "toMinutes não pode ser negativo" })
+  toMinutes?: number | null;
+
+  @IsNumber()
+  @Min(0, { message: "O valor da faixa não pode ser negativo" })
+  value!: number;
+}
+
+/**
+ * DTO de uma regra de desconto por atraso
+ */
+export class DiscountRuleDTO {
+  @IsNotEmpty({ message: "O id da regra é obrigatório" })
+  @IsString()
+  id!: string;
+
+  @IsIn(["IN", "OUT", "ANY"], { message: "appliesTo deve ser IN, OUT ou ANY" })
+  appliesTo!: DiscountRuleAppliesTo;
+
+  @IsOptional()
+  @IsString()
+  specialty?: string | null;
+
+  @IsIn(["TIERED", "INCREMENTAL"], { message: "mode deve ser TIERED ou INCREMENTAL" })
+  mode!: DiscountRuleMode;
+
+  @IsIn(["PERCENTAGE", "FLAT"], { message: "kind deve ser PERCENTAGE ou FLAT" })
+  kind!: DiscountValueKind;
+
+  @ValidateIf((rule: DiscountRuleDTO) => rule.mode === "TIERED")
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DiscountTierDTO)
+  tiers?: DiscountTierDTO[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  graceMinutes?: number;
+
+  @ValidateIf((rule: DiscountRuleDTO) => rule.mode === "INCREMENTAL")
+  @IsInt()
+  @Min(1, { message: "incrementMinutes deve ser maior que zero" })
+  incrementMinutes?: number;
+
+  @ValidateIf((rule: DiscountRuleDTO) => rule.mode === "INCREMENTAL")
+  @IsNumber()
+  @Min(0)
+  incrementValue?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxValue?: number;
+}
@@ -0,0 +1,11 @@
+import { IsOptional, IsString, MaxLength } from "class-validator";
+
+/**
+ * DTO para reset do cadastro facial de um médico (admin)
+ */
+export class FaceEnrollmentResetDTO {
+  @IsOptional()
+  @IsString({ message: "O motivo deve ser um texto" })
+  @MaxLength(500, { message: "O motivo deve ter no máximo 500 caracteres" })
+  reason?: string;
+}
@@ -0,0 +1,64 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { DiscountRuleDTO } from "./DiscountRuleDTO";
+
+/**
+ * DTO para atualização de política de attendance
+ * Toda atualização gera uma nova versão; campos omitidos são herdados da versão anterior
+ */
+export class UpdateAttendancePolicyDTO {
+  @IsOptional()
+  @IsInt()
+  @Min(0, { message: "maxDistanceMeters não pode ser negativo" })
+  maxDistanceMeters?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0, { message: "outTimeWindowMs não pode ser negativo" })
+  outTimeWindowMs?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  useDistance?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  useTimeWindow?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @IsUUID("all", { each: true })
+  excludedMedicIds?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => DiscountRuleDTO)
+  discountRules?: DiscountRuleDTO[];
+
+  // Omitido = pipeline padrão; lista vazia é recusada (deixaria todo ponto em revisão manual)
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty({ message: "validationStrategies não pode ser vazio (omita para usar o pipeline padrão)" })
+  @IsString({ each: true })
+  validationStrategies?: string[];
+
+  @IsOptional()
+  @IsDateString({}, { message: "effectiveFrom deve ser uma data ISO 8601" })
+  effectiveFrom?: string;
+
+  @IsOptional()
+  @IsString()
+  changeReason?: string;
+}
\ No newline at end of file
@@ -1,10 +1,32 @@
 // DTO Exports
 export { CreateAttendanceDTO } from './CreateAttendanceDTO';
+export type { UploadedPhoto, FaceVerificationOutcome } from './CreateAttendanceDTO';
 export { AttendanceResponseDTO } from './AttendanceResponseDTO';
 export { ApproveAttendanceDTO } from './ApproveAttendanceDTO';
 export { RejectAttendanceDTO } from './RejectAttendanceDTO';
 export { ListAttendancesDTO } from './ListAttendancesDTO';
 export { ToggleDiscountDTO } from './ToggleDiscountDTO';
+export { CreateAttendancePolicyDTO } from './CreateAttendancePolicyDTO';
+export { UpdateAttendancePolicyDTO } from './UpdateAttendancePolicyDTO';
+export { DiscountRuleDTO, DiscountTierDTO } from './DiscountRuleDTO';
+export {
+  BulkApproveAttendancesDTO,
+  BulkRejectAttendancesDTO,
+  BulkAttendanceFilterDTO,
+  BULK_DECISION_MAX_ITEMS,
+} from './BulkAttendanceDecisionDTO';
+export type { BulkDecisionResultDTO, BulkDecisionItemResultDTO } from './BulkAttendanceDecisionDTO';
+export {
+  CreateAttendanceCorrectionDTO,
+  ApproveAttendanceCorrectionDTO,
+  DenyAttendanceCorrectionDTO,
+  CORRECTION_MAX_EVIDENCES,
+} from './AttendanceCorrectionDTO';
+export type { ListAttendanceCorrectionsQuery } from './AttendanceCorrectionDTO';
+export { CacheResyncDTO } from './CacheResyncDTO';
+export { DeadLetterReplayDTO } from './DeadLetterReplayDTO';
+export { FaceEnrollmentResetDTO } from './FaceEnrollmentResetDTO';
+export { CreateLivenessChallengeDTO } from './CreateLivenessChallengeDTO';
 
 // Types and Enums (re-export from entities)
 export { AttendanceType, AttendanceStatus } from '../entities/Attendance';
\ No newline at end of file
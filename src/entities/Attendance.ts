@@ -6,10 +6,25 @@ import {
   UpdateDateColumn,
   Index,
 } from "typeorm";
+import { MatchedDiscountRule } from "../types/discountRules.types";
 
 export type AttendanceType = "IN" | "OUT" | "LATE_IN" | "LATE_OUT";
 export type AttendanceStatus = "PENDING" | "APPROVED" | "REJECTED";
 
+/**
+ * Sentido do ponto (LATE_IN/LATE_OUT = registrados depois, via correção aprovada)
+ */
+export type PunchDirection = "IN" | "OUT";
+
+export const PUNCH_TYPES_BY_DIRECTION: Record<PunchDirection, AttendanceType[]> = {
+  IN: ["IN", "LATE_IN"],
+  OUT: ["OUT", "LATE_OUT"],
+};
+
+export function getPunchDirection(type: AttendanceType): PunchDirection {
+  return type === "IN" || type === "LATE_IN" ? "IN" : "OUT";
+}
+
 @Index("ux_attendance_doctor_shift_type", ["doctorId", "shiftId", "type"], {
   unique: true,
 })
@@ -49,6 +64,22 @@ export class Attendance {
   @Column({ type: "text", nullable: true })
   photoS3Key?: string;
 
+  // Verificação facial (null = ponto registrado sem useFaceRecognition)
+  @Column({ type: "boolean", nullable: true })
+  faceVerified?: boolean | null;
+
+  @Column({ type: "decimal", precision: 5, scale: 4, nullable: true })
+  faceConfidence?: number | null; // Confiança retornada pelo face-recognition-service (0-1)
+
+  @Column({ type: "decimal", precision: 5, scale: 4, nullable: true })
+  faceRequiredConfidence?: number | null; // Limiar exigido no momento do ponto
+
+  @Column({ type: "boolean", nullable: true })
+  faceLivenessPassed?: boolean | null; // Prova de vida (null = não exigida)
+
+  @Column({ type: "smallint", default: 0 })
+  faceVerificationAttempts!: number; // Tentativas de verificação para este ponto (inclui a aceita)
+
   @Column({ type: "text", nullable: true })
   reason?: string; // Motivo fornecido pelo USUÁRIO (médico)
 
@@ -78,6 +109,13 @@ export class Attendance {
   @Column({ type: "boolean", default: false })
   approvedWithDiscount!: boolean; // Se foi aprovado com desconto
 
+  @Column({ type: "jsonb", nullable: true })
+  discountRule?: MatchedDiscountRule | null; // Regra de desconto que casou com o ponto
+
+  // Versão da política aplicada no momento do ponto (null = política padrão global)
+  @Column({ type: "uuid", nullable: true })
+  policyVersionId?: string | null;
+
   @CreateDateColumn() 
   createdAt!: Date;
   
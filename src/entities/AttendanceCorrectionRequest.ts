@@ -0,0 +1,86 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { PunchDirection } from "./Attendance";
+
+/**
+ * Tipo da correção
+ * - MISSING_PUNCH: médico esqueceu de bater o ponto (cria LATE_IN/LATE_OUT)
+ * - ADJUST_TIMESTAMP: corrige o horário de um ponto existente
+ */
+export type CorrectionKind = "MISSING_PUNCH" | "ADJUST_TIMESTAMP";
+
+export type CorrectionStatus = "PENDING" | "APPROVED" | "DENIED";
+
+/**
+ * Solicitação de correção de ponto feita pelo médico
+ * Revisada (aprovada/negada) pela equipe do hospital
+ */
+@Index("ix_attendance_correction_hospital_status", ["hospitalId", "status"])
+@Index("ix_attendance_correction_doctor", ["doctorId", "createdAt"])
+@Entity("attendance_correction_request")
+export class AttendanceCorrectionRequest {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  // Referências por ID (shift/hospital vêm do cache)
+  @Column("uuid")
+  doctorId!: string;
+
+  @Column("uuid")
+  shiftId!: string;
+
+  @Column("uuid")
+  hospitalId!: string;
+
+  @Column({ type: "uuid", nullable: true })
+  attendanceId!: string | null; // Ponto a ajustar (ADJUST_TIMESTAMP)
+
+  @Column({ type: "varchar", length: 32 })
+  kind!: CorrectionKind;
+
+  @Column({ type: "varchar", length: 3 })
+  direction!: PunchDirection; // IN ou OUT
+
+  @Column("timestamptz")
+  proposedTimestamp!: Date;
+
+  @Column("decimal", { precision: 10, scale: 7, nullable: true })
+  latitude!: number | null;
+
+  @Column("decimal", { precision: 10, scale: 7, nullable: true })
+  longitude!: number | null;
+
+  @Column("text")
+  justification!: string;
+
+  @Column({ type: "text", array: true, default: () => "'{}'" })
+  evidenceUrls!: string[]; // Evidências opcionais (links/chaves de arquivos)
+
+  @Column({ type: "varchar", length: 16, default: "PENDING" })
+  status!: CorrectionStatus;
+
+  // Revisão
+  @Column({ type: "uuid", nullable: true })
+  reviewedBy!: string | null;
+
+  @Column({ type: "timestamptz", nullable: true })
+  reviewedAt!: Date | null;
+
+  @Column({ type: "text", nullable: true })
+  reviewNote!: string | null;
+
+  @Column({ type: "uuid", nullable: true })
+  resultingAttendanceId!: string | null; // Ponto criado/ajustado na aprovação
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
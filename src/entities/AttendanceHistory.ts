@@ -0,0 +1,60 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  Index,
+} from "typeorm";
+
+export type AttendanceHistoryAction =
+  | "CREATED"
+  | "APPROVED"
+  | "REJECTED"
+  | "DISCOUNT_TOGGLED"
+  | "CORRECTED";
+
+/**
+ * Alteração de um campo auditado
+ */
+export interface AttendanceFieldChange {
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+/**
+ * Trilha de auditoria de attendance (append-only)
+ *
+ * Uma linha por mutação: quem fez, o quê, diff antes/depois, quando e de onde.
+ * Exigência de compliance dos hospitais para disputas de pagamento.
+ */
+@Index("ix_attendance_history_attendance", ["attendanceId", "createdAt"])
+@Entity("attendance_history")
+export class AttendanceHistory {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column("uuid")
+  attendanceId!: string;
+
+  @Column({ type: "varchar", length: 32 })
+  action!: AttendanceHistoryAction;
+
+  // Ator (null = sistema / requisição sem autenticação)
+  @Column({ type: "uuid", nullable: true })
+  actorId!: string | null;
+
+  @Column({ type: "varchar", length: 50, nullable: true })
+  actorRole!: string | null;
+
+  @Column({ type: "jsonb", default: () => "'{}'" })
+  changes!: Record<string, AttendanceFieldChange>; // Apenas campos alterados
+
+  @Column({ type: "text", nullable: true })
+  reason!: string | null; // Justificativa informada na ação
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  ip!: string | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  createdAt!: Date;
+}
@@ -0,0 +1,62 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * Situação de um plantão com ponto faltando
+ * - NO_SHOW: nenhum ponto após o início do plantão (+ tolerância)
+ * - MISSING_IN: OUT registrado sem IN
+ * - MISSING_OUT: IN registrado sem OUT após o fim do plantão (+ tolerância)
+ */
+export type MissingAttendanceStatus = "NO_SHOW" | "MISSING_IN" | "MISSING_OUT";
+
+/**
+ * Falta detectada pelo job de no-show
+ *
+ * Uma linha por (plantão, médico, situação): o evento attendance.missing
+ * é publicado uma única vez por situação. Usado na conciliação de pagamentos.
+ */
+@Index("ux_attendance_no_show_shift_doctor_status", ["shiftId", "doctorId", "status"], {
+  unique: true,
+})
+@Index("ix_attendance_no_show_hospital", ["hospitalId", "shiftStart"])
+@Entity("attendance_no_show")
+export class AttendanceNoShow {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  // Referências por ID (shift/hospital vêm do cache)
+  @Column("uuid")
+  shiftId!: string;
+
+  @Column("uuid")
+  doctorId!: string;
+
+  @Column("uuid")
+  hospitalId!: string;
+
+  @Column({ type: "varchar", length: 16 })
+  status!: MissingAttendanceStatus;
+
+  @Column("timestamptz")
+  shiftStart!: Date;
+
+  @Column("timestamptz")
+  shiftEnd!: Date;
+
+  @Column({ type: "boolean", default: false })
+  hasInPunch!: boolean;
+
+  @Column({ type: "boolean", default: false })
+  hasOutPunch!: boolean;
+
+  @Column({ type: "boolean", default: false })
+  eventPublished!: boolean; // attendance.missing publicado
+
+  @CreateDateColumn({ type: "timestamptz" })
+  detectedAt!: Date;
+}
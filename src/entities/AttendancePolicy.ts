@@ -0,0 +1,78 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { DiscountRule } from "../types/discountRules.types";
+
+/**
+ * Versão de uma política de attendance negociada com o hospital
+ *
+ * Escopo:
+ * - healthUnitId = null → política do hospital inteiro
+ * - healthUnitId preenchido → sobrescreve a política do hospital para aquela unidade
+ *
+ * Versionamento:
+ * - Cada linha é uma versão imutável; todas as versões compartilham o mesmo policyId
+ * - A versão em vigor em um instante é a de maior effectiveFrom <= instante
+ */
+@Index("ix_attendance_policy_hospital_healthunit", ["hospitalId", "healthUnitId"])
+@Index("ux_attendance_policy_version", ["policyId", "version"], { unique: true })
+@Index("ux_attendance_policy_scope", { synchronize: false }) // Índice de expressão (migration 1729470000000)
+@Entity("attendance_policy")
+export class AttendancePolicy {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string; // ID da versão
+
+  @Column("uuid")
+  policyId!: string; // ID lógico da política (estável entre versões)
+
+  @Column({ type: "int", default: 1 })
+  version!: number;
+
+  @Column("timestamptz")
+  effectiveFrom!: Date; // A partir de quando esta versão vale
+
+  // Referências por ID (hospital e unidade vêm via RabbitMQ)
+  @Column("uuid")
+  hospitalId!: string;
+
+  @Column({ type: "uuid", nullable: true })
+  healthUnitId!: string | null;
+
+  @Column({ type: "int", default: 100 })
+  maxDistanceMeters!: number; // Tolerância fora da área demarcada
+
+  @Column({ type: "int", default: 4 * 60 * 60 * 1000 })
+  outTimeWindowMs!: number; // Janela aceita para check-out em torno do fim do plantão
+
+  @Column({ type: "boolean", default: false })
+  useDistance!: boolean;
+
+  @Column({ type: "boolean", default: true })
+  useTimeWindow!: boolean;
+
+  @Column({ type: "uuid", array: true, default: () => "'{}'" })
+  excludedMedicIds!: string[]; // Médicos excluídos da verificação de área
+
+  @Column({ type: "jsonb", nullable: true })
+  discountRules!: DiscountRule[] | null; // Regras de desconto por atraso (null = regra padrão)
+
+  @Column({ type: "text", array: true, nullable: true })
+  validationStrategies!: string[] | null; // Pipeline de validação do ponto (null = pipeline padrão)
+
+  @Column({ type: "uuid", nullable: true })
+  createdBy!: string | null; // Usuário que criou esta versão
+
+  @Column({ type: "text", nullable: true })
+  changeReason!: string | null; // Justificativa da mudança (auditoria)
+
+  @CreateDateColumn()
+  createdAt!: Date;
+
+  @UpdateDateColumn()
+  updatedAt!: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryColumn,
+} from "typeorm";
+
+/**
+ * Situação de um evento no outbox
+ * - PENDING: aguardando publicação (ou nova tentativa em nextAttemptAt)
+ * - SENT: publicado no RabbitMQ
+ */
+export type EventOutboxStatus = "PENDING" | "SENT";
+
+/**
+ * Evento de domínio aguardando publicação (transactional outbox)
+ *
+ * Gravado na mesma transação da mudança do attendance; o relay
+ * (OutboxRelayJob) publica no RabbitMQ com retentativas e marca como enviado.
+ * O id é o próprio id do evento (messageId no RabbitMQ).
+ */
+@Index("ix_event_outbox_pending", ["status", "nextAttemptAt"])
+@Entity("event_outbox")
+export class EventOutbox {
+  @PrimaryColumn("uuid")
+  id!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  eventType!: string;
+
+  @Column({ type: "varchar", length: 64 })
+  aggregateId!: string;
+
+  @Column({ type: "varchar", length: 32 })
+  aggregateType!: string;
+
+  @Column({ type: "varchar", length: 128 })
+  exchange!: string;
+
+  @Column({ type: "varchar", length: 128 })
+  routingKey!: string;
+
+  @Column({ type: "jsonb" })
+  payload!: Record<string, unknown>;
+
+  @Column({ type: "varchar", length: 16, default: "PENDING" })
+  status!: EventOutboxStatus;
+
+  @Column({ type: "int", default: 0 })
+  attempts!: number;
+
+  @Column({ type: "text", nullable: true })
+  lastError?: string | null;
+
+  @Column({ type: "timestamptz", default: () => "now()" })
+  nextAttemptAt!: Date;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  createdAt!: Date;
+
+  @Column({ type: "timestamptz", nullable: true })
+  sentAt?: Date | null;
+}
@@ -0,0 +1,61 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+
+/**
+ * Situação do cadastro facial
+ * - ENROLLED: face de referência cadastrada no face-recognition-service
+ * - RESET: cadastro removido por um admin (médico precisa cadastrar novamente)
+ */
+export type FaceEnrollmentStatus = "ENROLLED" | "RESET";
+
+/**
+ * Cadastro da face de referência de um usuário (médico)
+ *
+ * Uma linha por usuário. O descritor facial fica no face-recognition-service;
+ * aqui ficam a situação e a trilha do cadastro, usadas antes da verificação no ponto.
+ */
+@Index("ux_face_enrollment_user", ["userId"], { unique: true })
+@Entity("face_enrollment")
+export class FaceEnrollment {
+  @PrimaryGeneratedColumn("uuid")
+  id!: string;
+
+  @Column("uuid")
+  userId!: string;
+
+  @Column({ type: "varchar", length: 16 })
+  status!: FaceEnrollmentStatus;
+
+  @Column({ type: "varchar", length: 128, nullable: true })
+  faceId!: string | null; // ID da face no face-recognition-service
+
+  @Column({ type: "decimal", precision: 5, scale: 4, nullable: true })
+  detectionConfidence!: number | null; // Confiança da detecção na foto cadastrada
+
+  @Column({ type: "int", default: 0 })
+  enrollmentCount!: number; // Cadastros + recadastros realizados
+
+  @Column({ type: "timestamptz", nullable: true })
+  enrolledAt!: Date | null; // Último cadastro/recadastro
+
+  @Column({ type: "timestamptz", nullable: true })
+  resetAt!: Date | null;
+
+  @Column({ type: "uuid", nullable: true })
+  resetBy!: string | null; // Admin que removeu o cadastro
+
+  @Column({ type: "text", nullable: true })
+  resetReason!: string | null;
+
+  @CreateDateColumn({ type: "timestamptz" })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: "timestamptz" })
+  updatedAt!: Date;
+}
@@ -1,5 +1,26 @@
 // Entity Exports
-export { Attendance, AttendanceType, AttendanceStatus } from './Attendance';
+export {
+  Attendance,
+  AttendanceType,
+  AttendanceStatus,
+  PunchDirection,
+  PUNCH_TYPES_BY_DIRECTION,
+  getPunchDirection,
+} from './Attendance';
+export { AttendancePolicy } from './AttendancePolicy';
+export {
+  AttendanceHistory,
+  AttendanceHistoryAction,
+  AttendanceFieldChange,
+} from './AttendanceHistory';
+export {
+  AttendanceCorrectionRequest,
+  CorrectionKind,
+  CorrectionStatus,
+} from './AttendanceCorrectionRequest';
+export { AttendanceNoShow, MissingAttendanceStatus } from './AttendanceNoShow';
+export { EventOutbox, EventOutboxStatus } from './EventOutbox';
+export { FaceEnrollment, FaceEnrollmentStatus } from './FaceEnrollment';
 
 // Nota: Shift e UserAuth NÃO são entidades deste microserviço
 // Esses dados vêm via cache (ShiftCacheService, UserCacheService)
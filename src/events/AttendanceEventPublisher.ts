@@ -1,26 +1,56 @@
-import { rabbitMQ } from '@/messaging/RabbitMQConnection';
-import { AttendanceEvent, BaseEvent } from './types';
+import { EntityManager } from 'typeorm';
+import { messageBroker } from '@/messaging/MessageBroker';
+import { AppDataSource } from '@/config/database';
+import { EventOutbox } from '@/entities';
+import { EventOutboxRepository, IEventOutboxRepository } from '@/repositories/EventOutboxRepository';
+import { AttendanceEvent, AttendanceRecordedEvent, BaseEvent } from './types';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Event Publisher para eventos de Attendance
  * Publica eventos para outros microserviços
+ * 
+ * Com EntityManager: o evento é gravado no outbox (event_outbox) na mesma transação
+ * da mudança e publicado depois pelo OutboxRelayJob. Sem EntityManager: publicação direta.
  */
 export class AttendanceEventPublisher {
   private readonly exchange: string;
 
-  constructor() {
+  constructor(
+    private outbox: IEventOutboxRepository = new EventOutboxRepository(
+      AppDataSource.getRepository(EventOutbox)
+    )
+  ) {
     this.exchange = process.env.EXCHANGE_ATTENDANCE_EVENTS || 'attendance.events';
   }
 
   /**
-   * Publicar evento genérico
+   * Publicar evento genérico (ou gravar no outbox, se houver transação)
    */
-  private async publishEvent(event: AttendanceEvent): Promise<void> {
+  private async publishEvent(event: AttendanceEvent, manager?: EntityManager): Promise<void> {
+    if (manager) {
+      await this.outbox.enqueue(
+        [
+          {
+            id: event.id,
+            eventType: event.eventType,
+            aggregateId: event.aggregateId,
+            aggregateType: event.aggregateType,
+            exchange: this.exchange,
+            routingKey: event.eventType,
+            payload: event as unknown as Record<string, unknown>,
+          },
+        ],
+        manager
+      );
+      console.log(`📥 Evento gravado no outbox: ${event.eventType} (${event.aggregateId})`);
+      return;
+    }
+
     try {
       const routingKey = event.eventType;
       
-      await rabbitMQ.publish(
+      await messageBroker.publish(
         this.exchange,
         routingKey,
         event,
@@ -37,6 +67,18 @@ export class AttendanceEventPublisher {
     }
   }
 
+  /**
+   * Publicar evento gravado no outbox (usado pelo relay)
+   */
+  async publishOutboxEvent(row: EventOutbox): Promise<void> {
+    await messageBroker.publish(row.exchange, row.routingKey, row.payload, {
+      persistent: true,
+      messageId: row.id,
+    });
+
+    console.log(`📤 Evento publicado (outbox): ${row.eventType} (${row.aggregateId})`);
+  }
+
   /**
    * Publicar evento de ponto registrado
    */
@@ -54,8 +96,9 @@ export class AttendanceEventPublisher {
     discountPercentage: number;
     photoS3Key?: string;
     reason?: string;
+    faceVerification?: AttendanceRecordedEvent['data']['faceVerification'];
     correlationId?: string;
-  }): Promise<void> {
+  }, manager?: EntityManager): Promise<void> {
     const event: AttendanceEvent = {
       id: uuidv4(),
       eventType: 'attendance.recorded',
@@ -78,11 +121,12 @@ export class AttendanceEventPublisher {
         discountPercentage: data.discountPercentage,
         photoS3Key: data.photoS3Key,
         reason: data.reason,
+        faceVerification: data.faceVerification,
         createdAt: new Date().toISOString(),
       },
     };
 
-    await this.publishEvent(event);
+    await this.publishEvent(event, manager);
   }
 
   /**
@@ -98,7 +142,7 @@ export class AttendanceEventPublisher {
     finalShiftValue?: number;
     reason?: string;
     correlationId?: string;
-  }): Promise<void> {
+  }, manager?: EntityManager): Promise<void> {
     const event: AttendanceEvent = {
       id: uuidv4(),
       eventType: 'attendance.approved',
@@ -120,7 +164,7 @@ export class AttendanceEventPublisher {
       },
     };
 
-    await this.publishEvent(event);
+    await this.publishEvent(event, manager);
   }
 
   /**
@@ -133,7 +177,7 @@ export class AttendanceEventPublisher {
     hospitalId: string;
     reason?: string;
     correlationId?: string;
-  }): Promise<void> {
+  }, manager?: EntityManager): Promise<void> {
     const event: AttendanceEvent = {
       id: uuidv4(),
       eventType: 'attendance.rejected',
@@ -152,6 +196,97 @@ export class AttendanceEventPublisher {
       },
     };
 
+    await this.publishEvent(event, manager);
+  }
+
+  /**
+   * Publicar evento de ponto corrigido (correção aprovada pelo hospital)
+   */
+  async publishAttendanceCorrected(data: {
+    attendanceId: string;
+    correctionId: string;
+    shiftId: string;
+    doctorId: string;
+    hospitalId: string;
+    kind: 'MISSING_PUNCH' | 'ADJUST_TIMESTAMP';
+    type: 'IN' | 'OUT' | 'LATE_IN' | 'LATE_OUT';
+    previousTimestamp?: Date;
+    timestamp: Date;
+    status: 'PENDING' | 'APPROVED' | 'REJECTED';
+    isLate: boolean;
+    lateMinutes: number;
+    discountPercentage: number;
+    approvedBy?: string;
+    correlationId?: string;
+  }, manager?: EntityManager): Promise<void> {
+    const event: AttendanceEvent = {
+      id: uuidv4(),
+      eventType: 'attendance.corrected',
+      aggregateId: data.attendanceId,
+      aggregateType: 'attendance',
+      version: 1,
+      timestamp: new Date().toISOString(),
+      correlationId: data.correlationId,
+      data: {
+        id: data.attendanceId,
+        correctionId: data.correctionId,
+        shiftId: data.shiftId,
+        doctorId: data.doctorId,
+        hospitalId: data.hospitalId,
+        kind: data.kind,
+        type: data.type,
+        previousTimestamp: data.previousTimestamp?.toISOString(),
+        timestamp: data.timestamp.toISOString(),
+        status: data.status,
+        isLate: data.isLate,
+        lateMinutes: data.lateMinutes,
+        discountPercentage: data.discountPercentage,
+        approvedBy: data.approvedBy,
+        correctedAt: new Date().toISOString(),
+      },
+    };
+
+    await this.publishEvent(event, manager);
+  }
+
+  /**
+   * Publicar evento de falta detectada (job de no-show)
+   */
+  async publishAttendanceMissing(data: {
+    noShowId: string;
+    shiftId: string;
+    doctorId: string;
+    hospitalId: string;
+    status: 'NO_SHOW' | 'MISSING_IN' | 'MISSING_OUT';
+    hasInPunch: boolean;
+    hasOutPunch: boolean;
+    shiftStart: Date;
+    shiftEnd: Date;
+    detectedAt: Date;
+    correlationId?: string;
+  }): Promise<void> {
+    const event: AttendanceEvent = {
+      id: uuidv4(),
+      eventType: 'attendance.missing',
+      aggregateId: data.shiftId,
+      aggregateType: 'attendance',
+      version: 1,
+      timestamp: new Date().toISOString(),
+      correlationId: data.correlationId,
+      data: {
+        id: data.noShowId,
+        shiftId: data.shiftId,
+        doctorId: data.doctorId,
+        hospitalId: data.hospitalId,
+        status: data.status,
+        hasInPunch: data.hasInPunch,
+        hasOutPunch: data.hasOutPunch,
+        shiftStart: data.shiftStart.toISOString(),
+        shiftEnd: data.shiftEnd.toISOString(),
+        detectedAt: data.detectedAt.toISOString(),
+      },
+    };
+
     await this.publishEvent(event);
   }
 }
@@ -0,0 +1,152 @@
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { DomainEvent } from './types';
+import {
+  AttendanceApprovedEventV1,
+  AttendanceCorrectedEventV1,
+  AttendanceMissingEventV1,
+  AttendanceRecordedEventV1,
+  AttendanceRejectedEventV1,
+  HealthUnitCreatedEventV1,
+  HealthUnitDeletedEventV1,
+  HealthUnitUpdatedEventV1,
+  ShiftCreatedEventV1,
+  ShiftDeletedEventV1,
+  ShiftUpdatedEventV1,
+  UserCreatedEventV1,
+  UserDeletedEventV1,
+  UserUpdatedEventV1,
+} from './schemas';
+
+export type RawEvent = Record<string, unknown>;
+
+/**
+ * Converte um evento da versão N para a versão N + 1
+ */
+export type EventUpcaster = (event: RawEvent) => RawEvent;
+
+/**
+ * Contrato versionado de um eventType
+ * - schemas: classe class-validator por versão de schema
+ * - upcasters: upcasters[N] converte da versão N para N + 1
+ */
+export interface EventContract {
+  eventType: string;
+  currentVersion: number;
+  schemas: Record<number, new () => object>;
+  upcasters?: Record<number, EventUpcaster>;
+}
+
+export type EventValidationResult<T> =
+  | { valid: true; event: T; upcastedFrom?: number }
+  | { valid: false; errors: string[] };
+
+/**
+ * Achata os erros do class-validator em "caminho: mensagem"
+ */
+export function formatValidationErrors(errors: ValidationError[], parentPath: string = ''): string[] {
+  return errors.flatMap((error) => {
+    const path = parentPath ? `${parentPath}.${error.property}` : error.property;
+    const own = Object.values(error.constraints || {}).map((message) => `${path}: ${message}`);
+    return [...own, ...formatValidationErrors(error.children || [], path)];
+  });
+}
+
+/**
+ * Registro de contratos dos eventos de domínio
+ *
+ * Valida o payload na versão em que foi publicado (schemaVersion, padrão 1),
+ * aplica os upcasters até a versão atual e valida novamente o resultado.
+ * Campos extras são aceitos (tolerant reader); o evento retornado é o payload original/upcastado.
+ */
+export class EventSchemaRegistry {
+  private contracts: Map<string, EventContract> = new Map();
+
+  register(contract: EventContract): this {
+    for (let version = 1; version < contract.currentVersion; version++) {
+      if (contract.schemas[version] && !contract.upcasters?.[version]) {
+        throw new Error(`Upcaster ausente para ${contract.eventType} v${version} → v${version + 1}`);
+      }
+    }
+
+    this.contracts.set(contract.eventType, contract);
+    return this;
+  }
+
+  getContract(eventType: string): EventContract | undefined {
+    return this.contracts.get(eventType);
+  }
+
+  async validate<T = DomainEvent>(payload: unknown): Promise<EventValidationResult<T>> {
+    if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+      return { valid: false, errors: ['evento deve ser um objeto JSON'] };
+    }
+
+    let event = payload as RawEvent;
+    const eventType = event.eventType;
+    if (typeof eventType !== 'string') {
+      return { valid: false, errors: ['eventType: eventType é obrigatório'] };
+    }
+
+    const contract = this.contracts.get(eventType);
+    if (!contract) {
+      return { valid: false, errors: [`eventType: ${eventType} não possui contrato registrado`] };
+    }
+
+    const version = event.schemaVersion === undefined ? 1 : event.schemaVersion;
+    if (typeof version !== 'number' || !contract.schemas[version]) {
+      return {
+        valid: false,
+        errors: [`schemaVersion: versão ${String(version)} não suportada para ${eventType} (atual: ${contract.currentVersion})`],
+      };
+    }
+
+    const errors = await this.check(contract.schemas[version], event);
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    if (version === contract.currentVersion) {
+      return { valid: true, event: event as unknown as T };
+    }
+
+    for (let from = version; from < contract.currentVersion; from++) {
+      event = { ...contract.upcasters![from](event), schemaVersion: from + 1 };
+    }
+
+    const upcastErrors = await this.check(contract.schemas[contract.currentVersion], event);
+    if (upcastErrors.length > 0) {
+      return {
+        valid: false,
+        errors: upcastErrors.map((error) => `upcast v${version} → v${contract.currentVersion}: ${error}`),
+      };
+    }
+
+    return { valid: true, event: event as unknown as T, upcastedFrom: version };
+  }
+
+  private async check(schema: new () => object, event: RawEvent): Promise<string[]> {
+    const instance = plainToInstance(schema, event);
+    return formatValidationErrors(await validate(instance));
+  }
+}
+
+/**
+ * Contratos atuais (todos na v1). Ao evoluir um evento: adicionar o schema da nova
+ * versão, o upcaster da versão anterior e incrementar currentVersion.
+ */
+export const eventSchemaRegistry = new EventSchemaRegistry()
+  .register({ eventType: 'shift.created', currentVersion: 1, schemas: { 1: ShiftCreatedEventV1 } })
+  .register({ eventType: 'shift.updated', currentVersion: 1, schemas: { 1: ShiftUpdatedEventV1 } })
+  .register({ eventType: 'shift.deleted', currentVersion: 1, schemas: { 1: ShiftDeletedEventV1 } })
+  .register({ eventType: 'user.created', currentVersion: 1, schemas: { 1: UserCreatedEventV1 } })
+  .register({ eventType: 'user.updated', currentVersion: 1, schemas: { 1: UserUpdatedEventV1 } })
+  .register({ eventType: 'user.deleted', currentVersion: 1, schemas: { 1: UserDeletedEventV1 } })
+  .register({ eventType: 'healthunit.created', currentVersion: 1, schemas: { 1: HealthUnitCreatedEventV1 } })
+  .register({ eventType: 'healthunit.updated', currentVersion: 1, schemas: { 1: HealthUnitUpdatedEventV1 } })
+  .register({ eventType: 'healthunit.deleted', currentVersion: 1, schemas: { 1: HealthUnitDeletedEventV1 } })
+  .register({ eventType: 'attendance.recorded', currentVersion: 1, schemas: { 1: AttendanceRecordedEventV1 } })
+  .register({ eventType: 'attendance.approved', currentVersion: 1, schemas: { 1: AttendanceApprovedEventV1 } })
+  .register({ eventType: 'attendance.rejected', currentVersion: 1, schemas: { 1: AttendanceRejectedEventV1 } })
+  .register({ eventType: 'attendance.corrected', currentVersion: 1, schemas: { 1: AttendanceCorrectedEventV1 } })
+  .register({ eventType: 'attendance.missing', currentVersion: 1, schemas: { 1: AttendanceMissingEventV1 } });
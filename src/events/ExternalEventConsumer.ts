@@ -1,19 +1,36 @@
-import { rabbitMQ } from '@/messaging/RabbitMQConnection';
-import { ShiftEvent, UserEvent } from './types';
+import { messageBroker } from '@/messaging/MessageBroker';
+import { quarantineQueueName } from '@/messaging/topology';
+import { BaseEvent, DomainEvent, ShiftEvent, UserEvent, HealthUnitEvent } from './types';
+import { eventSchemaRegistry } from './EventSchemaRegistry';
 import { ShiftCacheService } from '@/services/cache/ShiftCacheService';
 import { UserCacheService } from '@/services/cache/UserCacheService';
+import { HealthUnitCacheService } from '@/services/cache/HealthUnitCacheService';
+import {
+  ProcessedEventCacheService,
+  isStaleVersion,
+} from '@/services/cache/ProcessedEventCacheService';
 
 /**
- * Event Consumer para eventos de Shift e User
+ * Event Consumer para eventos de Shift, User e HealthUnit
  * Recebe eventos de outros microserviços e atualiza cache local
+ * 
+ * Eventos de Shift e User são idempotentes: redelivery (mesmo id) não é reaplicado
+ * e eventos fora de ordem (versão <= versão em cache) são descartados
+ * 
+ * Todo evento é validado contra o contrato (EventSchemaRegistry) antes de tocar no cache;
+ * eventos inválidos vão para a queue de quarentena "<queue>.quarantine" com os erros.
  */
 export class ExternalEventConsumer {
   private shiftCacheService: ShiftCacheService;
   private userCacheService: UserCacheService;
+  private healthUnitCacheService: HealthUnitCacheService;
+  private processedEvents: ProcessedEventCacheService;
 
   constructor() {
     this.shiftCacheService = new ShiftCacheService();
     this.userCacheService = new UserCacheService();
+    this.healthUnitCacheService = new HealthUnitCacheService();
+    this.processedEvents = new ProcessedEventCacheService();
   }
 
   /**
@@ -22,6 +39,7 @@ export class ExternalEventConsumer {
   async startConsuming(): Promise<void> {
     await this.consumeShiftEvents();
     await this.consumeUserEvents();
+    await this.consumeHealthUnitEvents();
   }
 
   /**
@@ -30,11 +48,12 @@ export class ExternalEventConsumer {
   private async consumeShiftEvents(): Promise<void> {
     const queueName = process.env.QUEUE_SHIFT_SYNC || 'attendance.shift.sync';
 
-    await rabbitMQ.consume(
+    await messageBroker.consume(
       queueName,
-      async (message: ShiftEvent) => {
+      async (message: unknown) => {
         try {
-          await this.handleShiftEvent(message);
+          const event = await this.validateOrQuarantine<ShiftEvent>(queueName, 'shift', message);
+          if (event) await this.handleShiftEvent(event);
         } catch (error) {
           console.error('❌ Erro ao processar evento de shift:', error);
           throw error;
@@ -51,11 +70,12 @@ export class ExternalEventConsumer {
   private async consumeUserEvents(): Promise<void> {
     const queueName = process.env.QUEUE_USER_SYNC || 'attendance.user.sync';
 
-    await rabbitMQ.consume(
+    await messageBroker.consume(
       queueName,
-      async (message: UserEvent) => {
+      async (message: unknown) => {
         try {
-          await this.handleUserEvent(message);
+          const event = await this.validateOrQuarantine<UserEvent>(queueName, 'user', message);
+          if (event) await this.handleUserEvent(event);
         } catch (error) {
           console.error('❌ Erro ao processar evento de user:', error);
           throw error;
@@ -66,12 +86,82 @@ export class ExternalEventConsumer {
     console.log(`👂 Consumindo eventos de user na queue: ${queueName}`);
   }
 
+  /**
+   * Consumir eventos de HealthUnit
+   */
+  private async consumeHealthUnitEvents(): Promise<void> {
+    const queueName = process.env.QUEUE_HEALTHUNIT_SYNC || 'attendance.healthunit.sync';
+
+    await messageBroker.consume(
+      queueName,
+      async (message: unknown) => {
+        try {
+          const event = await this.validateOrQuarantine<HealthUnitEvent>(queueName, 'healthunit', message);
+          if (event) await this.handleHealthUnitEvent(event);
+        } catch (error) {
+          console.error('❌ Erro ao processar evento de health unit:', error);
+          throw error;
+        }
+      }
+    );
+
+    console.log(`👂 Consumindo eventos de health unit na queue: ${queueName}`);
+  }
+
+  /**
+   * Valida o evento contra o contrato do eventType (com upcast para a versão atual)
+   * Inválido: publica na quarentena e retorna null (a mensagem original é confirmada)
+   */
+  private async validateOrQuarantine<T extends DomainEvent>(
+    queue: string,
+    aggregateType: string,
+    message: unknown
+  ): Promise<T | null> {
+    const result = await eventSchemaRegistry.validate<T>(message);
+    let errors = result.valid ? [] : result.errors;
+
+    if (result.valid && result.event.aggregateType !== aggregateType) {
+      errors = [`aggregateType: ${result.event.aggregateType} não é aceito na queue ${queue}`];
+    }
+
+    if (result.valid && errors.length === 0) {
+      if (result.upcastedFrom) {
+        console.log(`⬆️ Evento ${result.event.eventType} convertido da v${result.upcastedFrom} para a versão atual`);
+      }
+      return result.event;
+    }
+
+    const eventId = (message as { id?: unknown } | null)?.id;
+    await messageBroker.publish(
+      '',
+      quarantineQueueName(queue),
+      {
+        queue,
+        errors,
+        quarantinedAt: new Date().toISOString(),
+        event: message,
+      },
+      { messageId: typeof eventId === 'string' ? eventId : undefined }
+    );
+
+    console.warn(`🚫 Evento inválido enviado para ${quarantineQueueName(queue)}:`, errors);
+    return null;
+  }
+
   /**
    * Processar eventos de Shift
    */
   private async handleShiftEvent(event: ShiftEvent): Promise<void> {
     console.log(`📥 Processando evento: ${event.eventType} (${event.aggregateId})`);
 
+    await this.applyOnce(
+      event,
+      () => this.shiftCacheService.getCachedVersion(event.data.id),
+      () => this.applyShiftEvent(event)
+    );
+  }
+
+  private async applyShiftEvent(event: ShiftEvent): Promise<void> {
     switch (event.eventType) {
       case 'shift.created':
         await this.shiftCacheService.cacheShift({
@@ -87,6 +177,7 @@ export class ExternalEventConsumer {
           healthUnitId: event.data.healthUnitId,
           approvalStatus: event.data.approvalStatus,
           createdAt: new Date(event.data.createdAt),
+          version: event.version,
         });
         break;
 
@@ -101,6 +192,7 @@ export class ExternalEventConsumer {
             approvalStatus: event.data.changes.approvalStatus,
             approvedAt: event.data.changes.approvedAt ? new Date(event.data.changes.approvedAt) : undefined,
             approvedBy: event.data.changes.approvedBy,
+            version: event.version,
           }
         );
         break;
@@ -121,6 +213,14 @@ export class ExternalEventConsumer {
   private async handleUserEvent(event: UserEvent): Promise<void> {
     console.log(`📥 Processando evento: ${event.eventType} (${event.aggregateId})`);
 
+    await this.applyOnce(
+      event,
+      () => this.userCacheService.getCachedVersion(event.data.id),
+      () => this.applyUserEvent(event)
+    );
+  }
+
+  private async applyUserEvent(event: UserEvent): Promise<void> {
     switch (event.eventType) {
       case 'user.created':
         await this.userCacheService.cacheUser({
@@ -132,6 +232,7 @@ export class ExternalEventConsumer {
           role: event.data.role,
           use2FA: event.data.use2FA,
           createdAt: new Date(event.data.createdAt),
+          version: event.version,
         });
         break;
 
@@ -149,6 +250,7 @@ export class ExternalEventConsumer {
             employeeIdentifier: event.data.changes.employeeIdentifier,
             role: roleUpdate,
             use2FA: event.data.changes.use2FA,
+            version: event.version,
           }
         );
         break;
@@ -162,6 +264,75 @@ export class ExternalEventConsumer {
         console.warn(`⚠️ Tipo de evento user não reconhecido: ${unknownEvent.eventType || 'undefined'}`);
     }
   }
+
+  /**
+   * Aplica o evento uma única vez e apenas se for mais novo que o cache
+   * - Mesmo id já aplicado (redelivery): ignorado
+   * - Versão <= versão aplicada no cache (fora de ordem): descartado
+   */
+  private async applyOnce(
+    event: BaseEvent,
+    getAppliedVersion: () => Promise<number | undefined>,
+    apply: () => Promise<void>
+  ): Promise<void> {
+    if (await this.processedEvents.isProcessed(event.id)) {
+      console.log(`♻️ Evento ${event.id} (${event.eventType}) já aplicado, ignorando`);
+      return;
+    }
+
+    const appliedVersion = await getAppliedVersion();
+    if (isStaleVersion(event.version, appliedVersion)) {
+      console.warn(
+        `⚠️ Evento ${event.eventType} v${event.version} descartado (${event.aggregateId} já está na v${appliedVersion})`
+      );
+      await this.processedEvents.markProcessed(event.id, event.eventType);
+      return;
+    }
+
+    await apply();
+    await this.processedEvents.markProcessed(event.id, event.eventType);
+  }
+
+  /**
+   * Processar eventos de HealthUnit
+   */
+  private async handleHealthUnitEvent(event: HealthUnitEvent): Promise<void> {
+    console.log(`📥 Processando evento: ${event.eventType} (${event.aggregateId})`);
+
+    switch (event.eventType) {
+      case 'healthunit.created':
+        await this.healthUnitCacheService.cacheHealthUnit({
+          id: event.data.id,
+          hospitalId: event.data.hospitalId,
+          name: event.data.name,
+          latitude: event.data.latitude,
+          longitude: event.data.longitude,
+          polygonAreas: event.data.polygonAreas,
+          createdAt: new Date(event.data.createdAt),
+        });
+        break;
+
+      case 'healthunit.updated':
+        await this.healthUnitCacheService.updateHealthUnitCache(
+          event.data.id,
+          {
+            name: event.data.changes.name,
+            latitude: event.data.changes.latitude,
+            longitude: event.data.changes.longitude,
+            polygonAreas: event.data.changes.polygonAreas,
+          }
+        );
+        break;
+
+      case 'healthunit.deleted':
+        await this.healthUnitCacheService.removeHealthUnitFromCache(event.data.id);
+        break;
+
+      default:
+        const unknownHealthUnitEvent = event as {eventType?: string};
+        console.warn(`⚠️ Tipo de evento health unit não reconhecido: ${unknownHealthUnitEvent.eventType || 'undefined'}`);
+    }
+  }
 }
 
 export const externalEventConsumer = new ExternalEventConsumer();
\ No newline at end of file
@@ -5,4 +5,7 @@ export * from './types';
 export { AttendanceEventPublisher, attendanceEventPublisher } from './AttendanceEventPublisher';
 
 // Event Consumer  
-export { ExternalEventConsumer, externalEventConsumer } from './ExternalEventConsumer';
\ No newline at end of file
+export { ExternalEventConsumer, externalEventConsumer } from './ExternalEventConsumer';
+
+// Contratos (validação de schema + upcasters)
+export { EventSchemaRegistry, eventSchemaRegistry } from './EventSchemaRegistry';
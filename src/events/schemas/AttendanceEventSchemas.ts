@@ -0,0 +1,273 @@
+import { Type } from "class-transformer";
+import {
+  Equals,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { APPROVAL_STATUSES, BaseEventSchema } from "./BaseEventSchema";
+
+/**
+ * Schemas (v1) dos eventos de Attendance (publicados por este serviço)
+ */
+class AttendanceRefV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  shiftId!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  doctorId!: string;
+}
+
+class AttendanceFaceVerificationV1 {
+  @IsBoolean()
+  verified!: boolean;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  confidence!: number;
+
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  requiredConfidence!: number;
+
+  @IsInt()
+  @Min(1)
+  attempts!: number;
+
+  @IsOptional()
+  @IsBoolean()
+  livenessPassed?: boolean;
+}
+
+class AttendanceRecordedDataV1 extends AttendanceRefV1 {
+  @IsIn(["IN", "OUT"])
+  type!: "IN" | "OUT";
+
+  @IsISO8601()
+  timestamp!: string;
+
+  @IsNumber()
+  latitude!: number;
+
+  @IsNumber()
+  longitude!: number;
+
+  @IsIn(APPROVAL_STATUSES)
+  status!: "PENDING" | "APPROVED" | "REJECTED";
+
+  @IsBoolean()
+  isLate!: boolean;
+
+  @IsNumber()
+  @Min(0)
+  lateMinutes!: number;
+
+  @IsNumber()
+  @Min(0)
+  discountPercentage!: number;
+
+  @IsOptional()
+  @IsString()
+  photoS3Key?: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  // Campo opcional: adicionado sem nova versão (consumidores v1 ignoram)
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AttendanceFaceVerificationV1)
+  faceVerification?: AttendanceFaceVerificationV1;
+
+  @IsISO8601()
+  createdAt!: string;
+}
+
+export class AttendanceRecordedEventV1 extends BaseEventSchema {
+  @Equals("attendance.recorded")
+  eventType!: "attendance.recorded";
+
+  @Equals("attendance")
+  aggregateType!: "attendance";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AttendanceRecordedDataV1)
+  data!: AttendanceRecordedDataV1;
+}
+
+class AttendanceApprovedDataV1 extends AttendanceRefV1 {
+  @IsString()
+  @IsNotEmpty()
+  hospitalId!: string;
+
+  @IsBoolean()
+  approvedWithDiscount!: boolean;
+
+  @IsNumber()
+  @Min(0)
+  discountPercentage!: number;
+
+  @IsOptional()
+  @IsNumber()
+  finalShiftValue?: number;
+
+  @IsISO8601()
+  approvedAt!: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class AttendanceApprovedEventV1 extends BaseEventSchema {
+  @Equals("attendance.approved")
+  eventType!: "attendance.approved";
+
+  @Equals("attendance")
+  aggregateType!: "attendance";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AttendanceApprovedDataV1)
+  data!: AttendanceApprovedDataV1;
+}
+
+class AttendanceRejectedDataV1 extends AttendanceRefV1 {
+  @IsString()
+  @IsNotEmpty()
+  hospitalId!: string;
+
+  @IsISO8601()
+  rejectedAt!: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class AttendanceRejectedEventV1 extends BaseEventSchema {
+  @Equals("attendance.rejected")
+  eventType!: "attendance.rejected";
+
+  @Equals("attendance")
+  aggregateType!: "attendance";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AttendanceRejectedDataV1)
+  data!: AttendanceRejectedDataV1;
+}
+
+class AttendanceCorrectedDataV1 extends AttendanceRefV1 {
+  @IsString()
+  @IsNotEmpty()
+  correctionId!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  hospitalId!: string;
+
+  @IsIn(["MISSING_PUNCH", "ADJUST_TIMESTAMP"])
+  kind!: "MISSING_PUNCH" | "ADJUST_TIMESTAMP";
+
+  @IsIn(["IN", "OUT", "LATE_IN", "LATE_OUT"])
+  type!: "IN" | "OUT" | "LATE_IN" | "LATE_OUT";
+
+  @IsOptional()
+  @IsISO8601()
+  previousTimestamp?: string;
+
+  @IsISO8601()
+  timestamp!: string;
+
+  @IsIn(APPROVAL_STATUSES)
+  status!: "PENDING" | "APPROVED" | "REJECTED";
+
+  @IsBoolean()
+  isLate!: boolean;
+
+  @IsNumber()
+  @Min(0)
+  lateMinutes!: number;
+
+  @IsNumber()
+  @Min(0)
+  discountPercentage!: number;
+
+  @IsOptional()
+  @IsString()
+  approvedBy?: string;
+
+  @IsISO8601()
+  correctedAt!: string;
+}
+
+export class AttendanceCorrectedEventV1 extends BaseEventSchema {
+  @Equals("attendance.corrected")
+  eventType!: "attendance.corrected";
+
+  @Equals("attendance")
+  aggregateType!: "attendance";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AttendanceCorrectedDataV1)
+  data!: AttendanceCorrectedDataV1;
+}
+
+class AttendanceMissingDataV1 extends AttendanceRefV1 {
+  @IsString()
+  @IsNotEmpty()
+  hospitalId!: string;
+
+  @IsIn(["NO_SHOW", "MISSING_IN", "MISSING_OUT"])
+  status!: "NO_SHOW" | "MISSING_IN" | "MISSING_OUT";
+
+  @IsBoolean()
+  hasInPunch!: boolean;
+
+  @IsBoolean()
+  hasOutPunch!: boolean;
+
+  @IsISO8601()
+  shiftStart!: string;
+
+  @IsISO8601()
+  shiftEnd!: string;
+
+  @IsISO8601()
+  detectedAt!: string;
+}
+
+export class AttendanceMissingEventV1 extends BaseEventSchema {
+  @Equals("attendance.missing")
+  eventType!: "attendance.missing";
+
+  @Equals("attendance")
+  aggregateType!: "attendance";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => AttendanceMissingDataV1)
+  data!: AttendanceMissingDataV1;
+}
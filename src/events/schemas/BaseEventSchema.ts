@@ -0,0 +1,79 @@
+import {
+  IsInt,
+  IsISO8601,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateBy,
+} from "class-validator";
+
+/**
+ * Campos comuns a todos os eventos de domínio (BaseEvent)
+ */
+export abstract class BaseEventSchema {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  aggregateId!: string;
+
+  @IsInt()
+  @Min(0)
+  version!: number;
+
+  @IsISO8601()
+  timestamp!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  schemaVersion?: number;
+
+  @IsOptional()
+  @IsString()
+  causationId?: string;
+
+  @IsOptional()
+  @IsString()
+  correlationId?: string;
+
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Lista de pares [latitude, longitude] (polígonos de health unit)
+ */
+export function IsCoordinateList(): PropertyDecorator {
+  return ValidateBy({
+    name: "isCoordinateList",
+    validator: {
+      validate: (value: unknown) =>
+        Array.isArray(value) &&
+        value.every(
+          (pair) =>
+            Array.isArray(pair) &&
+            pair.length === 2 &&
+            pair.every((coordinate) => typeof coordinate === "number" && Number.isFinite(coordinate))
+        ),
+      defaultMessage: () => "coordinates deve ser uma lista de pares [latitude, longitude]",
+    },
+  });
+}
+
+export const USER_ROLES = [
+  "client_hospital_worker",
+  "client_hospital",
+  "client_medic",
+  "collaborator",
+  "admin_master",
+  "admin_mini",
+  "admin_read",
+] as const;
+
+export const APPROVAL_STATUSES = ["PENDING", "APPROVED", "REJECTED"] as const;
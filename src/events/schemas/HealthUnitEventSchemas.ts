@@ -0,0 +1,148 @@
+import { Type } from "class-transformer";
+import {
+  Equals,
+  IsArray,
+  IsISO8601,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import { BaseEventSchema, IsCoordinateList } from "./BaseEventSchema";
+
+/**
+ * Schemas (v1) dos eventos de HealthUnit
+ */
+class HealthUnitPolygonAreaV1 {
+  @IsString()
+  name!: string;
+
+  @IsString()
+  type!: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsCoordinateList()
+  coordinates!: Array<[number, number]>;
+}
+
+class HealthUnitCreatedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  hospitalId!: string;
+
+  @IsString()
+  name!: string;
+
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HealthUnitPolygonAreaV1)
+  polygonAreas?: HealthUnitPolygonAreaV1[];
+
+  @IsISO8601()
+  createdAt!: string;
+}
+
+export class HealthUnitCreatedEventV1 extends BaseEventSchema {
+  @Equals("healthunit.created")
+  eventType!: "healthunit.created";
+
+  @Equals("healthunit")
+  aggregateType!: "healthunit";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => HealthUnitCreatedDataV1)
+  data!: HealthUnitCreatedDataV1;
+}
+
+class HealthUnitChangesV1 {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HealthUnitPolygonAreaV1)
+  polygonAreas?: HealthUnitPolygonAreaV1[];
+}
+
+class HealthUnitUpdatedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => HealthUnitChangesV1)
+  changes!: HealthUnitChangesV1;
+
+  @IsISO8601()
+  updatedAt!: string;
+}
+
+export class HealthUnitUpdatedEventV1 extends BaseEventSchema {
+  @Equals("healthunit.updated")
+  eventType!: "healthunit.updated";
+
+  @Equals("healthunit")
+  aggregateType!: "healthunit";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => HealthUnitUpdatedDataV1)
+  data!: HealthUnitUpdatedDataV1;
+}
+
+class HealthUnitDeletedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsISO8601()
+  deletedAt!: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class HealthUnitDeletedEventV1 extends BaseEventSchema {
+  @Equals("healthunit.deleted")
+  eventType!: "healthunit.deleted";
+
+  @Equals("healthunit")
+  aggregateType!: "healthunit";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => HealthUnitDeletedDataV1)
+  data!: HealthUnitDeletedDataV1;
+}
@@ -0,0 +1,155 @@
+import { Type } from "class-transformer";
+import {
+  Equals,
+  IsIn,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import { APPROVAL_STATUSES, BaseEventSchema } from "./BaseEventSchema";
+
+/**
+ * Schemas (v1) dos eventos de Shift
+ */
+class ShiftCreatedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  hospitalId!: string;
+
+  @IsOptional()
+  @IsString()
+  doctorId?: string;
+
+  @IsNumber()
+  value!: number;
+
+  @IsOptional()
+  @IsNumber()
+  finalValue?: number;
+
+  @IsString()
+  specialty!: string;
+
+  @IsISO8601()
+  startTime!: string;
+
+  @IsISO8601()
+  endTime!: string;
+
+  @IsIn(["open", "closed"])
+  status!: "open" | "closed";
+
+  @IsOptional()
+  @IsString()
+  healthUnitId?: string;
+
+  @IsIn(APPROVAL_STATUSES)
+  approvalStatus!: "PENDING" | "APPROVED" | "REJECTED";
+
+  @IsISO8601()
+  createdAt!: string;
+}
+
+export class ShiftCreatedEventV1 extends BaseEventSchema {
+  @Equals("shift.created")
+  eventType!: "shift.created";
+
+  @Equals("shift")
+  aggregateType!: "shift";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShiftCreatedDataV1)
+  data!: ShiftCreatedDataV1;
+}
+
+class ShiftChangesV1 {
+  @IsOptional()
+  @IsString()
+  doctorId?: string;
+
+  @IsOptional()
+  @IsNumber()
+  value?: number;
+
+  @IsOptional()
+  @IsNumber()
+  finalValue?: number;
+
+  @IsOptional()
+  @IsIn(["open", "closed"])
+  status?: "open" | "closed";
+
+  @IsOptional()
+  @IsIn(APPROVAL_STATUSES)
+  approvalStatus?: "PENDING" | "APPROVED" | "REJECTED";
+
+  @IsOptional()
+  @IsISO8601()
+  approvedAt?: string;
+
+  @IsOptional()
+  @IsString()
+  approvedBy?: string;
+}
+
+class ShiftUpdatedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShiftChangesV1)
+  changes!: ShiftChangesV1;
+
+  @IsISO8601()
+  updatedAt!: string;
+}
+
+export class ShiftUpdatedEventV1 extends BaseEventSchema {
+  @Equals("shift.updated")
+  eventType!: "shift.updated";
+
+  @Equals("shift")
+  aggregateType!: "shift";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShiftUpdatedDataV1)
+  data!: ShiftUpdatedDataV1;
+}
+
+class ShiftDeletedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsISO8601()
+  deletedAt!: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class ShiftDeletedEventV1 extends BaseEventSchema {
+  @Equals("shift.deleted")
+  eventType!: "shift.deleted";
+
+  @Equals("shift")
+  aggregateType!: "shift";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => ShiftDeletedDataV1)
+  data!: ShiftDeletedDataV1;
+}
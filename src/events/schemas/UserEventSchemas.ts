@@ -0,0 +1,136 @@
+import { Type } from "class-transformer";
+import {
+  Equals,
+  IsBoolean,
+  IsEmail,
+  IsIn,
+  IsISO8601,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from "class-validator";
+import { BaseEventSchema, USER_ROLES } from "./BaseEventSchema";
+
+/**
+ * Schemas (v1) dos eventos de User
+ */
+class UserCreatedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  username!: string;
+
+  @IsEmail()
+  email!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  cpfCnpj!: string;
+
+  @IsOptional()
+  @IsString()
+  employeeIdentifier?: string;
+
+  @IsIn(USER_ROLES)
+  role!: (typeof USER_ROLES)[number];
+
+  @IsBoolean()
+  use2FA!: boolean;
+
+  @IsISO8601()
+  createdAt!: string;
+}
+
+export class UserCreatedEventV1 extends BaseEventSchema {
+  @Equals("user.created")
+  eventType!: "user.created";
+
+  @Equals("user")
+  aggregateType!: "user";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => UserCreatedDataV1)
+  data!: UserCreatedDataV1;
+}
+
+class UserChangesV1 {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  username?: string;
+
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  employeeIdentifier?: string;
+
+  @IsOptional()
+  @IsIn(USER_ROLES)
+  role?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  use2FA?: boolean;
+}
+
+class UserUpdatedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => UserChangesV1)
+  changes!: UserChangesV1;
+
+  @IsISO8601()
+  updatedAt!: string;
+}
+
+export class UserUpdatedEventV1 extends BaseEventSchema {
+  @Equals("user.updated")
+  eventType!: "user.updated";
+
+  @Equals("user")
+  aggregateType!: "user";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => UserUpdatedDataV1)
+  data!: UserUpdatedDataV1;
+}
+
+class UserDeletedDataV1 {
+  @IsString()
+  @IsNotEmpty()
+  id!: string;
+
+  @IsISO8601()
+  deletedAt!: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class UserDeletedEventV1 extends BaseEventSchema {
+  @Equals("user.deleted")
+  eventType!: "user.deleted";
+
+  @Equals("user")
+  aggregateType!: "user";
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => UserDeletedDataV1)
+  data!: UserDeletedDataV1;
+}
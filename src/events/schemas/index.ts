@@ -0,0 +1,5 @@
+export * from './BaseEventSchema';
+export * from './ShiftEventSchemas';
+export * from './UserEventSchemas';
+export * from './HealthUnitEventSchemas';
+export * from './AttendanceEventSchemas';
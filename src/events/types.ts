@@ -8,6 +8,7 @@ export interface BaseEvent {
   aggregateType: string;
   version: number;
   timestamp: string;
+  schemaVersion?: number; // Versão do contrato do payload (padrão 1), ver EventSchemaRegistry
   causationId?: string;
   correlationId?: string;
   metadata?: Record<string, string | number | boolean>;
@@ -107,6 +108,55 @@ export interface UserDeletedEvent extends BaseEvent {
   };
 }
 
+/**
+ * HealthUnit Events
+ */
+export interface HealthUnitPolygonArea {
+  name: string;
+  type: string;
+  description?: string;
+  coordinates: Array<[number, number]>; // [latitude, longitude]
+}
+
+export interface HealthUnitCreatedEvent extends BaseEvent {
+  eventType: 'healthunit.created';
+  aggregateType: 'healthunit';
+  data: {
+    id: string;
+    hospitalId: string;
+    name: string;
+    latitude?: number;
+    longitude?: number;
+    polygonAreas?: HealthUnitPolygonArea[];
+    createdAt: string;
+  };
+}
+
+export interface HealthUnitUpdatedEvent extends BaseEvent {
+  eventType: 'healthunit.updated';
+  aggregateType: 'healthunit';
+  data: {
+    id: string;
+    changes: Partial<{
+      name: string;
+      latitude: number;
+      longitude: number;
+      polygonAreas: HealthUnitPolygonArea[];
+    }>;
+    updatedAt: string;
+  };
+}
+
+export interface HealthUnitDeletedEvent extends BaseEvent {
+  eventType: 'healthunit.deleted';
+  aggregateType: 'healthunit';
+  data: {
+    id: string;
+    deletedAt: string;
+    reason?: string;
+  };
+}
+
 /**
  * Attendance Events (que este serviço publica)
  */
@@ -127,6 +177,14 @@ export interface AttendanceRecordedEvent extends BaseEvent {
     discountPercentage: number;
     photoS3Key?: string;
     reason?: string;
+    // Resultado da verificação facial (ausente se o ponto não usou useFaceRecognition)
+    faceVerification?: {
+      verified: boolean;
+      confidence: number;
+      requiredConfidence: number;
+      attempts: number;
+      livenessPassed?: boolean;
+    };
     createdAt: string;
   };
 }
@@ -160,11 +218,56 @@ export interface AttendanceRejectedEvent extends BaseEvent {
   };
 }
 
+export interface AttendanceCorrectedEvent extends BaseEvent {
+  eventType: 'attendance.corrected';
+  aggregateType: 'attendance';
+  data: {
+    id: string;
+    correctionId: string;
+    shiftId: string;
+    doctorId: string;
+    hospitalId: string;
+    kind: 'MISSING_PUNCH' | 'ADJUST_TIMESTAMP';
+    type: 'IN' | 'OUT' | 'LATE_IN' | 'LATE_OUT';
+    previousTimestamp?: string; // Apenas ADJUST_TIMESTAMP
+    timestamp: string;
+    status: 'PENDING' | 'APPROVED' | 'REJECTED';
+    isLate: boolean;
+    lateMinutes: number;
+    discountPercentage: number;
+    approvedBy?: string;
+    correctedAt: string;
+  };
+}
+
+export interface AttendanceMissingEvent extends BaseEvent {
+  eventType: 'attendance.missing';
+  aggregateType: 'attendance';
+  data: {
+    id: string; // ID do registro de falta
+    shiftId: string;
+    doctorId: string;
+    hospitalId: string;
+    status: 'NO_SHOW' | 'MISSING_IN' | 'MISSING_OUT';
+    hasInPunch: boolean;
+    hasOutPunch: boolean;
+    shiftStart: string;
+    shiftEnd: string;
+    detectedAt: string;
+  };
+}
+
 /**
  * Union types
  */
 export type ShiftEvent = ShiftCreatedEvent | ShiftUpdatedEvent | ShiftDeletedEvent;
 export type UserEvent = UserCreatedEvent | UserUpdatedEvent | UserDeletedEvent;
-export type AttendanceEvent = AttendanceRecordedEvent | AttendanceApprovedEvent | AttendanceRejectedEvent;
+export type HealthUnitEvent = HealthUnitCreatedEvent | HealthUnitUpdatedEvent | HealthUnitDeletedEvent;
+export type AttendanceEvent =
+  | AttendanceRecordedEvent
+  | AttendanceApprovedEvent
+  | AttendanceRejectedEvent
+  | AttendanceCorrectedEvent
+  | AttendanceMissingEvent;
 
-export type DomainEvent = ShiftEvent | UserEvent | AttendanceEvent;
\ No newline at end of file
+export type DomainEvent = ShiftEvent | UserEvent | HealthUnitEvent | AttendanceEvent;
\ No newline at end of file
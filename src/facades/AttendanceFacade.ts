@@ -1,5 +1,17 @@
+import { Between, EntityManager, FindOptionsWhere, ILike, In, Repository } from "typeorm";
 import { AppDataSource } from "../config/database";
-import { Attendance, AttendanceStatus, AttendanceType } from "../entities/Attendance";
+import {
+  Attendance,
+  AttendanceType,
+  PUNCH_TYPES_BY_DIRECTION,
+  getPunchDirection,
+} from "../entities/Attendance";
+import { AttendancePolicy } from "../entities/AttendancePolicy";
+import { AttendanceHistory } from "../entities/AttendanceHistory";
+import {
+  AttendanceCorrectionRequest,
+  CorrectionStatus,
+} from "../entities/AttendanceCorrectionRequest";
 import { AppError } from "../errors/AppError";
 
 // DTOs
@@ -8,11 +20,23 @@ import {
   ApproveAttendanceDTO,
   RejectAttendanceDTO,
   ListAttendancesDTO,
+  BulkApproveAttendancesDTO,
+  BulkRejectAttendancesDTO,
+  BulkAttendanceFilterDTO,
+  BulkDecisionResultDTO,
+  BulkDecisionItemResultDTO,
+  BULK_DECISION_MAX_ITEMS,
+  CreateAttendanceCorrectionDTO,
+  ApproveAttendanceCorrectionDTO,
+  DenyAttendanceCorrectionDTO,
 } from "../dto";
 import { AttendanceResponseDTO } from "../dto/AttendanceResponseDTO";
 
 // Repositories
 import { AttendanceRepository } from "../repositories/AttendanceRepository";
+import { AttendancePolicyRepository } from "../repositories/AttendancePolicyRepository";
+import { AttendanceHistoryRepository } from "../repositories/AttendanceHistoryRepository";
+import { AttendanceCorrectionRepository } from "../repositories/AttendanceCorrectionRepository";
 
 // Cache
 import type { CachedShift } from "../services/cache/ShiftCacheService";
@@ -20,6 +44,7 @@ import type { CachedShift } from "../services/cache/ShiftCacheService";
 // Cache Services - NEW: Usa cache ao invés de repositories diretos
 import { ShiftCacheService } from "../services/cache/ShiftCacheService";
 import { UserCacheService } from "../services/cache/UserCacheService";
+import { HealthUnitCacheService } from "../services/cache/HealthUnitCacheService";
 
 // Event Publisher - NEW: Publishes events para outros serviços
 import { AttendanceEventPublisher } from "../events/AttendanceEventPublisher";
@@ -31,8 +56,19 @@ import {
   AttendanceDiscountService,
   AttendancePhotoService,
   AttendancePolicyService,
+  AttendanceHistoryService,
+  AttendanceAuditSnapshot,
+  AuditActor,
 } from "../services";
 
+// Estratégias de validação (pipeline configurável por hospital)
+import { ValidationContext } from "../strategies/AttendanceValidationStrategies";
+import {
+  AttendanceValidationStrategyRegistry,
+  DEFAULT_VALIDATION_PIPELINE,
+  validationStrategyRegistry,
+} from "../strategies/AttendanceValidationStrategyRegistry";
+
 /**
  * AttendanceFacade - Facade Pattern (Event-Driven Version)
  * 
@@ -46,12 +82,14 @@ import {
  * - Mantém compatibilidade de API com versão anterior
  */
 export class AttendanceFacade {
-  // Repository local
+  // Repositories locais
   private attendanceRepo: AttendanceRepository;
+  private correctionRepo: AttendanceCorrectionRepository;
 
   // Cache Services - Substitui repositories de Shift e User
   private shiftCache: ShiftCacheService;
   private userCache: UserCacheService;
+  private healthUnitCache: HealthUnitCacheService;
 
   // Event Publisher
   private eventPublisher: AttendanceEventPublisher;
@@ -62,28 +100,42 @@ export class AttendanceFacade {
   private discountService: AttendanceDiscountService;
   private photoService: AttendancePhotoService;
   private policyService: AttendancePolicyService;
+  private historyService: AttendanceHistoryService;
+  private strategyRegistry: AttendanceValidationStrategyRegistry;
 
   constructor(
     shiftCache: ShiftCacheService,
     userCache: UserCacheService,
-    eventPublisher: AttendanceEventPublisher
+    eventPublisher: AttendanceEventPublisher,
+    healthUnitCache: HealthUnitCacheService,
+    strategyRegistry: AttendanceValidationStrategyRegistry = validationStrategyRegistry
   ) {
     // Cache services (injetados)
     this.shiftCache = shiftCache;
     this.userCache = userCache;
+    this.healthUnitCache = healthUnitCache;
     this.eventPublisher = eventPublisher;
+    this.strategyRegistry = strategyRegistry;
 
-    // Repository local
+    // Repositories locais
     this.attendanceRepo = new AttendanceRepository(
       AppDataSource.getRepository(Attendance)
     );
+    this.correctionRepo = new AttendanceCorrectionRepository(
+      AppDataSource.getRepository(AttendanceCorrectionRequest)
+    );
 
     // Serviços especializados
     this.validationService = new AttendanceValidationService(this.attendanceRepo);
     this.geolocationService = new AttendanceGeolocationService();
     this.discountService = new AttendanceDiscountService();
     this.photoService = new AttendancePhotoService();
-    this.policyService = new AttendancePolicyService();
+    this.policyService = new AttendancePolicyService(
+      new AttendancePolicyRepository(AppDataSource.getRepository(AttendancePolicy))
+    );
+    this.historyService = new AttendanceHistoryService(
+      new AttendanceHistoryRepository(AppDataSource.getRepository(AttendanceHistory))
+    );
   }
 
   /**
@@ -91,7 +143,8 @@ export class AttendanceFacade {
    * Orquestra todas as validações e serviços necessários
    */
   async recordAttendance(
-    dto: CreateAttendanceDTO
+    dto: CreateAttendanceDTO,
+    actor?: AuditActor
   ): Promise<{ 
     attendance: AttendanceResponseDTO; 
     debug: {
@@ -136,7 +189,7 @@ export class AttendanceFacade {
     // 6) Buscar IN anterior se for OUT
     let inPunch: Attendance | null = null;
     if (dto.type === "OUT") {
-      inPunch = await this.attendanceRepo.findByShiftAndDoctor(
+      inPunch = await this.attendanceRepo.findPunchByDirection(
         dto.shiftId,
         dto.doctorId,
         "IN"
@@ -149,36 +202,32 @@ export class AttendanceFacade {
       throw new AppError(404, "Hospital não encontrado no cache");
     }
 
+    // Versão da política em vigor no instante do ponto (auditoria)
     const policy = await this.policyService.getEffectiveForShift(
       shift.hospitalId,
-      shift.healthUnitId
+      shift.healthUnitId,
+      now
     );
 
-    // 8) Validar coordenadas GPS (antifraude)
+    // 8) Analisar coordenadas GPS (antifraude - avaliado pela estratégia "coordinates")
     const coordValidation = this.geolocationService.validateCoordinates(
       dto.latitude,
       dto.longitude
     );
 
-    let coordinateSuspicionReason: string | undefined;
-    if (!coordValidation.isValid && coordValidation.severity === "warning") {
-      coordinateSuspicionReason = coordValidation.reason;
-      console.warn(`⚠️ [ANTIFRAUDE] Coordenadas suspeitas: ${coordinateSuspicionReason}`);
-    }
+    // 9) Validar geofence (polígonos da HealthUnit do cache, alimentado por healthunit.*)
+    const healthUnit = shift.healthUnitId
+      ? await this.healthUnitCache.getHealthUnitFromCache(shift.healthUnitId)
+      : null;
 
-    if (coordValidation.trustScore < 50) {
-      coordinateSuspicionReason =
-        coordinateSuspicionReason ||
-        `Score de confiança baixo (${coordValidation.trustScore}/100): ${coordValidation.flags.join(", ")}`;
-      console.warn(`⚠️ [ANTIFRAUDE] ${coordinateSuspicionReason}`);
+    if (shift.healthUnitId && !healthUnit) {
+      console.warn(`⚠️ [FACADE] HealthUnit ${shift.healthUnitId} não encontrada no cache`);
     }
 
-    // 9) Validar geofence (usa dados da HealthUnit do shift cached)
-    // TODO: Buscar healthUnit pelo shift.healthUnitId se necessário
     const geofenceResult = this.geolocationService.validateGeofence(
       dto.latitude,
       dto.longitude,
-      { id: shift.healthUnitId || '', name: undefined } // Simplificado por enquanto
+      healthUnit ?? { id: shift.healthUnitId || "" }
     );
 
     // 10) Obter informações de timezone
@@ -187,48 +236,67 @@ export class AttendanceFacade {
       dto.longitude
     );
 
-    // 11) Calcular desconto por atraso
+    // 11) Calcular desconto por atraso (regras da política, com override por especialidade)
     const lateDiscountInfo = this.discountService.calculateTimeBasedDiscount(
       dto.type,
       now,
       shift.startTime,
       shift.endTime,
-      shift.value
+      shift.value,
+      policy.discountRules,
+      shift.specialty
     );
 
     // 12) Upload de foto
     const photoUpload = await this.photoService.uploadPhoto(
-      dto.photo ? "base64-photo-data" : undefined, // Simplificado por enquanto
+      dto.photo,
       dto.shiftId,
       dto.doctorId
     );
 
-    // 13) Determinar status
-    let status: AttendanceStatus = "PENDING";
-    let areaCheckReason = geofenceResult.reason;
-
-    const isExcludedMedic = policy.excludedMedicIds?.includes(dto.doctorId);
-    const isWithinTimeWindow =
-      dto.type === "IN" ||
-      this.validationService.validateCheckoutTimeWindow(now, shift.endTime);
-
-    if (!isWithinTimeWindow) {
-      status = "PENDING";
-      areaCheckReason = "Check-out tardio - requer aprovação manual";
-    } else if (coordinateSuspicionReason) {
-      status = "PENDING";
-      areaCheckReason = coordinateSuspicionReason;
-    } else if (isExcludedMedic) {
-      status = "APPROVED";
-      areaCheckReason = "Médico excluído da verificação de área";
-      console.log("✅ [FACADE] APROVADO: médico na lista de exclusões");
-    } else if (geofenceResult.withinAllowedArea) {
-      status = "APPROVED";
-      console.log("✅ [FACADE] APROVADO: dentro da área permitida");
-    } else {
-      status = "PENDING";
-      console.log("⏳ [FACADE] PENDENTE: fora da área permitida");
-    }
+    // 13) Determinar status via pipeline de estratégias do hospital (política)
+    const validationContext: ValidationContext = {
+      doctorId: dto.doctorId,
+      shiftId: dto.shiftId,
+      type: dto.type as "IN" | "OUT",
+      timestamp: now,
+      coordinates: { latitude: dto.latitude, longitude: dto.longitude },
+      shift: {
+        id: shift.id,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        value: shift.value,
+        hospitalId: shift.hospitalId,
+        doctorId: shift.doctorId,
+        healthUnitId: shift.healthUnitId,
+        specialty: shift.specialty,
+      },
+      policy: {
+        maxDistanceMeters: policy.maxDistanceMeters,
+        outTimeWindowMs: policy.outTimeWindowMs,
+        useDistance: policy.useDistance,
+        useTimeWindow: policy.useTimeWindow,
+        excludedMedicIds: policy.excludedMedicIds,
+      },
+      coordinateValidation: coordValidation,
+      geofence: geofenceResult,
+      existingInPunch: inPunch ?? undefined,
+    };
+
+    const validationResult = await this.strategyRegistry
+      .buildPipeline(policy.validationStrategies)
+      .validate(validationContext);
+
+    // 13.1) Verificação facial (feita no controller) pode rebaixar o status para PENDING
+    const { status, statusReason: areaCheckReason } = this.validationService.applyFaceVerification(
+      validationResult.status,
+      validationResult.reason ?? geofenceResult.reason,
+      dto.faceVerification
+    );
+
+    console.log(
+      `${status === "APPROVED" ? "✅" : "⏳"} [FACADE] ${status}: ${areaCheckReason}`
+    );
 
     // 14) Criar attendance
     const attendance = this.attendanceRepo.create({
@@ -251,39 +319,68 @@ export class AttendanceFacade {
       discountPercentage: lateDiscountInfo.discountPercentage,
       approvedWithDiscount:
         status === "APPROVED" && lateDiscountInfo.shouldApplyDiscount,
+      discountRule: lateDiscountInfo.matchedRule,
       photoS3Key: photoUpload.key || undefined,
+      faceVerified: dto.faceVerification?.verified ?? null,
+      faceConfidence: dto.faceVerification?.confidence ?? null,
+      faceRequiredConfidence: dto.faceVerification?.requiredConfidence ?? null,
+      faceLivenessPassed: dto.faceVerification?.livenessPassed ?? null,
+      faceVerificationAttempts: dto.faceVerification?.attempts ?? 0,
+      policyVersionId: policy.policyVersionId ?? null,
     });
 
-    // 15) Salvar
-    const saved = await this.attendanceRepo.save(attendance);
+    // 15) Salvar (com registro de auditoria e evento no outbox na mesma transação)
+    const saved = await AppDataSource.transaction(async (manager) => {
+      const created = await manager.getRepository(Attendance).save(attendance);
+      await this.historyService.record(
+        [
+          {
+            attendanceId: created.id,
+            action: "CREATED",
+            before: null,
+            after: this.historyService.snapshot(created),
+            actor: {
+              id: actor?.id || dto.doctorId,
+              role: actor?.role || doctor.role,
+              ip: actor?.ip,
+            },
+            reason: dto.reason,
+          },
+        ],
+        manager
+      );
 
-    // 16) PUBLICAR EVENTO - NEW: Notificar outros serviços
-    if (status === "APPROVED") {
-      await this.eventPublisher.publishAttendanceApproved({
-        attendanceId: saved.id,
-        shiftId: dto.shiftId,
-        doctorId: dto.doctorId,
-        hospitalId: shift.hospitalId,
-        approvedWithDiscount: lateDiscountInfo.shouldApplyDiscount,
-        discountPercentage: lateDiscountInfo.discountPercentage,
-        finalShiftValue: shift.value * (1 - lateDiscountInfo.discountPercentage / 100),
-      });
-    } else {
-      await this.eventPublisher.publishAttendanceRecorded({
-        attendanceId: saved.id,
-        shiftId: dto.shiftId,
-        doctorId: dto.doctorId,
-        type: dto.type as "IN" | "OUT",
-        timestamp: now,
-        latitude: dto.latitude,
-        longitude: dto.longitude,
-        status: status as "PENDING" | "APPROVED" | "REJECTED",
-        isLate: lateDiscountInfo.isLate,
-        lateMinutes: lateDiscountInfo.lateMinutes,
-        discountPercentage: lateDiscountInfo.discountPercentage,
-        reason: areaCheckReason,
-      });
-    }
+      // 16) EVENTO - Notificar outros serviços (publicado pelo relay do outbox)
+      if (status === "APPROVED") {
+        await this.eventPublisher.publishAttendanceApproved({
+          attendanceId: created.id,
+          shiftId: dto.shiftId,
+          doctorId: dto.doctorId,
+          hospitalId: shift.hospitalId,
+          approvedWithDiscount: lateDiscountInfo.shouldApplyDiscount,
+          discountPercentage: lateDiscountInfo.discountPercentage,
+          finalShiftValue: shift.value * (1 - lateDiscountInfo.discountPercentage / 100),
+        }, manager);
+      } else {
+        await this.eventPublisher.publishAttendanceRecorded({
+          attendanceId: created.id,
+          shiftId: dto.shiftId,
+          doctorId: dto.doctorId,
+          type: dto.type as "IN" | "OUT",
+          timestamp: now,
+          latitude: dto.latitude,
+          longitude: dto.longitude,
+          status: status as "PENDING" | "APPROVED" | "REJECTED",
+          isLate: lateDiscountInfo.isLate,
+          lateMinutes: lateDiscountInfo.lateMinutes,
+          discountPercentage: lateDiscountInfo.discountPercentage,
+          reason: areaCheckReason,
+          faceVerification: dto.faceVerification,
+        }, manager);
+      }
+
+      return created;
+    });
 
     // 17) Se OUT aprovado, processar finalização do shift
     if (dto.type === "OUT" && status === "APPROVED" && inPunch?.status === "APPROVED") {
@@ -292,24 +389,38 @@ export class AttendanceFacade {
 
     // 18) Montar debug
     const debug = {
-      addressUsed: shift.healthUnitId ? `HealthUnit ${shift.healthUnitId}` : "Sem HealthUnit",
+      addressUsed: healthUnit
+        ? healthUnit.name || `HealthUnit ${healthUnit.id}`
+        : shift.healthUnitId
+          ? `HealthUnit ${shift.healthUnitId} (não cacheada)`
+          : "Sem HealthUnit",
       addressSource: "cached-data" as const,
       geocodeOk: false,
       punchLat: dto.latitude,
       punchLng: dto.longitude,
-      maxDistanceMeters: 5,
+      maxDistanceMeters: policy.maxDistanceMeters,
       outTsIso: now.toISOString(),
       tz: timezoneInfo.tz,
       tzOffsetMin: timezoneInfo.tzOffsetMin,
       localIso: timezoneInfo.localTimestamp.toISOString(),
-      policySource: "healthunit-polygon",
+      policySource: policy.source,
       policy: {
-        maxDistanceMeters: 5,
+        id: policy.policyId,
+        versionId: policy.policyVersionId,
+        version: policy.version,
+        effectiveFrom: policy.effectiveFrom?.toISOString(),
+        maxDistanceMeters: policy.maxDistanceMeters,
         outTimeWindowMs: policy.outTimeWindowMs,
-        useDistance: false,
-        useTimeWindow: true,
+        useDistance: policy.useDistance,
+        useTimeWindow: policy.useTimeWindow,
       },
       lateDiscountInfo,
+      validation: {
+        strategies: policy.validationStrategies ?? DEFAULT_VALIDATION_PIPELINE,
+        isValid: validationResult.isValid,
+        autoApprove: validationResult.autoApprove,
+        warnings: validationResult.warnings ?? [],
+      },
       coordinateValidation: {
         isValid: coordValidation.isValid,
         latDecimals: coordValidation.latDecimals,
@@ -328,6 +439,7 @@ export class AttendanceFacade {
       geocodeSkipped: true,
       withinRadius: geofenceResult.withinAllowedArea,
       statusAfterPunch: status,
+      faceVerification: dto.faceVerification ?? null,
       shiftApprovalStatusAfter: shift.approvalStatus,
       photoKey: photoUpload.key,
       s3Upload: { key: photoUpload.key, ok: photoUpload.success },
@@ -344,7 +456,10 @@ export class AttendanceFacade {
   /**
    * Aprova um attendance com controle de desconto
    */
-  async approveAttendance(dto: ApproveAttendanceDTO): Promise<AttendanceResponseDTO> {
+  async approveAttendance(
+    dto: ApproveAttendanceDTO,
+    actor?: AuditActor
+  ): Promise<AttendanceResponseDTO> {
     console.log(`✅ [FACADE] Aprovando attendance ${dto.attendanceId}`);
 
     const attendance = await this.attendanceRepo.findById(dto.attendanceId);
@@ -354,41 +469,13 @@ export class AttendanceFacade {
 
     // Verificar acesso usando dados do cache
     const shift = await this.shiftCache.getShiftFromCache(attendance.shiftId);
-    if (!shift || shift.hospitalId !== dto.hospitalId) {
-      throw new AppError(403, "Sem permissão para aprovar este registro.");
-    }
-
-    if (attendance.status === "APPROVED") {
-      throw new AppError(400, "Este registro já foi aprovado.");
-    }
-
-    // Atualizar status e controle de desconto
-    attendance.status = "APPROVED";
-    attendance.approvedWithDiscount =
-      (dto.applyDiscount ?? false) && attendance.isLate;
+    const before = this.historyService.snapshot(attendance);
+    const authorizedShift = this.applyApproval(attendance, shift, dto);
 
-    if (dto.reason) {
-      attendance.reason = dto.reason;
-    }
-
-    // Se escolheu não aplicar desconto, zerar o percentual
-    if (!dto.applyDiscount || !attendance.isLate) {
-      attendance.discountPercentage = 0;
-      attendance.hasAutomaticDiscount = false;
-    }
-
-    const saved = await this.attendanceRepo.save(attendance);
-
-    // PUBLICAR EVENTO - NEW: Notificar aprovação
-    await this.eventPublisher.publishAttendanceApproved({
-      attendanceId: saved.id,
-      shiftId: attendance.shiftId,
-      doctorId: attendance.doctorId,
-      hospitalId: shift.hospitalId,
-      approvedWithDiscount: attendance.approvedWithDiscount || false,
-      discountPercentage: Number(attendance.discountPercentage || 0),
-      finalShiftValue: shift.value * (1 - Number(attendance.discountPercentage || 0) / 100),
-    });
+    // Evento de aprovação gravado no outbox junto com a mutação
+    const saved = await this.saveAudited(attendance, "APPROVED", before, actor, dto.reason, (saved, manager) =>
+      this.publishApproval(saved, authorizedShift, dto.reason, manager)
+    );
 
     // Atualizar valor final do shift
     await this.updateShiftFinalValue(attendance.shiftId);
@@ -401,7 +488,10 @@ export class AttendanceFacade {
   /**
    * Rejeita um attendance
    */
-  async rejectAttendance(dto: RejectAttendanceDTO): Promise<AttendanceResponseDTO> {
+  async rejectAttendance(
+    dto: RejectAttendanceDTO,
+    actor?: AuditActor
+  ): Promise<AttendanceResponseDTO> {
     console.log(`❌ [FACADE] Rejeitando attendance ${dto.attendanceId}`);
 
     const attendance = await this.attendanceRepo.findById(dto.attendanceId);
@@ -411,29 +501,13 @@ export class AttendanceFacade {
 
     // Verificar acesso usando dados do cache
     const shift = await this.shiftCache.getShiftFromCache(attendance.shiftId);
-    if (!shift || shift.hospitalId !== dto.hospitalId) {
-      throw new AppError(403, "Sem permissão para rejeitar este registro.");
-    }
-
-    attendance.status = "REJECTED";
-    attendance.approvedWithDiscount = false;
-    attendance.discountPercentage = 0;
-    attendance.hasAutomaticDiscount = false;
-
-    if (dto.reason) {
-      attendance.reason = dto.reason;
-    }
-
-    const saved = await this.attendanceRepo.save(attendance);
+    const before = this.historyService.snapshot(attendance);
+    const authorizedShift = this.applyRejection(attendance, shift, dto);
 
-    // PUBLICAR EVENTO - NEW: Notificar rejeição
-    await this.eventPublisher.publishAttendanceRejected({
-      attendanceId: saved.id,
-      shiftId: attendance.shiftId,
-      doctorId: attendance.doctorId,
-      hospitalId: shift.hospitalId,
-      reason: dto.reason || "Rejeitado pelo hospital",
-    });
+    // Evento de rejeição gravado no outbox junto com a mutação
+    const saved = await this.saveAudited(attendance, "REJECTED", before, actor, dto.reason, (saved, manager) =>
+      this.publishRejection(saved, authorizedShift, dto.reason, manager)
+    );
 
     // Atualizar valor final do shift
     await this.updateShiftFinalValue(attendance.shiftId);
@@ -443,6 +517,42 @@ export class AttendanceFacade {
     return this.toResponseDTO(saved);
   }
 
+  /**
+   * Aprova vários attendances em uma única transação (IDs ou filtro)
+   * Cada item segue a mesma regra de approveAttendance; falhas são reportadas por item
+   */
+  async bulkApproveAttendances(
+    dto: BulkApproveAttendancesDTO,
+    actor?: AuditActor
+  ): Promise<BulkDecisionResultDTO> {
+    console.log(`✅ [FACADE] Aprovação em lote para hospital ${dto.hospitalId}`);
+
+    return this.runBulkDecision(
+      dto,
+      { action: "APPROVED", actor, reason: dto.reason },
+      (attendance, shift) => this.applyApproval(attendance, shift, dto),
+      (saved, shift, manager) => this.publishApproval(saved, shift, dto.reason, manager)
+    );
+  }
+
+  /**
+   * Rejeita vários attendances em uma única transação (IDs ou filtro)
+   * Cada item segue a mesma regra de rejectAttendance; falhas são reportadas por item
+   */
+  async bulkRejectAttendances(
+    dto: BulkRejectAttendancesDTO,
+    actor?: AuditActor
+  ): Promise<BulkDecisionResultDTO> {
+    console.log(`❌ [FACADE] Rejeição em lote para hospital ${dto.hospitalId}`);
+
+    return this.runBulkDecision(
+      dto,
+      { action: "REJECTED", actor, reason: dto.reason },
+      (attendance, shift) => this.applyRejection(attendance, shift, dto),
+      (saved, shift, manager) => this.publishRejection(saved, shift, dto.reason, manager)
+    );
+  }
+
   /**
    * Lista attendances com filtros
    */
@@ -472,6 +582,628 @@ export class AttendanceFacade {
     return { items: dtos, total, page, limit };
   }
 
+  /**
+   * Trilha de auditoria de um attendance
+   * Com hospitalId, apenas pontos de plantões do hospital (senão 404)
+   */
+  async getAttendanceHistory(attendanceId: string, hospitalId?: string): Promise<AttendanceHistory[]> {
+    const attendance = await this.attendanceRepo.findById(attendanceId);
+    if (!attendance) {
+      throw new AppError(404, "Registro de ponto não encontrado.");
+    }
+
+    // Escopo do hospital pelo shift (404 para não revelar pontos de outros hospitais)
+    if (hospitalId) {
+      const shift = await this.shiftCache.getShiftFromCache(attendance.shiftId);
+      if (!shift || shift.hospitalId !== hospitalId) {
+        throw new AppError(404, "Registro de ponto não encontrado.");
+      }
+    }
+
+    return this.historyService.getHistory(attendanceId);
+  }
+
+  /**
+   * Solicita correção de ponto (médico)
+   * - Sem attendanceId: ponto esquecido (MISSING_PUNCH)
+   * - Com attendanceId: ajuste de horário de um ponto existente (ADJUST_TIMESTAMP)
+   */
+  async requestCorrection(
+    doctorId: string,
+    dto: CreateAttendanceCorrectionDTO,
+    actor?: AuditActor
+  ): Promise<AttendanceCorrectionRequest> {
+    console.log(`📝 [FACADE] Solicitação de correção ${dto.type} no plantão ${dto.shiftId}`);
+
+    const shift = await this.shiftCache.getShiftFromCache(dto.shiftId);
+    if (!shift) {
+      throw new AppError(404, "Plantão não encontrado no cache. Sincronizando...");
+    }
+
+    this.validationService.validateShiftAccess(shift, doctorId, actor?.role || "");
+
+    const proposed = new Date(dto.proposedTimestamp);
+    this.validationService.validateCorrectionTimestamp(proposed, shift.startTime, shift.endTime);
+
+    if (dto.attendanceId) {
+      // Ajuste de horário: o ponto precisa ser do médico, do plantão e do mesmo sentido
+      const attendance = await this.attendanceRepo.findById(dto.attendanceId);
+      if (!attendance || attendance.doctorId !== doctorId || attendance.shiftId !== dto.shiftId) {
+        throw new AppError(404, "Registro de ponto não encontrado.");
+      }
+
+      if (!PUNCH_TYPES_BY_DIRECTION[dto.type].includes(attendance.type)) {
+        throw new AppError(400, `O registro informado não é um ponto ${dto.type}.`);
+      }
+    } else {
+      const existing = await this.attendanceRepo.findPunchByDirection(
+        dto.shiftId,
+        doctorId,
+        dto.type
+      );
+      if (existing) {
+        throw new AppError(
+          409,
+          `Já existe ponto ${dto.type} neste plantão. Informe attendanceId para ajustar o horário.`
+        );
+      }
+    }
+
+    const pending = await this.correctionRepo.findPendingForPunch(dto.shiftId, doctorId, dto.type);
+    if (pending) {
+      throw new AppError(409, `Já existe uma correção ${dto.type} pendente para este plantão.`);
+    }
+
+    // Ponto esquecido precisa de coordenadas: as informadas ou o centro da HealthUnit
+    let latitude = dto.latitude ?? null;
+    let longitude = dto.longitude ?? null;
+    if (!dto.attendanceId && (latitude === null || longitude === null)) {
+      const healthUnit = shift.healthUnitId
+        ? await this.healthUnitCache.getHealthUnitFromCache(shift.healthUnitId)
+        : null;
+      latitude = healthUnit?.latitude ?? null;
+      longitude = healthUnit?.longitude ?? null;
+
+      if (latitude === null || longitude === null) {
+        throw new AppError(400, "Informe latitude e longitude do ponto esquecido.");
+      }
+    }
+
+    const correction = await this.correctionRepo.save(
+      this.correctionRepo.create({
+        doctorId,
+        shiftId: dto.shiftId,
+        hospitalId: shift.hospitalId,
+        attendanceId: dto.attendanceId ?? null,
+        kind: dto.attendanceId ? "ADJUST_TIMESTAMP" : "MISSING_PUNCH",
+        direction: dto.type,
+        proposedTimestamp: proposed,
+        latitude,
+        longitude,
+        justification: dto.justification,
+        evidenceUrls: dto.evidenceUrls ?? [],
+        status: "PENDING",
+      })
+    );
+
+    console.log(`✅ [FACADE] Correção ${correction.id} (${correction.kind}) aguardando revisão`);
+
+    return correction;
+  }
+
+  /**
+   * Aprova uma correção (hospital)
+   * Cria o ponto (IN/OUT, ou LATE_IN/LATE_OUT se tardio) ou ajusta o existente, recalculando atraso e desconto
+   * com a política em vigor no horário proposto
+   * No ajuste, o status do ponto só muda com dto.approveAttendance
+   */
+  async approveCorrection(
+    correctionId: string,
+    dto: ApproveAttendanceCorrectionDTO,
+    actor?: AuditActor
+  ): Promise<{ correction: AttendanceCorrectionRequest; attendance: AttendanceResponseDTO }> {
+    console.log(`✅ [FACADE] Aprovando correção ${correctionId}`);
+
+    const { correction, saved } = await AppDataSource.transaction(async (manager) => {
+      // Correção travada: aprovações concorrentes esperam e falham com "já revisada"
+      const correction = await this.findCorrectionForReview(correctionId, dto.hospitalId, manager);
+
+      const shift = await this.shiftCache.getShiftFromCache(correction.shiftId);
+      if (!shift) {
+        throw new AppError(404, "Plantão não encontrado no cache. Sincronizando...");
+      }
+
+      const proposed = correction.proposedTimestamp;
+      const policy = await this.policyService.getEffectiveForShift(
+        shift.hospitalId,
+        shift.healthUnitId,
+        proposed
+      );
+      const lateDiscountInfo = this.discountService.calculateTimeBasedDiscount(
+        correction.direction,
+        proposed,
+        shift.startTime,
+        shift.endTime,
+        shift.value,
+        policy.discountRules,
+        shift.specialty
+      );
+      const applyDiscount = (dto.applyDiscount ?? false) && lateDiscountInfo.shouldApplyDiscount;
+      // LATE_IN/LATE_OUT só quando o horário corrigido é de fato tardio
+      const correctedType: AttendanceType = lateDiscountInfo.isLate
+        ? correction.direction === "IN" ? "LATE_IN" : "LATE_OUT"
+        : correction.direction;
+
+      let previousTimestamp: Date | undefined;
+      const attendanceRepo = manager.getRepository(Attendance);
+      let attendance: Attendance | null;
+      let before: AttendanceAuditSnapshot | null = null;
+
+      if (correction.kind === "ADJUST_TIMESTAMP") {
+        attendance = correction.attendanceId
+          ? await attendanceRepo.findOne({
+              where: { id: correction.attendanceId },
+              lock: { mode: "pessimistic_write" },
+            })
+          : null;
+        if (!attendance) {
+          throw new AppError(404, "Registro de ponto não encontrado.");
+        }
+
+        before = this.historyService.snapshot(attendance);
+        previousTimestamp = attendance.timestamp;
+      } else {
+        const existing = await attendanceRepo.findOne({
+          where: {
+            shiftId: correction.shiftId,
+            doctorId: correction.doctorId,
+            type: In(PUNCH_TYPES_BY_DIRECTION[correction.direction]),
+          },
+        });
+        if (existing) {
+          throw new AppError(409, `Já existe ponto ${correction.direction} neste plantão.`);
+        }
+
+        if (correction.direction === "OUT") {
+          const inPunch = await attendanceRepo.findOne({
+            where: {
+              shiftId: correction.shiftId,
+              doctorId: correction.doctorId,
+              type: In(PUNCH_TYPES_BY_DIRECTION.IN),
+            },
+          });
+          if (!inPunch) {
+            throw new AppError(400, "Registre ou corrija o IN antes do OUT neste plantão.");
+          }
+        }
+
+        attendance = attendanceRepo.create({
+          doctorId: correction.doctorId,
+          shiftId: correction.shiftId,
+          latitude: correction.latitude as number,
+          longitude: correction.longitude as number,
+          reason: correction.justification,
+        });
+      }
+
+      const timezoneInfo = this.geolocationService.getTimezoneInfo(
+        Number(attendance.latitude),
+        Number(attendance.longitude),
+        proposed
+      );
+
+      attendance.type = correctedType;
+      attendance.timestamp = proposed;
+      attendance.tz = timezoneInfo.tz;
+      attendance.tzOffsetMin = timezoneInfo.tzOffsetMin;
+      attendance.localTimestamp = timezoneInfo.localTimestamp;
+      // Ponto esquecido nasce aprovado; ajuste de horário mantém o status atual
+      // (ex.: PENDING por geofence ou face) salvo pedido explícito do revisor
+      if (correction.kind === "MISSING_PUNCH" || dto.approveAttendance) {
+        attendance.status = "APPROVED";
+        attendance.statusReason = `Correção aprovada (${correction.kind})`;
+      }
+      attendance.isLate = lateDiscountInfo.isLate;
+      attendance.lateMinutes = lateDiscountInfo.lateMinutes;
+      attendance.hasAutomaticDiscount = applyDiscount;
+      attendance.discountPercentage = applyDiscount ? lateDiscountInfo.discountPercentage : 0;
+      attendance.approvedWithDiscount = applyDiscount;
+      attendance.discountRule = lateDiscountInfo.matchedRule;
+      attendance.policyVersionId = policy.policyVersionId ?? null;
+
+      const result = await attendanceRepo.save(attendance);
+
+      await this.historyService.record(
+        [
+          {
+            attendanceId: result.id,
+            action: "CORRECTED",
+            before,
+            after: this.historyService.snapshot(result),
+            actor,
+            reason: dto.reviewNote || correction.justification,
+          },
+        ],
+        manager
+      );
+
+      correction.status = "APPROVED";
+      correction.reviewedBy = actor?.id || null;
+      correction.reviewedAt = new Date();
+      correction.reviewNote = dto.reviewNote ?? null;
+      correction.resultingAttendanceId = result.id;
+      await manager.getRepository(AttendanceCorrectionRequest).save(correction);
+
+      // EVENTO (outbox, mesma transação)
+      await this.eventPublisher.publishAttendanceCorrected({
+        attendanceId: result.id,
+        correctionId: correction.id,
+        shiftId: result.shiftId,
+        doctorId: result.doctorId,
+        hospitalId: shift.hospitalId,
+        kind: correction.kind,
+        type: correctedType,
+        previousTimestamp,
+        timestamp: result.timestamp,
+        status: result.status,
+        isLate: result.isLate,
+        lateMinutes: result.lateMinutes,
+        discountPercentage: Number(result.discountPercentage || 0),
+        approvedBy: actor?.id || undefined,
+      }, manager);
+
+      return { correction, saved: result };
+    });
+
+    await this.updateShiftFinalValue(saved.shiftId);
+
+    console.log(`✅ [FACADE] Correção aplicada no ponto ${saved.id} (${saved.type}, ${saved.status})`);
+
+    return { correction, attendance: await this.toResponseDTO(saved) };
+  }
+
+  /**
+   * Nega uma correção (hospital)
+   */
+  async denyCorrection(
+    correctionId: string,
+    dto: DenyAttendanceCorrectionDTO,
+    actor?: AuditActor
+  ): Promise<AttendanceCorrectionRequest> {
+    console.log(`❌ [FACADE] Negando correção ${correctionId}`);
+
+    return AppDataSource.transaction(async (manager) => {
+      const correction = await this.findCorrectionForReview(correctionId, dto.hospitalId, manager);
+
+      correction.status = "DENIED";
+      correction.reviewedBy = actor?.id || null;
+      correction.reviewedAt = new Date();
+      correction.reviewNote = dto.reviewNote;
+
+      return manager.getRepository(AttendanceCorrectionRequest).save(correction);
+    });
+  }
+
+  /**
+   * Fila de correções do hospital
+   */
+  async listCorrections(
+    hospitalId: string,
+    status?: CorrectionStatus
+  ): Promise<AttendanceCorrectionRequest[]> {
+    return this.correctionRepo.findByHospital(hospitalId, status);
+  }
+
+  /**
+   * Correções solicitadas pelo médico
+   */
+  async listDoctorCorrections(
+    doctorId: string,
+    status?: CorrectionStatus
+  ): Promise<AttendanceCorrectionRequest[]> {
+    return this.correctionRepo.findByDoctor(doctorId, status);
+  }
+
+  async getCorrection(correctionId: string): Promise<AttendanceCorrectionRequest> {
+    const correction = await this.correctionRepo.findById(correctionId);
+    if (!correction) {
+      throw new AppError(404, "Solicitação de correção não encontrada.");
+    }
+    return correction;
+  }
+
+  /**
+   * Busca correção pendente do hospital (aprovar/negar)
+   * Trava a linha na transação: o status PENDING é verificado após o lock
+   */
+  private async findCorrectionForReview(
+    correctionId: string,
+    hospitalId: string,
+    manager: EntityManager
+  ): Promise<AttendanceCorrectionRequest> {
+    const correction = await manager.getRepository(AttendanceCorrectionRequest).findOne({
+      where: { id: correctionId },
+      lock: { mode: "pessimistic_write" },
+    });
+    if (!correction) {
+      throw new AppError(404, "Solicitação de correção não encontrada.");
+    }
+
+    if (correction.hospitalId !== hospitalId) {
+      throw new AppError(403, "Sem permissão para revisar esta correção.");
+    }
+
+    if (correction.status !== "PENDING") {
+      throw new AppError(400, "Esta correção já foi revisada.");
+    }
+
+    return correction;
+  }
+
+  /**
+   * Salva a mutação, o registro de auditoria e o evento (outbox) na mesma transação
+   */
+  private async saveAudited(
+    attendance: Attendance,
+    action: "APPROVED" | "REJECTED",
+    before: AttendanceAuditSnapshot,
+    actor: AuditActor | undefined,
+    reason: string | undefined,
+    enqueueEvent: (saved: Attendance, manager: EntityManager) => Promise<void>
+  ): Promise<Attendance> {
+    return AppDataSource.transaction(async (manager) => {
+      const saved = await manager.getRepository(Attendance).save(attendance);
+      await this.historyService.record(
+        [
+          {
+            attendanceId: saved.id,
+            action,
+            before,
+            after: this.historyService.snapshot(saved),
+            actor,
+            reason,
+          },
+        ],
+        manager
+      );
+      await enqueueEvent(saved, manager);
+      return saved;
+    });
+  }
+
+  /**
+   * Aplica a aprovação na entidade (sem salvar)
+   * Retorna o shift autorizado; lança AppError se o registro não puder ser aprovado
+   * O motivo do revisor vai para o histórico e o evento; attendance.reason segue sendo o do médico
+   */
+  private applyApproval(
+    attendance: Attendance,
+    shift: CachedShift | null,
+    dto: { hospitalId: string; applyDiscount?: boolean; reason?: string }
+  ): CachedShift {
+    if (!shift || shift.hospitalId !== dto.hospitalId) {
+      throw new AppError(403, "Sem permissão para aprovar este registro.");
+    }
+
+    if (attendance.status === "APPROVED") {
+      throw new AppError(400, "Este registro já foi aprovado.");
+    }
+
+    // Atualizar status e controle de desconto
+    attendance.status = "APPROVED";
+    attendance.approvedWithDiscount =
+      (dto.applyDiscount ?? false) && attendance.isLate;
+
+    // Se escolheu não aplicar desconto, zerar o percentual
+    if (!dto.applyDiscount || !attendance.isLate) {
+      attendance.discountPercentage = 0;
+      attendance.hasAutomaticDiscount = false;
+    }
+
+    return shift;
+  }
+
+  /**
+   * Aplica a rejeição na entidade (sem salvar)
+   * Retorna o shift autorizado; lança AppError se o registro não puder ser rejeitado
+   * O motivo do revisor vai para o histórico e o evento; attendance.reason segue sendo o do médico
+   */
+  private applyRejection(
+    attendance: Attendance,
+    shift: CachedShift | null,
+    dto: { hospitalId: string; reason?: string }
+  ): CachedShift {
+    if (!shift || shift.hospitalId !== dto.hospitalId) {
+      throw new AppError(403, "Sem permissão para rejeitar este registro.");
+    }
+
+    attendance.status = "REJECTED";
+    attendance.approvedWithDiscount = false;
+    attendance.discountPercentage = 0;
+    attendance.hasAutomaticDiscount = false;
+
+    return shift;
+  }
+
+  private async publishApproval(
+    saved: Attendance,
+    shift: CachedShift,
+    reason: string | undefined,
+    manager: EntityManager
+  ): Promise<void> {
+    await this.eventPublisher.publishAttendanceApproved({
+      attendanceId: saved.id,
+      shiftId: saved.shiftId,
+      doctorId: saved.doctorId,
+      hospitalId: shift.hospitalId,
+      approvedWithDiscount: saved.approvedWithDiscount || false,
+      discountPercentage: Number(saved.discountPercentage || 0),
+      finalShiftValue: shift.value * (1 - Number(saved.discountPercentage || 0) / 100),
+      reason,
+    }, manager);
+  }
+
+  private async publishRejection(
+    saved: Attendance,
+    shift: CachedShift,
+    reason: string | undefined,
+    manager: EntityManager
+  ): Promise<void> {
+    await this.eventPublisher.publishAttendanceRejected({
+      attendanceId: saved.id,
+      shiftId: saved.shiftId,
+      doctorId: saved.doctorId,
+      hospitalId: shift.hospitalId,
+      reason: reason || "Rejeitado pelo hospital",
+    }, manager);
+  }
+
+  /**
+   * Executa uma decisão em lote
+   * - Seleção, validação e gravação em uma única transação
+   * - Itens inválidos (403/400/404) não abortam o lote; erros de banco fazem rollback de tudo
+   * - Eventos (um por attendance) gravados no outbox na mesma transação
+   * - Valores finais dos shifts após o commit
+   */
+  private async runBulkDecision(
+    selection: { hospitalId: string; attendanceIds?: string[]; filter?: BulkAttendanceFilterDTO },
+    audit: { action: "APPROVED" | "REJECTED"; actor?: AuditActor; reason?: string },
+    apply: (attendance: Attendance, shift: CachedShift | null) => CachedShift,
+    publish: (saved: Attendance, shift: CachedShift, manager: EntityManager) => Promise<void>
+  ): Promise<BulkDecisionResultDTO> {
+    const hasIds = !!selection.attendanceIds?.length;
+    if (hasIds === !!selection.filter) {
+      throw new AppError(400, "Informe attendanceIds ou filter (apenas um dos dois).");
+    }
+
+    const results = new Map<string, BulkDecisionItemResultDTO>();
+    const decided: Array<{
+      attendance: Attendance;
+      shift: CachedShift;
+      before: AttendanceAuditSnapshot;
+    }> = [];
+    let order: string[] = [];
+
+    await AppDataSource.transaction(async (manager) => {
+      const repo = manager.getRepository(Attendance);
+
+      const attendances = hasIds
+        ? await repo.find({
+            where: { id: In(selection.attendanceIds!) },
+            lock: { mode: "pessimistic_write" },
+          })
+        : await this.findBulkCandidates(repo, selection.hospitalId, selection.filter!);
+
+      order = hasIds ? [...new Set(selection.attendanceIds!)] : attendances.map((a) => a.id);
+
+      for (const attendance of attendances) {
+        const shift = await this.shiftCache.getShiftFromCache(attendance.shiftId);
+        const before = this.historyService.snapshot(attendance);
+
+        try {
+          decided.push({ attendance, shift: apply(attendance, shift), before });
+        } catch (error) {
+          if (!(error instanceof AppError)) throw error;
+          results.set(attendance.id, {
+            attendanceId: attendance.id,
+            success: false,
+            error: error.message,
+            code: error.code,
+          });
+        }
+      }
+
+      if (decided.length > 0) {
+        await repo.save(decided.map((d) => d.attendance));
+        await this.historyService.record(
+          decided.map((d) => ({
+            attendanceId: d.attendance.id,
+            action: audit.action,
+            before: d.before,
+            after: this.historyService.snapshot(d.attendance),
+            actor: audit.actor,
+            reason: audit.reason,
+          })),
+          manager
+        );
+
+        // Um evento por attendance (outbox)
+        for (const { attendance, shift } of decided) {
+          await publish(attendance, shift, manager);
+        }
+      }
+    });
+
+    for (const { attendance } of decided) {
+      results.set(attendance.id, {
+        attendanceId: attendance.id,
+        success: true,
+        status: attendance.status,
+      });
+    }
+
+    // Valores finais (uma vez por shift afetado)
+    for (const shiftId of new Set(decided.map((d) => d.attendance.shiftId))) {
+      await this.updateShiftFinalValue(shiftId);
+    }
+
+    const items = order.map(
+      (id) =>
+        results.get(id) ?? {
+          attendanceId: id,
+          success: false,
+          error: "Registro de ponto não encontrado.",
+          code: 404,
+        }
+    );
+    const succeeded = items.filter((item) => item.success).length;
+
+    console.log(`📦 [FACADE] Lote concluído: ${succeeded}/${items.length} com sucesso`);
+
+    return {
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      items,
+    };
+  }
+
+  /**
+   * Pontos PENDING do hospital que casam com o filtro (travados para a transação)
+   */
+  private async findBulkCandidates(
+    repo: Repository<Attendance>,
+    hospitalId: string,
+    filter: BulkAttendanceFilterDTO
+  ): Promise<Attendance[]> {
+    // Attendance não guarda hospitalId: resolver shifts do hospital pelo cache
+    const shifts = await this.shiftCache.getShiftsByHospital(hospitalId);
+    if (shifts.length === 0) return [];
+
+    const where: FindOptionsWhere<Attendance> = {
+      shiftId: In(shifts.map((s) => s.id)),
+      status: "PENDING",
+    };
+
+    if (filter.date) {
+      // Dia em UTC (mesma convenção dos índices diários de shift), independente do TZ do servidor
+      const startOfDay = new Date(`${filter.date.slice(0, 10)}T00:00:00.000Z`);
+      const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000 - 1);
+      where.timestamp = Between(startOfDay, endOfDay);
+    }
+
+    if (filter.statusReason) {
+      where.statusReason = ILike(`%${filter.statusReason}%`);
+    }
+
+    return repo.find({
+      where,
+      order: { timestamp: "ASC" },
+      take: BULK_DECISION_MAX_ITEMS,
+      lock: { mode: "pessimistic_write" },
+    });
+  }
+
   /**
    * Finaliza um shift quando OUT é aprovado
    */
@@ -519,7 +1251,7 @@ export class AttendanceFacade {
         shift.value,
         attendances.map((att) => ({
           id: att.id,
-          type: att.type as "IN" | "OUT",
+          type: getPunchDirection(att.type),
           discountPercentage: Number(att.discountPercentage || 0),
           approvedWithDiscount: att.approvedWithDiscount || false,
         }))
@@ -545,7 +1277,7 @@ export class AttendanceFacade {
    * Converte Attendance entity para DTO de resposta usando dados do cache
    */
   private async toResponseDTO(attendance: Attendance): Promise<AttendanceResponseDTO> {
-    const photoSignedUrl = this.photoService.generateSignedUrl(attendance.photoS3Key ?? null);
+    const photoSignedUrl = await this.photoService.generateSignedUrl(attendance.photoS3Key ?? null);
 
     // Buscar dados do cache
     const doctor = await this.userCache.getUserFromCache(attendance.doctorId);
@@ -568,8 +1300,8 @@ export class AttendanceFacade {
     dto.latitude = attendance.latitude;
     dto.longitude = attendance.longitude;
     dto.reason = attendance.reason;
+    dto.statusReason = attendance.statusReason;
     dto.status = attendance.status;
-    dto.photoS3Key = attendance.photoS3Key;
     dto.photoSignedUrl = photoSignedUrl;
     dto.createdAt = attendance.createdAt;
     dto.updatedAt = attendance.updatedAt;
@@ -578,6 +1310,18 @@ export class AttendanceFacade {
     dto.hasAutomaticDiscount = attendance.hasAutomaticDiscount;
     dto.discountPercentage = Number(attendance.discountPercentage);
     dto.approvedWithDiscount = attendance.approvedWithDiscount;
+    dto.policyVersionId = attendance.policyVersionId ?? null;
+    dto.discountRule = attendance.discountRule ?? null;
+    dto.faceVerification =
+      attendance.faceVerified === null || attendance.faceVerified === undefined
+        ? null
+        : {
+            verified: attendance.faceVerified,
+            confidence: Number(attendance.faceConfidence),
+            requiredConfidence: Number(attendance.faceRequiredConfidence),
+            attempts: attendance.faceVerificationAttempts,
+            livenessPassed: attendance.faceLivenessPassed ?? undefined,
+          };
 
     // Dados do cache ao invés de relações
     if (doctor) {
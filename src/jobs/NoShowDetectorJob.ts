@@ -0,0 +1,55 @@
+import { AttendanceNoShowService } from '@/services/AttendanceNoShowService';
+
+/**
+ * Job periódico de detecção de faltas (no-show)
+ * 
+ * - Executa a cada NO_SHOW_JOB_INTERVAL_MS (padrão: 5 minutos)
+ * - Desativado com NO_SHOW_JOB_ENABLED=false
+ * - Nunca executa duas rodadas em paralelo na mesma instância
+ *   (entre réplicas, o índice único de attendance_no_show evita duplicidade)
+ */
+export class NoShowDetectorJob {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private noShowService: AttendanceNoShowService,
+    private readonly intervalMs: number = parseInt(process.env.NO_SHOW_JOB_INTERVAL_MS || '300000')
+  ) {}
+
+  start(): void {
+    if (process.env.NO_SHOW_JOB_ENABLED === 'false') {
+      console.log('⏸️ [NO-SHOW] Job desativado (NO_SHOW_JOB_ENABLED=false)');
+      return;
+    }
+
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.runOnce(), this.intervalMs);
+    console.log(`⏰ [NO-SHOW] Job iniciado (intervalo: ${this.intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      console.log('⏹️ [NO-SHOW] Job parado');
+    }
+  }
+
+  /**
+   * Executa uma rodada de detecção (ignorada se a anterior ainda estiver em andamento)
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      await this.noShowService.detectAndMark();
+    } catch (error) {
+      console.error('❌ [NO-SHOW] Erro na detecção de faltas:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
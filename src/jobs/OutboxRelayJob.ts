@@ -0,0 +1,75 @@
+import { EventOutboxService, OUTBOX_BATCH_SIZE } from '@/services/EventOutboxService';
+
+/**
+ * Máximo de lotes por rodada (evita monopolizar o event loop com backlog grande)
+ */
+const MAX_BATCHES_PER_RUN = 10;
+
+/**
+ * Intervalo entre limpezas de eventos já publicados
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000; // 1 hora
+
+/**
+ * Job periódico de relay do transactional outbox
+ * 
+ * - Executa a cada OUTBOX_RELAY_INTERVAL_MS (padrão: 1 segundo)
+ * - Desativado com OUTBOX_RELAY_ENABLED=false
+ * - Nunca executa duas rodadas em paralelo na mesma instância
+ *   (entre réplicas, SKIP LOCKED evita publicar o mesmo evento duas vezes)
+ */
+export class OutboxRelayJob {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private lastPurgeAt = 0;
+
+  constructor(
+    private outboxService: EventOutboxService,
+    private readonly intervalMs: number = parseInt(process.env.OUTBOX_RELAY_INTERVAL_MS || '1000')
+  ) {}
+
+  start(): void {
+    if (process.env.OUTBOX_RELAY_ENABLED === 'false') {
+      console.log('⏸️ [OUTBOX] Relay desativado (OUTBOX_RELAY_ENABLED=false)');
+      return;
+    }
+
+    if (this.timer) return;
+
+    this.timer = setInterval(() => void this.runOnce(), this.intervalMs);
+    console.log(`⏰ [OUTBOX] Relay iniciado (intervalo: ${this.intervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      console.log('⏹️ [OUTBOX] Relay parado');
+    }
+  }
+
+  /**
+   * Executa uma rodada de relay (ignorada se a anterior ainda estiver em andamento)
+   * Continua enquanto os lotes vierem cheios e sem falhas
+   */
+  async runOnce(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+        const { claimed, sent } = await this.outboxService.relayBatch();
+        if (claimed < OUTBOX_BATCH_SIZE || sent < claimed) break;
+      }
+
+      if (Date.now() - this.lastPurgeAt >= PURGE_INTERVAL_MS) {
+        this.lastPurgeAt = Date.now();
+        await this.outboxService.purgeSent();
+      }
+    } catch (error) {
+      console.error('❌ [OUTBOX] Erro no relay do outbox:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
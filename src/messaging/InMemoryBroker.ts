@@ -0,0 +1,283 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MessageHandler } from '../types/amqplib.types';
+import type {
+  AssertQueueOptions,
+  AssertQueueResult,
+  MessageBroker,
+  PublishMessageOptions,
+} from './MessageBroker';
+import { getMessagingTopology, quarantineQueueName } from './topology';
+import { deadLetterQueueName, parseRetryDelays } from './RetryPolicy';
+
+/**
+ * Mensagem armazenada em uma queue em memória
+ */
+export interface InMemoryMessage {
+  messageId: string;
+  exchange: string;
+  routingKey: string;
+  content: string;
+  timestamp: number;
+  deliveryCount: number;
+}
+
+interface InMemoryConsumer {
+  handler: MessageHandler<unknown>;
+  noAck: boolean;
+}
+
+interface InMemoryQueue {
+  name: string;
+  messages: InMemoryMessage[];
+  consumers: InMemoryConsumer[];
+  nextConsumer: number;
+  retry: boolean;
+  dispatching: boolean;
+}
+
+/**
+ * Routing key casa com o padrão de binding (topic: "*" = uma palavra, "#" = zero ou mais)
+ */
+export function matchesRoutingKey(pattern: string, routingKey: string): boolean {
+  const match = (patternWords: string[], keyWords: string[]): boolean => {
+    if (patternWords.length === 0) return keyWords.length === 0;
+
+    const [head, ...rest] = patternWords;
+    if (head === '#') {
+      for (let i = 0; i <= keyWords.length; i++) {
+        if (match(rest, keyWords.slice(i))) return true;
+      }
+      return false;
+    }
+
+    if (keyWords.length === 0) return false;
+    return (head === '*' || head === keyWords[0]) && match(rest, keyWords.slice(1));
+  };
+
+  return match(pattern.split('.'), routingKey.split('.'));
+}
+
+/**
+ * Broker em memória (MESSAGE_BROKER=memory)
+ *
+ * Reproduz a topologia do RabbitMQ (topology.ts) no próprio processo:
+ * exchanges topic, exchange default ('' → queue pelo nome), ack/nack e request-reply.
+ * Mensagens são entregues em ordem, uma por vez por queue. Falhas são reentregues
+ * imediatamente (sem backoff) e, nas queues de sync, vão para a DLQ ao esgotar as tentativas.
+ */
+export class InMemoryBroker implements MessageBroker {
+  private connected = false;
+  private exchanges: Set<string> = new Set();
+  private bindings: Map<string, { queue: string; routingKey: string }[]> = new Map();
+  private queues: Map<string, InMemoryQueue> = new Map();
+  private readonly maxDeliveries: number;
+
+  constructor() {
+    this.maxDeliveries = 1 + parseRetryDelays().length;
+  }
+
+  async connect(): Promise<void> {
+    if (this.connected) return;
+
+    const topology = getMessagingTopology();
+    topology.exchanges.forEach((exchange) => this.assertExchange(exchange));
+    topology.queues.forEach((queue) => {
+      this.getOrCreateQueue(queue.name).retry = queue.retry;
+      if (queue.retry) this.getOrCreateQueue(deadLetterQueueName(queue.name));
+      if (queue.quarantine) this.getOrCreateQueue(quarantineQueueName(queue.name));
+    });
+    topology.bindings.forEach((binding) => this.bindQueue(binding.queue, binding.exchange, binding.routingKey));
+
+    this.connected = true;
+    console.log('📦 Message broker em memória (MESSAGE_BROKER=memory)');
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    this.queues.forEach((queue) => {
+      queue.consumers = [];
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  assertExchange(exchange: string): void {
+    this.exchanges.add(exchange);
+  }
+
+  bindQueue(queue: string, exchange: string, routingKey: string): void {
+    this.assertExchange(exchange);
+    this.getOrCreateQueue(queue);
+
+    const bindings = this.bindings.get(exchange) || [];
+    if (!bindings.some((binding) => binding.queue === queue && binding.routingKey === routingKey)) {
+      bindings.push({ queue, routingKey });
+    }
+    this.bindings.set(exchange, bindings);
+  }
+
+  async assertQueue(queue: string, _options?: AssertQueueOptions): Promise<AssertQueueResult> {
+    this.ensureConnected();
+    const state = this.getOrCreateQueue(queue);
+
+    return { queue, messageCount: state.messages.length, consumerCount: state.consumers.length };
+  }
+
+  async publish(
+    exchange: string,
+    routingKey: string,
+    message: object,
+    options: PublishMessageOptions = {}
+  ): Promise<boolean> {
+    this.ensureConnected();
+
+    // Serializa como no RabbitMQ: consumidores nunca recebem a mesma referência
+    const content = JSON.stringify(message);
+    const targets = this.route(exchange, routingKey);
+
+    if (targets.length === 0) {
+      console.warn(`⚠️ [MEMORY BROKER] Mensagem sem rota descartada: ${exchange || '(default)'}/${routingKey}`);
+      return true;
+    }
+
+    for (const queue of targets) {
+      queue.messages.push({
+        messageId: options.messageId || uuidv4(),
+        exchange,
+        routingKey,
+        content,
+        timestamp: Date.now(),
+        deliveryCount: 0,
+      });
+      this.scheduleDispatch(queue);
+    }
+
+    return true;
+  }
+
+  async consume<T = unknown>(
+    queue: string,
+    onMessage: MessageHandler<T>,
+    options: { noAck?: boolean } = {}
+  ): Promise<void> {
+    this.ensureConnected();
+    const state = this.getOrCreateQueue(queue);
+
+    state.consumers.push({ handler: onMessage as MessageHandler<unknown>, noAck: options.noAck ?? false });
+    this.scheduleDispatch(state);
+
+    console.log(`👂 Consumindo mensagens da queue: ${queue}`);
+  }
+
+  /**
+   * Mensagens aguardando entrega na queue (inclui DLQs)
+   */
+  getQueueMessages(queue: string): InMemoryMessage[] {
+    return [...(this.queues.get(queue)?.messages || [])];
+  }
+
+  /**
+   * Aguarda até que todas as queues com consumidores estejam vazias (útil em testes)
+   */
+  async waitForIdle(timeoutMs: number = 5000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (this.isBusy()) {
+      if (Date.now() > deadline) {
+        throw new Error(`Broker em memória não ficou ocioso em ${timeoutMs}ms`);
+      }
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  }
+
+  private isBusy(): boolean {
+    for (const queue of this.queues.values()) {
+      if (queue.dispatching || (queue.consumers.length > 0 && queue.messages.length > 0)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private ensureConnected(): void {
+    if (!this.connected) {
+      throw new Error('Broker em memória não inicializado');
+    }
+  }
+
+  private getOrCreateQueue(name: string): InMemoryQueue {
+    let queue = this.queues.get(name);
+    if (!queue) {
+      queue = { name, messages: [], consumers: [], nextConsumer: 0, retry: false, dispatching: false };
+      this.queues.set(name, queue);
+    }
+    return queue;
+  }
+
+  private route(exchange: string, routingKey: string): InMemoryQueue[] {
+    if (exchange === '') {
+      const queue = this.queues.get(routingKey);
+      return queue ? [queue] : [];
+    }
+
+    if (!this.exchanges.has(exchange)) {
+      throw new Error(`Exchange ${exchange} não existe`);
+    }
+
+    const queueNames = new Set(
+      (this.bindings.get(exchange) || [])
+        .filter((binding) => matchesRoutingKey(binding.routingKey, routingKey))
+        .map((binding) => binding.queue)
+    );
+
+    return Array.from(queueNames).map((name) => this.getOrCreateQueue(name));
+  }
+
+  private scheduleDispatch(queue: InMemoryQueue): void {
+    if (queue.dispatching || queue.consumers.length === 0 || queue.messages.length === 0) return;
+
+    queue.dispatching = true;
+    setImmediate(() => {
+      this.dispatch(queue).finally(() => {
+        queue.dispatching = false;
+        this.scheduleDispatch(queue);
+      });
+    });
+  }
+
+  /**
+   * Entrega as mensagens em ordem, alternando entre os consumidores (round-robin)
+   */
+  private async dispatch(queue: InMemoryQueue): Promise<void> {
+    while (this.connected && queue.consumers.length > 0 && queue.messages.length > 0) {
+      const message = queue.messages[0];
+      const consumer = queue.consumers[queue.nextConsumer++ % queue.consumers.length];
+      message.deliveryCount++;
+
+      try {
+        await consumer.handler(JSON.parse(message.content));
+        queue.messages.shift(); // ack
+      } catch (error) {
+        console.error(`❌ Erro ao processar mensagem da queue ${queue.name}:`, error);
+        queue.messages.shift();
+
+        // noAck: a mensagem já foi considerada entregue
+        if (consumer.noAck) continue;
+
+        if (!queue.retry) {
+          // nack sem requeue: descartada (queue sem DLQ)
+          continue;
+        }
+
+        if (message.deliveryCount < this.maxDeliveries) {
+          queue.messages.unshift(message); // nack com requeue
+        } else {
+          console.error(`☠️ [MEMORY BROKER] Mensagem de ${queue.name} enviada para ${deadLetterQueueName(queue.name)}`);
+          this.getOrCreateQueue(deadLetterQueueName(queue.name)).messages.push(message);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { MessageHandler } from '../types/amqplib.types';
+import { rabbitMQ } from './RabbitMQConnection';
+import { InMemoryBroker } from './InMemoryBroker';
+
+/**
+ * Message Broker usado pelos publishers/consumers do Attendance Service
+ *
+ * Drivers (MESSAGE_BROKER):
+ * - rabbitmq (padrão): RabbitMQConnection
+ * - memory: InMemoryBroker, tudo no mesmo processo (testes / desenvolvimento local)
+ */
+
+export type MessageBrokerDriver = 'rabbitmq' | 'memory';
+
+export interface PublishMessageOptions {
+  persistent?: boolean;
+  messageId?: string;
+}
+
+export interface AssertQueueOptions {
+  durable?: boolean;
+  exclusive?: boolean;
+  autoDelete?: boolean;
+  arguments?: Record<string, unknown>;
+}
+
+export interface AssertQueueResult {
+  queue: string;
+  messageCount: number;
+  consumerCount: number;
+}
+
+export interface MessageBroker {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  isConnected(): boolean;
+
+  /**
+   * Publicar mensagem (exchange '' = entrega direta na queue com nome = routingKey)
+   */
+  publish(exchange: string, routingKey: string, message: object, options?: PublishMessageOptions): Promise<boolean>;
+
+  assertQueue(queue: string, options?: AssertQueueOptions): Promise<AssertQueueResult>;
+
+  /**
+   * Consumir mensagens: ack quando o handler resolve, nack quando lança erro
+   */
+  consume<T = unknown>(queue: string, onMessage: MessageHandler<T>, options?: { noAck?: boolean }): Promise<void>;
+}
+
+export function getMessageBrokerDriver(): MessageBrokerDriver {
+  return process.env.MESSAGE_BROKER === 'memory' ? 'memory' : 'rabbitmq';
+}
+
+export function createMessageBroker(driver: MessageBrokerDriver = getMessageBrokerDriver()): MessageBroker {
+  return driver === 'memory' ? new InMemoryBroker() : rabbitMQ;
+}
+
+// Instância singleton
+export const messageBroker = createMessageBroker();
@@ -1,17 +1,79 @@
 import * as amqp from 'amqplib';
 import { MessageHandler } from '../types/amqplib.types';
+import type { MessageBroker, PublishMessageOptions } from './MessageBroker';
+import { getMessagingTopology, quarantineQueueName } from './topology';
+import {
+  RETRY_HEADERS,
+  deadLetterQueueName,
+  getRetryCount,
+  parseRetryDelays,
+  resolveRetry,
+  retryExchangeName,
+  retryQueueName,
+} from './RetryPolicy';
+
+/**
+ * Consumidor registrado (recriado a cada reconexão)
+ */
+interface ConsumerRegistration {
+  queue: string;
+  onMessage: MessageHandler<unknown>;
+  options: { noAck?: boolean };
+}
+
+/**
+ * Publicação aguardando reconexão
+ */
+interface BufferedPublish {
+  exchange: string;
+  routingKey: string;
+  content: Buffer;
+  options: amqp.Options.Publish;
+  resolve: (published: boolean) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
 
 /**
  * RabbitMQ Connection Manager
  * Gerencia conexão, canais e configuração de exchanges/queues
+ * 
+ * Queues de sync (shift/user/healthunit) têm retentativa com backoff e DLQ (ver RetryPolicy)
+ * 
+ * Se a conexão cair, reconecta com backoff exponencial, recria a topologia e os consumidores.
+ * Publicação via confirm channel: publish() só resolve após o ack do broker.
+ * Enquanto desconectado, publicações ficam em um buffer limitado em memória.
  */
-export class RabbitMQConnection {
+export class RabbitMQConnection implements MessageBroker {
   private connectionModel?: amqp.ChannelModel;
   private channel?: amqp.Channel;
+  private confirmChannel?: amqp.ConfirmChannel;
   private readonly url: string;
+  private readonly retryDelays: number[];
+  private retryQueues: Set<string> = new Set();
+
+  // Reconexão
+  private readonly reconnectBaseMs: number;
+  private readonly reconnectMaxMs: number;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: NodeJS.Timeout;
+  private started = false;
+  private closing = false;
+  private consumers: ConsumerRegistration[] = [];
+  private declaredQueues: Map<string, amqp.Options.AssertQueue | undefined> = new Map();
+
+  // Buffer de publicação enquanto desconectado
+  private readonly publishBufferSize: number;
+  private readonly publishBufferTimeoutMs: number;
+  private publishBuffer: BufferedPublish[] = [];
 
   constructor() {
     this.url = process.env.RABBITMQ_URL || 'amqp://localhost:5672';
+    this.retryDelays = parseRetryDelays();
+    this.reconnectBaseMs = parseInt(process.env.RABBITMQ_RECONNECT_BASE_MS || '1000');
+    this.reconnectMaxMs = parseInt(process.env.RABBITMQ_RECONNECT_MAX_MS || '30000');
+    this.publishBufferSize = parseInt(process.env.RABBITMQ_PUBLISH_BUFFER_SIZE || '1000');
+    this.publishBufferTimeoutMs = parseInt(process.env.RABBITMQ_PUBLISH_BUFFER_TIMEOUT_MS || '30000');
   }
 
   /**
@@ -20,42 +82,130 @@ export class RabbitMQConnection {
   async connect(): Promise<void> {
     try {
       console.log('🔄 Conectando ao RabbitMQ...');
-      this.connectionModel = await amqp.connect(this.url);
-      this.channel = await this.connectionModel.createChannel();
+      this.closing = false;
+      await this.openConnection();
+      this.started = true;
+    } catch (error) {
+      console.error('❌ Erro ao conectar RabbitMQ:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Abrir conexão, canais e topologia
+   */
+  private async openConnection(): Promise<void> {
+    const connectionModel = await amqp.connect(this.url);
+
+    try {
+      const channel = await connectionModel.createChannel();
+      const confirmChannel = await connectionModel.createConfirmChannel();
 
       // Event listeners para conexão
-      this.connectionModel.on('error', (err: Error) => {
+      connectionModel.on('error', (err: Error) => {
         console.error('❌ Erro na conexão RabbitMQ:', err);
       });
 
-      this.connectionModel.on('close', () => {
+      connectionModel.on('close', () => {
         console.log('📴 Conexão RabbitMQ fechada');
+        this.handleDisconnect(connectionModel);
       });
 
+      // Erro de canal (ex.: precondition failed) fecha o canal sem derrubar a conexão
+      for (const ch of [channel, confirmChannel]) {
+        ch.on('error', (err: Error) => {
+          console.error('❌ Erro no canal RabbitMQ:', err);
+        });
+        ch.on('close', () => {
+          if (this.connectionModel === connectionModel && !this.closing) {
+            console.warn('⚠️ Canal RabbitMQ fechado inesperadamente, reiniciando conexão');
+            connectionModel.close().catch(() => this.handleDisconnect(connectionModel));
+          }
+        });
+      }
+
+      this.connectionModel = connectionModel;
+      this.channel = channel;
+      this.confirmChannel = confirmChannel;
+
       console.log('✅ Conectado ao RabbitMQ com sucesso');
       await this.setupExchangesAndQueues();
+
+      // Queues declaradas pelos serviços (ex.: reply queues do Request/Reply)
+      for (const [queue, options] of this.declaredQueues) {
+        await channel.assertQueue(queue, options);
+      }
+
+      for (const registration of this.consumers) {
+        await this.startConsumer(channel, registration);
+      }
     } catch (error) {
-      console.error('❌ Erro ao conectar RabbitMQ:', error);
+      this.connectionModel = undefined;
+      this.channel = undefined;
+      this.confirmChannel = undefined;
+      await connectionModel.close().catch(() => undefined);
       throw error;
     }
+
+    this.flushPublishBuffer();
   }
 
   /**
-   * Configurar exchanges e queues
+   * Conexão perdida: descartar canais e agendar reconexão
+   */
+  private handleDisconnect(connectionModel: amqp.ChannelModel): void {
+    if (this.connectionModel !== connectionModel) return;
+
+    this.connectionModel = undefined;
+    this.channel = undefined;
+    this.confirmChannel = undefined;
+
+    if (!this.closing && this.started) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Intervalo até a próxima tentativa de reconexão (backoff exponencial com teto)
+   */
+  getReconnectDelay(attempt: number): number {
+    return Math.min(this.reconnectBaseMs * Math.pow(2, Math.max(attempt - 1, 0)), this.reconnectMaxMs);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer || this.closing) return;
+
+    this.reconnectAttempt++;
+    const delay = this.getReconnectDelay(this.reconnectAttempt);
+    console.warn(`🔄 Reconectando ao RabbitMQ em ${delay}ms (tentativa ${this.reconnectAttempt})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = undefined;
+      if (this.closing) return;
+
+      try {
+        await this.openConnection();
+        console.log(`✅ Reconectado ao RabbitMQ após ${this.reconnectAttempt} tentativa(s)`);
+        this.reconnectAttempt = 0;
+      } catch (error) {
+        console.error('❌ Falha ao reconectar RabbitMQ:', error);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Configurar exchanges e queues (ver topology.ts)
    */
   private async setupExchangesAndQueues(): Promise<void> {
     if (!this.channel) {
       throw new Error('Canal RabbitMQ não inicializado');
     }
 
-    // Exchanges
-    const exchanges = [
-      process.env.EXCHANGE_ATTENDANCE_EVENTS || 'attendance.events',
-      process.env.EXCHANGE_SHIFT_EVENTS || 'shift.events',
-      process.env.EXCHANGE_USER_EVENTS || 'user.events',
-    ];
+    const topology = getMessagingTopology();
 
-    for (const exchange of exchanges) {
+    // Exchanges
+    for (const exchange of topology.exchanges) {
       await this.channel.assertExchange(exchange, 'topic', { 
         durable: true 
       });
@@ -63,49 +213,62 @@ export class RabbitMQConnection {
     }
 
     // Queues
-    const queues = [
-      process.env.QUEUE_ATTENDANCE_COMMANDS || 'attendance.commands',
-      process.env.QUEUE_SHIFT_SYNC || 'attendance.shift.sync',
-      process.env.QUEUE_USER_SYNC || 'attendance.user.sync',
-    ];
-
-    for (const queue of queues) {
-      await this.channel.assertQueue(queue, { 
+    for (const queue of topology.queues) {
+      await this.channel.assertQueue(queue.name, { 
         durable: true,
         arguments: {
           'x-message-ttl': 3600000, // 1 hora TTL
-          'x-max-retries': 3,
         }
       });
-      console.log(`✅ Queue ${queue} configurada`);
+      console.log(`✅ Queue ${queue.name} configurada`);
+    }
+
+    // Retentativa com backoff + DLQ para as queues de sync
+    for (const queue of topology.queues.filter((definition) => definition.retry)) {
+      await this.setupRetryTopology(queue.name);
+    }
+
+    // Quarentena de eventos inválidos (schema)
+    for (const queue of topology.queues.filter((definition) => definition.quarantine)) {
+      await this.channel.assertQueue(quarantineQueueName(queue.name), { durable: true });
     }
 
     // Bindings
-    await this.setupBindings();
+    for (const binding of topology.bindings) {
+      await this.channel.bindQueue(binding.queue, binding.exchange, binding.routingKey);
+    }
+    console.log('✅ Bindings configurados');
   }
 
   /**
-   * Configurar bindings entre exchanges e queues
+   * Exchange de retry, queues de espera (TTL) e DLQ de uma queue
+   * Ao expirar, a mensagem volta para a queue original (dead-letter no exchange default)
    */
-  private async setupBindings(): Promise<void> {
+  private async setupRetryTopology(queue: string): Promise<void> {
     if (!this.channel) return;
 
-    const shiftExchange = process.env.EXCHANGE_SHIFT_EVENTS || 'shift.events';
-    const userExchange = process.env.EXCHANGE_USER_EVENTS || 'user.events';
-    const shiftQueue = process.env.QUEUE_SHIFT_SYNC || 'attendance.shift.sync';
-    const userQueue = process.env.QUEUE_USER_SYNC || 'attendance.user.sync';
+    const exchange = retryExchangeName(queue);
+    await this.channel.assertExchange(exchange, 'direct', { durable: true });
 
-    // Shift events -> Attendance sync
-    await this.channel.bindQueue(shiftQueue, shiftExchange, 'shift.created');
-    await this.channel.bindQueue(shiftQueue, shiftExchange, 'shift.updated');
-    await this.channel.bindQueue(shiftQueue, shiftExchange, 'shift.deleted');
+    for (const delayMs of this.retryDelays) {
+      const waitQueue = retryQueueName(queue, delayMs);
+      await this.channel.assertQueue(waitQueue, {
+        durable: true,
+        arguments: {
+          'x-message-ttl': delayMs,
+          'x-dead-letter-exchange': '',
+          'x-dead-letter-routing-key': queue,
+        },
+      });
+      await this.channel.bindQueue(waitQueue, exchange, `${delayMs}ms`);
+    }
 
-    // User events -> Attendance sync
-    await this.channel.bindQueue(userQueue, userExchange, 'user.created');
-    await this.channel.bindQueue(userQueue, userExchange, 'user.updated');
-    await this.channel.bindQueue(userQueue, userExchange, 'user.deleted');
+    await this.channel.assertQueue(deadLetterQueueName(queue), { durable: true });
 
-    console.log('✅ Bindings configurados');
+    this.retryQueues.add(queue);
+    console.log(
+      `✅ Retry de ${queue} configurado (${this.retryDelays.map((d) => `${d / 1000}s`).join('/')} → ${deadLetterQueueName(queue)})`
+    );
   }
 
   /**
@@ -119,35 +282,122 @@ export class RabbitMQConnection {
   }
 
   /**
-   * Publicar mensagem
+   * Criar canal dedicado com publisher confirms (operações administrativas, ex.: replay da DLQ)
+   * Mensagens não confirmadas voltam para a queue quando o canal é fechado
+   */
+  async createConfirmChannel(): Promise<amqp.ConfirmChannel> {
+    if (!this.connectionModel) {
+      throw new Error('Conexão RabbitMQ não inicializada');
+    }
+    return this.connectionModel.createConfirmChannel();
+  }
+
+  /**
+   * Publicar mensagem (resolve após a confirmação do broker)
+   * Desconectado: aguarda a reconexão no buffer (limitado em tamanho e tempo)
    */
   async publish(
     exchange: string, 
     routingKey: string, 
     message: object,
-    options: { persistent?: boolean; messageId?: string } = {}
+    options: PublishMessageOptions = {}
   ): Promise<boolean> {
-    if (!this.channel) {
+    if (!this.started) {
       throw new Error('Canal RabbitMQ não inicializado');
     }
 
     const messageBuffer = Buffer.from(JSON.stringify(message));
-    
-    return this.channel.publish(
-      exchange, 
-      routingKey, 
-      messageBuffer, 
-      {
-        persistent: options.persistent ?? true,
-        messageId: options.messageId || Date.now().toString(),
-        timestamp: Date.now(),
-        contentType: 'application/json',
-      }
-    );
+    const publishOptions: amqp.Options.Publish = {
+      persistent: options.persistent ?? true,
+      messageId: options.messageId || Date.now().toString(),
+      timestamp: Date.now(),
+      contentType: 'application/json',
+    };
+
+    if (!this.confirmChannel) {
+      return this.bufferPublish(exchange, routingKey, messageBuffer, publishOptions);
+    }
+
+    return this.publishConfirmed(this.confirmChannel, exchange, routingKey, messageBuffer, publishOptions);
+  }
+
+  private publishConfirmed(
+    channel: amqp.ConfirmChannel,
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: amqp.Options.Publish
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      channel.publish(exchange, routingKey, content, options, (err) => {
+        if (err) {
+          reject(err instanceof Error ? err : new Error(`Mensagem rejeitada pelo broker (nack): ${exchange}/${routingKey}`));
+        } else {
+          resolve(true);
+        }
+      });
+    });
+  }
+
+  private bufferPublish(
+    exchange: string,
+    routingKey: string,
+    content: Buffer,
+    options: amqp.Options.Publish
+  ): Promise<boolean> {
+    if (this.publishBuffer.length >= this.publishBufferSize) {
+      return Promise.reject(
+        new Error(`RabbitMQ desconectado e buffer de publicação cheio (${this.publishBufferSize})`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: BufferedPublish = {
+        exchange,
+        routingKey,
+        content,
+        options,
+        resolve,
+        reject,
+        timeout: setTimeout(() => {
+          this.publishBuffer = this.publishBuffer.filter((buffered) => buffered !== entry);
+          reject(new Error(`RabbitMQ desconectado: publicação expirou após ${this.publishBufferTimeoutMs}ms`));
+        }, this.publishBufferTimeoutMs),
+      };
+
+      this.publishBuffer.push(entry);
+      console.warn(`📦 RabbitMQ desconectado, publicação em buffer (${this.publishBuffer.length}/${this.publishBufferSize})`);
+    });
+  }
+
+  /**
+   * Reenviar publicações em buffer após a reconexão (em ordem)
+   */
+  private flushPublishBuffer(): void {
+    if (!this.confirmChannel || this.publishBuffer.length === 0) return;
+
+    const channel = this.confirmChannel;
+    const pending = this.publishBuffer;
+    this.publishBuffer = [];
+    console.log(`📤 Reenviando ${pending.length} publicação(ões) em buffer`);
+
+    for (const entry of pending) {
+      clearTimeout(entry.timeout);
+      this.publishConfirmed(channel, entry.exchange, entry.routingKey, entry.content, entry.options)
+        .then(entry.resolve, entry.reject);
+    }
+  }
+
+  /**
+   * Quantidade de publicações aguardando reconexão
+   */
+  getBufferedPublishCount(): number {
+    return this.publishBuffer.length;
   }
 
   /**
    * Criar/verificar queue (expõe assertQueue)
+   * A queue é declarada novamente a cada reconexão
    */
   async assertQueue(
     queue: string,
@@ -156,11 +406,14 @@ export class RabbitMQConnection {
     if (!this.channel) {
       throw new Error('Canal RabbitMQ não inicializado');
     }
-    return await this.channel.assertQueue(queue, options);
+    const reply = await this.channel.assertQueue(queue, options);
+    this.declaredQueues.set(queue, options);
+    return reply;
   }
 
   /**
    * Consumir mensagens
+   * O consumidor é registrado novamente a cada reconexão
    */
   async consume<T = unknown>(
     queue: string,
@@ -171,23 +424,42 @@ export class RabbitMQConnection {
       throw new Error('Canal RabbitMQ não inicializado');
     }
 
-    await this.channel.consume(
+    const registration: ConsumerRegistration = {
+      queue,
+      onMessage: onMessage as MessageHandler<unknown>,
+      options,
+    };
+    await this.startConsumer(this.channel, registration);
+    this.consumers.push(registration);
+  }
+
+  private async startConsumer(channel: amqp.Channel, registration: ConsumerRegistration): Promise<void> {
+    const { queue, onMessage, options } = registration;
+
+    await channel.consume(
       queue,
       async (msg: amqp.ConsumeMessage | null) => {
         if (!msg) return;
 
+        let content: unknown;
+        try {
+          content = JSON.parse(msg.content.toString());
+        } catch (error) {
+          // Mensagem inválida: nenhuma retentativa vai resolver
+          console.error(`❌ Mensagem inválida na queue ${queue}:`, error);
+          if (!options.noAck) await this.handleFailure(channel, queue, msg, error, false);
+          return;
+        }
+
         try {
-          const content = JSON.parse(msg.content.toString()) as T;
           await onMessage(content);
           
           if (!options.noAck) {
-            this.channel!.ack(msg);
+            channel.ack(msg);
           }
         } catch (error) {
           console.error(`❌ Erro ao processar mensagem da queue ${queue}:`, error);
-          
-          // Rejeitar mensagem e enviar para DLQ se disponível
-          this.channel!.nack(msg, false, false);
+          if (!options.noAck) await this.handleFailure(channel, queue, msg, error, true);
         }
       },
       { noAck: options.noAck ?? false }
@@ -196,20 +468,106 @@ export class RabbitMQConnection {
     console.log(`👂 Consumindo mensagens da queue: ${queue}`);
   }
 
+  /**
+   * Mensagem que falhou: agenda retentativa com backoff ou envia para a DLQ
+   * Queues sem topologia de retry apenas rejeitam a mensagem
+   * A republicação usa o canal de confirms: a original só é confirmada (ack) após o broker
+   * aceitar a cópia; sem confirmação, volta para a queue (nack com requeue)
+   */
+  private async handleFailure(
+    channel: amqp.Channel,
+    queue: string,
+    msg: amqp.ConsumeMessage,
+    error: unknown,
+    retryable: boolean
+  ): Promise<void> {
+    if (!this.retryQueues.has(queue)) {
+      channel.nack(msg, false, false);
+      return;
+    }
+
+    const retryCount = getRetryCount(msg.properties.headers);
+    const decision = retryable
+      ? resolveRetry(retryCount, this.retryDelays)
+      : { action: 'dead-letter' as const, attempts: retryCount + 1 };
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    try {
+      if (!this.confirmChannel) {
+        throw new Error('Canal de confirmação RabbitMQ indisponível');
+      }
+      const confirmChannel = this.confirmChannel;
+
+      const properties: amqp.Options.Publish = {
+        persistent: true,
+        messageId: msg.properties.messageId,
+        timestamp: msg.properties.timestamp,
+        contentType: msg.properties.contentType,
+        headers: {
+          ...msg.properties.headers,
+          [RETRY_HEADERS.LAST_ERROR]: lastError.slice(0, 500),
+          [RETRY_HEADERS.ORIGINAL_QUEUE]: queue,
+        },
+      };
+
+      if (decision.action === 'retry') {
+        properties.headers![RETRY_HEADERS.RETRY_COUNT] = decision.attempt;
+        await this.publishConfirmed(confirmChannel, retryExchangeName(queue), decision.routingKey, msg.content, properties);
+        console.warn(
+          `🔁 Mensagem de ${queue} reagendada (tentativa ${decision.attempt}/${this.retryDelays.length}, em ${decision.delayMs}ms)`
+        );
+      } else {
+        properties.headers![RETRY_HEADERS.RETRY_COUNT] = retryCount;
+        properties.headers![RETRY_HEADERS.FAILED_AT] = new Date().toISOString();
+        await this.publishConfirmed(confirmChannel, '', deadLetterQueueName(queue), msg.content, properties);
+        console.error(`☠️ Mensagem de ${queue} enviada para ${deadLetterQueueName(queue)} após ${decision.attempts} tentativa(s)`);
+      }
+    } catch (publishError) {
+      console.error(`❌ Falha ao reagendar mensagem de ${queue}:`, publishError);
+      channel.nack(msg, false, true);
+      return;
+    }
+
+    channel.ack(msg);
+  }
+
   /**
    * Fechar conexão
    */
   async close(): Promise<void> {
+    this.closing = true;
+    this.started = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+
+    for (const entry of this.publishBuffer) {
+      clearTimeout(entry.timeout);
+      entry.reject(new Error('Conexão RabbitMQ encerrada'));
+    }
+    this.publishBuffer = [];
+
     try {
       if (this.channel) {
         await this.channel.close();
       }
+      if (this.confirmChannel) {
+        await this.confirmChannel.close();
+      }
       if (this.connectionModel) {
         await this.connectionModel.close();
       }
       console.log('✅ Conexão RabbitMQ fechada');
     } catch (error) {
       console.error('❌ Erro ao fechar conexão RabbitMQ:', error);
+    } finally {
+      this.connectionModel = undefined;
+      this.channel = undefined;
+      this.confirmChannel = undefined;
+      this.consumers = [];
+      this.declaredQueues.clear();
     }
   }
 
@@ -0,0 +1,71 @@
+/**
+ * Política de retentativa das queues consumidas pelo Attendance Service
+ *
+ * Topologia por queue (ex.: attendance.shift.sync):
+ * - Exchange direct "<queue>.retry" → queues "<queue>.retry.<delay>ms" (TTL = delay)
+ *   que devolvem a mensagem para a queue original ao expirar (dead-letter para o exchange default)
+ * - Queue "<queue>.dlq" com as mensagens que esgotaram as tentativas
+ *
+ * Delays configuráveis em RABBITMQ_RETRY_DELAYS_MS (padrão: 1s, 10s, 60s).
+ * Tentativas totais = 1 + quantidade de delays.
+ */
+
+/**
+ * Headers usados no controle de retentativas e dead-letter
+ */
+export const RETRY_HEADERS = {
+  RETRY_COUNT: 'x-retry-count',
+  LAST_ERROR: 'x-last-error',
+  FAILED_AT: 'x-failed-at',
+  ORIGINAL_QUEUE: 'x-original-queue',
+  REPLAYED_AT: 'x-replayed-at',
+} as const;
+
+export type RetryDecision =
+  | { action: 'retry'; attempt: number; delayMs: number; routingKey: string }
+  | { action: 'dead-letter'; attempts: number };
+
+/**
+ * Delays entre tentativas (ms), a partir de "1000,10000,60000"
+ */
+export function parseRetryDelays(value: string | undefined = process.env.RABBITMQ_RETRY_DELAYS_MS): number[] {
+  const delays = (value || '1000,10000,60000')
+    .split(',')
+    .map((delay) => parseInt(delay.trim()))
+    .filter((delay) => Number.isFinite(delay) && delay > 0);
+
+  return delays.length > 0 ? delays : [1000, 10000, 60000];
+}
+
+export function retryExchangeName(queue: string): string {
+  return `${queue}.retry`;
+}
+
+export function retryQueueName(queue: string, delayMs: number): string {
+  return `${queue}.retry.${delayMs}ms`;
+}
+
+export function deadLetterQueueName(queue: string): string {
+  return `${queue}.dlq`;
+}
+
+/**
+ * Contador de retentativas a partir dos headers da mensagem
+ */
+export function getRetryCount(headers: Record<string, unknown> | undefined): number {
+  const value = Number(headers?.[RETRY_HEADERS.RETRY_COUNT] ?? 0);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Próximo passo para uma mensagem que falhou
+ * retryCount = quantas retentativas já foram feitas
+ */
+export function resolveRetry(retryCount: number, delays: number[]): RetryDecision {
+  if (retryCount >= delays.length) {
+    return { action: 'dead-letter', attempts: retryCount + 1 };
+  }
+
+  const delayMs = delays[retryCount];
+  return { action: 'retry', attempt: retryCount + 1, delayMs, routingKey: `${delayMs}ms` };
+}
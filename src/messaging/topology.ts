@@ -0,0 +1,70 @@
+/**
+ * Topologia de mensageria do Attendance Service
+ *
+ * Declarada pelo RabbitMQConnection no broker real e reproduzida pelo InMemoryBroker
+ * (MESSAGE_BROKER=memory), para que os dois drivers roteiem os mesmos eventos.
+ */
+
+export interface QueueDefinition {
+  name: string;
+  // Retentativa com backoff + DLQ (ver RetryPolicy)
+  retry: boolean;
+  // Queue de quarentena para eventos que falham na validação de schema
+  quarantine: boolean;
+}
+
+export interface BindingDefinition {
+  queue: string;
+  exchange: string;
+  routingKey: string;
+}
+
+export interface MessagingTopology {
+  exchanges: string[];
+  queues: QueueDefinition[];
+  bindings: BindingDefinition[];
+}
+
+export function quarantineQueueName(queue: string): string {
+  return `${queue}.quarantine`;
+}
+
+/**
+ * Exchanges (topic), queues e bindings a partir das variáveis de ambiente
+ */
+export function getMessagingTopology(): MessagingTopology {
+  const attendanceExchange = process.env.EXCHANGE_ATTENDANCE_EVENTS || 'attendance.events';
+  const shiftExchange = process.env.EXCHANGE_SHIFT_EVENTS || 'shift.events';
+  const userExchange = process.env.EXCHANGE_USER_EVENTS || 'user.events';
+  const healthUnitExchange = process.env.EXCHANGE_HEALTHUNIT_EVENTS || 'healthunit.events';
+
+  const commandsQueue = process.env.QUEUE_ATTENDANCE_COMMANDS || 'attendance.commands';
+  const shiftQueue = process.env.QUEUE_SHIFT_SYNC || 'attendance.shift.sync';
+  const userQueue = process.env.QUEUE_USER_SYNC || 'attendance.user.sync';
+  const healthUnitQueue = process.env.QUEUE_HEALTHUNIT_SYNC || 'attendance.healthunit.sync';
+
+  const bindEvents = (queue: string, exchange: string, entity: string): BindingDefinition[] =>
+    ['created', 'updated', 'deleted'].map((action) => ({
+      queue,
+      exchange,
+      routingKey: `${entity}.${action}`,
+    }));
+
+  return {
+    exchanges: [attendanceExchange, shiftExchange, userExchange, healthUnitExchange],
+    queues: [
+      { name: commandsQueue, retry: false, quarantine: false },
+      { name: shiftQueue, retry: true, quarantine: true },
+      { name: userQueue, retry: true, quarantine: true },
+      { name: healthUnitQueue, retry: true, quarantine: true },
+    ],
+    bindings: [
+      // Shift events -> Attendance sync
+      ...bindEvents(shiftQueue, shiftExchange, 'shift'),
+      // User events -> Attendance sync
+      ...bindEvents(userQueue, userExchange, 'user'),
+      // HealthUnit events -> Attendance sync
+      ...bindEvents(healthUnitQueue, healthUnitExchange, 'healthunit'),
+    ],
+  };
+}
@@ -1,31 +1,114 @@
 import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError } from './errorHandler';
 
 /**
- * Mock de upload middleware
- * 
- * TODO: Instalar multer para upload real de arquivos:
- * npm install multer @types/multer
+ * Upload de arquivos (multipart/form-data) com multer
+ *
+ * - Armazenamento em memória: o buffer segue para o storage de fotos e a verificação facial
+ * - Limites: PHOTO_MAX_SIZE_BYTES (padrão 5 MB) por arquivo; foto + até LIVENESS_MAX_FRAMES fotos da prova de vida
+ * - Apenas JPEG/PNG: mimetype declarado + magic bytes do conteúdo (validatePhotoContent)
  */
 
-// Mock middleware que apenas passa adiante
-export const upload = {
-  single: (fieldName: string) => {
-    return (req: Request, res: Response, next: NextFunction) => {
-      console.log(`📦 [MOCK] Upload middleware para campo: ${fieldName}`);
-      // Em produção, aqui processaria o arquivo
-      next();
-    };
+export const ALLOWED_PHOTO_TYPES = ['image/jpeg', 'image/png'] as const;
+
+export type PhotoMimeType = (typeof ALLOWED_PHOTO_TYPES)[number];
+
+export const PHOTO_MAX_SIZE_BYTES = parseInt(process.env.PHOTO_MAX_SIZE_BYTES || String(5 * 1024 * 1024));
+
+// Sequência de fotos da prova de vida (campo "frames")
+export const LIVENESS_MAX_FRAMES = parseInt(process.env.LIVENESS_MAX_FRAMES || '5');
+
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Tipo real da imagem a partir dos primeiros bytes (null se não for JPEG/PNG)
+ */
+export function detectImageType(buffer: Buffer): PhotoMimeType | null {
+  const startsWith = (signature: number[]) =>
+    buffer.length >= signature.length && signature.every((byte, index) => buffer[index] === byte);
+
+  if (startsWith(JPEG_SIGNATURE)) return 'image/jpeg';
+  if (startsWith(PNG_SIGNATURE)) return 'image/png';
+  return null;
+}
+
+export const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: PHOTO_MAX_SIZE_BYTES,
+    files: 1 + LIVENESS_MAX_FRAMES,
   },
-  array: (fieldName: string, maxCount?: number) => {
-    return (req: Request, res: Response, next: NextFunction) => {
-      console.log(`📦 [MOCK] Upload middleware para campo: ${fieldName}`);
-      next();
-    };
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_PHOTO_TYPES.includes(file.mimetype as PhotoMimeType)) {
+      callback(new AppError(`Tipo de arquivo não permitido: ${file.mimetype}. Envie uma foto JPEG ou PNG`, 400));
+      return;
+    }
+    callback(null, true);
   },
+});
+
+/**
+ * Foto do ponto + sequência da prova de vida
+ */
+export const attendanceUpload = upload.fields([
+  { name: 'photo', maxCount: 1 },
+  { name: 'frames', maxCount: LIVENESS_MAX_FRAMES },
+]);
+
+/**
+ * Arquivos recebidos pelo multer (single, array ou fields)
+ */
+export function getUploadedFiles(req: Request): Express.Multer.File[] {
+  if (req.file) return [req.file];
+  if (Array.isArray(req.files)) return req.files;
+  return req.files ? Object.values(req.files).flat() : [];
+}
+
+/**
+ * Confere o conteúdo dos arquivos enviados (magic bytes) contra o mimetype declarado
+ */
+export const validatePhotoContent = (req: Request, res: Response, next: NextFunction): void => {
+  for (const file of getUploadedFiles(req)) {
+    const detected = detectImageType(file.buffer);
+
+    if (!detected) {
+      next(new AppError(`Arquivo enviado no campo "${file.fieldname || 'photo'}" não é uma imagem JPEG ou PNG válida`, 400));
+      return;
+    }
+
+    if (detected !== file.mimetype) {
+      next(new AppError(`Conteúdo do arquivo (${detected}) não corresponde ao tipo declarado (${file.mimetype})`, 400));
+      return;
+    }
+  }
+
+  next();
 };
 
-// Mock middleware de erro
-export const handleMulterError = (error: unknown, req: Request, res: Response, next: NextFunction) => {
-  console.log('📦 [MOCK] Multer error handler');
-  next(error);
-};
\ No newline at end of file
+/**
+ * Converte erros do multer em respostas 400/413 (demais erros seguem para o errorHandler)
+ */
+export const handleMulterError = (error: unknown, req: Request, res: Response, next: NextFunction): void => {
+  if (!(error instanceof multer.MulterError)) {
+    next(error);
+    return;
+  }
+
+  console.warn(`⚠️ [UPLOAD] ${error.code} no campo ${error.field || '-'}: ${error.message}`);
+
+  switch (error.code) {
+    case 'LIMIT_FILE_SIZE':
+      next(new AppError(`Foto excede o tamanho máximo de ${Math.floor(PHOTO_MAX_SIZE_BYTES / 1024 / 1024)} MB`, 413));
+      return;
+    case 'LIMIT_FILE_COUNT':
+      next(new AppError(`Envie no máximo uma foto e ${LIVENESS_MAX_FRAMES} fotos na sequência da prova de vida`, 400));
+      return;
+    case 'LIMIT_UNEXPECTED_FILE':
+      next(new AppError(`Arquivo inesperado no campo "${error.field || '-'}" (ou acima do limite do campo)`, 400));
+      return;
+    default:
+      next(new AppError(`Erro no upload: ${error.message}`, 400));
+  }
+};
@@ -0,0 +1,63 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+/**
+ * Migration: Criar tabela attendance_policy
+ * 
+ * Propósito:
+ * - Persistir as políticas de attendance negociadas por cada hospital
+ * - Permitir sobrescrever a política do hospital para uma unidade de saúde específica
+ * 
+ * Resolução da política efetiva:
+ * - health unit → hospital → padrão global
+ * 
+ * Data: 2025-10-19
+ */
+export class CreateAttendancePolicyTable1729360000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "attendance_policy",
+        columns: [
+          {
+            name: "id",
+            type: "uuid",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "uuid",
+          },
+          { name: "hospitalId", type: "uuid" },
+          { name: "healthUnitId", type: "uuid", isNullable: true },
+          { name: "maxDistanceMeters", type: "int", default: 100 },
+          { name: "outTimeWindowMs", type: "int", default: 14400000 },
+          { name: "useDistance", type: "boolean", default: false },
+          { name: "useTimeWindow", type: "boolean", default: true },
+          {
+            name: "excludedMedicIds",
+            type: "uuid",
+            isArray: true,
+            default: "'{}'",
+          },
+          { name: "createdAt", type: "timestamp", default: "now()" },
+          { name: "updatedAt", type: "timestamp", default: "now()" },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      "attendance_policy",
+      new TableIndex({
+        name: "ix_attendance_policy_hospital_healthunit",
+        columnNames: ["hospitalId", "healthUnitId"],
+      })
+    );
+
+    console.log("✅ Tabela 'attendance_policy' criada");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("attendance_policy", "ix_attendance_policy_hospital_healthunit");
+    await queryRunner.dropTable("attendance_policy");
+    console.log("⏪ Tabela 'attendance_policy' removida");
+  }
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from "typeorm";
+
+/**
+ * Migration: Versionamento de attendance_policy
+ * 
+ * Propósito:
+ * - Cada alteração de política gera uma nova versão com data de vigência (effectiveFrom)
+ * - O ponto é avaliado pela versão em vigor no instante do registro
+ * - Registrar no attendance qual versão foi aplicada (auditoria)
+ * 
+ * Linhas existentes viram a versão 1 de sua própria política, vigente desde a criação.
+ * 
+ * Data: 2025-10-20
+ */
+export class AddVersioningToAttendancePolicy1729370000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns("attendance_policy", [
+      new TableColumn({ name: "policyId", type: "uuid", isNullable: true }),
+      new TableColumn({ name: "version", type: "int", default: 1 }),
+      new TableColumn({ name: "effectiveFrom", type: "timestamptz", isNullable: true }),
+      new TableColumn({ name: "createdBy", type: "uuid", isNullable: true }),
+      new TableColumn({ name: "changeReason", type: "text", isNullable: true }),
+    ]);
+
+    await queryRunner.query(
+      `UPDATE "attendance_policy" SET "policyId" = "id", "effectiveFrom" = "createdAt"`
+    );
+
+    await queryRunner.changeColumn(
+      "attendance_policy",
+      "policyId",
+      new TableColumn({ name: "policyId", type: "uuid" })
+    );
+    await queryRunner.changeColumn(
+      "attendance_policy",
+      "effectiveFrom",
+      new TableColumn({ name: "effectiveFrom", type: "timestamptz" })
+    );
+
+    await queryRunner.createIndex(
+      "attendance_policy",
+      new TableIndex({
+        name: "ux_attendance_policy_version",
+        columnNames: ["policyId", "version"],
+        isUnique: true,
+      })
+    );
+
+    await queryRunner.addColumn(
+      "attendance",
+      new TableColumn({
+        name: "policyVersionId",
+        type: "uuid",
+        isNullable: true,
+        comment: "Versão de attendance_policy aplicada no registro do ponto (null = política padrão)",
+      })
+    );
+
+    console.log("✅ Versionamento adicionado à tabela 'attendance_policy'");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("attendance", "policyVersionId");
+    await queryRunner.dropIndex("attendance_policy", "ux_attendance_policy_version");
+    await queryRunner.dropColumns("attendance_policy", [
+      "policyId",
+      "version",
+      "effectiveFrom",
+      "createdBy",
+      "changeReason",
+    ]);
+    console.log("⏪ Versionamento removido da tabela 'attendance_policy'");
+  }
+}
\ No newline at end of file
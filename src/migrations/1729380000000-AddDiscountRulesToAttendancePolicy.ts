@@ -0,0 +1,45 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Migration: Regras de desconto configuráveis
+ * 
+ * Propósito:
+ * - Guardar na política as regras de desconto por atraso (faixas, valor fixo,
+ *   regras separadas para IN/OUT e por especialidade)
+ * - Registrar no attendance qual regra foi aplicada
+ * 
+ * Políticas existentes ficam com discountRules = null (regra padrão: 1% a cada 15 min, máx. 50%).
+ * 
+ * Data: 2025-10-20
+ */
+export class AddDiscountRulesToAttendancePolicy1729380000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      "attendance_policy",
+      new TableColumn({
+        name: "discountRules",
+        type: "jsonb",
+        isNullable: true,
+        comment: "Regras de desconto por atraso (null = regra padrão global)",
+      })
+    );
+
+    await queryRunner.addColumn(
+      "attendance",
+      new TableColumn({
+        name: "discountRule",
+        type: "jsonb",
+        isNullable: true,
+        comment: "Regra de desconto que casou com o ponto",
+      })
+    );
+
+    console.log("✅ Regras de desconto adicionadas às tabelas 'attendance_policy' e 'attendance'");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("attendance", "discountRule");
+    await queryRunner.dropColumn("attendance_policy", "discountRules");
+    console.log("⏪ Regras de desconto removidas das tabelas 'attendance_policy' e 'attendance'");
+  }
+}
@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Migration: Pipeline de validação configurável por política
+ * 
+ * Propósito:
+ * - Cada hospital/unidade escolhe quais estratégias de validação rodam no registro do ponto
+ *   (ex.: ["timeWindow", "coordinates", "geofence", "previousIn"])
+ * 
+ * Políticas existentes ficam com validationStrategies = null (pipeline padrão).
+ * 
+ * Data: 2025-10-20
+ */
+export class AddValidationStrategiesToAttendancePolicy1729390000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      "attendance_policy",
+      new TableColumn({
+        name: "validationStrategies",
+        type: "text",
+        isArray: true,
+        isNullable: true,
+        comment: "Estratégias de validação do ponto, em ordem (null = pipeline padrão)",
+      })
+    );
+
+    console.log("✅ Coluna 'validationStrategies' adicionada à tabela 'attendance_policy'");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("attendance_policy", "validationStrategies");
+    console.log("⏪ Coluna 'validationStrategies' removida da tabela 'attendance_policy'");
+  }
+}
@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+/**
+ * Migration: Criar tabela attendance_history
+ * 
+ * Propósito:
+ * - Trilha de auditoria de todas as mutações de attendance
+ *   (criação, aprovação, rejeição, alternância de desconto)
+ * - Registra ator, ação, diff antes/depois, data e IP
+ * 
+ * Tabela append-only: nunca atualizar ou remover linhas.
+ * 
+ * Data: 2025-10-21
+ */
+export class CreateAttendanceHistoryTable1729400000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "attendance_history",
+        columns: [
+          {
+            name: "id",
+            type: "uuid",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "uuid",
+          },
+          { name: "attendanceId", type: "uuid" },
+          { name: "action", type: "varchar", length: "32" },
+          { name: "actorId", type: "uuid", isNullable: true },
+          { name: "actorRole", type: "varchar", length: "50", isNullable: true },
+          { name: "changes", type: "jsonb", default: "'{}'" },
+          { name: "reason", type: "text", isNullable: true },
+          { name: "ip", type: "varchar", length: "64", isNullable: true },
+          { name: "createdAt", type: "timestamptz", default: "now()" },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      "attendance_history",
+      new TableIndex({
+        name: "ix_attendance_history_attendance",
+        columnNames: ["attendanceId", "createdAt"],
+      })
+    );
+
+    console.log("✅ Tabela 'attendance_history' criada");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("attendance_history", "ix_attendance_history_attendance");
+    await queryRunner.dropTable("attendance_history");
+    console.log("⏪ Tabela 'attendance_history' removida");
+  }
+}
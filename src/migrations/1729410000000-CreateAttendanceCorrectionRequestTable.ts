@@ -0,0 +1,70 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+/**
+ * Migration: Criar tabela attendance_correction_request
+ * 
+ * Propósito:
+ * - Médico solicita correção de ponto (ponto esquecido ou horário errado)
+ *   com justificativa e evidências opcionais
+ * - Equipe do hospital aprova ou nega; aprovação cria LATE_IN/LATE_OUT
+ *   ou ajusta o ponto existente
+ * 
+ * Data: 2025-10-21
+ */
+export class CreateAttendanceCorrectionRequestTable1729410000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "attendance_correction_request",
+        columns: [
+          {
+            name: "id",
+            type: "uuid",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "uuid",
+          },
+          { name: "doctorId", type: "uuid" },
+          { name: "shiftId", type: "uuid" },
+          { name: "hospitalId", type: "uuid" },
+          { name: "attendanceId", type: "uuid", isNullable: true },
+          { name: "kind", type: "varchar", length: "32" },
+          { name: "direction", type: "varchar", length: "3" },
+          { name: "proposedTimestamp", type: "timestamptz" },
+          { name: "latitude", type: "decimal", precision: 10, scale: 7, isNullable: true },
+          { name: "longitude", type: "decimal", precision: 10, scale: 7, isNullable: true },
+          { name: "justification", type: "text" },
+          { name: "evidenceUrls", type: "text", isArray: true, default: "'{}'" },
+          { name: "status", type: "varchar", length: "16", default: "'PENDING'" },
+          { name: "reviewedBy", type: "uuid", isNullable: true },
+          { name: "reviewedAt", type: "timestamptz", isNullable: true },
+          { name: "reviewNote", type: "text", isNullable: true },
+          { name: "resultingAttendanceId", type: "uuid", isNullable: true },
+          { name: "createdAt", type: "timestamp", default: "now()" },
+          { name: "updatedAt", type: "timestamp", default: "now()" },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndices("attendance_correction_request", [
+      new TableIndex({
+        name: "ix_attendance_correction_hospital_status",
+        columnNames: ["hospitalId", "status"],
+      }),
+      new TableIndex({
+        name: "ix_attendance_correction_doctor",
+        columnNames: ["doctorId", "createdAt"],
+      }),
+    ]);
+
+    console.log("✅ Tabela 'attendance_correction_request' criada");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("attendance_correction_request", "ix_attendance_correction_doctor");
+    await queryRunner.dropIndex("attendance_correction_request", "ix_attendance_correction_hospital_status");
+    await queryRunner.dropTable("attendance_correction_request");
+    console.log("⏪ Tabela 'attendance_correction_request' removida");
+  }
+}
@@ -0,0 +1,62 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+/**
+ * Migration: Criar tabela attendance_no_show
+ * 
+ * Propósito:
+ * - Registrar faltas detectadas pelo job de no-show (plantão sem IN/OUT)
+ * - Garantir um único evento attendance.missing por (plantão, médico, situação)
+ * - Base para a conciliação de pagamentos dos hospitais
+ * 
+ * Data: 2025-10-22
+ */
+export class CreateAttendanceNoShowTable1729420000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "attendance_no_show",
+        columns: [
+          {
+            name: "id",
+            type: "uuid",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "uuid",
+          },
+          { name: "shiftId", type: "uuid" },
+          { name: "doctorId", type: "uuid" },
+          { name: "hospitalId", type: "uuid" },
+          { name: "status", type: "varchar", length: "16" },
+          { name: "shiftStart", type: "timestamptz" },
+          { name: "shiftEnd", type: "timestamptz" },
+          { name: "hasInPunch", type: "boolean", default: false },
+          { name: "hasOutPunch", type: "boolean", default: false },
+          { name: "eventPublished", type: "boolean", default: false },
+          { name: "detectedAt", type: "timestamptz", default: "now()" },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndices("attendance_no_show", [
+      new TableIndex({
+        name: "ux_attendance_no_show_shift_doctor_status",
+        columnNames: ["shiftId", "doctorId", "status"],
+        isUnique: true,
+      }),
+      new TableIndex({
+        name: "ix_attendance_no_show_hospital",
+        columnNames: ["hospitalId", "shiftStart"],
+      }),
+    ]);
+
+    console.log("✅ Tabela 'attendance_no_show' criada");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("attendance_no_show", "ix_attendance_no_show_hospital");
+    await queryRunner.dropIndex("attendance_no_show", "ux_attendance_no_show_shift_doctor_status");
+    await queryRunner.dropTable("attendance_no_show");
+    console.log("⏪ Tabela 'attendance_no_show' removida");
+  }
+}
@@ -0,0 +1,52 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+/**
+ * Migration: Criar tabela event_outbox
+ * 
+ * Propósito:
+ * - Transactional outbox: eventos de attendance gravados na mesma transação da mudança
+ * - Relay publica no RabbitMQ com retentativas (nada se perde com o broker fora do ar)
+ * - Base para a métrica de lag do outbox no /health
+ * 
+ * Data: 2025-10-23
+ */
+export class CreateEventOutboxTable1729430000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "event_outbox",
+        columns: [
+          { name: "id", type: "uuid", isPrimary: true },
+          { name: "eventType", type: "varchar", length: "64" },
+          { name: "aggregateId", type: "varchar", length: "64" },
+          { name: "aggregateType", type: "varchar", length: "32" },
+          { name: "exchange", type: "varchar", length: "128" },
+          { name: "routingKey", type: "varchar", length: "128" },
+          { name: "payload", type: "jsonb" },
+          { name: "status", type: "varchar", length: "16", default: "'PENDING'" },
+          { name: "attempts", type: "int", default: 0 },
+          { name: "lastError", type: "text", isNullable: true },
+          { name: "nextAttemptAt", type: "timestamptz", default: "now()" },
+          { name: "createdAt", type: "timestamptz", default: "now()" },
+          { name: "sentAt", type: "timestamptz", isNullable: true },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndices("event_outbox", [
+      new TableIndex({
+        name: "ix_event_outbox_pending",
+        columnNames: ["status", "nextAttemptAt"],
+      }),
+    ]);
+
+    console.log("✅ Tabela 'event_outbox' criada");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("event_outbox", "ix_event_outbox_pending");
+    await queryRunner.dropTable("event_outbox");
+    console.log("⏪ Tabela 'event_outbox' removida");
+  }
+}
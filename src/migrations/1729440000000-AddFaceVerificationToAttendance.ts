@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Migration: Adicionar resultado da verificação facial à tabela attendance
+ * 
+ * Propósito:
+ * - Registrar no ponto o resultado do face-recognition-service (antes só ia na resposta HTTP)
+ * - Falha ou confiança abaixo do limiar deixa o ponto PENDING para revisão
+ * 
+ * Colunas nulas = ponto registrado sem useFaceRecognition
+ * 
+ * Data: 2025-10-24
+ */
+export class AddFaceVerificationToAttendance1729440000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumns("attendance", [
+      new TableColumn({
+        name: "faceVerified",
+        type: "boolean",
+        isNullable: true,
+        comment: "Resultado da verificação facial (null = sem verificação)"
+      }),
+      new TableColumn({
+        name: "faceConfidence",
+        type: "decimal",
+        precision: 5,
+        scale: 4,
+        isNullable: true,
+        comment: "Confiança retornada pelo face-recognition-service (0-1)"
+      }),
+      new TableColumn({
+        name: "faceRequiredConfidence",
+        type: "decimal",
+        precision: 5,
+        scale: 4,
+        isNullable: true,
+        comment: "Confiança mínima exigida no momento do ponto"
+      }),
+      new TableColumn({
+        name: "faceVerificationAttempts",
+        type: "smallint",
+        default: 0,
+        comment: "Tentativas de verificação facial para o ponto"
+      }),
+    ]);
+
+    console.log("✅ Colunas de verificação facial adicionadas à tabela 'attendance'");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumns("attendance", [
+      "faceVerificationAttempts",
+      "faceRequiredConfidence",
+      "faceConfidence",
+      "faceVerified",
+    ]);
+    console.log("⏪ Colunas de verificação facial removidas da tabela 'attendance'");
+  }
+}
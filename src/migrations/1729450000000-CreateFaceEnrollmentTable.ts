@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+/**
+ * Migration: Criar tabela face_enrollment
+ * 
+ * Propósito:
+ * - Situação do cadastro facial por usuário (ENROLLED / RESET)
+ * - Ponto com verificação facial exige cadastro ativo
+ * - Trilha do reset feito por admin (quem, quando, motivo)
+ * 
+ * Data: 2025-10-25
+ */
+export class CreateFaceEnrollmentTable1729450000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(
+      new Table({
+        name: "face_enrollment",
+        columns: [
+          {
+            name: "id",
+            type: "uuid",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "uuid",
+          },
+          { name: "userId", type: "uuid" },
+          { name: "status", type: "varchar", length: "16" },
+          { name: "faceId", type: "varchar", length: "128", isNullable: true },
+          { name: "detectionConfidence", type: "decimal", precision: 5, scale: 4, isNullable: true },
+          { name: "enrollmentCount", type: "int", default: 0 },
+          { name: "enrolledAt", type: "timestamptz", isNullable: true },
+          { name: "resetAt", type: "timestamptz", isNullable: true },
+          { name: "resetBy", type: "uuid", isNullable: true },
+          { name: "resetReason", type: "text", isNullable: true },
+          { name: "createdAt", type: "timestamptz", default: "now()" },
+          { name: "updatedAt", type: "timestamptz", default: "now()" },
+        ],
+      }),
+      true
+    );
+
+    await queryRunner.createIndex(
+      "face_enrollment",
+      new TableIndex({
+        name: "ux_face_enrollment_user",
+        columnNames: ["userId"],
+        isUnique: true,
+      })
+    );
+
+    console.log("✅ Tabela 'face_enrollment' criada");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropIndex("face_enrollment", "ux_face_enrollment_user");
+    await queryRunner.dropTable("face_enrollment");
+    console.log("⏪ Tabela 'face_enrollment' removida");
+  }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Migration: Adicionar resultado da prova de vida à tabela attendance
+ * 
+ * Propósito:
+ * - Registrar se a sequência de fotos do desafio (POST /attendances/challenge) passou no anti-spoofing
+ * - Prova de vida reprovada deixa o ponto PENDING para revisão
+ * 
+ * Data: 2025-10-26
+ */
+export class AddFaceLivenessToAttendance1729460000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn(
+      "attendance",
+      new TableColumn({
+        name: "faceLivenessPassed",
+        type: "boolean",
+        isNullable: true,
+        comment: "Resultado da prova de vida (null = não exigida)"
+      })
+    );
+
+    console.log("✅ Coluna 'faceLivenessPassed' adicionada à tabela 'attendance'");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("attendance", "faceLivenessPassed");
+    console.log("⏪ Coluna 'faceLivenessPassed' removida da tabela 'attendance'");
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Migration: Índice único de escopo em attendance_policy
+ * 
+ * Propósito:
+ * - Uma única política por escopo (hospital inteiro ou unidade)
+ * - Dois POST /v2/policies concorrentes para o mesmo escopo: o segundo falha no índice (409)
+ * 
+ * Só a versão 1 entra no índice (as demais versões compartilham o policyId da primeira).
+ * healthUnitId nulo (política do hospital) vira o UUID zero para entrar na comparação.
+ * 
+ * Data: 2025-10-27
+ */
+export class AddScopeUniqueIndexToAttendancePolicy1729470000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "ux_attendance_policy_scope" ON "attendance_policy" ` +
+        `("hospitalId", COALESCE("healthUnitId", '00000000-0000-0000-0000-000000000000'::uuid)) ` +
+        `WHERE "version" = 1`
+    );
+
+    console.log("✅ Índice único de escopo criado em 'attendance_policy'");
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "ux_attendance_policy_scope"`);
+    console.log("⏪ Índice único de escopo removido de 'attendance_policy'");
+  }
+}
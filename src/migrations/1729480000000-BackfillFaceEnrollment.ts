@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+/**
+ * Migration: Backfill de face_enrollment
+ * 
+ * Propósito:
+ * - Médicos cadastrados no face-recognition-service antes da tabela face_enrollment
+ *   não tinham linha e recebiam 412 no ponto com verificação facial
+ * - Cria linha ENROLLED para quem já teve a face confirmada no ponto
+ *   (faceVerified = true com confiança >= limiar exigido)
+ * 
+ * A data do cadastro original não é conhecida (enrolledAt nulo).
+ * Médicos sem verificação confirmada precisam cadastrar em POST /v2/faces/enroll.
+ * 
+ * Data: 2025-10-27
+ */
+export class BackfillFaceEnrollment1729480000000 implements MigrationInterface {
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    const inserted: Array<{ userId: string }> = await queryRunner.query(
+      `INSERT INTO "face_enrollment" ("userId", "status", "enrollmentCount")
+       SELECT DISTINCT "doctorId", 'ENROLLED', 1
+       FROM "attendance"
+       WHERE "faceVerified" = true
+         AND "faceConfidence" >= "faceRequiredConfidence"
+       ON CONFLICT ("userId") DO NOTHING
+       RETURNING "userId"`
+    );
+
+    console.log(`✅ ${inserted.length} cadastro(s) facial(is) existente(s) registrado(s) em 'face_enrollment'`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Linhas do backfill: ENROLLED sem data de cadastro e sem recadastro posterior
+    await queryRunner.query(
+      `DELETE FROM "face_enrollment"
+       WHERE "status" = 'ENROLLED' AND "enrolledAt" IS NULL AND "enrollmentCount" = 1`
+    );
+    console.log("⏪ Backfill de 'face_enrollment' removido");
+  }
+}
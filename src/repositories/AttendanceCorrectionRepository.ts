@@ -0,0 +1,78 @@
+import { Repository } from "typeorm";
+import {
+  AttendanceCorrectionRequest,
+  CorrectionStatus,
+  PunchDirection,
+} from "@/entities";
+
+/**
+ * Interface para o repository de AttendanceCorrectionRequest
+ * Abstração para acesso a dados
+ */
+export interface IAttendanceCorrectionRepository {
+  findById(id: string): Promise<AttendanceCorrectionRequest | null>;
+  findByHospital(hospitalId: string, status?: CorrectionStatus): Promise<AttendanceCorrectionRequest[]>;
+  findByDoctor(doctorId: string, status?: CorrectionStatus): Promise<AttendanceCorrectionRequest[]>;
+  findPendingForPunch(
+    shiftId: string,
+    doctorId: string,
+    direction: PunchDirection
+  ): Promise<AttendanceCorrectionRequest | null>;
+  create(data: Partial<AttendanceCorrectionRequest>): AttendanceCorrectionRequest;
+  save(correction: AttendanceCorrectionRequest): Promise<AttendanceCorrectionRequest>;
+}
+
+/**
+ * Implementação concreta do repository usando TypeORM
+ */
+export class AttendanceCorrectionRepository implements IAttendanceCorrectionRepository {
+  constructor(private repository: Repository<AttendanceCorrectionRequest>) {}
+
+  async findById(id: string): Promise<AttendanceCorrectionRequest | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  /**
+   * Fila de revisão do hospital (mais antigas primeiro)
+   */
+  async findByHospital(
+    hospitalId: string,
+    status?: CorrectionStatus
+  ): Promise<AttendanceCorrectionRequest[]> {
+    return this.repository.find({
+      where: { hospitalId, ...(status && { status }) },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  /**
+   * Solicitações do médico (mais recentes primeiro)
+   */
+  async findByDoctor(
+    doctorId: string,
+    status?: CorrectionStatus
+  ): Promise<AttendanceCorrectionRequest[]> {
+    return this.repository.find({
+      where: { doctorId, ...(status && { status }) },
+      order: { createdAt: "DESC" },
+    });
+  }
+
+  async findPendingForPunch(
+    shiftId: string,
+    doctorId: string,
+    direction: PunchDirection
+  ): Promise<AttendanceCorrectionRequest | null> {
+    return this.repository.findOne({
+      where: { shiftId, doctorId, direction, status: "PENDING" },
+    });
+  }
+
+  create(data: Partial<AttendanceCorrectionRequest>): AttendanceCorrectionRequest {
+    return this.repository.create(data);
+  }
+
+  async save(correction: AttendanceCorrectionRequest): Promise<AttendanceCorrectionRequest> {
+    return this.repository.save(correction);
+  }
+}
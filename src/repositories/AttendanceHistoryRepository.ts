@@ -0,0 +1,41 @@
+import { EntityManager, Repository } from "typeorm";
+import { AttendanceHistory } from "@/entities";
+
+/**
+ * Interface para o repository de AttendanceHistory
+ * Abstração para acesso a dados
+ */
+export interface IAttendanceHistoryRepository {
+  findByAttendance(attendanceId: string): Promise<AttendanceHistory[]>;
+  create(data: Partial<AttendanceHistory>): AttendanceHistory;
+  save(entries: AttendanceHistory[], manager?: EntityManager): Promise<AttendanceHistory[]>;
+}
+
+/**
+ * Implementação concreta do repository usando TypeORM
+ */
+export class AttendanceHistoryRepository implements IAttendanceHistoryRepository {
+  constructor(private repository: Repository<AttendanceHistory>) {}
+
+  /**
+   * Trilha de um attendance em ordem cronológica
+   */
+  async findByAttendance(attendanceId: string): Promise<AttendanceHistory[]> {
+    return this.repository.find({
+      where: { attendanceId },
+      order: { createdAt: "ASC" },
+    });
+  }
+
+  create(data: Partial<AttendanceHistory>): AttendanceHistory {
+    return this.repository.create(data);
+  }
+
+  /**
+   * Salva entradas (dentro da transação da mutação, se informada)
+   */
+  async save(entries: AttendanceHistory[], manager?: EntityManager): Promise<AttendanceHistory[]> {
+    const repository = manager ? manager.getRepository(AttendanceHistory) : this.repository;
+    return repository.save(entries);
+  }
+}
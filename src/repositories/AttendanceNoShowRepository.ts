@@ -0,0 +1,54 @@
+import { In, Repository } from "typeorm";
+import { AttendanceNoShow } from "@/entities";
+
+/**
+ * Interface para o repository de AttendanceNoShow
+ * Abstração para acesso a dados
+ */
+export interface IAttendanceNoShowRepository {
+  insertNew(rows: Partial<AttendanceNoShow>[]): Promise<number>;
+  findUnpublished(limit: number): Promise<AttendanceNoShow[]>;
+  markPublished(ids: string[]): Promise<void>;
+}
+
+/**
+ * Implementação concreta do repository usando TypeORM
+ */
+export class AttendanceNoShowRepository implements IAttendanceNoShowRepository {
+  constructor(private repository: Repository<AttendanceNoShow>) {}
+
+  /**
+   * Insere faltas ignorando as já registradas (índice único por plantão/médico/situação)
+   * Seguro com várias réplicas executando o job ao mesmo tempo
+   */
+  async insertNew(rows: Partial<AttendanceNoShow>[]): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const result = await this.repository
+      .createQueryBuilder()
+      .insert()
+      .into(AttendanceNoShow)
+      .values(rows)
+      .orIgnore()
+      .returning("id")
+      .execute();
+
+    return Array.isArray(result.raw) ? result.raw.length : 0;
+  }
+
+  /**
+   * Faltas cujo evento ainda não foi publicado (inclui falhas de execuções anteriores)
+   */
+  async findUnpublished(limit: number): Promise<AttendanceNoShow[]> {
+    return this.repository.find({
+      where: { eventPublished: false },
+      order: { detectedAt: "ASC" },
+      take: limit,
+    });
+  }
+
+  async markPublished(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.repository.update({ id: In(ids) }, { eventPublished: true });
+  }
+}
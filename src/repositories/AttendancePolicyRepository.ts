@@ -0,0 +1,105 @@
+import { Repository, IsNull } from "typeorm";
+import { AttendancePolicy } from "@/entities";
+
+/**
+ * Interface para o repository de AttendancePolicy
+ * Abstração para acesso a dados
+ */
+export interface IAttendancePolicyRepository {
+  findById(id: string): Promise<AttendancePolicy | null>;
+  findVersions(policyId: string): Promise<AttendancePolicy[]>;
+  findLatestVersion(policyId: string): Promise<AttendancePolicy | null>;
+  saveNextVersion(
+    policyId: string,
+    build: (latest: AttendancePolicy) => AttendancePolicy
+  ): Promise<AttendancePolicy | null>;
+  findScopeVersions(hospitalId: string, healthUnitId: string | null): Promise<AttendancePolicy[]>;
+  findByHospital(hospitalId: string): Promise<AttendancePolicy[]>;
+  create(data: Partial<AttendancePolicy>): AttendancePolicy;
+  save(policy: AttendancePolicy): Promise<AttendancePolicy>;
+}
+
+/**
+ * Implementação concreta do repository usando TypeORM
+ */
+export class AttendancePolicyRepository implements IAttendancePolicyRepository {
+  constructor(private repository: Repository<AttendancePolicy>) {}
+
+  async findById(id: string): Promise<AttendancePolicy | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  /**
+   * Histórico de versões de uma política (mais recente primeiro)
+   */
+  async findVersions(policyId: string): Promise<AttendancePolicy[]> {
+    return this.repository.find({
+      where: { policyId },
+      order: { version: "DESC" },
+    });
+  }
+
+  async findLatestVersion(policyId: string): Promise<AttendancePolicy | null> {
+    return this.repository.findOne({
+      where: { policyId },
+      order: { version: "DESC" },
+    });
+  }
+
+  /**
+   * Grava a próxima versão com a última versão travada (FOR UPDATE) na mesma transação:
+   * atualizações concorrentes da mesma política são serializadas
+   *
+   * @returns null se a política não existe
+   */
+  async saveNextVersion(
+    policyId: string,
+    build: (latest: AttendancePolicy) => AttendancePolicy
+  ): Promise<AttendancePolicy | null> {
+    return this.repository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(AttendancePolicy);
+
+      const latest = await repository.findOne({
+        where: { policyId },
+        order: { version: "DESC" },
+        lock: { mode: "pessimistic_write" },
+      });
+
+      if (!latest) return null;
+
+      return repository.save(build(latest));
+    });
+  }
+
+  /**
+   * Todas as versões de um escopo (hospital ou unidade), por vigência decrescente
+   * healthUnitId = null → versões da política do hospital inteiro
+   */
+  async findScopeVersions(
+    hospitalId: string,
+    healthUnitId: string | null
+  ): Promise<AttendancePolicy[]> {
+    return this.repository.find({
+      where: { hospitalId, healthUnitId: healthUnitId ?? IsNull() },
+      order: { effectiveFrom: "DESC", version: "DESC" },
+    });
+  }
+
+  /**
+   * Todas as versões das políticas de um hospital (hospital + unidades)
+   */
+  async findByHospital(hospitalId: string): Promise<AttendancePolicy[]> {
+    return this.repository.find({
+      where: { hospitalId },
+      order: { effectiveFrom: "DESC", version: "DESC" },
+    });
+  }
+
+  create(data: Partial<AttendancePolicy>): AttendancePolicy {
+    return this.repository.create(data);
+  }
+
+  async save(policy: AttendancePolicy): Promise<AttendancePolicy> {
+    return this.repository.save(policy);
+  }
+}
@@ -1,5 +1,13 @@
-import { Repository, FindOptionsWhere, FindManyOptions } from "typeorm";
-import { Attendance, AttendanceStatus, AttendanceType } from "@/entities";
+import { Repository, FindOptionsWhere, FindManyOptions, In } from "typeorm";
+import {
+  Attendance,
+  AttendanceStatus,
+  AttendanceType,
+  PunchDirection,
+  PUNCH_TYPES_BY_DIRECTION,
+  getPunchDirection,
+  MissingAttendanceStatus,
+} from "@/entities";
 
 /**
  * Tipos específicos do repository
@@ -7,12 +15,27 @@ import { Attendance, AttendanceStatus, AttendanceType } from "@/entities";
 export interface MissingAttendance {
   date: string;
   shiftId: string;
+  hospitalId: string;
   doctorId: string;
   doctorName?: string;
   specialty?: string;
+  shiftStart: Date;
+  shiftEnd: Date;
   hasInPunch: boolean;
   hasOutPunch: boolean;
-  status: string;
+  status: MissingAttendanceStatus;
+}
+
+/**
+ * Dados do plantão necessários para detectar faltas (vêm do cache de shifts)
+ */
+export interface MissingAttendanceShift {
+  id: string;
+  hospitalId: string;
+  doctorId?: string;
+  specialty?: string;
+  startTime: Date;
+  endTime: Date;
 }
 
 export interface AttendanceStatistics {
@@ -40,18 +63,17 @@ export interface IAttendanceRepository {
   
   // Queries específicas
   findByShiftAndDoctor(shiftId: string, doctorId: string, type?: AttendanceType): Promise<Attendance | null>;
+  findPunchByDirection(shiftId: string, doctorId: string, direction: PunchDirection): Promise<Attendance | null>;
   findPendingByShift(shiftId: string): Promise<Attendance[]>;
   findPendingWithLateInfo(shiftId: string): Promise<Attendance[]>;
   findByShiftAndStatus(shiftId: string, status: AttendanceStatus): Promise<Attendance[]>;
   findOpenPunchesForDay(doctorId: string, date: Date): Promise<Attendance[]>;
   findOpenPunchesLate(hospitalId: string, startDate: Date, endDate: Date): Promise<Attendance[]>;
   findApprovedForDiscountControl(shiftId: string): Promise<Attendance[]>;
-  findMissingAttendances(filters: {
-    hospitalId?: string;
-    doctorId?: string;
-    startDate: Date;
-    endDate: Date;
-  }): Promise<MissingAttendance[]>;
+  findMissingAttendances(
+    shifts: MissingAttendanceShift[],
+    options: { now: Date; toleranceMinutes: number }
+  ): Promise<MissingAttendance[]>;
   countByStatusForDay(hospitalId: string, startDate: Date, endDate: Date): Promise<Record<AttendanceStatus, number>>;
   getStatistics(hospitalId: string, startDate: Date, endDate: Date): Promise<AttendanceStatistics>;
 }
@@ -63,10 +85,8 @@ export class AttendanceRepository implements IAttendanceRepository {
   constructor(private repository: Repository<Attendance>) {}
 
   async findById(id: string): Promise<Attendance | null> {
-    return this.repository.findOne({
-      where: { id },
-      relations: ["doctor", "shift", "shift.hospital", "shift.doctor"],
-    });
+    // Sem relações: doctor/shift/hospital vêm do cache (event-driven)
+    return this.repository.findOne({ where: { id } });
   }
 
   async findOne(where: FindOptionsWhere<Attendance>): Promise<Attendance | null> {
@@ -106,7 +126,20 @@ export class AttendanceRepository implements IAttendanceRepository {
 
     return this.repository.findOne({
       where,
-      relations: ["doctor", "shift"],
+      order: { timestamp: "ASC" },
+    });
+  }
+
+  /**
+   * Ponto de um sentido (IN ou LATE_IN / OUT ou LATE_OUT)
+   */
+  async findPunchByDirection(
+    shiftId: string,
+    doctorId: string,
+    direction: PunchDirection
+  ): Promise<Attendance | null> {
+    return this.repository.findOne({
+      where: { shiftId, doctorId, type: In(PUNCH_TYPES_BY_DIRECTION[direction]) },
       order: { timestamp: "ASC" },
     });
   }
@@ -251,15 +284,62 @@ export class AttendanceRepository implements IAttendanceRepository {
    * Busca pontos faltantes (shifts sem attendance)
    * Nota: Esta query precisa ser feita com cache de shifts
    */
-  async findMissingAttendances(filters: {
-    hospitalId?: string;
-    doctorId?: string;
-    startDate: Date;
-    endDate: Date;
-  }): Promise<MissingAttendance[]> {
-    // Esta query será implementada no service que tem acesso ao cache de shifts
-    // Por enquanto, retornamos array vazio
-    return [];
+  async findMissingAttendances(
+    shifts: MissingAttendanceShift[],
+    options: { now: Date; toleranceMinutes: number }
+  ): Promise<MissingAttendance[]> {
+    // Plantões sem médico alocado não têm ponto esperado
+    const assigned = shifts.filter((shift) => !!shift.doctorId);
+    if (assigned.length === 0) return [];
+
+    // Pontos rejeitados não contam como registrados
+    const punches = await this.repository.find({
+      where: { shiftId: In(assigned.map((shift) => shift.id)) },
+      select: ["shiftId", "doctorId", "type", "status"],
+    });
+
+    const punched = new Set(
+      punches
+        .filter((punch) => punch.status !== "REJECTED")
+        .map((punch) => `${punch.shiftId}:${punch.doctorId}:${getPunchDirection(punch.type)}`)
+    );
+
+    const toleranceMs = options.toleranceMinutes * 60 * 1000;
+    const missing: MissingAttendance[] = [];
+
+    for (const shift of assigned) {
+      const doctorId = shift.doctorId as string;
+      const hasInPunch = punched.has(`${shift.id}:${doctorId}:IN`);
+      const hasOutPunch = punched.has(`${shift.id}:${doctorId}:OUT`);
+      const inOverdue = options.now.getTime() > shift.startTime.getTime() + toleranceMs;
+      const outOverdue = options.now.getTime() > shift.endTime.getTime() + toleranceMs;
+
+      let status: MissingAttendanceStatus | null = null;
+      if (!hasInPunch && !hasOutPunch && inOverdue) {
+        status = "NO_SHOW";
+      } else if (!hasInPunch && hasOutPunch) {
+        status = "MISSING_IN";
+      } else if (hasInPunch && !hasOutPunch && outOverdue) {
+        status = "MISSING_OUT";
+      }
+
+      if (!status) continue;
+
+      missing.push({
+        date: shift.startTime.toISOString().slice(0, 10),
+        shiftId: shift.id,
+        hospitalId: shift.hospitalId,
+        doctorId,
+        specialty: shift.specialty,
+        shiftStart: shift.startTime,
+        shiftEnd: shift.endTime,
+        hasInPunch,
+        hasOutPunch,
+        status,
+      });
+    }
+
+    return missing;
   }
 
   /**
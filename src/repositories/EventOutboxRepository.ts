@@ -0,0 +1,93 @@
+import { EntityManager, LessThan, LessThanOrEqual, Repository } from "typeorm";
+import { QueryDeepPartialEntity } from "typeorm/query-builder/QueryPartialEntity";
+import { EventOutbox } from "@/entities";
+
+/**
+ * Eventos pendentes no outbox (base da métrica de lag)
+ */
+export interface OutboxBacklog {
+  pending: number;
+  oldestPendingAt: Date | null;
+}
+
+/**
+ * Interface para o repository de EventOutbox
+ * Abstração para acesso a dados
+ */
+export interface IEventOutboxRepository {
+  enqueue(rows: Partial<EventOutbox>[], manager?: EntityManager): Promise<void>;
+  processDue(
+    limit: number,
+    now: Date,
+    handler: (rows: EventOutbox[]) => Promise<void>
+  ): Promise<number>;
+  getBacklog(): Promise<OutboxBacklog>;
+  deleteSentBefore(date: Date): Promise<number>;
+}
+
+/**
+ * Implementação concreta do repository usando TypeORM
+ */
+export class EventOutboxRepository implements IEventOutboxRepository {
+  constructor(private repository: Repository<EventOutbox>) {}
+
+  /**
+   * Grava eventos no outbox (dentro da transação da mutação, se informada)
+   */
+  async enqueue(rows: Partial<EventOutbox>[], manager?: EntityManager): Promise<void> {
+    if (rows.length === 0) return;
+
+    const repository = manager ? manager.getRepository(EventOutbox) : this.repository;
+    await repository.insert(rows as QueryDeepPartialEntity<EventOutbox>[]);
+  }
+
+  /**
+   * Trava os eventos devidos (SKIP LOCKED: réplicas não disputam as mesmas linhas),
+   * entrega ao handler e salva as alterações feitas por ele na mesma transação
+   */
+  async processDue(
+    limit: number,
+    now: Date,
+    handler: (rows: EventOutbox[]) => Promise<void>
+  ): Promise<number> {
+    return this.repository.manager.transaction(async (manager) => {
+      const repository = manager.getRepository(EventOutbox);
+
+      const rows = await repository.find({
+        where: { status: "PENDING", nextAttemptAt: LessThanOrEqual(now) },
+        order: { createdAt: "ASC" },
+        take: limit,
+        lock: { mode: "pessimistic_write", onLocked: "skip_locked" },
+      });
+
+      if (rows.length === 0) return 0;
+
+      await handler(rows);
+      await repository.save(rows);
+
+      return rows.length;
+    });
+  }
+
+  async getBacklog(): Promise<OutboxBacklog> {
+    const result = await this.repository
+      .createQueryBuilder("outbox")
+      .select("COUNT(*)", "pending")
+      .addSelect("MIN(outbox.createdAt)", "oldestPendingAt")
+      .where("outbox.status = :status", { status: "PENDING" })
+      .getRawOne<{ pending: string; oldestPendingAt: Date | null }>();
+
+    return {
+      pending: parseInt(result?.pending || "0"),
+      oldestPendingAt: result?.oldestPendingAt ? new Date(result.oldestPendingAt) : null,
+    };
+  }
+
+  /**
+   * Remove eventos já publicados (retenção)
+   */
+  async deleteSentBefore(date: Date): Promise<number> {
+    const result = await this.repository.delete({ status: "SENT", sentAt: LessThan(date) });
+    return result.affected ?? 0;
+  }
+}
@@ -0,0 +1,31 @@
+import { Repository } from "typeorm";
+import { FaceEnrollment } from "@/entities";
+
+/**
+ * Interface para o repository de FaceEnrollment
+ * Abstração para acesso a dados
+ */
+export interface IFaceEnrollmentRepository {
+  findByUserId(userId: string): Promise<FaceEnrollment | null>;
+  create(data: Partial<FaceEnrollment>): FaceEnrollment;
+  save(enrollment: FaceEnrollment): Promise<FaceEnrollment>;
+}
+
+/**
+ * Implementação concreta do repository usando TypeORM
+ */
+export class FaceEnrollmentRepository implements IFaceEnrollmentRepository {
+  constructor(private repository: Repository<FaceEnrollment>) {}
+
+  async findByUserId(userId: string): Promise<FaceEnrollment | null> {
+    return this.repository.findOne({ where: { userId } });
+  }
+
+  create(data: Partial<FaceEnrollment>): FaceEnrollment {
+    return this.repository.create(data);
+  }
+
+  async save(enrollment: FaceEnrollment): Promise<FaceEnrollment> {
+    return this.repository.save(enrollment);
+  }
+}
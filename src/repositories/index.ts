@@ -3,6 +3,31 @@ export {
   IAttendanceRepository, 
   AttendanceRepository 
 } from './AttendanceRepository';
+export {
+  IAttendancePolicyRepository,
+  AttendancePolicyRepository
+} from './AttendancePolicyRepository';
+export {
+  IAttendanceHistoryRepository,
+  AttendanceHistoryRepository
+} from './AttendanceHistoryRepository';
+export {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionRepository
+} from './AttendanceCorrectionRepository';
+export {
+  IAttendanceNoShowRepository,
+  AttendanceNoShowRepository
+} from './AttendanceNoShowRepository';
+export {
+  IEventOutboxRepository,
+  EventOutboxRepository,
+  OutboxBacklog
+} from './EventOutboxRepository';
+export {
+  IFaceEnrollmentRepository,
+  FaceEnrollmentRepository
+} from './FaceEnrollmentRepository';
 
 // Nota: ShiftRepository NÃO existe neste microserviço
 // Dados de shift são acessados via ShiftCacheService
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { AttendancePolicyController } from "../controllers/AttendancePolicyController";
+import { AttendancePolicyService } from "../services/AttendancePolicyService";
+import { CreateAttendancePolicyDTO, UpdateAttendancePolicyDTO } from "../dto";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { authorize, authorizeAdmin, UserRole } from "../middleware/authorization";
+import { validateDTO } from "../middleware/validateDTO";
+import { BaseRoutes } from "./BaseRoutes";
+
+/**
+ * Classe de Rotas de Políticas de Attendance - POO Pattern
+ * 
+ * Rotas administrativas:
+ * - Leitura: qualquer admin
+ * - Escrita: admin_master / admin_mini
+ */
+export class AttendancePolicyRoutes extends BaseRoutes {
+  private controller: AttendancePolicyController;
+
+  constructor(policyService: AttendancePolicyService) {
+    super();
+    this.controller = new AttendancePolicyController(policyService);
+  }
+
+  /**
+   * Inicializar todas as rotas (override do método abstrato)
+   */
+  protected initializeRoutes(): void {
+    this.setupPolicyRoutes();
+    console.log('✅ [ROUTES] AttendancePolicyRoutes inicializadas');
+  }
+
+  /**
+   * Configurar rotas de políticas
+   */
+  private setupPolicyRoutes(): void {
+    const canWrite = authorize([UserRole.ADMIN_MASTER, UserRole.ADMIN_MINI]);
+
+    // POST /policies - Criar política
+    this.router.post(
+      '/policies',
+      authMiddleware,
+      canWrite,
+      validateDTO(CreateAttendancePolicyDTO),
+      this.controller.createPolicy.bind(this.controller)
+    );
+    this.logRoute('POST', '/policies', 'Criar política');
+
+    // GET /policies/hospital/:hospitalId - Listar políticas do hospital
+    this.router.get(
+      '/policies/hospital/:hospitalId',
+      authMiddleware,
+      authorizeAdmin(),
+      this.controller.listByHospital.bind(this.controller)
+    );
+    this.logRoute('GET', '/policies/hospital/:hospitalId', 'Listar políticas do hospital');
+
+    // GET /policies/:policyId/versions - Histórico de versões
+    this.router.get(
+      '/policies/:policyId/versions',
+      authMiddleware,
+      authorizeAdmin(),
+      this.controller.listVersions.bind(this.controller)
+    );
+    this.logRoute('GET', '/policies/:policyId/versions', 'Histórico de versões');
+
+    // GET /policies/:policyId - Buscar política
+    this.router.get(
+      '/policies/:policyId',
+      authMiddleware,
+      authorizeAdmin(),
+      this.controller.getPolicy.bind(this.controller)
+    );
+    this.logRoute('GET', '/policies/:policyId', 'Buscar política');
+
+    // PUT /policies/:policyId - Atualizar política (nova versão)
+    this.router.put(
+      '/policies/:policyId',
+      authMiddleware,
+      canWrite,
+      validateDTO(UpdateAttendancePolicyDTO),
+      this.controller.updatePolicy.bind(this.controller)
+    );
+    this.logRoute('PUT', '/policies/:policyId', 'Atualizar política');
+  }
+}
\ No newline at end of file
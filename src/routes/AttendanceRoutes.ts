@@ -1,10 +1,23 @@
 import { AttendanceController } from "../controllers/AttendanceController";
 import { ShiftCacheService } from "../services/cache/ShiftCacheService";
 import { UserCacheService } from "../services/cache/UserCacheService";
+import { HealthUnitCacheService } from "../services/cache/HealthUnitCacheService";
 import { AttendanceEventPublisher } from "../events/AttendanceEventPublisher";
 import { FaceRecognitionService } from "../services/FaceRecognitionService";
 import { NotificationService } from "../services/NotificationService";
 import { AttendanceRepository } from "../repositories/AttendanceRepository";
+import {
+  BulkApproveAttendancesDTO,
+  BulkRejectAttendancesDTO,
+  CreateAttendanceCorrectionDTO,
+  ApproveAttendanceCorrectionDTO,
+  DenyAttendanceCorrectionDTO,
+  CreateLivenessChallengeDTO,
+} from "../dto";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { authorizeHospital, authorizeMedic } from "../middleware/authorization";
+import { validateDTO } from "../middleware/validateDTO";
+import { attendanceUpload, validatePhotoContent, handleMulterError } from "../middleware/upload";
 import { BaseRoutes } from "./BaseRoutes";
 
 /**
@@ -26,7 +39,8 @@ export class AttendanceRoutes extends BaseRoutes {
     eventPublisher: AttendanceEventPublisher,
     faceService: FaceRecognitionService,
     notificationService: NotificationService,
-    attendanceRepository: AttendanceRepository
+    attendanceRepository: AttendanceRepository,
+    healthUnitCache: HealthUnitCacheService
   ) {
     super();
     this.controller = new AttendanceController(
@@ -35,7 +49,8 @@ export class AttendanceRoutes extends BaseRoutes {
       eventPublisher,
       faceService,
       notificationService,
-      attendanceRepository
+      attendanceRepository,
+      healthUnitCache
     );
   }
 
@@ -43,17 +58,94 @@ export class AttendanceRoutes extends BaseRoutes {
    * Inicializar todas as rotas (override do método abstrato)
    */
   protected initializeRoutes(): void {
+    // Correções antes das rotas de attendance (evita captura por /attendances/:id)
+    this.setupCorrectionRoutes();
     this.setupAttendanceRoutes();
     console.log('✅ [ROUTES] AttendanceRoutes inicializadas');
   }
 
+  /**
+   * Configurar rotas de correção de ponto
+   * - Médico solicita e acompanha
+   * - Hospital revisa (aprova/nega)
+   */
+  private setupCorrectionRoutes(): void {
+    // POST /attendances/corrections - Solicitar correção (médico)
+    this.router.post(
+      '/attendances/corrections',
+      authMiddleware,
+      authorizeMedic(),
+      validateDTO(CreateAttendanceCorrectionDTO),
+      this.controller.requestCorrection.bind(this.controller)
+    );
+    this.logRoute('POST', '/attendances/corrections', 'Solicitar correção de ponto');
+
+    // GET /attendances/corrections/mine - Correções do médico
+    this.router.get(
+      '/attendances/corrections/mine',
+      authMiddleware,
+      authorizeMedic(),
+      this.controller.listMyCorrections.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/corrections/mine', 'Minhas correções');
+
+    // GET /attendances/corrections - Fila de correções do hospital
+    this.router.get(
+      '/attendances/corrections',
+      authMiddleware,
+      authorizeHospital(),
+      this.controller.listCorrections.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/corrections', 'Listar correções do hospital');
+
+    // GET /attendances/corrections/:id - Buscar correção
+    this.router.get(
+      '/attendances/corrections/:id',
+      authMiddleware,
+      authorizeHospital(),
+      this.controller.getCorrection.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/corrections/:id', 'Buscar correção');
+
+    // PUT /attendances/corrections/:id/approve - Aprovar correção
+    this.router.put(
+      '/attendances/corrections/:id/approve',
+      authMiddleware,
+      authorizeHospital(),
+      validateDTO(ApproveAttendanceCorrectionDTO),
+      this.controller.approveCorrection.bind(this.controller)
+    );
+    this.logRoute('PUT', '/attendances/corrections/:id/approve', 'Aprovar correção');
+
+    // PUT /attendances/corrections/:id/deny - Negar correção
+    this.router.put(
+      '/attendances/corrections/:id/deny',
+      authMiddleware,
+      authorizeHospital(),
+      validateDTO(DenyAttendanceCorrectionDTO),
+      this.controller.denyCorrection.bind(this.controller)
+    );
+    this.logRoute('PUT', '/attendances/corrections/:id/deny', 'Negar correção');
+  }
+
   /**
    * Configurar rotas de attendance
    */
   private setupAttendanceRoutes(): void {
-    // POST /attendances - Registrar ponto (IN ou OUT)
+    // POST /attendances/challenge - Desafio de prova de vida (nonce + gesto) para o próximo ponto
+    this.router.post(
+      '/attendances/challenge',
+      validateDTO(CreateLivenessChallengeDTO),
+      this.controller.createChallenge.bind(this.controller)
+    );
+    this.logRoute('POST', '/attendances/challenge', 'Desafio de prova de vida');
+
+    // POST /attendances - Registrar ponto (IN ou OUT), multipart: "photo" + "frames" (prova de vida)
     this.router.post(
       '/attendances',
+      attendanceUpload,
+      validatePhotoContent,
+      handleMulterError,
       this.controller.recordAttendance.bind(this.controller)
     );
     this.logRoute('POST', '/attendances', 'Registrar ponto');
@@ -65,6 +157,29 @@ export class AttendanceRoutes extends BaseRoutes {
     );
     this.logRoute('GET', '/attendances', 'Listar pontos');
 
+    // Rotas estáticas antes de /attendances/:id (senão "missing" seria tratado como ID)
+
+    // GET /attendances/count-by-status - Contar por status
+    this.router.get(
+      '/attendances/count-by-status',
+      this.controller.countForDayBySelfHospital.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/count-by-status', 'Contar por status');
+
+    // GET /attendances/missing - Listar pontos faltando
+    this.router.get(
+      '/attendances/missing',
+      this.controller.listMissingPunches.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/missing', 'Listar pontos faltando');
+
+    // GET /attendances/by-status - Listar por status
+    this.router.get(
+      '/attendances/by-status',
+      this.controller.listByStatus.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/by-status', 'Listar por status');
+
     // GET /attendances/:id - Buscar ponto específico
     this.router.get(
       '/attendances/:id',
@@ -72,9 +187,20 @@ export class AttendanceRoutes extends BaseRoutes {
     );
     this.logRoute('GET', '/attendances/:id', 'Buscar ponto específico');
 
+    // GET /attendances/:id/history - Trilha de auditoria do ponto
+    this.router.get(
+      '/attendances/:id/history',
+      authMiddleware,
+      authorizeHospital(),
+      this.controller.getAttendanceHistory.bind(this.controller)
+    );
+    this.logRoute('GET', '/attendances/:id/history', 'Histórico de auditoria do ponto');
+
     // PUT /attendances/:id/approve - Aprovar ponto
     this.router.put(
       '/attendances/:id/approve',
+      authMiddleware,
+      authorizeHospital(),
       this.controller.approveAttendance.bind(this.controller)
     );
     this.logRoute('PUT', '/attendances/:id/approve', 'Aprovar ponto');
@@ -82,13 +208,37 @@ export class AttendanceRoutes extends BaseRoutes {
     // PUT /attendances/:id/reject - Rejeitar ponto
     this.router.put(
       '/attendances/:id/reject',
+      authMiddleware,
+      authorizeHospital(),
       this.controller.rejectAttendance.bind(this.controller)
     );
     this.logRoute('PUT', '/attendances/:id/reject', 'Rejeitar ponto');
 
+    // POST /attendances/bulk-approve - Aprovar pontos em lote
+    this.router.post(
+      '/attendances/bulk-approve',
+      authMiddleware,
+      authorizeHospital(),
+      validateDTO(BulkApproveAttendancesDTO),
+      this.controller.bulkApproveAttendances.bind(this.controller)
+    );
+    this.logRoute('POST', '/attendances/bulk-approve', 'Aprovar pontos em lote');
+
+    // POST /attendances/bulk-reject - Rejeitar pontos em lote
+    this.router.post(
+      '/attendances/bulk-reject',
+      authMiddleware,
+      authorizeHospital(),
+      validateDTO(BulkRejectAttendancesDTO),
+      this.controller.bulkRejectAttendances.bind(this.controller)
+    );
+    this.logRoute('POST', '/attendances/bulk-reject', 'Rejeitar pontos em lote');
+
     // PUT /attendances/:id/toggle-discount - Toggle desconto em attendance
     this.router.put(
       '/attendances/:id/toggle-discount',
+      authMiddleware,
+      authorizeHospital(),
       this.controller.toggleAttendanceDiscount.bind(this.controller)
     );
     this.logRoute('PUT', '/attendances/:id/toggle-discount', 'Toggle desconto em attendance');
@@ -96,29 +246,10 @@ export class AttendanceRoutes extends BaseRoutes {
     // PUT /shifts/:shiftId/toggle-discount - Toggle desconto em shift
     this.router.put(
       '/shifts/:shiftId/toggle-discount',
+      authMiddleware,
+      authorizeHospital(),
       this.controller.toggleShiftDiscount.bind(this.controller)
     );
     this.logRoute('PUT', '/shifts/:shiftId/toggle-discount', 'Toggle desconto em shift');
-
-    // GET /attendances/count-by-status - Contar por status
-    this.router.get(
-      '/attendances/count-by-status',
-      this.controller.countForDayBySelfHospital.bind(this.controller)
-    );
-    this.logRoute('GET', '/attendances/count-by-status', 'Contar por status');
-
-    // GET /attendances/missing - Listar pontos faltando
-    this.router.get(
-      '/attendances/missing',
-      this.controller.listMissingPunches.bind(this.controller)
-    );
-    this.logRoute('GET', '/attendances/missing', 'Listar pontos faltando');
-
-    // GET /attendances/by-status - Listar por status
-    this.router.get(
-      '/attendances/by-status',
-      this.controller.listByStatus.bind(this.controller)
-    );
-    this.logRoute('GET', '/attendances/by-status', 'Listar por status');
   }
 }
\ No newline at end of file
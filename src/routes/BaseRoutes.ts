@@ -9,10 +9,10 @@ import { Router } from 'express';
  */
 export abstract class BaseRoutes {
   protected router: Router;
+  private routesInitialized = false;
 
   constructor() {
     this.router = Router();
-    this.initializeRoutes();
   }
 
   /**
@@ -23,8 +23,15 @@ export abstract class BaseRoutes {
 
   /**
    * Retorna o router configurado
+   * 
+   * As rotas são registradas na primeira chamada (e não no construtor da base),
+   * para que as subclasses já tenham suas dependências (controllers) atribuídas
    */
   public getRouter(): Router {
+    if (!this.routesInitialized) {
+      this.initializeRoutes();
+      this.routesInitialized = true;
+    }
     return this.router;
   }
 
@@ -0,0 +1,44 @@
+import { CacheAdminController } from "../controllers/CacheAdminController";
+import { CacheResyncService } from "../services/CacheResyncService";
+import { CacheResyncDTO } from "../dto";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { authorize, UserRole } from "../middleware/authorization";
+import { validateDTO } from "../middleware/validateDTO";
+import { BaseRoutes } from "./BaseRoutes";
+
+/**
+ * Classe de Rotas de administração do cache - POO Pattern
+ *
+ * Rotas administrativas (admin_master / admin_mini)
+ */
+export class CacheAdminRoutes extends BaseRoutes {
+  private controller: CacheAdminController;
+
+  constructor(resyncService: CacheResyncService) {
+    super();
+    this.controller = new CacheAdminController(resyncService);
+  }
+
+  /**
+   * Inicializar todas as rotas (override do método abstrato)
+   */
+  protected initializeRoutes(): void {
+    this.setupCacheRoutes();
+    console.log('✅ [ROUTES] CacheAdminRoutes inicializadas');
+  }
+
+  /**
+   * Configurar rotas de cache
+   */
+  private setupCacheRoutes(): void {
+    // POST /admin/cache/resync - Resync dos caches de shift/user
+    this.router.post(
+      '/admin/cache/resync',
+      authMiddleware,
+      authorize([UserRole.ADMIN_MASTER, UserRole.ADMIN_MINI]),
+      validateDTO(CacheResyncDTO),
+      this.controller.resync.bind(this.controller)
+    );
+    this.logRoute('POST', '/admin/cache/resync', 'Resync do cache');
+  }
+}
@@ -0,0 +1,64 @@
+import { DeadLetterController } from "../controllers/DeadLetterController";
+import { DeadLetterService } from "../services/DeadLetterService";
+import { DeadLetterReplayDTO } from "../dto";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { authorize, UserRole } from "../middleware/authorization";
+import { validateDTO } from "../middleware/validateDTO";
+import { BaseRoutes } from "./BaseRoutes";
+
+/**
+ * Classe de Rotas de dead-letter das queues de sync - POO Pattern
+ *
+ * Rotas administrativas (admin_master / admin_mini)
+ */
+export class DeadLetterRoutes extends BaseRoutes {
+  private controller: DeadLetterController;
+
+  constructor(deadLetterService: DeadLetterService) {
+    super();
+    this.controller = new DeadLetterController(deadLetterService);
+  }
+
+  /**
+   * Inicializar todas as rotas (override do método abstrato)
+   */
+  protected initializeRoutes(): void {
+    this.setupDeadLetterRoutes();
+    console.log('✅ [ROUTES] DeadLetterRoutes inicializadas');
+  }
+
+  /**
+   * Configurar rotas de dead-letter
+   */
+  private setupDeadLetterRoutes(): void {
+    const admins = authorize([UserRole.ADMIN_MASTER, UserRole.ADMIN_MINI]);
+
+    // POST /admin/dead-letters/:source/replay - Reenviar mensagens para a queue original
+    this.router.post(
+      '/admin/dead-letters/:source/replay',
+      authMiddleware,
+      admins,
+      validateDTO(DeadLetterReplayDTO),
+      this.controller.replay.bind(this.controller)
+    );
+    this.logRoute('POST', '/admin/dead-letters/:source/replay', 'Replay de dead-letters');
+
+    // GET /admin/dead-letters/:source - Listar mensagens da DLQ
+    this.router.get(
+      '/admin/dead-letters/:source',
+      authMiddleware,
+      admins,
+      this.controller.list.bind(this.controller)
+    );
+    this.logRoute('GET', '/admin/dead-letters/:source', 'Listar dead-letters');
+
+    // GET /admin/dead-letters/:source/:messageId - Inspecionar mensagem
+    this.router.get(
+      '/admin/dead-letters/:source/:messageId',
+      authMiddleware,
+      admins,
+      this.controller.get.bind(this.controller)
+    );
+    this.logRoute('GET', '/admin/dead-letters/:source/:messageId', 'Inspecionar dead-letter');
+  }
+}
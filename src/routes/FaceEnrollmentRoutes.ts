@@ -0,0 +1,94 @@
+import { FaceEnrollmentController } from "../controllers/FaceEnrollmentController";
+import { FaceEnrollmentService } from "../services/FaceEnrollmentService";
+import { FaceEnrollmentResetDTO } from "../dto";
+import { authMiddleware } from "../middleware/authMiddleware";
+import { authorize, authorizeAdmin, authorizeMedic, UserRole } from "../middleware/authorization";
+import { validateDTO } from "../middleware/validateDTO";
+import { upload, validatePhotoContent, handleMulterError } from "../middleware/upload";
+import { BaseRoutes } from "./BaseRoutes";
+
+/**
+ * Classe de Rotas de cadastro facial - POO Pattern
+ *
+ * - /faces/enroll: médico autenticado (a face cadastrada é sempre a do token)
+ * - /admin/faces: consulta (admins) e reset (admin_master / admin_mini)
+ */
+export class FaceEnrollmentRoutes extends BaseRoutes {
+  private controller: FaceEnrollmentController;
+
+  constructor(enrollmentService: FaceEnrollmentService) {
+    super();
+    this.controller = new FaceEnrollmentController(enrollmentService);
+  }
+
+  /**
+   * Inicializar todas as rotas (override do método abstrato)
+   */
+  protected initializeRoutes(): void {
+    this.setupEnrollmentRoutes();
+    this.setupAdminRoutes();
+    console.log('✅ [ROUTES] FaceEnrollmentRoutes inicializadas');
+  }
+
+  /**
+   * Configurar rotas do médico
+   */
+  private setupEnrollmentRoutes(): void {
+    // POST /faces/enroll - Cadastrar face (multipart, campo "photo")
+    this.router.post(
+      '/faces/enroll',
+      authMiddleware,
+      authorizeMedic(),
+      upload.single('photo'),
+      validatePhotoContent,
+      handleMulterError,
+      this.controller.enroll.bind(this.controller)
+    );
+    this.logRoute('POST', '/faces/enroll', 'Cadastrar face');
+
+    // PUT /faces/enroll - Recadastrar face (multipart, campo "photo")
+    this.router.put(
+      '/faces/enroll',
+      authMiddleware,
+      authorizeMedic(),
+      upload.single('photo'),
+      validatePhotoContent,
+      handleMulterError,
+      this.controller.reenroll.bind(this.controller)
+    );
+    this.logRoute('PUT', '/faces/enroll', 'Recadastrar face');
+
+    // GET /faces/enroll - Situação do próprio cadastro
+    this.router.get(
+      '/faces/enroll',
+      authMiddleware,
+      authorizeMedic(),
+      this.controller.getMine.bind(this.controller)
+    );
+    this.logRoute('GET', '/faces/enroll', 'Situação do cadastro facial');
+  }
+
+  /**
+   * Configurar rotas administrativas
+   */
+  private setupAdminRoutes(): void {
+    // POST /admin/faces/:userId/reset - Remover cadastro do médico
+    this.router.post(
+      '/admin/faces/:userId/reset',
+      authMiddleware,
+      authorize([UserRole.ADMIN_MASTER, UserRole.ADMIN_MINI]),
+      validateDTO(FaceEnrollmentResetDTO),
+      this.controller.reset.bind(this.controller)
+    );
+    this.logRoute('POST', '/admin/faces/:userId/reset', 'Resetar cadastro facial');
+
+    // GET /admin/faces/:userId - Situação do cadastro do médico
+    this.router.get(
+      '/admin/faces/:userId',
+      authMiddleware,
+      authorizeAdmin(),
+      this.controller.getForUser.bind(this.controller)
+    );
+    this.logRoute('GET', '/admin/faces/:userId', 'Consultar cadastro facial');
+  }
+}
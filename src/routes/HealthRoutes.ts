@@ -1,8 +1,9 @@
 import { Request, Response } from 'express';
 import { AppDataSource } from '@/config/database';
 import { BaseRoutes } from './BaseRoutes';
-import { rabbitMQ } from '@/messaging/RabbitMQConnection';
-import { redisCache } from '@/services/cache/RedisCache';
+import { messageBroker } from '@/messaging/MessageBroker';
+import { redisCache, CacheConnectionInfo } from '@/services/cache/RedisCache';
+import { EventOutboxService, OutboxLag } from '@/services/EventOutboxService';
 
 interface HealthStatus {
   status: 'healthy' | 'unhealthy';
@@ -15,6 +16,8 @@ interface HealthStatus {
     database: 'connected' | 'disconnected';
     rabbitmq: 'connected' | 'disconnected';
     redis: 'connected' | 'disconnected';
+    redisDetails: CacheConnectionInfo;
+    outbox: OutboxLag | 'unavailable';
     memory: {
       used: string;
       total: string;
@@ -36,7 +39,10 @@ interface HealthStatus {
  * - Monitoramento de infraestrutura
  */
 export class HealthRoutes extends BaseRoutes {
-  
+  constructor(private outboxService?: EventOutboxService) {
+    super();
+  }
+
   /**
    * Inicializar rotas de health check
    */
@@ -67,7 +73,7 @@ export class HealthRoutes extends BaseRoutes {
       const isDatabaseConnected = AppDataSource.isInitialized;
       
       // Check RabbitMQ connection
-      const isRabbitMQConnected = rabbitMQ.isConnected();
+      const isRabbitMQConnected = messageBroker.isConnected();
       
       // Check Redis connection
       const isRedisConnected = redisCache.getConnectionStatus();
@@ -84,6 +90,9 @@ export class HealthRoutes extends BaseRoutes {
 
       const allHealthy = isDatabaseConnected && isRabbitMQConnected && isRedisConnected;
 
+      // Lag do outbox (eventos gravados e ainda não publicados)
+      const outbox = await this.getOutboxLag(isDatabaseConnected);
+
       const healthStatus: HealthStatus = {
         status: allHealthy ? 'healthy' : 'unhealthy',
         timestamp: new Date().toISOString(),
@@ -95,6 +104,8 @@ export class HealthRoutes extends BaseRoutes {
           database: isDatabaseConnected ? 'connected' : 'disconnected',
           rabbitmq: isRabbitMQConnected ? 'connected' : 'disconnected',
           redis: isRedisConnected ? 'connected' : 'disconnected',
+          redisDetails: redisCache.getConnectionInfo(),
+          outbox,
           memory: {
             used: `${Math.round(usedMemory / 1024 / 1024)}MB`,
             total: `${Math.round(totalMemory / 1024 / 1024)}MB`,
@@ -120,16 +131,31 @@ export class HealthRoutes extends BaseRoutes {
     }
   }
 
+  /**
+   * Lag do outbox; 'unavailable' sem banco ou se a consulta falhar
+   */
+  private async getOutboxLag(isDatabaseConnected: boolean): Promise<OutboxLag | 'unavailable'> {
+    if (!this.outboxService || !isDatabaseConnected) return 'unavailable';
+
+    try {
+      return await this.outboxService.getLag();
+    } catch (error) {
+      console.error('❌ Erro ao consultar lag do outbox:', error);
+      return 'unavailable';
+    }
+  }
+
   /**
    * Readiness probe - verifica se o serviço está pronto para receber requisições
    */
   private async readinessProbe(req: Request, res: Response): Promise<void> {
     try {
       const isDatabaseReady = AppDataSource.isInitialized;
-      const isRabbitMQReady = rabbitMQ.isConnected();
+      const isRabbitMQReady = messageBroker.isConnected();
       const isRedisReady = redisCache.getConnectionStatus();
       
-      const isReady = isDatabaseReady && isRabbitMQReady;
+      // Shift/User vêm do cache: sem Redis o serviço não registra pontos
+      const isReady = isDatabaseReady && isRabbitMQReady && isRedisReady;
       
       if (isReady) {
         res.status(200).json({
@@ -141,17 +167,20 @@ export class HealthRoutes extends BaseRoutes {
             rabbitmq: isRabbitMQReady,
             redis: isRedisReady,
           },
+          redis: redisCache.getConnectionInfo(),
         });
       } else {
         const reasons = [];
         if (!isDatabaseReady) reasons.push('Database not initialized');
         if (!isRabbitMQReady) reasons.push('RabbitMQ not connected');
+        if (!isRedisReady) reasons.push(`Redis ${redisCache.getConnectionInfo().state}`);
         
         res.status(503).json({
           ready: false,
           timestamp: new Date().toISOString(),
           service: 'attendance-service',
           reasons,
+          redis: redisCache.getConnectionInfo(),
         });
       }
     } catch (error) {
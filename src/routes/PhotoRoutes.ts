@@ -0,0 +1,38 @@
+import { PhotoController } from "../controllers/PhotoController";
+import { LocalPhotoStorage } from "../services/storage/LocalPhotoStorage";
+import { BaseRoutes } from "./BaseRoutes";
+
+/**
+ * Classe de Rotas de fotos - POO Pattern
+ *
+ * Apenas com PHOTO_STORAGE_DRIVER=fs (no S3 as URLs assinadas apontam para o bucket).
+ * Sem authMiddleware: a URL assinada é a autorização (usada direto em <img>).
+ */
+export class PhotoRoutes extends BaseRoutes {
+  private controller: PhotoController;
+
+  constructor(storage: LocalPhotoStorage) {
+    super();
+    this.controller = new PhotoController(storage);
+  }
+
+  /**
+   * Inicializar todas as rotas (override do método abstrato)
+   */
+  protected initializeRoutes(): void {
+    this.setupPhotoRoutes();
+    console.log('✅ [ROUTES] PhotoRoutes inicializadas');
+  }
+
+  /**
+   * Configurar rotas de fotos
+   */
+  private setupPhotoRoutes(): void {
+    // GET /photos/:key - Foto via URL assinada (key codificada, ex.: attendance-photos%2F...)
+    this.router.get(
+      '/photos/:key',
+      this.controller.getPhoto.bind(this.controller)
+    );
+    this.logRoute('GET', '/photos/:key', 'Foto (URL assinada)');
+  }
+}
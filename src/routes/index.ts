@@ -3,4 +3,9 @@
  */
 export * from './BaseRoutes';
 export * from './AttendanceRoutes';
-export * from './HealthRoutes';
\ No newline at end of file
+export * from './AttendancePolicyRoutes';
+export * from './HealthRoutes';
+export * from './CacheAdminRoutes';
+export * from './DeadLetterRoutes';
+export * from './PhotoRoutes';
+export * from './FaceEnrollmentRoutes';
@@ -1,3 +1,9 @@
+import {
+  DiscountRule,
+  DiscountTier,
+  MatchedDiscountRule,
+} from "../types/discountRules.types";
+
 /**
  * Informações de desconto por atraso
  */
@@ -6,8 +12,27 @@ export interface LateDiscountInfo {
   lateMinutes: number;
   shouldApplyDiscount: boolean;
   discountPercentage: number;
+  discountAmount: number; // Valor em reais (regras FLAT são convertidas em percentual)
+  matchedRule: MatchedDiscountRule | null; // null = sem atraso
 }
 
+/**
+ * Regra padrão global (usada quando a política não define regras):
+ * 15 minutos de tolerância, 1% a cada 15 minutos, máximo 50%
+ */
+export const DEFAULT_DISCOUNT_RULES: DiscountRule[] = [
+  {
+    id: "default",
+    appliesTo: "ANY",
+    mode: "INCREMENTAL",
+    kind: "PERCENTAGE",
+    graceMinutes: 15,
+    incrementMinutes: 15,
+    incrementValue: 1,
+    maxValue: 50,
+  },
+];
+
 /**
  * Informações de desconto do shift
  */
@@ -30,18 +55,21 @@ export interface ShiftDiscountInfo {
 export class AttendanceDiscountService {
   
   /**
-   * Calcula desconto baseado no tempo (atraso)
+   * Calcula desconto baseado no tempo (atraso) usando as regras da política
+   * - IN: minutos de atraso após o início do plantão
+   * - OUT: minutos de antecipação antes do fim do plantão
    */
   calculateTimeBasedDiscount(
     type: "IN" | "OUT",
     timestamp: Date,
     shiftStart: Date,
     shiftEnd: Date,
-    shiftValue: number
+    shiftValue: number,
+    rules?: DiscountRule[] | null,
+    specialty?: string
   ): LateDiscountInfo {
     let isLate = false;
     let lateMinutes = 0;
-    let discountPercentage = 0;
     
     if (type === "IN") {
       // Check-in após horário de início
@@ -56,22 +84,188 @@ export class AttendanceDiscountService {
         lateMinutes = Math.floor((shiftEnd.getTime() - timestamp.getTime()) / (1000 * 60));
       }
     }
-    
-    // Calcular percentual de desconto
-    if (isLate && lateMinutes > 15) {
-      // 1% por cada 15 minutos de atraso, máximo 50%
-      discountPercentage = Math.min(Math.floor(lateMinutes / 15) * 1, 50);
+
+    if (!isLate) {
+      return {
+        isLate,
+        lateMinutes,
+        shouldApplyDiscount: false,
+        discountPercentage: 0,
+        discountAmount: 0,
+        matchedRule: null,
+      };
     }
-    
-    const shouldApplyDiscount = isLate && discountPercentage > 0;
-    
+
+    const isDefault = !rules || rules.length === 0;
+    const rule = this.selectRule(isDefault ? DEFAULT_DISCOUNT_RULES : rules!, type, specialty);
+
+    if (!rule) {
+      // Política define regras, mas nenhuma cobre este tipo/especialidade
+      return {
+        isLate,
+        lateMinutes,
+        shouldApplyDiscount: false,
+        discountPercentage: 0,
+        discountAmount: 0,
+        matchedRule: null,
+      };
+    }
+
+    const { value, tierIndex } = this.evaluateRule(rule, lateMinutes);
+
+    // Converter para percentual + valor (attendance guarda percentual)
+    let discountPercentage: number;
+    let discountAmount: number;
+
+    if (rule.kind === "FLAT") {
+      discountAmount = Math.min(value, shiftValue);
+      discountPercentage = shiftValue > 0 ? (discountAmount / shiftValue) * 100 : 0;
+    } else {
+      discountPercentage = Math.min(value, 100);
+      discountAmount = shiftValue * (discountPercentage / 100);
+    }
+
+    discountPercentage = this.round(discountPercentage);
+    discountAmount = this.round(discountAmount);
+
     return {
       isLate,
       lateMinutes,
-      shouldApplyDiscount,
+      shouldApplyDiscount: discountPercentage > 0,
       discountPercentage,
+      discountAmount,
+      matchedRule: {
+        ruleId: rule.id,
+        appliesTo: rule.appliesTo,
+        specialty: rule.specialty ?? null,
+        mode: rule.mode,
+        kind: rule.kind,
+        tierIndex,
+        isDefault,
+      },
     };
   }
+
+  /**
+   * Valida um conjunto de regras (retorna lista de erros; vazia = válido)
+   */
+  validateRules(rules: DiscountRule[]): string[] {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+
+    for (const rule of rules) {
+      const label = `Regra "${rule.id}"`;
+
+      if (ids.has(rule.id)) {
+        errors.push(`${label}: id duplicado`);
+      }
+      ids.add(rule.id);
+
+      if (rule.kind === "PERCENTAGE" && rule.maxValue !== undefined && rule.maxValue > 100) {
+        errors.push(`${label}: maxValue não pode passar de 100%`);
+      }
+
+      if (rule.mode === "TIERED") {
+        const tiers = rule.tiers ?? [];
+        if (tiers.length === 0) {
+          errors.push(`${label}: regras TIERED exigem ao menos uma faixa`);
+          continue;
+        }
+
+        const sorted = [...tiers].sort((a, b) => a.fromMinutes - b.fromMinutes);
+        sorted.forEach((tier, index) => {
+          if (tier.toMinutes != null && tier.toMinutes < tier.fromMinutes) {
+            errors.push(`${label}: faixa ${tier.fromMinutes}–${tier.toMinutes} inválida`);
+          }
+          if (rule.kind === "PERCENTAGE" && tier.value > 100) {
+            errors.push(`${label}: faixa ${tier.fromMinutes} min passa de 100%`);
+          }
+
+          const next = sorted[index + 1];
+          if (next && (tier.toMinutes == null || tier.toMinutes >= next.fromMinutes)) {
+            errors.push(`${label}: faixas ${tier.fromMinutes} e ${next.fromMinutes} se sobrepõem`);
+          }
+        });
+      } else {
+        if (!rule.incrementMinutes || rule.incrementMinutes <= 0) {
+          errors.push(`${label}: regras INCREMENTAL exigem incrementMinutes > 0`);
+        }
+        if (rule.incrementValue === undefined || rule.incrementValue < 0) {
+          errors.push(`${label}: regras INCREMENTAL exigem incrementValue >= 0`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Escolhe a regra aplicável
+   * Prioridade: especialidade + tipo → especialidade + ANY → tipo → ANY
+   */
+  private selectRule(
+    rules: DiscountRule[],
+    type: "IN" | "OUT",
+    specialty?: string
+  ): DiscountRule | null {
+    const normalizedSpecialty = specialty?.trim().toLowerCase();
+
+    const matchesSpecialty = (rule: DiscountRule) =>
+      !!rule.specialty &&
+      !!normalizedSpecialty &&
+      rule.specialty.trim().toLowerCase() === normalizedSpecialty;
+    const isGeneric = (rule: DiscountRule) => !rule.specialty;
+
+    const candidates: Array<(rule: DiscountRule) => boolean> = [
+      (rule) => matchesSpecialty(rule) && rule.appliesTo === type,
+      (rule) => matchesSpecialty(rule) && rule.appliesTo === "ANY",
+      (rule) => isGeneric(rule) && rule.appliesTo === type,
+      (rule) => isGeneric(rule) && rule.appliesTo === "ANY",
+    ];
+
+    for (const predicate of candidates) {
+      const rule = rules.find(predicate);
+      if (rule) return rule;
+    }
+
+    return null;
+  }
+
+  /**
+   * Calcula o valor bruto da regra (na unidade da regra) para os minutos de atraso
+   */
+  private evaluateRule(
+    rule: DiscountRule,
+    lateMinutes: number
+  ): { value: number; tierIndex: number | null } {
+    let value = 0;
+    let tierIndex: number | null = null;
+
+    if (rule.mode === "TIERED") {
+      const tiers: DiscountTier[] = rule.tiers ?? [];
+      const index = tiers.findIndex(
+        (tier) =>
+          lateMinutes >= tier.fromMinutes &&
+          (tier.toMinutes == null || lateMinutes <= tier.toMinutes)
+      );
+      if (index >= 0) {
+        tierIndex = index;
+        value = tiers[index].value;
+      }
+    } else if (lateMinutes > (rule.graceMinutes ?? 0) && rule.incrementMinutes) {
+      value = Math.floor(lateMinutes / rule.incrementMinutes) * (rule.incrementValue ?? 0);
+    }
+
+    if (rule.maxValue !== undefined) {
+      value = Math.min(value, rule.maxValue);
+    }
+
+    return { value: Math.max(value, 0), tierIndex };
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
   
   /**
    * Calcula informações de desconto do shift completo
@@ -9,7 +9,8 @@ export interface HealthUnitData {
   polygonAreas?: Array<{
     name: string;
     type: string;
-    coordinates: Array<[number, number]>;
+    description?: string;
+    coordinates: Array<[number, number]>; // Vértices no formato [latitude, longitude]
   }>;
 }
 
@@ -98,41 +99,66 @@ export class AttendanceGeolocationService {
   }
 
   /**
-   * Valida geofence (versão simplificada)
+   * Valida geofence usando ray casting sobre todas as áreas da HealthUnit
+   * A distância até a área mais próxima é calculada até a aresta mais próxima (haversine)
    */
   validateGeofence(
     latitude: number,
     longitude: number,
     healthUnit: HealthUnitData
   ): GeofenceValidationResult {
-    // Versão simplificada - assume área permitida se healthUnit existe
-    const hasPolygons = (healthUnit?.polygonAreas?.length ?? 0) > 0;
-    
-    if (!hasPolygons) {
+    const areas = (healthUnit?.polygonAreas ?? []).filter(
+      (area) => (area.coordinates?.length ?? 0) >= 3
+    );
+
+    if (areas.length === 0) {
       return {
         withinAllowedArea: false,
         hasPolygons: false,
         reason: "HealthUnit sem áreas demarcadas",
       };
     }
-    
-    // Simulação simplificada - na versão real faria cálculos de polígono
+
+    const matchedAreas: Array<{ name: string; type: string; description?: string }> = [];
+    let nearestDistance = Infinity;
+    let nearestAreaName: string | undefined;
+
+    for (const area of areas) {
+      if (this.isPointInPolygon(latitude, longitude, area.coordinates)) {
+        matchedAreas.push({ name: area.name, type: area.type, description: area.description });
+        nearestDistance = 0;
+        nearestAreaName = area.name;
+        continue;
+      }
+
+      const distance = this.distanceToPolygonEdge(latitude, longitude, area.coordinates);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearestAreaName = area.name;
+      }
+    }
+
+    const isWithinPolygon = matchedAreas.length > 0;
+    const distanceToNearestArea = isWithinPolygon ? 0 : Math.round(nearestDistance * 100) / 100;
+
     return {
-      withinAllowedArea: true,
+      withinAllowedArea: isWithinPolygon,
       hasPolygons: true,
-      isWithinPolygon: true,
-      matchedAreas: [{ name: "Área Principal", type: "polygon" }],
-      distanceToNearestArea: 0,
-      reason: "Dentro da área permitida",
+      isWithinPolygon,
+      matchedAreas,
+      distanceToNearestArea,
+      reason: isWithinPolygon
+        ? `Dentro da área permitida (${matchedAreas.map((a) => a.name).join(", ")})`
+        : `Fora da área geográfica permitida (${Math.round(distanceToNearestArea)}m de "${nearestAreaName}")`,
     };
   }
 
   /**
    * Obter informações de timezone
    */
-  getTimezoneInfo(latitude: number, longitude: number): TimezoneInfo {
+  getTimezoneInfo(latitude: number, longitude: number, at: Date = new Date()): TimezoneInfo {
     // Versão simplificada - assume timezone do Brasil
-    const now = new Date();
+    const now = at;
     const tz = "America/Sao_Paulo";
     const tzOffsetMin = -180; // UTC-3
 
@@ -144,6 +170,105 @@ export class AttendanceGeolocationService {
     };
   }
 
+  /**
+   * Ray casting: conta quantas arestas do polígono um raio horizontal a partir do ponto cruza
+   * Número ímpar de cruzamentos = ponto dentro do polígono
+   */
+  private isPointInPolygon(
+    latitude: number,
+    longitude: number,
+    polygon: Array<[number, number]>
+  ): boolean {
+    let inside = false;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [latI, lngI] = polygon[i];
+      const [latJ, lngJ] = polygon[j];
+
+      const crosses =
+        latI > latitude !== latJ > latitude &&
+        longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI;
+
+      if (crosses) {
+        inside = !inside;
+      }
+    }
+
+    return inside;
+  }
+
+  /**
+   * Menor distância (metros) entre o ponto e as arestas do polígono
+   */
+  private distanceToPolygonEdge(
+    latitude: number,
+    longitude: number,
+    polygon: Array<[number, number]>
+  ): number {
+    let minDistance = Infinity;
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const distance = this.distanceToSegment(latitude, longitude, polygon[j], polygon[i]);
+      minDistance = Math.min(minDistance, distance);
+    }
+
+    return minDistance;
+  }
+
+  /**
+   * Distância (metros) entre o ponto e um segmento
+   * Projeta o ponto no segmento em um plano local (equiretangular) e mede com haversine
+   */
+  private distanceToSegment(
+    latitude: number,
+    longitude: number,
+    start: [number, number],
+    end: [number, number]
+  ): number {
+    const cosLat = Math.cos(this.toRadians(latitude));
+
+    const ax = start[1] * cosLat;
+    const ay = start[0];
+    const bx = end[1] * cosLat;
+    const by = end[0];
+    const px = longitude * cosLat;
+    const py = latitude;
+
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+
+    let t = 0;
+    if (lengthSquared > 0) {
+      t = Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    }
+
+    const closestLat = start[0] + t * (end[0] - start[0]);
+    const closestLng = start[1] + t * (end[1] - start[1]);
+
+    return this.haversineDistance(latitude, longitude, closestLat, closestLng);
+  }
+
+  /**
+   * Distância (metros) entre duas coordenadas pela fórmula de haversine
+   */
+  private haversineDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const EARTH_RADIUS_METERS = 6371000;
+
+    const dLat = this.toRadians(lat2 - lat1);
+    const dLng = this.toRadians(lng2 - lng1);
+
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_METERS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  private toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+  }
+
   /**
    * Conta casas decimais de um número
    */
@@ -0,0 +1,145 @@
+import { EntityManager } from "typeorm";
+import { Attendance } from "../entities/Attendance";
+import {
+  AttendanceFieldChange,
+  AttendanceHistory,
+  AttendanceHistoryAction,
+} from "../entities/AttendanceHistory";
+import { IAttendanceHistoryRepository } from "../repositories/AttendanceHistoryRepository";
+
+/**
+ * Quem executou a mutação (extraído da requisição)
+ */
+export interface AuditActor {
+  id?: string | null;
+  role?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * Estado auditado de um attendance (valores serializáveis)
+ */
+export type AttendanceAuditSnapshot = Record<string, string | number | boolean | null>;
+
+/**
+ * Entrada a ser registrada na trilha
+ */
+export interface AttendanceHistoryEntry {
+  attendanceId: string;
+  action: AttendanceHistoryAction;
+  before: AttendanceAuditSnapshot | null; // null = criação
+  after: AttendanceAuditSnapshot;
+  actor?: AuditActor;
+  reason?: string | null;
+}
+
+/**
+ * Campos de Attendance que entram na trilha de auditoria
+ */
+const AUDITED_FIELDS = [
+  "type",
+  "status",
+  "statusReason",
+  "reason",
+  "timestamp",
+  "isLate",
+  "lateMinutes",
+  "hasAutomaticDiscount",
+  "discountPercentage",
+  "approvedWithDiscount",
+  "policyVersionId",
+] as const;
+
+/**
+ * Serviço especializado em auditoria de attendance (Event-Driven Version)
+ * Responsabilidade Única: Registrar e consultar a trilha de mutações
+ */
+export class AttendanceHistoryService {
+  constructor(private historyRepository: IAttendanceHistoryRepository) {}
+
+  /**
+   * Captura o estado auditado de um attendance (chamar ANTES de mutar)
+   */
+  snapshot(attendance: Attendance): AttendanceAuditSnapshot {
+    const snapshot: AttendanceAuditSnapshot = {};
+
+    for (const field of AUDITED_FIELDS) {
+      snapshot[field] = this.normalize(field, attendance[field]);
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Diff campo a campo (apenas campos alterados)
+   */
+  diff(
+    before: AttendanceAuditSnapshot | null,
+    after: AttendanceAuditSnapshot
+  ): Record<string, AttendanceFieldChange> {
+    const changes: Record<string, AttendanceFieldChange> = {};
+
+    for (const field of Object.keys(after)) {
+      const previous = before ? before[field] ?? null : null;
+      const current = after[field] ?? null;
+
+      if (previous !== current) {
+        changes[field] = { before: previous, after: current };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Registra entradas na trilha
+   * Informe o EntityManager para gravar na mesma transação da mutação
+   */
+  async record(
+    entries: AttendanceHistoryEntry[],
+    manager?: EntityManager
+  ): Promise<AttendanceHistory[]> {
+    if (entries.length === 0) return [];
+
+    const rows = entries.map((entry) =>
+      this.historyRepository.create({
+        attendanceId: entry.attendanceId,
+        action: entry.action,
+        actorId: entry.actor?.id || null,
+        actorRole: entry.actor?.role || null,
+        ip: entry.actor?.ip || null,
+        reason: entry.reason ?? null,
+        changes: this.diff(entry.before, entry.after),
+      })
+    );
+
+    const saved = await this.historyRepository.save(rows, manager);
+
+    console.log(
+      `🧾 [AUDIT] ${entries.length} registro(s) de auditoria (${[...new Set(entries.map((e) => e.action))].join(", ")})`
+    );
+
+    return saved;
+  }
+
+  /**
+   * Trilha de um attendance em ordem cronológica
+   */
+  async getHistory(attendanceId: string): Promise<AttendanceHistory[]> {
+    return this.historyRepository.findByAttendance(attendanceId);
+  }
+
+  private normalize(field: string, value: unknown): string | number | boolean | null {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Date) return value.toISOString();
+
+    // decimal do Postgres chega como string
+    if (field === "discountPercentage") return Number(value);
+
+    if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+      return value;
+    }
+
+    return JSON.stringify(value);
+  }
+}
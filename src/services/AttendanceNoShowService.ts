@@ -0,0 +1,105 @@
+import { AttendanceNoShow } from "../entities/AttendanceNoShow";
+import { IAttendanceRepository, MissingAttendance } from "../repositories/AttendanceRepository";
+import { IAttendanceNoShowRepository } from "../repositories/AttendanceNoShowRepository";
+import { ShiftCacheService } from "./cache/ShiftCacheService";
+import { AttendanceEventPublisher } from "../events/AttendanceEventPublisher";
+
+/**
+ * Tolerância após o início/fim do plantão antes de considerar o ponto faltando
+ */
+export const NO_SHOW_TOLERANCE_MINUTES = parseInt(process.env.NO_SHOW_TOLERANCE_MINUTES || "30");
+
+/**
+ * Janela de plantões verificados a cada execução (plantões que começaram ou terminaram nela)
+ */
+export const NO_SHOW_LOOKBACK_HOURS = parseInt(process.env.NO_SHOW_LOOKBACK_HOURS || "48");
+
+/**
+ * Máximo de eventos publicados por execução
+ */
+const PUBLISH_BATCH_SIZE = 200;
+
+/**
+ * Serviço especializado em faltas (no-show) de plantão
+ * Responsabilidade Única: Detectar plantões sem IN/OUT, registrar e notificar
+ */
+export class AttendanceNoShowService {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private noShowRepository: IAttendanceNoShowRepository,
+    private shiftCache: ShiftCacheService,
+    private eventPublisher: AttendanceEventPublisher
+  ) {}
+
+  /**
+   * Detecta faltas nos plantões recentes, registra as novas e publica attendance.missing
+   */
+  async detectAndMark(now: Date = new Date()): Promise<{ detected: number; marked: number; published: number }> {
+    // Início na janela: IN faltando; fim na janela: OUT faltando (mesmo em plantões longos)
+    const shifts = await this.shiftCache.getShiftsStartedOrEndedInRange(
+      new Date(now.getTime() - NO_SHOW_LOOKBACK_HOURS * 60 * 60 * 1000),
+      now
+    );
+
+    const missing = await this.attendanceRepository.findMissingAttendances(shifts, {
+      now,
+      toleranceMinutes: NO_SHOW_TOLERANCE_MINUTES,
+    });
+
+    const marked = await this.noShowRepository.insertNew(missing.map((item) => this.toRow(item)));
+    const published = await this.publishPending();
+
+    if (missing.length > 0) {
+      console.log(
+        `🚫 [NO-SHOW] ${missing.length} falta(s) em ${shifts.length} plantão(ões), ${marked} nova(s), ${published} evento(s) publicado(s)`
+      );
+    }
+
+    return { detected: missing.length, marked, published };
+  }
+
+  /**
+   * Publica eventos pendentes (novos ou que falharam em execuções anteriores)
+   */
+  private async publishPending(): Promise<number> {
+    const pending = await this.noShowRepository.findUnpublished(PUBLISH_BATCH_SIZE);
+    const publishedIds: string[] = [];
+
+    for (const noShow of pending) {
+      try {
+        await this.eventPublisher.publishAttendanceMissing({
+          noShowId: noShow.id,
+          shiftId: noShow.shiftId,
+          doctorId: noShow.doctorId,
+          hospitalId: noShow.hospitalId,
+          status: noShow.status,
+          hasInPunch: noShow.hasInPunch,
+          hasOutPunch: noShow.hasOutPunch,
+          shiftStart: noShow.shiftStart,
+          shiftEnd: noShow.shiftEnd,
+          detectedAt: noShow.detectedAt,
+        });
+        publishedIds.push(noShow.id);
+      } catch (error) {
+        // Fica pendente e será republicado na próxima execução
+        console.error(`❌ [NO-SHOW] Falha ao publicar falta ${noShow.id}:`, error);
+      }
+    }
+
+    await this.noShowRepository.markPublished(publishedIds);
+    return publishedIds.length;
+  }
+
+  private toRow(item: MissingAttendance): Partial<AttendanceNoShow> {
+    return {
+      shiftId: item.shiftId,
+      doctorId: item.doctorId,
+      hospitalId: item.hospitalId,
+      status: item.status,
+      shiftStart: item.shiftStart,
+      shiftEnd: item.shiftEnd,
+      hasInPunch: item.hasInPunch,
+      hasOutPunch: item.hasOutPunch,
+    };
+  }
+}
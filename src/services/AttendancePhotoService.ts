@@ -1,3 +1,7 @@
+import type { UploadedPhoto } from '../dto';
+import { getErrorMessage } from '../utils/errorUtils';
+import { PhotoStorage, photoStorage } from './storage/PhotoStorage';
+
 /**
  * Resultado do upload de foto
  */
@@ -10,14 +14,22 @@ export interface PhotoUploadResult {
 /**
  * Serviço especializado em upload de fotos (Event-Driven Version)
  * Responsabilidade Única: Gerenciar fotos de attendance
+ *
+ * O armazenamento é delegado ao driver configurado (S3/MinIO ou disco local, ver PhotoStorage)
  */
 export class AttendancePhotoService {
-  
+  private readonly urlTtlSeconds: number;
+
+  constructor(private storage: PhotoStorage = photoStorage) {
+    this.urlTtlSeconds = parseInt(process.env.PHOTO_URL_TTL_SECONDS || '3600');
+  }
+
   /**
-   * Faz upload da foto (versão simplificada)
+   * Faz upload da foto para o storage
+   * Falha no storage não impede o registro do ponto (key null, success false)
    */
   async uploadPhoto(
-    photo: string | undefined,
+    photo: UploadedPhoto | undefined,
     shiftId: string,
     doctorId: string
   ): Promise<PhotoUploadResult> {
@@ -27,29 +39,42 @@ export class AttendancePhotoService {
         key: null,
       };
     }
-    
-    // Versão simplificada - gera uma key fake
+
     const timestamp = Date.now();
-    const key = `attendance-photos/${shiftId}/${doctorId}/${timestamp}.jpg`;
-    
-    // TODO: Implementar upload real para S3
-    console.log(`📸 [PHOTO] Upload simulado: ${key}`);
-    
-    return {
-      success: true,
-      key,
-    };
+    const extension = photo.mimetype === 'image/png' ? 'png' : 'jpg';
+    const key = `attendance-photos/${shiftId}/${doctorId}/${timestamp}.${extension}`;
+
+    try {
+      await this.storage.put(key, photo.buffer, photo.mimetype);
+
+      return {
+        success: true,
+        key,
+      };
+    } catch (error) {
+      console.error(`❌ [PHOTO] Erro ao salvar foto ${key} (${this.storage.driver}):`, error);
+
+      return {
+        success: false,
+        key: null,
+        error: getErrorMessage(error),
+      };
+    }
   }
-  
+
   /**
-   * Gera URL assinada para foto
+   * Gera URL assinada (temporária) para foto
    */
-  generateSignedUrl(photoS3Key: string | null): string | null {
+  async generateSignedUrl(photoS3Key: string | null): Promise<string | null> {
     if (!photoS3Key) {
       return null;
     }
-    
-    // Versão simplificada - gera URL fake
-    return `https://fake-s3-bucket.s3.amazonaws.com/${photoS3Key}?expires=3600`;
+
+    try {
+      return await this.storage.getSignedUrl(photoS3Key, this.urlTtlSeconds);
+    } catch (error) {
+      console.error(`❌ [PHOTO] Erro ao assinar URL da foto ${photoS3Key}:`, error);
+      return null;
+    }
   }
-}
\ No newline at end of file
+}
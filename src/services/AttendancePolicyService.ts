@@ -1,40 +1,406 @@
+import { QueryFailedError } from "typeorm";
+import { v4 as uuidv4 } from "uuid";
+import { AttendancePolicy } from "../entities/AttendancePolicy";
+import { AppError } from "../errors/AppError";
+import { IAttendancePolicyRepository } from "../repositories/AttendancePolicyRepository";
+import { CreateAttendancePolicyDTO, UpdateAttendancePolicyDTO } from "../dto";
+import { DiscountRule } from "../types/discountRules.types";
+import { validationStrategyRegistry } from "../strategies/AttendanceValidationStrategyRegistry";
+import { AttendanceDiscountService } from "./AttendanceDiscountService";
+import { redisCache } from "./cache/RedisCache";
+
+/**
+ * Origem da política efetiva
+ */
+export type PolicySource = "healthunit" | "hospital" | "default";
+
 /**
- * Política de attendance
+ * Política de attendance efetiva (já resolvida para um shift)
  */
-export interface AttendancePolicy {
+export interface EffectiveAttendancePolicy {
   maxDistanceMeters: number;
   outTimeWindowMs: number;
   useDistance: boolean;
   useTimeWindow: boolean;
   excludedMedicIds?: string[];
+  discountRules?: DiscountRule[] | null; // null = regra padrão de desconto
+  validationStrategies?: string[] | null; // null = pipeline padrão de validação
+  source: PolicySource;
+  policyId?: string;
+  policyVersionId?: string;
+  version?: number;
+  effectiveFrom?: Date;
+}
+
+/**
+ * Resumo de uma política: versão em vigor e última versão cadastrada
+ */
+export interface AttendancePolicySummary {
+  policyId: string;
+  hospitalId: string;
+  healthUnitId: string | null;
+  currentVersion: AttendancePolicy | null; // Em vigor agora (null se só há versões futuras)
+  latestVersion: AttendancePolicy;
 }
 
+/**
+ * Política padrão global (usada quando o hospital não tem política cadastrada)
+ */
+export const DEFAULT_ATTENDANCE_POLICY: EffectiveAttendancePolicy = {
+  maxDistanceMeters: 100,
+  outTimeWindowMs: 4 * 60 * 60 * 1000, // 4 horas
+  useDistance: false,
+  useTimeWindow: true,
+  excludedMedicIds: [], // Lista de médicos excluídos da verificação de área
+  discountRules: null,
+  validationStrategies: null,
+  source: "default",
+};
+
 /**
  * Serviço especializado em políticas de attendance (Event-Driven Version)
  * Responsabilidade Única: Gerenciar políticas e regras
+ *
+ * Políticas são versionadas: cada alteração gera uma nova versão com effectiveFrom.
+ * O cache guarda todas as versões de um escopo, e a versão em vigor é escolhida
+ * em memória pelo instante do ponto.
  */
 export class AttendancePolicyService {
-  
+  private readonly CACHE_PREFIX = "policy:versions:";
+  private readonly CACHE_TTL = 300; // 5 minutos
+  private readonly discountService = new AttendanceDiscountService();
+
+  constructor(private policyRepository: IAttendancePolicyRepository) {}
+
   /**
-   * Obtém política efetiva para um shift
+   * Gerar chave de cache
+   */
+  private getCacheKey(hospitalId: string, healthUnitId?: string | null): string {
+    return `${this.CACHE_PREFIX}${hospitalId}:${healthUnitId || "-"}`;
+  }
+
+  /**
+   * Obtém política efetiva para um shift no instante informado
+   * Resolução: health unit → hospital → padrão global
    */
   async getEffectiveForShift(
     hospitalId: string,
-    healthUnitId?: string
+    healthUnitId?: string,
+    at: Date = new Date()
+  ): Promise<EffectiveAttendancePolicy> {
+    let effective: EffectiveAttendancePolicy = { ...DEFAULT_ATTENDANCE_POLICY };
+
+    const healthUnitVersion = healthUnitId
+      ? this.pickVersionInForce(await this.getScopeVersions(hospitalId, healthUnitId), at)
+      : null;
+
+    if (healthUnitVersion) {
+      effective = this.toEffective(healthUnitVersion, "healthunit");
+    } else {
+      const hospitalVersion = this.pickVersionInForce(
+        await this.getScopeVersions(hospitalId, null),
+        at
+      );
+      if (hospitalVersion) {
+        effective = this.toEffective(hospitalVersion, "hospital");
+      }
+    }
+
+    console.log(
+      `📋 [POLICY] Aplicando política (${effective.source}${effective.version ? ` v${effective.version}` : ""}) para hospital ${hospitalId}`
+    );
+
+    return effective;
+  }
+
+  /**
+   * Cria uma política (versão 1) para um hospital ou unidade
+   */
+  async createPolicy(
+    dto: CreateAttendancePolicyDTO,
+    actorId?: string
+  ): Promise<AttendancePolicy> {
+    const healthUnitId = dto.healthUnitId ?? null;
+
+    const existing = await this.policyRepository.findScopeVersions(dto.hospitalId, healthUnitId);
+    if (existing.length > 0) {
+      throw new AppError(
+        409,
+        `Já existe política para este escopo. Use PUT /v2/policies/${existing[0].policyId} para criar uma nova versão.`
+      );
+    }
+
+    this.assertValidDiscountRules(dto.discountRules);
+    this.assertKnownValidationStrategies(dto.validationStrategies);
+
+    const policy = this.policyRepository.create({
+      policyId: uuidv4(),
+      version: 1,
+      effectiveFrom: this.resolveEffectiveFrom(dto.effectiveFrom),
+      hospitalId: dto.hospitalId,
+      healthUnitId,
+      maxDistanceMeters: dto.maxDistanceMeters ?? DEFAULT_ATTENDANCE_POLICY.maxDistanceMeters,
+      outTimeWindowMs: dto.outTimeWindowMs ?? DEFAULT_ATTENDANCE_POLICY.outTimeWindowMs,
+      useDistance: dto.useDistance ?? DEFAULT_ATTENDANCE_POLICY.useDistance,
+      useTimeWindow: dto.useTimeWindow ?? DEFAULT_ATTENDANCE_POLICY.useTimeWindow,
+      excludedMedicIds: dto.excludedMedicIds ?? [],
+      discountRules: dto.discountRules ?? null,
+      validationStrategies: dto.validationStrategies ?? null,
+      createdBy: actorId ?? null,
+      changeReason: dto.changeReason ?? null,
+    });
+
+    // ux_attendance_policy_scope: criação concorrente para o mesmo escopo
+    const saved = await this.policyRepository.save(policy).catch((error: unknown) => {
+      throw this.isUniqueViolation(error)
+        ? new AppError(409, "Já existe política para este escopo. Use PUT /v2/policies/:policyId para criar uma nova versão.")
+        : error;
+    });
+    await this.invalidate(saved.hospitalId, saved.healthUnitId);
+
+    console.log(`📋 [POLICY] Política ${saved.policyId} criada para hospital ${saved.hospitalId}`);
+
+    return saved;
+  }
+
+  /**
+   * Atualiza uma política criando uma nova versão
+   * Campos omitidos são herdados da última versão
+   */
+  async updatePolicy(
+    policyId: string,
+    dto: UpdateAttendancePolicyDTO,
+    actorId?: string
   ): Promise<AttendancePolicy> {
-    // Versão simplificada - retorna política padrão
-    // TODO: Buscar do banco de dados ou cache
-    
-    const defaultPolicy: AttendancePolicy = {
-      maxDistanceMeters: 100,
-      outTimeWindowMs: 4 * 60 * 60 * 1000, // 4 horas
-      useDistance: false,
-      useTimeWindow: true,
-      excludedMedicIds: [], // Lista de médicos excluídos da verificação de área
+    this.assertValidDiscountRules(dto.discountRules);
+    this.assertKnownValidationStrategies(dto.validationStrategies);
+    const effectiveFrom = this.resolveEffectiveFrom(dto.effectiveFrom);
+
+    // Última versão lida e nova versão gravada na mesma transação, com a última versão travada
+    const saved = await this.policyRepository
+      .saveNextVersion(policyId, (latest) => {
+        if (effectiveFrom < latest.effectiveFrom) {
+          throw new AppError(
+            400,
+            `effectiveFrom não pode ser anterior à vigência da versão ${latest.version} (${latest.effectiveFrom.toISOString()}).`
+          );
+        }
+
+        return this.policyRepository.create({
+          policyId,
+          version: latest.version + 1,
+          effectiveFrom,
+          hospitalId: latest.hospitalId,
+          healthUnitId: latest.healthUnitId,
+          maxDistanceMeters: dto.maxDistanceMeters ?? latest.maxDistanceMeters,
+          outTimeWindowMs: dto.outTimeWindowMs ?? latest.outTimeWindowMs,
+          useDistance: dto.useDistance ?? latest.useDistance,
+          useTimeWindow: dto.useTimeWindow ?? latest.useTimeWindow,
+          excludedMedicIds: dto.excludedMedicIds ?? latest.excludedMedicIds,
+          discountRules: dto.discountRules ?? latest.discountRules,
+          validationStrategies: dto.validationStrategies ?? latest.validationStrategies,
+          createdBy: actorId ?? null,
+          changeReason: dto.changeReason ?? null,
+        });
+      })
+      .catch((error: unknown) => {
+        throw this.isUniqueViolation(error)
+          ? new AppError(409, "A política foi alterada por outra requisição. Tente novamente.")
+          : error;
+      });
+
+    if (!saved) {
+      throw new AppError(404, "Política não encontrada.");
+    }
+
+    await this.invalidate(saved.hospitalId, saved.healthUnitId);
+
+    console.log(`📋 [POLICY] Política ${policyId} atualizada para v${saved.version}`);
+
+    return saved;
+  }
+
+  /**
+   * Busca uma política (versão em vigor e última versão)
+   */
+  async getPolicy(policyId: string): Promise<AttendancePolicySummary> {
+    const versions = await this.policyRepository.findVersions(policyId);
+    if (versions.length === 0) {
+      throw new AppError(404, "Política não encontrada.");
+    }
+
+    return this.toSummary(versions);
+  }
+
+  /**
+   * Lista as políticas de um hospital (hospital inteiro + unidades)
+   */
+  async listForHospital(hospitalId: string): Promise<AttendancePolicySummary[]> {
+    const versions = await this.policyRepository.findByHospital(hospitalId);
+
+    const byPolicy = new Map<string, AttendancePolicy[]>();
+    for (const version of versions) {
+      const list = byPolicy.get(version.policyId) ?? [];
+      list.push(version);
+      byPolicy.set(version.policyId, list);
+    }
+
+    return Array.from(byPolicy.values()).map((list) => this.toSummary(list));
+  }
+
+  /**
+   * Histórico de versões de uma política (mais recente primeiro)
+   */
+  async listVersions(policyId: string): Promise<AttendancePolicy[]> {
+    const versions = await this.policyRepository.findVersions(policyId);
+    if (versions.length === 0) {
+      throw new AppError(404, "Política não encontrada.");
+    }
+
+    return versions;
+  }
+
+  /**
+   * Invalida as versões cacheadas de um escopo
+   */
+  async invalidate(hospitalId: string, healthUnitId?: string | null): Promise<void> {
+    await redisCache.del(this.getCacheKey(hospitalId, healthUnitId));
+  }
+
+  /**
+   * Versões de um escopo (cache → banco)
+   */
+  private async getScopeVersions(
+    hospitalId: string,
+    healthUnitId: string | null
+  ): Promise<AttendancePolicy[]> {
+    const cacheKey = this.getCacheKey(hospitalId, healthUnitId);
+
+    const cached = await redisCache.get(cacheKey);
+    if (cached) {
+      const versions = JSON.parse(cached) as AttendancePolicy[];
+      // Converter strings de data para Date objects
+      return versions.map((v) => ({ ...v, effectiveFrom: new Date(v.effectiveFrom) }));
+    }
+
+    const versions = await this.policyRepository.findScopeVersions(hospitalId, healthUnitId);
+    await redisCache.set(cacheKey, JSON.stringify(versions), this.CACHE_TTL);
+
+    return versions;
+  }
+
+  /**
+   * Versão em vigor no instante: maior effectiveFrom <= instante (empate: maior versão)
+   */
+  private pickVersionInForce(versions: AttendancePolicy[], at: Date): AttendancePolicy | null {
+    let inForce: AttendancePolicy | null = null;
+
+    for (const version of versions) {
+      if (version.effectiveFrom.getTime() > at.getTime()) continue;
+
+      if (
+        !inForce ||
+        version.effectiveFrom > inForce.effectiveFrom ||
+        (version.effectiveFrom.getTime() === inForce.effectiveFrom.getTime() &&
+          version.version > inForce.version)
+      ) {
+        inForce = version;
+      }
+    }
+
+    return inForce;
+  }
+
+  /**
+   * effectiveFrom informado (ou agora), sem permitir vigência retroativa
+   */
+  private resolveEffectiveFrom(effectiveFrom?: string): Date {
+    if (!effectiveFrom) {
+      return new Date();
+    }
+
+    const date = new Date(effectiveFrom);
+    if (date.getTime() < Date.now()) {
+      throw new AppError(400, "effectiveFrom não pode estar no passado.");
+    }
+
+    return date;
+  }
+
+  /**
+   * Rejeita regras de desconto inconsistentes (faixas sobrepostas, ids duplicados...)
+   */
+  private assertValidDiscountRules(rules?: DiscountRule[]): void {
+    if (!rules) return;
+
+    const errors = this.discountService.validateRules(rules);
+    if (errors.length > 0) {
+      throw new AppError(400, `Regras de desconto inválidas: ${errors.join("; ")}`);
+    }
+  }
+
+  /**
+   * Rejeita lista vazia e nomes de estratégias não registradas
+   * (omitir validationStrategies = pipeline padrão)
+   */
+  private assertKnownValidationStrategies(names?: string[]): void {
+    if (!names) return;
+
+    if (names.length === 0) {
+      throw new AppError(
+        400,
+        "validationStrategies não pode ser vazio. Omita o campo para usar o pipeline padrão."
+      );
+    }
+
+    const unknown = validationStrategyRegistry.findUnknown(names);
+    if (unknown.length > 0) {
+      throw new AppError(
+        400,
+        `Estratégias de validação desconhecidas: ${unknown.join(", ")}. Disponíveis: ${validationStrategyRegistry.names().join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Violação de índice único do PostgreSQL (23505)
+   */
+  private isUniqueViolation(error: unknown): boolean {
+    return (
+      error instanceof QueryFailedError &&
+      (error.driverError as { code?: string } | undefined)?.code === "23505"
+    );
+  }
+
+  private toSummary(versions: AttendancePolicy[]): AttendancePolicySummary {
+    const latestVersion = versions.reduce((a, b) => (b.version > a.version ? b : a));
+
+    return {
+      policyId: latestVersion.policyId,
+      hospitalId: latestVersion.hospitalId,
+      healthUnitId: latestVersion.healthUnitId,
+      currentVersion: this.pickVersionInForce(versions, new Date()),
+      latestVersion,
     };
-    
-    console.log(`📋 [POLICY] Aplicando política para hospital ${hospitalId}`);
-    
-    return defaultPolicy;
   }
-}
\ No newline at end of file
+
+  /**
+   * Converte a versão persistida para a política efetiva
+   */
+  private toEffective(policy: AttendancePolicy, source: PolicySource): EffectiveAttendancePolicy {
+    return {
+      maxDistanceMeters: policy.maxDistanceMeters,
+      outTimeWindowMs: policy.outTimeWindowMs,
+      useDistance: policy.useDistance,
+      useTimeWindow: policy.useTimeWindow,
+      excludedMedicIds: policy.excludedMedicIds ?? [],
+      discountRules: policy.discountRules ?? null,
+      validationStrategies: policy.validationStrategies ?? null,
+      source,
+      policyId: policy.policyId,
+      policyVersionId: policy.id,
+      version: policy.version,
+      effectiveFrom: policy.effectiveFrom,
+    };
+  }
+}
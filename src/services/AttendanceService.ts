@@ -1,8 +1,11 @@
-import { AttendanceRepository } from '../repositories/AttendanceRepository';
+import { AttendanceRepository, MissingAttendance } from '../repositories/AttendanceRepository';
 import { ShiftCacheService, CachedShift } from './cache/ShiftCacheService';
 import { UserCacheService } from './cache/UserCacheService';
 import { Attendance } from '../entities/Attendance';
 import { Between } from 'typeorm';
+import { AppDataSource } from '../config/database';
+import { AttendanceHistoryService, AuditActor } from './AttendanceHistoryService';
+import { NO_SHOW_TOLERANCE_MINUTES } from './AttendanceNoShowService';
 import {
   UserContact,
   ShiftSummary,
@@ -20,7 +23,8 @@ export class AttendanceService {
   constructor(
     private repository: AttendanceRepository,
     private shiftCache: ShiftCacheService,
-    private userCache: UserCacheService
+    private userCache: UserCacheService,
+    private historyService: AttendanceHistoryService
   ) {}
 
   /**
@@ -381,12 +385,14 @@ export class AttendanceService {
   /**
    * Alterna desconto em um attendance individual
    * Usado após ponto aprovado para ajustar desconto
+   * O motivo vai para a trilha de auditoria (não sobrescreve o motivo do médico)
    */
   async toggleAttendanceDiscount(
     attendanceId: string,
     hospitalId: string,
     useDiscount: boolean,
-    reason?: string
+    reason?: string,
+    actor?: AuditActor
   ): Promise<{
     attendance: Attendance;
     changesSummary: {
@@ -423,14 +429,26 @@ export class AttendanceService {
     };
 
     // Atualizar attendance
+    const before = this.historyService.snapshot(attendance);
     attendance.approvedWithDiscount = useDiscount;
     attendance.discountPercentage = useDiscount ? (attendance.discountPercentage || 10) : 0;
-    
-    if (reason) {
-      attendance.reason = reason;
-    }
 
-    await this.repository.save(attendance);
+    await AppDataSource.transaction(async (manager) => {
+      await manager.getRepository(Attendance).save(attendance);
+      await this.historyService.record(
+        [
+          {
+            attendanceId: attendance.id,
+            action: 'DISCOUNT_TOGGLED',
+            before,
+            after: this.historyService.snapshot(attendance),
+            actor,
+            reason,
+          },
+        ],
+        manager
+      );
+    });
 
     // Calcular valores
     const originalValue = shift.value;
@@ -457,12 +475,14 @@ export class AttendanceService {
   /**
    * Alterna desconto em todos os attendances de um shift
    * Aplica a mudança em todos os pontos aprovados do shift
+   * O motivo vai para a trilha de auditoria (não sobrescreve o motivo do médico)
    */
   async toggleShiftDiscount(
     shiftId: string,
     hospitalId: string,
     useDiscount: boolean,
-    reason?: string
+    reason?: string,
+    actor?: AuditActor
   ): Promise<{
     shift: { id: string; value: number };
     attendancesModified: Array<{
@@ -508,16 +528,13 @@ export class AttendanceService {
     }> = [];
 
     let totalDiscount = 0;
+    const snapshots = new Map(
+      approvedAttendances.map(att => [att.id, this.historyService.snapshot(att)])
+    );
 
     for (const attendance of approvedAttendances) {
       attendance.approvedWithDiscount = useDiscount;
       attendance.discountPercentage = useDiscount ? (attendance.discountPercentage || 10) : 0;
-      
-      if (reason) {
-        attendance.reason = reason;
-      }
-
-      await this.repository.save(attendance);
 
       modifiedAttendances.push({
         id: attendance.id,
@@ -531,6 +548,21 @@ export class AttendanceService {
       }
     }
 
+    await AppDataSource.transaction(async (manager) => {
+      await manager.getRepository(Attendance).save(approvedAttendances);
+      await this.historyService.record(
+        approvedAttendances.map(att => ({
+          attendanceId: att.id,
+          action: 'DISCOUNT_TOGGLED' as const,
+          before: snapshots.get(att.id)!,
+          after: this.historyService.snapshot(att),
+          actor,
+          reason,
+        })),
+        manager
+      );
+    });
+
     const originalValue = shift.value * approvedAttendances.length;
     const finalValue = originalValue - totalDiscount;
 
@@ -563,8 +595,12 @@ export class AttendanceService {
     const endOfDay = new Date(targetDate);
     endOfDay.setHours(23, 59, 59, 999);
 
-    // Buscar shifts do hospital
-    const shifts = await this.shiftCache.getShiftsByHospital(hospitalId);
+    // Shifts do hospital iniciados até 24h antes do dia (plantões que viram a noite)
+    const shifts = await this.shiftCache.getShiftsByHospitalInRange(
+      hospitalId,
+      new Date(startOfDay.getTime() - 24 * 60 * 60 * 1000),
+      endOfDay
+    );
     const shiftIds = new Set(shifts.map((s: CachedShift) => s.id));
 
     // Buscar attendances do dia
@@ -594,54 +630,48 @@ export class AttendanceService {
   }
 
   /**
-   * Lista attendances faltando (missing punches) para um usuário
-   * Pontos IN sem OUT correspondente
+   * Lista plantões com ponto faltando para um usuário (role-based)
+   * Plantões do cache cruzados com os attendances: sem IN/OUT após o horário + tolerância
    */
   async getMissingPunchesForUser(
     userId: string,
     role: string,
-    shiftId?: string
-  ): Promise<Attendance[]> {
-    let attendances: Attendance[];
+    filters: { shiftId?: string; startDate?: Date; endDate?: Date } = {}
+  ): Promise<MissingAttendance[]> {
+    let shifts: CachedShift[];
 
-    if (shiftId) {
+    if (filters.shiftId) {
       // Buscar apenas do shift específico
-      attendances = await this.repository.find({ shiftId });
+      const shift = await this.shiftCache.getShiftFromCache(filters.shiftId);
+      shifts = shift ? [shift] : [];
+    } else if (role === 'client_medic') {
+      shifts = await this.shiftCache.findShifts({ doctorId: userId });
+    } else if (role === 'client_hospital') {
+      shifts = await this.shiftCache.getShiftsByHospital(userId);
     } else {
-      // Buscar todos os attendances do usuário
-      if (role === 'client_medic') {
-        attendances = await this.repository.find({ doctorId: userId });
-      } else if (role === 'client_hospital') {
-        // Buscar shifts do hospital
-        const shifts = await this.shiftCache.getShiftsByHospital(userId);
-        const shiftIds = new Set(shifts.map((s: CachedShift) => s.id));
-        
-        // Buscar attendances dos shifts
-        const allAttendances = await this.repository.find({});
-        attendances = allAttendances.filter(att => shiftIds.has(att.shiftId));
-      } else {
-        // Admin vê todos
-        attendances = await this.repository.find({});
-      }
+      // Admin vê todos
+      shifts = await this.shiftCache.findShifts();
     }
 
-    // Filtrar apenas IN sem OUT
-    const missingPunches: Attendance[] = [];
-    const punchInMap = new Map<string, Attendance>();
+    // Filtro por período (início do plantão)
+    shifts = shifts.filter(
+      (shift) =>
+        (!filters.startDate || shift.startTime >= filters.startDate) &&
+        (!filters.endDate || shift.startTime <= filters.endDate)
+    );
 
-    // Separar IN e OUT
-    for (const att of attendances) {
-      if (att.type === 'IN') {
-        const key = `${att.doctorId}-${att.shiftId}`;
-        punchInMap.set(key, att);
-      } else if (att.type === 'OUT') {
-        const key = `${att.doctorId}-${att.shiftId}`;
-        punchInMap.delete(key); // Remove IN se tiver OUT
-      }
+    const missing = await this.repository.findMissingAttendances(shifts, {
+      now: new Date(),
+      toleranceMinutes: NO_SHOW_TOLERANCE_MINUTES,
+    });
+
+    // Nome do médico a partir do cache de usuários
+    for (const item of missing) {
+      const doctor = await this.userCache.getUserFromCache(item.doctorId);
+      item.doctorName = doctor?.username;
     }
 
-    // Attendances restantes são missing
-    return Array.from(punchInMap.values());
+    return missing.sort((a, b) => a.shiftStart.getTime() - b.shiftStart.getTime());
   }
 
   /**
@@ -1,8 +1,14 @@
 import { AppError } from "../errors/AppError";
-import { AttendanceType } from "../entities/Attendance";
+import { AttendanceStatus, AttendanceType, getPunchDirection } from "../entities/Attendance";
+import type { FaceVerificationOutcome } from "../dto/CreateAttendanceDTO";
 import { AttendanceRepository } from "../repositories/AttendanceRepository";
 import { CachedShift } from "./cache/ShiftCacheService";
 
+/**
+ * Tolerância em torno do plantão para o horário proposto em correções
+ */
+export const CORRECTION_WINDOW_MS = 12 * 60 * 60 * 1000; // 12 horas
+
 /**
  * Serviço especializado em validações de attendance (Event-Driven Version)
  * Responsabilidade Única: Validar regras de negócio
@@ -18,11 +24,11 @@ export class AttendanceValidationService {
     shiftId: string,
     type: AttendanceType
   ): Promise<void> {
-    // 1) Verificar se já existe attendance do mesmo tipo
-    const existingSameType = await this.attendanceRepository.findByShiftAndDoctor(
+    // 1) Verificar se já existe attendance do mesmo sentido (inclui LATE_IN/LATE_OUT de correções)
+    const existingSameType = await this.attendanceRepository.findPunchByDirection(
       shiftId,
       doctorId,
-      type
+      getPunchDirection(type)
     );
 
     if (existingSameType) {
@@ -31,7 +37,7 @@ export class AttendanceValidationService {
 
     // 2) Se é OUT, verificar se existe IN anterior
     if (type === "OUT") {
-      const inPunch = await this.attendanceRepository.findByShiftAndDoctor(
+      const inPunch = await this.attendanceRepository.findPunchByDirection(
         shiftId,
         doctorId,
         "IN"
@@ -82,6 +88,28 @@ export class AttendanceValidationService {
     }
   }
 
+  /**
+   * Valida o horário proposto em uma correção de ponto
+   * Não pode estar no futuro nem fora do plantão (± CORRECTION_WINDOW_MS)
+   */
+  validateCorrectionTimestamp(
+    proposed: Date,
+    shiftStart: Date,
+    shiftEnd: Date,
+    now: Date = new Date()
+  ): void {
+    if (proposed > now) {
+      throw new AppError(400, "O horário proposto não pode estar no futuro.");
+    }
+
+    const earliest = shiftStart.getTime() - CORRECTION_WINDOW_MS;
+    const latest = shiftEnd.getTime() + CORRECTION_WINDOW_MS;
+
+    if (proposed.getTime() < earliest || proposed.getTime() > latest) {
+      throw new AppError(400, "O horário proposto está fora do período do plantão.");
+    }
+  }
+
   /**
    * Valida acesso ao shift (adaptado para cache)
    */
@@ -94,9 +122,47 @@ export class AttendanceValidationService {
 
   /**
    * Valida janela de checkout
+   * A janela vem da política do hospital (padrão: 4 horas)
    */
-  validateCheckoutTimeWindow(now: Date, shiftEnd: Date): boolean {
-    const windowMs = 4 * 60 * 60 * 1000; // 4 horas
+  validateCheckoutTimeWindow(
+    now: Date,
+    shiftEnd: Date,
+    windowMs: number = 4 * 60 * 60 * 1000
+  ): boolean {
     return Math.abs(now.getTime() - shiftEnd.getTime()) <= windowMs;
   }
-}
\ No newline at end of file
+
+  /**
+   * Aplica o resultado da verificação facial ao status decidido pelas estratégias
+   * Face não verificada, confiança abaixo do limiar ou prova de vida reprovada:
+   * APPROVED vira PENDING (REJECTED é mantido)
+   */
+  applyFaceVerification(
+    status: AttendanceStatus,
+    statusReason: string | undefined,
+    face?: FaceVerificationOutcome
+  ): { status: AttendanceStatus; statusReason: string | undefined } {
+    const faceMatched = !face || (face.verified && face.confidence >= face.requiredConfidence);
+    const livenessFailed = face?.livenessPassed === false;
+
+    if (!face || (faceMatched && !livenessFailed)) {
+      return { status, statusReason };
+    }
+
+    const confidence = `${(face.confidence * 100).toFixed(1)}% (mínimo ${(face.requiredConfidence * 100).toFixed(1)}%)`;
+    const faceReason = faceMatched
+      ? null
+      : face.verified
+        ? `Verificação facial com confiança baixa: ${confidence}`
+        : `Face não corresponde ao cadastro: confiança ${confidence}`;
+    const livenessReason = livenessFailed ? "Prova de vida não confirmada (possível foto ou vídeo)" : null;
+    const attempts = face.attempts > 1 ? `, ${face.attempts} tentativas` : "";
+
+    return {
+      status: status === "REJECTED" ? status : "PENDING",
+      statusReason: [[faceReason, livenessReason].filter(Boolean).join("; ") + attempts, statusReason]
+        .filter(Boolean)
+        .join("; "),
+    };
+  }
+}
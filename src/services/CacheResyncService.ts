@@ -0,0 +1,223 @@
+import { RabbitMQRequestReplyService } from './RabbitMQRequestReplyService';
+import { shiftRequestReply, toCachedShift } from './ShiftLookupService';
+import { ShiftCacheService } from './cache/ShiftCacheService';
+import { UserCacheService, CachedUser } from './cache/UserCacheService';
+import { AppError } from '../errors/AppError';
+import { getErrorMessage } from '../utils/errorUtils';
+import {
+  ShiftSnapshotRequest,
+  ShiftSnapshotResponse,
+  SHIFT_QUEUES,
+} from '../types/shiftMessaging.types';
+import {
+  UserData,
+  UserSnapshotRequest,
+  UserSnapshotResponse,
+  USER_QUEUES,
+} from '../types/userMessaging.types';
+
+/**
+ * Request/Reply dedicado ao user-service (reply queue própria)
+ */
+export const userRequestReply = new RabbitMQRequestReplyService(USER_QUEUES.REPLIES);
+
+export type CacheResyncTarget = 'shifts' | 'users';
+
+export const CACHE_RESYNC_TARGETS: CacheResyncTarget[] = ['shifts', 'users'];
+
+export interface CacheResyncTargetResult {
+  pages: number;
+  cached: number;
+  error?: string;
+}
+
+export interface CacheResyncResult {
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+  shifts?: CacheResyncTargetResult;
+  users?: CacheResyncTargetResult;
+}
+
+/**
+ * Converte o payload do user-service para o formato do cache
+ */
+export function toCachedUser(data: UserData): Omit<CachedUser, 'cachedAt'> {
+  return {
+    id: data.id,
+    username: data.username,
+    email: data.email,
+    cpfCnpj: data.cpfCnpj,
+    employeeIdentifier: data.employeeIdentifier,
+    role: data.role,
+    use2FA: data.use2FA,
+    createdAt: new Date(data.createdAt),
+    version: data.version,
+  };
+}
+
+/**
+ * Resync dos caches de Shift e User via snapshots paginados (Request/Reply)
+ *
+ * Usado quando o serviço sobe com o Redis vazio (deploy novo / flush),
+ * pela rota admin POST /v2/admin/cache/resync e pelo script scripts/resync-cache.ts.
+ * Falha em um alvo não interrompe o outro; o erro vai no resultado.
+ */
+export class CacheResyncService {
+  private readonly pageSize: number;
+  private readonly timeoutMs: number;
+  private readonly maxPages: number;
+  private running = false;
+
+  constructor(
+    private shiftCache: ShiftCacheService,
+    private userCache: UserCacheService,
+    private shiftRequests: RabbitMQRequestReplyService = shiftRequestReply,
+    private userRequests: RabbitMQRequestReplyService = userRequestReply
+  ) {
+    this.pageSize = parseInt(process.env.CACHE_RESYNC_PAGE_SIZE || '500');
+    this.timeoutMs = parseInt(process.env.CACHE_RESYNC_TIMEOUT || '10000');
+    this.maxPages = parseInt(process.env.CACHE_RESYNC_MAX_PAGES || '1000');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Repopular os caches a partir dos snapshots do shift-service e user-service
+   */
+  async resync(targets: CacheResyncTarget[] = CACHE_RESYNC_TARGETS): Promise<CacheResyncResult> {
+    if (this.running) {
+      throw new AppError(409, 'Resync do cache já está em andamento');
+    }
+
+    this.running = true;
+    const startedAt = new Date();
+    const result: CacheResyncResult = { startedAt, finishedAt: startedAt, durationMs: 0 };
+
+    try {
+      console.log(`🔄 [RESYNC] Iniciando resync do cache (${targets.join(', ')})`);
+
+      if (targets.includes('shifts')) {
+        result.shifts = await this.resyncShifts();
+      }
+
+      if (targets.includes('users')) {
+        result.users = await this.resyncUsers();
+      }
+
+      result.finishedAt = new Date();
+      result.durationMs = result.finishedAt.getTime() - startedAt.getTime();
+      console.log(`✅ [RESYNC] Resync concluído em ${result.durationMs}ms`, {
+        shifts: result.shifts,
+        users: result.users,
+      });
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Resync apenas dos caches que estão vazios (startup)
+   */
+  async resyncIfEmpty(): Promise<CacheResyncResult | null> {
+    const targets: CacheResyncTarget[] = [];
+
+    if (await this.shiftCache.isCacheEmpty()) targets.push('shifts');
+    if (await this.userCache.isCacheEmpty()) targets.push('users');
+
+    if (targets.length === 0) {
+      console.log('📦 [RESYNC] Cache já populado, resync não necessário');
+      return null;
+    }
+
+    return this.resync(targets);
+  }
+
+  private async resyncShifts(): Promise<CacheResyncTargetResult> {
+    // Apenas shifts ainda dentro da janela de retenção do cache
+    const endAfter = this.shiftCache.getRetentionCutoff().toISOString();
+
+    return this.paginate('shifts', this.shiftRequests, async (page) => {
+      const request: Omit<ShiftSnapshotRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
+        messageType: 'shift.snapshot.request',
+        data: { page, pageSize: this.pageSize, endAfter },
+      };
+
+      const response = await this.shiftRequests.sendRequest<ShiftSnapshotRequest, ShiftSnapshotResponse>(
+        SHIFT_QUEUES.SNAPSHOT_REQUESTS,
+        request,
+        this.timeoutMs
+      );
+
+      for (const shift of response.data.items) {
+        await this.shiftCache.cacheShift(toCachedShift(shift));
+      }
+
+      return { count: response.data.items.length, hasMore: response.data.hasMore };
+    });
+  }
+
+  private async resyncUsers(): Promise<CacheResyncTargetResult> {
+    return this.paginate('users', this.userRequests, async (page) => {
+      const request: Omit<UserSnapshotRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
+        messageType: 'user.snapshot.request',
+        data: { page, pageSize: this.pageSize },
+      };
+
+      const response = await this.userRequests.sendRequest<UserSnapshotRequest, UserSnapshotResponse>(
+        USER_QUEUES.SNAPSHOT_REQUESTS,
+        request,
+        this.timeoutMs
+      );
+
+      for (const user of response.data.items) {
+        await this.userCache.cacheUser(toCachedUser(user));
+      }
+
+      return { count: response.data.items.length, hasMore: response.data.hasMore };
+    });
+  }
+
+  /**
+   * Percorre as páginas do snapshot até hasMore=false (ou maxPages)
+   */
+  private async paginate(
+    target: CacheResyncTarget,
+    requests: RabbitMQRequestReplyService,
+    fetchPage: (page: number) => Promise<{ count: number; hasMore: boolean }>
+  ): Promise<CacheResyncTargetResult> {
+    const result: CacheResyncTargetResult = { pages: 0, cached: 0 };
+
+    if (!requests.getStats().isInitialized) {
+      result.error = 'Request/Reply não inicializado';
+      console.warn(`⚠️ [RESYNC] ${target}: ${result.error}`);
+      return result;
+    }
+
+    try {
+      let hasMore = true;
+
+      for (let page = 1; hasMore && page <= this.maxPages; page++) {
+        const { count, hasMore: more } = await fetchPage(page);
+        result.pages = page;
+        result.cached += count;
+        hasMore = more && count > 0;
+      }
+
+      if (hasMore) {
+        console.warn(`⚠️ [RESYNC] ${target}: limite de ${this.maxPages} páginas atingido`);
+      }
+    } catch (error) {
+      result.error = getErrorMessage(error);
+      console.error(`❌ [RESYNC] Erro no resync de ${target} (página ${result.pages + 1}):`, error);
+    }
+
+    return result;
+  }
+}
+
+export const cacheResyncService = new CacheResyncService(new ShiftCacheService(), new UserCacheService());
@@ -0,0 +1,220 @@
+import type { ConfirmChannel, GetMessage, Options } from 'amqplib';
+import { rabbitMQ, RabbitMQConnection } from '../messaging/RabbitMQConnection';
+import { RETRY_HEADERS, deadLetterQueueName, getRetryCount } from '../messaging/RetryPolicy';
+import { AppError } from '../errors/AppError';
+
+export type DeadLetterSource = 'shift' | 'user';
+
+export const DEAD_LETTER_SOURCES: DeadLetterSource[] = ['shift', 'user'];
+
+export interface DeadLetterMessage {
+  messageId: string | null;
+  originalQueue: string;
+  retryCount: number;
+  lastError: string | null;
+  failedAt: string | null;
+  replayedAt: string | null;
+  payload: unknown;
+}
+
+export interface DeadLetterListResult {
+  queue: string;
+  total: number;
+  messages: DeadLetterMessage[];
+}
+
+export interface DeadLetterReplayResult {
+  queue: string;
+  replayed: string[];
+  notFound: string[];
+}
+
+/**
+ * Queue de sync correspondente à origem (shift-service / user-service)
+ */
+export function getSourceQueue(source: DeadLetterSource): string {
+  return source === 'shift'
+    ? process.env.QUEUE_SHIFT_SYNC || 'attendance.shift.sync'
+    : process.env.QUEUE_USER_SYNC || 'attendance.user.sync';
+}
+
+/**
+ * Converte a mensagem da DLQ para o formato exposto na API admin
+ */
+export function toDeadLetterMessage(msg: GetMessage, fallbackQueue: string): DeadLetterMessage {
+  const headers = msg.properties.headers || {};
+  const raw = msg.content.toString();
+  let payload: unknown = raw;
+
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    // Mantém o conteúdo bruto (mensagem inválida vai direto para a DLQ)
+  }
+
+  const messageId =
+    msg.properties.messageId ||
+    (payload && typeof payload === 'object' && typeof (payload as { id?: unknown }).id === 'string'
+      ? (payload as { id: string }).id
+      : null);
+
+  return {
+    messageId,
+    originalQueue: headers[RETRY_HEADERS.ORIGINAL_QUEUE] || fallbackQueue,
+    retryCount: getRetryCount(headers),
+    lastError: headers[RETRY_HEADERS.LAST_ERROR] ?? null,
+    failedAt: headers[RETRY_HEADERS.FAILED_AT] ?? null,
+    replayedAt: headers[RETRY_HEADERS.REPLAYED_AT] ?? null,
+    payload,
+  };
+}
+
+/**
+ * Inspeção e replay das DLQs das queues de sync (shift/user)
+ *
+ * A navegação usa um canal dedicado com basic.get sem ack: ao fechar o canal
+ * as mensagens voltam para a DLQ. No replay, a mensagem é republicada na queue
+ * original com o contador de retentativas zerado e só é confirmada na DLQ depois
+ * que o broker confirma a republicação (publisher confirms).
+ */
+export class DeadLetterService {
+  private readonly maxBrowse: number;
+
+  constructor(private connection: Pick<RabbitMQConnection, 'createConfirmChannel' | 'isConnected'> = rabbitMQ) {
+    this.maxBrowse = parseInt(process.env.DEAD_LETTER_MAX_BROWSE || '1000');
+  }
+
+  /**
+   * Listar mensagens da DLQ (sem removê-las)
+   */
+  async list(source: DeadLetterSource, limit: number = 50): Promise<DeadLetterListResult> {
+    const queue = deadLetterQueueName(getSourceQueue(source));
+
+    return this.withChannel(async (channel) => {
+      const { messageCount } = await channel.checkQueue(queue);
+      const messages: DeadLetterMessage[] = [];
+
+      for (let i = 0; i < Math.min(limit, this.maxBrowse); i++) {
+        const msg = await channel.get(queue, { noAck: false });
+        if (!msg) break;
+        messages.push(toDeadLetterMessage(msg, getSourceQueue(source)));
+      }
+
+      return { queue, total: messageCount, messages };
+    });
+  }
+
+  /**
+   * Buscar uma mensagem da DLQ pelo messageId
+   */
+  async get(source: DeadLetterSource, messageId: string): Promise<DeadLetterMessage> {
+    const queue = deadLetterQueueName(getSourceQueue(source));
+
+    const found = await this.withChannel(async (channel) => {
+      for (let i = 0; i < this.maxBrowse; i++) {
+        const msg = await channel.get(queue, { noAck: false });
+        if (!msg) return null;
+
+        const message = toDeadLetterMessage(msg, getSourceQueue(source));
+        if (message.messageId === messageId) return message;
+      }
+      return null;
+    });
+
+    if (!found) {
+      throw new AppError(404, `Mensagem ${messageId} não encontrada em ${queue}`);
+    }
+
+    return found;
+  }
+
+  /**
+   * Reprocessar mensagens da DLQ (todas, ou apenas os messageIds informados)
+   */
+  async replay(source: DeadLetterSource, messageIds?: string[]): Promise<DeadLetterReplayResult> {
+    const sourceQueue = getSourceQueue(source);
+    const queue = deadLetterQueueName(sourceQueue);
+    const pending = messageIds ? new Set(messageIds) : null;
+    const replayed: string[] = [];
+
+    await this.withChannel(async (channel) => {
+      for (let i = 0; i < this.maxBrowse; i++) {
+        if (pending && pending.size === 0) break;
+
+        const msg = await channel.get(queue, { noAck: false });
+        if (!msg) break;
+
+        const message = toDeadLetterMessage(msg, sourceQueue);
+        if (pending && (!message.messageId || !pending.has(message.messageId))) {
+          // Não selecionada: volta para a DLQ quando o canal fechar
+          continue;
+        }
+
+        try {
+          await this.sendConfirmed(channel, message.originalQueue, msg.content, {
+            persistent: true,
+            messageId: msg.properties.messageId,
+            timestamp: msg.properties.timestamp,
+            contentType: msg.properties.contentType,
+            headers: {
+              ...msg.properties.headers,
+              [RETRY_HEADERS.RETRY_COUNT]: 0,
+              [RETRY_HEADERS.REPLAYED_AT]: new Date().toISOString(),
+            },
+          });
+        } catch (error) {
+          // Sem confirmação: a mensagem permanece na DLQ
+          channel.nack(msg, false, true);
+          throw error;
+        }
+        channel.ack(msg);
+
+        if (message.messageId) {
+          pending?.delete(message.messageId);
+          replayed.push(message.messageId);
+        }
+      }
+    });
+
+    const notFound = pending ? Array.from(pending) : [];
+    console.log(`🔁 [DLQ] ${replayed.length} mensagem(ns) reenviada(s) de ${queue} para ${sourceQueue}`);
+
+    return { queue, replayed, notFound };
+  }
+
+  /**
+   * Republica na queue e aguarda a confirmação do broker
+   */
+  private sendConfirmed(
+    channel: ConfirmChannel,
+    queue: string,
+    content: Buffer,
+    options: Options.Publish
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      channel.sendToQueue(queue, content, options, (err) => {
+        if (err) {
+          reject(err instanceof Error ? err : new Error(`Replay rejeitado pelo broker (nack): ${queue}`));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  private async withChannel<T>(operation: (channel: ConfirmChannel) => Promise<T>): Promise<T> {
+    // DLQs existem apenas no RabbitMQ (indisponível com MESSAGE_BROKER=memory ou durante reconexão)
+    if (!this.connection.isConnected()) {
+      throw new AppError(503, 'RabbitMQ indisponível');
+    }
+
+    const channel = await this.connection.createConfirmChannel();
+    try {
+      return await operation(channel);
+    } finally {
+      await channel.close().catch(() => undefined);
+    }
+  }
+}
+
+export const deadLetterService = new DeadLetterService();
@@ -0,0 +1,121 @@
+import { EventOutbox } from "../entities/EventOutbox";
+import { IEventOutboxRepository } from "../repositories/EventOutboxRepository";
+import { AttendanceEventPublisher } from "../events/AttendanceEventPublisher";
+import { getErrorMessage } from "../utils/errorUtils";
+
+/**
+ * Máximo de eventos publicados por lote do relay
+ */
+export const OUTBOX_BATCH_SIZE = parseInt(process.env.OUTBOX_BATCH_SIZE || "100");
+
+/**
+ * Backoff entre tentativas de publicação de um evento
+ */
+const OUTBOX_RETRY_BASE_MS = parseInt(process.env.OUTBOX_RETRY_BASE_MS || "1000");
+const OUTBOX_RETRY_MAX_MS = parseInt(process.env.OUTBOX_RETRY_MAX_MS || "300000");
+
+/**
+ * Eventos já publicados são mantidos por este período (auditoria / reprocessamento)
+ */
+const OUTBOX_RETENTION_DAYS = parseInt(process.env.OUTBOX_RETENTION_DAYS || "7");
+
+/**
+ * Atraso até a próxima tentativa (backoff exponencial com teto)
+ */
+export function outboxRetryDelay(
+  attempts: number,
+  baseMs: number = OUTBOX_RETRY_BASE_MS,
+  maxMs: number = OUTBOX_RETRY_MAX_MS
+): number {
+  return Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Lag do outbox (exposto no /health)
+ */
+export interface OutboxLag {
+  pending: number;
+  oldestPendingAt: string | null;
+  lagSeconds: number;
+}
+
+/**
+ * Serviço especializado no transactional outbox
+ * Responsabilidade Única: Publicar eventos pendentes do outbox e medir o atraso
+ */
+export class EventOutboxService {
+  constructor(
+    private outboxRepository: IEventOutboxRepository,
+    private eventPublisher: AttendanceEventPublisher
+  ) {}
+
+  /**
+   * Publica um lote de eventos devidos, em ordem de criação
+   * Na primeira falha o lote é interrompido (broker fora do ar afeta todos);
+   * o evento que falhou é reagendado com backoff
+   */
+  async relayBatch(now: Date = new Date()): Promise<{ claimed: number; sent: number }> {
+    let sent = 0;
+
+    const claimed = await this.outboxRepository.processDue(OUTBOX_BATCH_SIZE, now, async (rows) => {
+      for (const row of rows) {
+        try {
+          await this.eventPublisher.publishOutboxEvent(row);
+          this.markSent(row);
+          sent++;
+        } catch (error) {
+          this.markFailed(row, error, now);
+          console.error(
+            `❌ [OUTBOX] Falha ao publicar ${row.eventType} (${row.id}), tentativa ${row.attempts}:`,
+            getErrorMessage(error)
+          );
+          break;
+        }
+      }
+    });
+
+    return { claimed, sent };
+  }
+
+  /**
+   * Remove eventos publicados há mais de OUTBOX_RETENTION_DAYS
+   */
+  async purgeSent(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - OUTBOX_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const purged = await this.outboxRepository.deleteSentBefore(cutoff);
+
+    if (purged > 0) {
+      console.log(`🧹 [OUTBOX] ${purged} evento(s) publicados removidos`);
+    }
+
+    return purged;
+  }
+
+  /**
+   * Quantidade de eventos pendentes e idade do mais antigo
+   */
+  async getLag(now: Date = new Date()): Promise<OutboxLag> {
+    const backlog = await this.outboxRepository.getBacklog();
+
+    return {
+      pending: backlog.pending,
+      oldestPendingAt: backlog.oldestPendingAt?.toISOString() ?? null,
+      lagSeconds: backlog.oldestPendingAt
+        ? Math.max(0, Math.floor((now.getTime() - backlog.oldestPendingAt.getTime()) / 1000))
+        : 0,
+    };
+  }
+
+  private markSent(row: EventOutbox): void {
+    row.status = "SENT";
+    row.sentAt = new Date();
+    row.attempts += 1;
+    row.lastError = null;
+  }
+
+  private markFailed(row: EventOutbox, error: unknown, now: Date): void {
+    row.attempts += 1;
+    row.lastError = getErrorMessage(error);
+    row.nextAttemptAt = new Date(now.getTime() + outboxRetryDelay(row.attempts));
+  }
+}
@@ -0,0 +1,167 @@
+import { AppError } from "../errors/AppError";
+import { FaceEnrollment } from "../entities/FaceEnrollment";
+import { IFaceEnrollmentRepository } from "../repositories/FaceEnrollmentRepository";
+import type { UploadedPhoto } from "../dto";
+import { FaceRecognitionService } from "./FaceRecognitionService";
+
+/**
+ * Situação do cadastro facial exposta pela API
+ */
+export interface FaceEnrollmentSummary {
+  userId: string;
+  enrolled: boolean;
+  status: FaceEnrollment["status"] | "NOT_ENROLLED";
+  faceId: string | null;
+  detectionConfidence: number | null;
+  enrollmentCount: number;
+  enrolledAt: Date | null;
+  resetAt: Date | null;
+  resetBy: string | null;
+  resetReason: string | null;
+}
+
+/**
+ * Verificação facial obrigatória em todos os pontos, mesmo sem cadastro (FACE_RECOGNITION_REQUIRED=true)
+ */
+export function isFaceRecognitionRequired(): boolean {
+  return process.env.FACE_RECOGNITION_REQUIRED === "true";
+}
+
+/**
+ * Serviço especializado em cadastro facial
+ * Responsabilidade Única: Cadastrar/recadastrar a face de referência e controlar a situação por usuário
+ *
+ * O descritor fica no face-recognition-service (FaceRecognitionService);
+ * a situação do cadastro fica na tabela face_enrollment.
+ */
+export class FaceEnrollmentService {
+  constructor(
+    private enrollmentRepository: IFaceEnrollmentRepository,
+    private faceService: FaceRecognitionService
+  ) {}
+
+  /**
+   * Situação do cadastro do usuário (NOT_ENROLLED se nunca cadastrou)
+   */
+  async getStatus(userId: string): Promise<FaceEnrollmentSummary> {
+    const enrollment = await this.enrollmentRepository.findByUserId(userId);
+    return this.toSummary(userId, enrollment);
+  }
+
+  async isEnrolled(userId: string): Promise<boolean> {
+    const enrollment = await this.enrollmentRepository.findByUserId(userId);
+    return enrollment?.status === "ENROLLED";
+  }
+
+  /**
+   * Ponto exige verificação facial: política global ou cadastro ativo do usuário
+   */
+  async isFaceCheckRequired(userId: string): Promise<boolean> {
+    return isFaceRecognitionRequired() || this.isEnrolled(userId);
+  }
+
+  /**
+   * Exige cadastro ativo antes da verificação facial no ponto
+   *
+   * Cadastros anteriores à tabela face_enrollment entram pela migration de backfill
+   * (1729480000000); sem linha ENROLLED não há face de referência confirmada.
+   */
+  async assertEnrolled(userId: string): Promise<void> {
+    if (!(await this.isEnrolled(userId))) {
+      throw new AppError(
+        412,
+        "Face não cadastrada. Cadastre sua face em POST /v2/faces/enroll antes de registrar ponto com verificação facial"
+      );
+    }
+  }
+
+  /**
+   * Primeiro cadastro (ou novo cadastro após reset)
+   */
+  async enroll(userId: string, photo: UploadedPhoto): Promise<FaceEnrollmentSummary> {
+    const enrollment = await this.enrollmentRepository.findByUserId(userId);
+
+    if (enrollment?.status === "ENROLLED") {
+      throw new AppError(409, "Face já cadastrada. Use PUT /v2/faces/enroll para recadastrar");
+    }
+
+    const result = await this.faceService.registerFace(userId, photo.buffer, photo.mimetype);
+
+    const saved = await this.enrollmentRepository.save(
+      Object.assign(enrollment ?? this.enrollmentRepository.create({ userId, enrollmentCount: 0 }), {
+        status: "ENROLLED",
+        faceId: result.faceId,
+        detectionConfidence: result.detectionConfidence,
+        enrollmentCount: (enrollment?.enrollmentCount ?? 0) + 1,
+        enrolledAt: new Date(),
+      })
+    );
+
+    console.log(`🙂 [FACE] Cadastro facial realizado: userId=${userId}`);
+    return this.toSummary(userId, saved);
+  }
+
+  /**
+   * Recadastro (substitui a face de referência)
+   */
+  async reenroll(userId: string, photo: UploadedPhoto): Promise<FaceEnrollmentSummary> {
+    const enrollment = await this.enrollmentRepository.findByUserId(userId);
+
+    if (!enrollment || enrollment.status !== "ENROLLED") {
+      throw new AppError(409, "Nenhuma face cadastrada. Use POST /v2/faces/enroll para cadastrar");
+    }
+
+    const result = await this.faceService.updateFace(userId, photo.buffer, photo.mimetype);
+
+    enrollment.faceId = result.faceId;
+    enrollment.detectionConfidence = result.detectionConfidence;
+    enrollment.enrollmentCount += 1;
+    enrollment.enrolledAt = new Date();
+    const saved = await this.enrollmentRepository.save(enrollment);
+
+    console.log(`🔄 [FACE] Recadastro facial realizado: userId=${userId}`);
+    return this.toSummary(userId, saved);
+  }
+
+  /**
+   * Remove o cadastro (admin): o médico precisa cadastrar novamente
+   */
+  async reset(userId: string, actorId: string | null, reason?: string): Promise<FaceEnrollmentSummary> {
+    const enrollment = await this.enrollmentRepository.findByUserId(userId);
+
+    if (!enrollment || enrollment.status !== "ENROLLED") {
+      throw new AppError(404, "Nenhum cadastro facial ativo para este usuário");
+    }
+
+    await this.faceService.deleteFace(userId);
+
+    enrollment.status = "RESET";
+    enrollment.faceId = null;
+    enrollment.detectionConfidence = null;
+    enrollment.resetAt = new Date();
+    enrollment.resetBy = actorId;
+    enrollment.resetReason = reason ?? null;
+    const saved = await this.enrollmentRepository.save(enrollment);
+
+    console.log(`🗑️ [FACE] Cadastro facial removido: userId=${userId} (por ${actorId})`);
+    return this.toSummary(userId, saved);
+  }
+
+  private toSummary(userId: string, enrollment: FaceEnrollment | null): FaceEnrollmentSummary {
+    return {
+      userId,
+      enrolled: enrollment?.status === "ENROLLED",
+      status: enrollment?.status ?? "NOT_ENROLLED",
+      faceId: enrollment?.faceId ?? null,
+      detectionConfidence:
+        enrollment?.detectionConfidence === null || enrollment?.detectionConfidence === undefined
+          ? null
+          : Number(enrollment.detectionConfidence),
+      enrollmentCount: enrollment?.enrollmentCount ?? 0,
+      enrolledAt: enrollment?.enrolledAt ?? null,
+      resetAt: enrollment?.resetAt ?? null,
+      resetBy: enrollment?.resetBy ?? null,
+      resetReason: enrollment?.resetReason ?? null,
+    };
+  }
+}
@@ -7,6 +7,11 @@ import type {
   FaceRegistrationResponse,
   FaceUpdateRequest,
   FaceUpdateResponse,
+  FaceDeleteRequest,
+  FaceDeleteResponse,
+  FaceLivenessRequest,
+  FaceLivenessResponse,
+  LivenessGesture,
   FACE_QUEUES,
 } from '../types/faceMessaging.types';
 
@@ -25,6 +30,27 @@ export interface FaceVerificationResult {
   };
 }
 
+/**
+ * Interface para o resultado da prova de vida
+ */
+export interface FaceLivenessResult {
+  passed: boolean; // live, gesto detectado e mesma pessoa em toda a sequência
+  live: boolean;
+  gestureDetected: boolean;
+  sameIdentity: boolean;
+  confidence: number;
+  message: string;
+  spoofType?: string;
+}
+
+/**
+ * Resultado do cadastro (ou recadastro) da face de referência
+ */
+export interface FaceEnrollmentResult {
+  faceId: string;
+  detectionConfidence: number;
+}
+
 /**
  * Configuração do serviço de reconhecimento facial
  */
@@ -64,12 +90,13 @@ export class FaceRecognitionService {
    */
   async verifyFace(
     userId: string,
-    photoBuffer: Buffer
+    photoBuffer: Buffer,
+    mimeType: string = 'image/jpeg'
   ): Promise<FaceVerificationResult> {
     try {
       // Converter buffer para base64
       const imageBase64 = photoBuffer.toString('base64');
-      const imageDataUri = `data:image/jpeg;base64,${imageBase64}`;
+      const imageDataUri = `data:${mimeType};base64,${imageBase64}`;
 
       // Criar request
       const request: Omit<FaceVerificationRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
@@ -111,17 +138,90 @@ export class FaceRecognitionService {
     }
   }
 
+  /**
+   * Prova de vida: confere se a sequência de fotos mostra uma pessoa presente executando o gesto do desafio
+   * 
+   * A foto da verificação facial é um dos frames (referenceFrameIndex): o serviço confere que toda a
+   * sequência é da mesma pessoa desse frame, ligando a prova de vida à face verificada.
+   * 
+   * @param userId - ID do usuário
+   * @param challenge - Nonce e gesto do desafio (já consumido pelo LivenessChallengeService)
+   * @param frames - Sequência de imagens, na ordem de captura
+   * @param referenceFrameIndex - Posição da foto do ponto na sequência
+   * @returns Resultado da prova de vida
+   */
+  async checkLiveness(
+    userId: string,
+    challenge: { nonce: string; gesture: LivenessGesture },
+    frames: Array<{ buffer: Buffer; mimetype: string }>,
+    referenceFrameIndex: number
+  ): Promise<FaceLivenessResult> {
+    try {
+      const request: Omit<FaceLivenessRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
+        messageType: 'face.liveness.request',
+        data: {
+          userId,
+          challengeNonce: challenge.nonce,
+          gesture: challenge.gesture,
+          frames: frames.map((frame) => `data:${frame.mimetype};base64,${frame.buffer.toString('base64')}`),
+          referenceFrameIndex,
+        },
+      };
+
+      const response = await rabbitMQRequestReply.sendRequest<
+        FaceLivenessRequest,
+        FaceLivenessResponse
+      >(this.queues.LIVENESS_REQUESTS, request, this.config.requestTimeout);
+
+      if (!response.success) {
+        throw new AppError(500, response.error?.message || 'Liveness check failed');
+      }
+
+      const { live, gestureDetected, confidence, metadata } = response.data;
+      const sameIdentity = response.data.sameIdentity === true;
+      const passed = live && gestureDetected && sameIdentity;
+
+      return {
+        passed,
+        live,
+        gestureDetected,
+        sameIdentity,
+        confidence,
+        message: passed
+          ? `Prova de vida confirmada (confiança: ${(confidence * 100).toFixed(1)}%)`
+          : !live
+            ? `Prova de vida falhou: possível foto/vídeo reproduzido${metadata?.spoofType ? ` (${metadata.spoofType})` : ''}`
+            : !gestureDetected
+              ? `Prova de vida falhou: gesto ${challenge.gesture} não detectado`
+              : 'Prova de vida falhou: a sequência não mostra a mesma pessoa da foto do ponto',
+        spoofType: metadata?.spoofType,
+      };
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new AppError(500, `Liveness check failed: ${errorMessage}`);
+    }
+  }
+
   /**
    * Registra a primeira foto do usuário no sistema de reconhecimento facial
    * 
    * @param userId - ID do usuário
    * @param photoBuffer - Buffer da imagem a ser registrada
+   * @returns faceId e confiança da detecção
    */
-  async registerFace(userId: string, photoBuffer: Buffer): Promise<void> {
+  async registerFace(
+    userId: string,
+    photoBuffer: Buffer,
+    mimeType: string = 'image/jpeg'
+  ): Promise<FaceEnrollmentResult> {
     try {
       // Converter buffer para base64
       const imageBase64 = photoBuffer.toString('base64');
-      const imageDataUri = `data:image/jpeg;base64,${imageBase64}`;
+      const imageDataUri = `data:${mimeType};base64,${imageBase64}`;
 
       // Criar request
       const request: Omit<FaceRegistrationRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
@@ -143,6 +243,11 @@ export class FaceRecognitionService {
       }
 
       console.log(`✅ Face registrada: userId=${userId}, faceId=${response.data.faceId}`);
+
+      return {
+        faceId: response.data.faceId,
+        detectionConfidence: response.data.detectionConfidence,
+      };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -158,12 +263,17 @@ export class FaceRecognitionService {
    * 
    * @param userId - ID do usuário
    * @param photoBuffer - Buffer da nova imagem
+   * @returns faceId e confiança da detecção
    */
-  async updateFace(userId: string, photoBuffer: Buffer): Promise<void> {
+  async updateFace(
+    userId: string,
+    photoBuffer: Buffer,
+    mimeType: string = 'image/jpeg'
+  ): Promise<FaceEnrollmentResult> {
     try {
       // Converter buffer para base64
       const imageBase64 = photoBuffer.toString('base64');
-      const imageDataUri = `data:image/jpeg;base64,${imageBase64}`;
+      const imageDataUri = `data:${mimeType};base64,${imageBase64}`;
 
       // Criar request
       const request: Omit<FaceUpdateRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
@@ -185,6 +295,11 @@ export class FaceRecognitionService {
       }
 
       console.log(`✅ Face atualizada: userId=${userId}, faceId=${response.data.faceId}`);
+
+      return {
+        faceId: response.data.faceId,
+        detectionConfidence: response.data.detectionConfidence,
+      };
     } catch (error) {
       if (error instanceof AppError) {
         throw error;
@@ -195,6 +310,40 @@ export class FaceRecognitionService {
     }
   }
 
+  /**
+   * Remove a face cadastrada do usuário no sistema de reconhecimento facial
+   * 
+   * @param userId - ID do usuário
+   */
+  async deleteFace(userId: string): Promise<void> {
+    try {
+      const request: Omit<FaceDeleteRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
+        messageType: 'face.delete.request',
+        data: {
+          userId,
+        },
+      };
+
+      const response = await rabbitMQRequestReply.sendRequest<
+        FaceDeleteRequest,
+        FaceDeleteResponse
+      >(this.queues.DELETE_REQUESTS, request, this.config.requestTimeout);
+
+      if (!response.success) {
+        throw new AppError(500, response.error?.message || 'Face deletion failed');
+      }
+
+      console.log(`🗑️ Face removida: userId=${userId}, deleted=${response.data.deleted}`);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new AppError(500, `Face deletion failed: ${errorMessage}`);
+    }
+  }
+
   /**
    * Verifica se o serviço de reconhecimento facial está disponível
    * Verifica se o RabbitMQRequestReplyService está inicializado
@@ -0,0 +1,106 @@
+import { randomBytes, randomInt } from "crypto";
+import { AppError } from "../errors/AppError";
+import { redisCache } from "./cache/RedisCache";
+import type { LivenessGesture } from "../types/faceMessaging.types";
+
+export const LIVENESS_GESTURES: readonly LivenessGesture[] = ["BLINK", "TURN_HEAD_LEFT", "TURN_HEAD_RIGHT"];
+
+/**
+ * Mínimo de fotos na sequência da prova de vida (o máximo é limitado no upload)
+ */
+export const LIVENESS_MIN_FRAMES = parseInt(process.env.LIVENESS_MIN_FRAMES || "2");
+
+/**
+ * Prova de vida obrigatória nos pontos com verificação facial (FACE_LIVENESS_REQUIRED=false desativa)
+ */
+export function isLivenessRequired(): boolean {
+  return process.env.FACE_LIVENESS_REQUIRED !== "false";
+}
+
+/**
+ * Desafio de prova de vida emitido para um ponto
+ */
+export interface LivenessChallenge {
+  nonce: string;
+  doctorId: string;
+  shiftId: string;
+  gesture: LivenessGesture;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Serviço de desafios de prova de vida (anti-spoofing)
+ * Responsabilidade Única: Emitir nonces de curta duração e consumi-los uma única vez
+ *
+ * O nonce fica no cache até um pouco depois de expirar (para responder "expirado" em vez de
+ * "inexistente"). O consumo usa GETDEL: duas requisições com o mesmo nonce nunca passam as duas.
+ */
+export class LivenessChallengeService {
+  private readonly CHALLENGE_PREFIX = "face:challenge:";
+  private readonly USED_PREFIX = "face:challenge-used:";
+  private readonly CHALLENGE_TTL = parseInt(process.env.LIVENESS_CHALLENGE_TTL_SECONDS || "60");
+  private readonly RETENTION_SECONDS = 300;
+
+  /**
+   * Emitir desafio para o médico/plantão (gesto sorteado)
+   */
+  async createChallenge(doctorId: string, shiftId: string, now: Date = new Date()): Promise<LivenessChallenge> {
+    const challenge: LivenessChallenge = {
+      nonce: randomBytes(16).toString("hex"),
+      doctorId,
+      shiftId,
+      gesture: LIVENESS_GESTURES[randomInt(LIVENESS_GESTURES.length)],
+      issuedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.CHALLENGE_TTL * 1000).toISOString(),
+    };
+
+    const key = this.CHALLENGE_PREFIX + challenge.nonce;
+    await redisCache.set(key, JSON.stringify(challenge), this.CHALLENGE_TTL + this.RETENTION_SECONDS);
+
+    // Sem conexão o set não grava nada: um nonce fora do cache nunca seria aceito no ponto
+    if (!(await redisCache.exists(key))) {
+      throw new AppError(503, "Não foi possível emitir o desafio de prova de vida. Tente novamente em instantes");
+    }
+
+    console.log(`🎲 [LIVENESS] Desafio ${challenge.gesture} emitido: doctor=${doctorId}, shift=${shiftId}`);
+    return challenge;
+  }
+
+  /**
+   * Consumir desafio (uso único): rejeita nonce inexistente, expirado, reutilizado ou de outro médico/plantão
+   */
+  async consumeChallenge(
+    nonce: string,
+    doctorId: string,
+    shiftId: string,
+    now: Date = new Date()
+  ): Promise<LivenessChallenge> {
+    if (!/^[0-9a-f]{32}$/.test(nonce)) {
+      throw new AppError(400, "Desafio de prova de vida inválido");
+    }
+
+    const raw = await redisCache.getDel(this.CHALLENGE_PREFIX + nonce);
+
+    if (!raw) {
+      if (await redisCache.exists(this.USED_PREFIX + nonce)) {
+        throw new AppError(409, "Desafio de prova de vida já utilizado. Solicite um novo desafio");
+      }
+      throw new AppError(410, "Desafio de prova de vida expirado ou inexistente. Solicite um novo desafio");
+    }
+
+    await redisCache.set(this.USED_PREFIX + nonce, "1", this.CHALLENGE_TTL + this.RETENTION_SECONDS);
+
+    const challenge: LivenessChallenge = JSON.parse(raw);
+
+    if (challenge.doctorId !== doctorId || challenge.shiftId !== shiftId) {
+      throw new AppError(403, "Desafio de prova de vida emitido para outro médico ou plantão");
+    }
+
+    if (new Date(challenge.expiresAt).getTime() < now.getTime()) {
+      throw new AppError(410, "Desafio de prova de vida expirado. Solicite um novo desafio");
+    }
+
+    return challenge;
+  }
+}
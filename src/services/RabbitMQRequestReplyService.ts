@@ -1,5 +1,5 @@
 import { v4 as uuidv4 } from 'uuid';
-import { rabbitMQ } from '../messaging/RabbitMQConnection';
+import { messageBroker } from '../messaging/MessageBroker';
 import type { BaseRequest, BaseResponse } from '../types/faceMessaging.types';
 import { AppError } from '../errors/AppError';
 
@@ -43,14 +43,14 @@ export class RabbitMQRequestReplyService {
 
     try {
       // Criar reply queue (exclusive: apenas essa conexão pode consumir)
-      await rabbitMQ.assertQueue(this.replyQueue, {
+      await messageBroker.assertQueue(this.replyQueue, {
         exclusive: false, // False para permitir reconexão
         durable: false, // Temporary queue
         autoDelete: true, // Deletar quando não houver consumidores
       });
 
       // Começar a consumir respostas
-      await rabbitMQ.consume(
+      await messageBroker.consume(
         this.replyQueue,
         async (message: Record<string, unknown>) => {
           await this.handleResponse(message as unknown as BaseResponse);
@@ -121,7 +121,7 @@ export class RabbitMQRequestReplyService {
 
     // Publicar request na queue
     try {
-      await rabbitMQ.publish('', queue, fullRequest);
+      await messageBroker.publish('', queue, fullRequest);
       console.log(`📤 Request enviada: ${queue} (requestId: ${requestId})`);
     } catch (error) {
       // Limpar pending request se falhar ao enviar
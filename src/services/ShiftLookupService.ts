@@ -0,0 +1,81 @@
+import { RabbitMQRequestReplyService } from './RabbitMQRequestReplyService';
+import type { CachedShift } from './cache/ShiftCacheService';
+import {
+  ShiftData,
+  ShiftLookupRequest,
+  ShiftLookupResponse,
+  SHIFT_QUEUES,
+} from '../types/shiftMessaging.types';
+
+/**
+ * Request/Reply dedicado ao shift-service (reply queue própria)
+ */
+export const shiftRequestReply = new RabbitMQRequestReplyService(SHIFT_QUEUES.REPLIES);
+
+/**
+ * Converte o payload do shift-service para o formato do cache
+ */
+export function toCachedShift(data: ShiftData): Omit<CachedShift, 'cachedAt'> {
+  return {
+    id: data.id,
+    hospitalId: data.hospitalId,
+    doctorId: data.doctorId,
+    value: data.value,
+    finalValue: data.finalValue,
+    specialty: data.specialty,
+    startTime: new Date(data.startTime),
+    endTime: new Date(data.endTime),
+    status: data.status,
+    healthUnitId: data.healthUnitId,
+    approvalStatus: data.approvalStatus,
+    approvedAt: data.approvedAt ? new Date(data.approvedAt) : undefined,
+    approvedBy: data.approvedBy,
+    createdAt: new Date(data.createdAt),
+    version: data.version,
+  };
+}
+
+/**
+ * Busca de shift diretamente no shift-service via RabbitMQ (Request/Reply)
+ * 
+ * Usado como fallback quando o shift não está no cache.
+ * Nunca lança erro: indisponibilidade/timeout resultam em null.
+ */
+export class ShiftLookupService {
+  private readonly timeoutMs: number;
+
+  constructor(private requestReply: RabbitMQRequestReplyService = shiftRequestReply) {
+    this.timeoutMs = parseInt(process.env.SHIFT_LOOKUP_TIMEOUT || '3000');
+  }
+
+  async fetchShift(shiftId: string): Promise<Omit<CachedShift, 'cachedAt'> | null> {
+    if (!this.requestReply.getStats().isInitialized) {
+      return null;
+    }
+
+    try {
+      const request: Omit<ShiftLookupRequest, 'requestId' | 'timestamp' | 'replyTo'> = {
+        messageType: 'shift.lookup.request',
+        data: { shiftId },
+      };
+
+      const response = await this.requestReply.sendRequest<ShiftLookupRequest, ShiftLookupResponse>(
+        SHIFT_QUEUES.LOOKUP_REQUESTS,
+        request,
+        this.timeoutMs
+      );
+
+      if (!response.data?.shift) {
+        return null;
+      }
+
+      console.log(`🔎 Shift ${shiftId} obtido do shift-service (cache miss)`);
+      return toCachedShift(response.data.shift);
+    } catch (error) {
+      console.warn(`⚠️ Falha ao buscar shift ${shiftId} no shift-service:`, error);
+      return null;
+    }
+  }
+}
+
+export const shiftLookupService = new ShiftLookupService();
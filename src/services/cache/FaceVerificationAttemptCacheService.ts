@@ -0,0 +1,30 @@
+import { redisCache } from './RedisCache';
+
+/**
+ * Service para contar as tentativas de verificação facial de um ponto
+ * Chave por plantão + médico + tipo: tentativas anteriores (erro técnico, registro recusado)
+ * entram na contagem gravada no attendance
+ */
+export class FaceVerificationAttemptCacheService {
+  private readonly CACHE_PREFIX = 'face:attempts:';
+  private readonly CACHE_TTL =
+    parseInt(process.env.FACE_ATTEMPTS_TTL_HOURS || '24') * 60 * 60; // 24 horas
+
+  /**
+   * Gerar chave de cache
+   */
+  private getCacheKey(shiftId: string, doctorId: string, type: string): string {
+    return `${this.CACHE_PREFIX}${shiftId}:${doctorId}:${type}`;
+  }
+
+  /**
+   * Registrar uma tentativa e retornar o total (incluindo esta)
+   * Falha no cache não impede a verificação: conta apenas a tentativa atual
+   */
+  async registerAttempt(shiftId: string, doctorId: string, type: string): Promise<number> {
+    const key = this.getCacheKey(shiftId, doctorId, type);
+    // INCR atômico: tentativas concorrentes recebem contagens distintas
+    const attempts = await redisCache.incr(key, this.CACHE_TTL);
+    return attempts ?? 1;
+  }
+}
@@ -0,0 +1,132 @@
+import { redisCache } from './RedisCache';
+import type { HealthUnitData } from '../AttendanceGeolocationService';
+
+/**
+ * Cached HealthUnit Data Structure
+ * Mesmo formato usado pelo geofencing (HealthUnitData), incluindo polígonos
+ */
+export interface CachedHealthUnit extends HealthUnitData {
+  hospitalId: string;
+  createdAt: Date;
+  cachedAt: Date;
+}
+
+/**
+ * Service para cache de dados de HealthUnit
+ * Mantém dados recebidos via eventos RabbitMQ (healthunit.*)
+ */
+export class HealthUnitCacheService {
+  private readonly CACHE_PREFIX = 'healthunit:';
+
+  /**
+   * Gerar chave de cache
+   */
+  private getCacheKey(healthUnitId: string): string {
+    return `${this.CACHE_PREFIX}${healthUnitId}`;
+  }
+
+  /**
+   * Cachear dados de health unit
+   * Sem TTL: unidades mudam raramente e só são atualizadas via eventos
+   */
+  async cacheHealthUnit(healthUnit: Omit<CachedHealthUnit, 'cachedAt'>): Promise<void> {
+    try {
+      const cachedHealthUnit: CachedHealthUnit = {
+        ...healthUnit,
+        cachedAt: new Date(),
+      };
+
+      const key = this.getCacheKey(healthUnit.id);
+      const value = JSON.stringify(cachedHealthUnit);
+
+      await redisCache.set(key, value);
+      console.log(`💾 HealthUnit ${healthUnit.id} cacheada (${healthUnit.polygonAreas?.length ?? 0} áreas)`);
+    } catch (error) {
+      console.error('❌ Erro ao cachear health unit:', error);
+    }
+  }
+
+  /**
+   * Buscar health unit do cache
+   */
+  async getHealthUnitFromCache(healthUnitId: string): Promise<CachedHealthUnit | null> {
+    try {
+      const key = this.getCacheKey(healthUnitId);
+      const cachedData = await redisCache.get(key);
+
+      if (!cachedData) {
+        return null;
+      }
+
+      const healthUnit: CachedHealthUnit = JSON.parse(cachedData);
+
+      // Converter strings de data para Date objects
+      healthUnit.createdAt = new Date(healthUnit.createdAt);
+      healthUnit.cachedAt = new Date(healthUnit.cachedAt);
+
+      return healthUnit;
+    } catch (error) {
+      console.error(`❌ Erro ao buscar health unit ${healthUnitId} do cache:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Atualizar health unit no cache
+   */
+  async updateHealthUnitCache(
+    healthUnitId: string,
+    updates: Partial<Omit<CachedHealthUnit, 'id' | 'cachedAt'>>
+  ): Promise<void> {
+    try {
+      const existingHealthUnit = await this.getHealthUnitFromCache(healthUnitId);
+
+      if (!existingHealthUnit) {
+        console.warn(`⚠️ Tentativa de atualizar health unit ${healthUnitId} não encontrada no cache`);
+        return;
+      }
+
+      // Ignorar campos ausentes no evento para não sobrescrever com undefined
+      const definedUpdates = Object.fromEntries(
+        Object.entries(updates).filter(([, value]) => value !== undefined)
+      ) as Partial<CachedHealthUnit>;
+
+      const updatedHealthUnit: CachedHealthUnit = {
+        ...existingHealthUnit,
+        ...definedUpdates,
+        cachedAt: new Date(),
+      };
+
+      await this.cacheHealthUnit(updatedHealthUnit);
+      console.log(`🔄 HealthUnit ${healthUnitId} atualizada no cache`);
+    } catch (error) {
+      console.error(`❌ Erro ao atualizar health unit ${healthUnitId} no cache:`, error);
+    }
+  }
+
+  /**
+   * Remover health unit do cache
+   */
+  async removeHealthUnitFromCache(healthUnitId: string): Promise<void> {
+    try {
+      const key = this.getCacheKey(healthUnitId);
+      await redisCache.del(key);
+      console.log(`🗑️ HealthUnit ${healthUnitId} removida do cache`);
+    } catch (error) {
+      console.error(`❌ Erro ao remover health unit ${healthUnitId} do cache:`, error);
+    }
+  }
+
+  /**
+   * Verificar se health unit existe no cache
+   */
+  async isHealthUnitCached(healthUnitId: string): Promise<boolean> {
+    try {
+      const key = this.getCacheKey(healthUnitId);
+      return await redisCache.exists(key);
+    } catch (error) {
+      console.error(`❌ Erro ao verificar health unit ${healthUnitId} no cache:`, error);
+      return false;
+    }
+  }
+}
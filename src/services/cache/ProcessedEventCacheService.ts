@@ -0,0 +1,50 @@
+import { redisCache } from './RedisCache';
+
+/**
+ * Evento com versão mais antiga (ou igual) à já aplicada no cache
+ * Sem versão no cache (dados de snapshot/lookup sem versão): nunca é stale
+ */
+export function isStaleVersion(eventVersion: number | undefined, appliedVersion: number | undefined): boolean {
+  if (eventVersion === undefined || appliedVersion === undefined) return false;
+  return eventVersion <= appliedVersion;
+}
+
+/**
+ * Service para deduplicação de eventos externos (shift.*, user.*)
+ * Guarda o id dos eventos já aplicados (redelivery do RabbitMQ não reaplica)
+ */
+export class ProcessedEventCacheService {
+  private readonly CACHE_PREFIX = 'event:processed:';
+  private readonly CACHE_TTL =
+    parseInt(process.env.PROCESSED_EVENT_TTL_HOURS || '168') * 60 * 60; // 7 dias
+
+  /**
+   * Gerar chave de cache
+   */
+  private getCacheKey(eventId: string): string {
+    return `${this.CACHE_PREFIX}${eventId}`;
+  }
+
+  /**
+   * Verificar se o evento já foi aplicado
+   */
+  async isProcessed(eventId: string): Promise<boolean> {
+    try {
+      return await redisCache.exists(this.getCacheKey(eventId));
+    } catch (error) {
+      console.error(`❌ Erro ao verificar evento ${eventId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Registrar evento como aplicado
+   */
+  async markProcessed(eventId: string, eventType: string): Promise<void> {
+    try {
+      await redisCache.set(this.getCacheKey(eventId), eventType, this.CACHE_TTL);
+    } catch (error) {
+      console.error(`❌ Erro ao registrar evento ${eventId}:`, error);
+    }
+  }
+}
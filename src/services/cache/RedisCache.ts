@@ -1,68 +1,363 @@
+import { createClient, RedisClientType } from 'redis';
+
 /**
  * Redis Client para cache
- * 
- * TODO: Instalar dependência redis:
- * npm install redis @types/redis
+ *
+ * Drivers (CACHE_DRIVER):
+ * - redis (padrão): Redis real, compartilhado entre réplicas e persistente entre restarts
+ * - memory: Map em memória do processo (testes / desenvolvimento local)
+ *
+ * Variáveis: REDIS_HOST, REDIS_PORT, REDIS_USERNAME, REDIS_PASSWORD, REDIS_DB, REDIS_TLS,
+ * REDIS_CONNECT_TIMEOUT_MS, REDIS_RECONNECT_BASE_MS, REDIS_RECONNECT_MAX_MS
  */
 
-interface MockRedisClient {
-  connect(): Promise<void>;
+export type CacheDriver = 'redis' | 'memory';
+
+export type CacheConnectionState = 'disconnected' | 'connecting' | 'ready' | 'reconnecting';
+
+export interface CacheConnectionInfo {
+  driver: CacheDriver;
+  state: CacheConnectionState;
+  reconnectAttempts: number;
+  lastError?: string;
+}
+
+/**
+ * Operação de escrita executada de forma atômica em exec() (MULTI/EXEC no Redis)
+ */
+export type CacheOperation =
+  | { op: 'set'; key: string; value: string; ttlSeconds?: number }
+  | { op: 'del'; key: string }
+  | { op: 'sAdd'; key: string; member: string }
+  | { op: 'sRem'; key: string; member: string };
+
+/**
+ * Operações usadas pelos cache services (implementadas pelos dois drivers)
+ */
+interface CacheClient {
   get(key: string): Promise<string | null>;
-  set(key: string, value: string): Promise<string>;
-  setEx(key: string, ttl: number, value: string): Promise<string>;
-  del(key: string): Promise<number>;
-  exists(key: string): Promise<number>;
+  getDel(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  del(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  incr(key: string, ttlSeconds?: number): Promise<number>;
+  keys(pattern: string): Promise<string[]>;
+  sMembers(key: string): Promise<string[]>;
+  exec(operations: CacheOperation[]): Promise<void>;
   disconnect(): Promise<void>;
-  on(event: string, handler: (error: Error) => void): void;
+}
+
+/**
+ * Atraso até a próxima tentativa de reconexão (backoff exponencial com teto)
+ */
+export function reconnectDelay(
+  retries: number,
+  baseMs: number = 100,
+  maxMs: number = 30000
+): number {
+  return Math.min(maxMs, baseMs * Math.pow(2, retries));
+}
+
+/**
+ * Converte padrão glob do Redis (* e ?) em RegExp
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Driver em memória (CACHE_DRIVER=memory)
+ * Respeita TTL; cada processo tem seu próprio store
+ */
+class MemoryCacheClient implements CacheClient {
+  private store: Map<string, { value: string | Set<string>; expiresAt?: number }> = new Map();
+
+  private read(key: string): string | Set<string> | null {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return null;
+    }
+
+    return entry.value;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = this.read(key);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async getDel(key: string): Promise<string | null> {
+    const value = this.read(key);
+    if (typeof value !== 'string') return null;
+
+    this.store.delete(key);
+    return value;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.store.set(key, {
+      value,
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined,
+    });
+  }
+
+  async del(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.read(key) !== null;
+  }
+
+  /**
+   * Sem await entre leitura e escrita: incrementos concorrentes não se perdem
+   */
+  async incr(key: string, ttlSeconds?: number): Promise<number> {
+    const current = this.read(key);
+    const value = (typeof current === 'string' ? parseInt(current) || 0 : 0) + 1;
+
+    this.store.set(key, {
+      value: String(value),
+      // read() já removeu a entrada expirada: sem TTL novo, mantém o da chave existente
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : this.store.get(key)?.expiresAt,
+    });
+    return value;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const regex = globToRegExp(pattern);
+    return [...this.store.keys()].filter((key) => regex.test(key) && this.read(key) !== null);
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    const value = this.read(key);
+    return value instanceof Set ? [...value] : [];
+  }
+
+  /**
+   * Sem await entre as operações: nenhuma outra escrita intercala (atômico no event loop)
+   */
+  async exec(operations: CacheOperation[]): Promise<void> {
+    for (const operation of operations) {
+      switch (operation.op) {
+        case 'set':
+          this.store.set(operation.key, {
+            value: operation.value,
+            expiresAt: operation.ttlSeconds ? Date.now() + operation.ttlSeconds * 1000 : undefined,
+          });
+          break;
+        case 'del':
+          this.store.delete(operation.key);
+          break;
+        case 'sAdd': {
+          const current = this.read(operation.key);
+          const members = current instanceof Set ? current : new Set<string>();
+          members.add(operation.member);
+          this.store.set(operation.key, { value: members });
+          break;
+        }
+        case 'sRem': {
+          const current = this.read(operation.key);
+          if (current instanceof Set) {
+            current.delete(operation.member);
+            if (current.size === 0) this.store.delete(operation.key);
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    this.store.clear();
+  }
+}
+
+/**
+ * Driver Redis real (CACHE_DRIVER=redis)
+ */
+class RedisCacheClient implements CacheClient {
+  constructor(private client: RedisClientType) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.client.get(key);
+  }
+
+  async getDel(key: string): Promise<string | null> {
+    return this.client.getDel(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    if (ttlSeconds) {
+      await this.client.set(key, value, { EX: ttlSeconds });
+    } else {
+      await this.client.set(key, value);
+    }
+  }
+
+  async del(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return (await this.client.exists(key)) === 1;
+  }
+
+  /**
+   * INCR + EXPIRE na mesma transação (MULTI/EXEC)
+   */
+  async incr(key: string, ttlSeconds?: number): Promise<number> {
+    if (!ttlSeconds) return this.client.incr(key);
+
+    const [value] = await this.client.multi().incr(key).expire(key, ttlSeconds).exec();
+    return Number(value);
+  }
+
+  /**
+   * SCAN incremental (não bloqueia o Redis como KEYS)
+   */
+  async keys(pattern: string): Promise<string[]> {
+    const keys: string[] = [];
+    for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return this.client.sMembers(key);
+  }
+
+  async exec(operations: CacheOperation[]): Promise<void> {
+    const multi = this.client.multi();
+
+    for (const operation of operations) {
+      switch (operation.op) {
+        case 'set':
+          if (operation.ttlSeconds) {
+            multi.set(operation.key, operation.value, { EX: operation.ttlSeconds });
+          } else {
+            multi.set(operation.key, operation.value);
+          }
+          break;
+        case 'del':
+          multi.del(operation.key);
+          break;
+        case 'sAdd':
+          multi.sAdd(operation.key, operation.member);
+          break;
+        case 'sRem':
+          multi.sRem(operation.key, operation.member);
+          break;
+      }
+    }
+
+    await multi.exec();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.client.quit();
+  }
 }
 
 class RedisCache {
-  private client?: MockRedisClient;
-  private isConnected = false;
-  private mockCache: Map<string, string> = new Map(); // Mock temporário
+  private client?: CacheClient;
+  private driver: CacheDriver = 'redis';
+  private state: CacheConnectionState = 'disconnected';
+  private reconnectAttempts = 0;
+  private lastError?: string;
+
+  private get isConnected(): boolean {
+    return this.state === 'ready';
+  }
 
   async connect(): Promise<void> {
+    if (this.client) return;
+
+    this.driver = process.env.CACHE_DRIVER === 'memory' ? 'memory' : 'redis';
+
+    if (this.driver === 'memory') {
+      this.client = new MemoryCacheClient();
+      this.state = 'ready';
+      console.log('📦 Cache em memória (CACHE_DRIVER=memory)');
+      return;
+    }
+
     try {
       const redisHost = process.env.REDIS_HOST || 'localhost';
       const redisPort = parseInt(process.env.REDIS_PORT || '6379');
       const redisPassword = process.env.REDIS_PASSWORD;
+      const reconnectBaseMs = parseInt(process.env.REDIS_RECONNECT_BASE_MS || '100');
+      const reconnectMaxMs = parseInt(process.env.REDIS_RECONNECT_MAX_MS || '30000');
+      const connectTimeoutMs = parseInt(process.env.REDIS_CONNECT_TIMEOUT_MS || '5000');
 
-      // TODO: Descomentar quando instalar redis
-      // const { createClient } = await import('redis');
-      // this.client = createClient({
-      //   socket: { host: redisHost, port: redisPort },
-      //   password: redisPassword,
-      // });
-
-      // Mock temporário
-      this.client = {
-        connect: async () => console.log('📦 [MOCK] Redis conectado (usando Map)'),
-        get: async (key: string) => this.mockCache.get(key) || null,
-        set: async (key: string, value: string) => {
-          this.mockCache.set(key, value);
-          return 'OK';
-        },
-        setEx: async (key: string, ttl: number, value: string) => {
-          this.mockCache.set(key, value);
-          // Mock não implementa TTL real, mas aceita o parâmetro
-          return 'OK';
-        },
-        del: async (key: string) => {
-          this.mockCache.delete(key);
-          return 1;
+      const client = createClient({
+        socket: {
+          host: redisHost,
+          port: redisPort,
+          tls: process.env.REDIS_TLS === 'true',
+          connectTimeout: connectTimeoutMs,
+          reconnectStrategy: (retries: number) => {
+            this.reconnectAttempts = retries + 1;
+            return reconnectDelay(retries, reconnectBaseMs, reconnectMaxMs);
+          },
         },
-        exists: async (key: string) => {
-          return this.mockCache.has(key) ? 1 : 0;
-        },
-        disconnect: async () => console.log('📦 [MOCK] Redis desconectado'),
-        on: (_event: string, _handler: (error: Error) => void) => {
-          // Mock event handler - não faz nada
-        },
-      };
+        username: process.env.REDIS_USERNAME,
+        password: redisPassword,
+        database: parseInt(process.env.REDIS_DB || '0'),
+      }) as RedisClientType;
+
+      client.on('ready', () => {
+        if (this.reconnectAttempts > 0) {
+          console.log(`✅ Redis reconectado após ${this.reconnectAttempts} tentativa(s)`);
+        }
+        this.state = 'ready';
+        this.reconnectAttempts = 0;
+        this.lastError = undefined;
+      });
+      client.on('reconnecting', () => {
+        this.state = 'reconnecting';
+        console.warn(`⚠️ Redis reconectando (tentativa ${this.reconnectAttempts})...`);
+      });
+      client.on('error', (error: Error) => {
+        // Sem este listener o node-redis derruba o processo
+        this.lastError = error.message;
+        if (this.state === 'ready') this.state = 'reconnecting';
+      });
+      client.on('end', () => {
+        this.state = 'disconnected';
+      });
 
-      await this.client!.connect();
-      this.isConnected = true;
-      console.log('✅ Redis conectado com sucesso');
+      this.client = new RedisCacheClient(client);
+      this.state = 'connecting';
+
+      // Não bloqueia a inicialização: se o Redis não responder, o cliente segue reconectando
+      const connecting = client.connect();
+      connecting.catch((error: Error) => {
+        this.lastError = error.message;
+      });
+
+      await Promise.race([
+        connecting,
+        new Promise((resolve) => setTimeout(resolve, connectTimeoutMs).unref()),
+      ]);
+
+      if (this.isConnected) {
+        console.log(`✅ Redis conectado com sucesso (${redisHost}:${redisPort})`);
+      } else {
+        console.warn(`⚠️ Redis indisponível em ${redisHost}:${redisPort} - seguindo sem cache até reconectar`);
+      }
     } catch (error) {
       console.error('❌ Erro ao conectar Redis:', error);
       // Não é crítico, pode funcionar sem cache
@@ -73,11 +368,7 @@ class RedisCache {
     if (!this.isConnected || !this.client) return;
 
     try {
-      if (ttlSeconds) {
-        await this.client.setEx(key, ttlSeconds, value);
-      } else {
-        await this.client.set(key, value);
-      }
+      await this.client.set(key, value, ttlSeconds);
     } catch (error) {
       console.error(`❌ Erro ao salvar no Redis (${key}):`, error);
     }
@@ -94,6 +385,20 @@ class RedisCache {
     }
   }
 
+  /**
+   * Ler e remover a chave em uma única operação (GETDEL): só um chamador recebe o valor
+   */
+  async getDel(key: string): Promise<string | null> {
+    if (!this.isConnected || !this.client) return null;
+
+    try {
+      return await this.client.getDel(key);
+    } catch (error) {
+      console.error(`❌ Erro ao consumir chave do Redis (${key}):`, error);
+      return null;
+    }
+  }
+
   async del(key: string): Promise<void> {
     if (!this.isConnected || !this.client) return;
 
@@ -108,18 +413,79 @@ class RedisCache {
     if (!this.isConnected || !this.client) return false;
 
     try {
-      const result = await this.client.exists(key);
-      return result === 1;
+      return await this.client.exists(key);
     } catch (error) {
       console.error(`❌ Erro ao verificar existência no Redis (${key}):`, error);
       return false;
     }
   }
 
+  /**
+   * Incrementar contador de forma atômica (INCR), renovando o TTL quando informado
+   * Retorna null se o cache estiver indisponível
+   */
+  async incr(key: string, ttlSeconds?: number): Promise<number | null> {
+    if (!this.isConnected || !this.client) return null;
+
+    try {
+      return await this.client.incr(key, ttlSeconds);
+    } catch (error) {
+      console.error(`❌ Erro ao incrementar contador no Redis (${key}):`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Listar chaves por padrão (ex.: 'shift:*')
+   * Uso restrito a rotinas em lote (jobs), nunca no caminho de uma requisição
+   */
+  async keys(pattern: string): Promise<string[]> {
+    if (!this.isConnected || !this.client) return [];
+
+    try {
+      return await this.client.keys(pattern);
+    } catch (error) {
+      console.error(`❌ Erro ao listar chaves do Redis (${pattern}):`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Membros de um set (índices secundários)
+   */
+  async sMembers(key: string): Promise<string[]> {
+    if (!this.isConnected || !this.client) return [];
+
+    try {
+      return await this.client.sMembers(key);
+    } catch (error) {
+      console.error(`❌ Erro ao ler set do Redis (${key}):`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Executa várias escritas de forma atômica (valor + índices)
+   */
+  async exec(operations: CacheOperation[]): Promise<void> {
+    if (!this.isConnected || !this.client || operations.length === 0) return;
+
+    try {
+      await this.client.exec(operations);
+    } catch (error) {
+      console.error(`❌ Erro ao executar transação no Redis (${operations.length} operações):`, error);
+    }
+  }
+
   async close(): Promise<void> {
     if (this.client) {
-      await this.client.disconnect();
-      this.isConnected = false;
+      try {
+        await this.client.disconnect();
+      } catch (error) {
+        console.error('❌ Erro ao desconectar Redis:', error);
+      }
+      this.client = undefined;
+      this.state = 'disconnected';
       console.log('✅ Redis desconectado');
     }
   }
@@ -130,6 +496,18 @@ class RedisCache {
   public getConnectionStatus(): boolean {
     return this.isConnected;
   }
+
+  /**
+   * Estado detalhado da conexão (health checks)
+   */
+  public getConnectionInfo(): CacheConnectionInfo {
+    return {
+      driver: this.driver,
+      state: this.state,
+      reconnectAttempts: this.reconnectAttempts,
+      lastError: this.lastError,
+    };
+  }
 }
 
-export const redisCache = new RedisCache();
\ No newline at end of file
+export const redisCache = new RedisCache();
@@ -1,4 +1,5 @@
-import { redisCache } from './RedisCache';
+import { redisCache, CacheOperation } from './RedisCache';
+import { ShiftLookupService, shiftLookupService } from '../ShiftLookupService';
 
 /**
  * Cached Shift Data Structure
@@ -18,6 +19,7 @@ export interface CachedShift {
   approvedAt?: Date;
   approvedBy?: string;
   createdAt: Date;
+  version?: number; // Versão do agregado (último evento aplicado)
   cachedAt: Date;
 }
 
@@ -36,10 +38,24 @@ export interface CachedHospital {
 /**
  * Service para cache de dados de Shift
  * Mantém dados recebidos via eventos RabbitMQ
+ * 
+ * - Shifts não expiram antes do fim do plantão + SHIFT_CACHE_RETENTION_DAYS
+ * - Cache miss: busca no shift-service via Request/Reply e repopula o cache
+ * - Índices secundários (sets): hospital → shifts, hospital + dia (UTC do início) → shifts e
+ *   dia de início / dia de fim (UTC, todos os hospitais) → shifts, atualizados na mesma transação
+ *   que o próprio shift
  */
 export class ShiftCacheService {
   private readonly CACHE_PREFIX = 'shift:';
-  private readonly CACHE_TTL = 3600; // 1 hora
+  private readonly INDEX_PREFIX = 'idx:shift:hospital:';
+  private readonly START_DAY_INDEX_PREFIX = 'idx:shift:start:';
+  private readonly END_DAY_INDEX_PREFIX = 'idx:shift:end:';
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private readonly MIN_TTL = 3600; // 1 hora (shifts antigos obtidos por fallback)
+  private readonly RETENTION_MS =
+    parseInt(process.env.SHIFT_CACHE_RETENTION_DAYS || '35') * 24 * 60 * 60 * 1000;
+
+  constructor(private lookup: ShiftLookupService = shiftLookupService) {}
 
   /**
    * Gerar chave de cache
@@ -48,6 +64,89 @@ export class ShiftCacheService {
     return `${this.CACHE_PREFIX}${shiftId}`;
   }
 
+  /**
+   * TTL do shift: até o fim do plantão + retenção (conciliação, faltas, correções)
+   */
+  private getTtlSeconds(shift: Pick<CachedShift, 'endTime'>, now: Date = new Date()): number {
+    const expiresAt = new Date(shift.endTime).getTime() + this.RETENTION_MS;
+    return Math.max(this.MIN_TTL, Math.ceil((expiresAt - now.getTime()) / 1000));
+  }
+
+  /**
+   * Chave do índice hospital → shifts
+   */
+  private getHospitalIndexKey(hospitalId: string): string {
+    return `${this.INDEX_PREFIX}${hospitalId}`;
+  }
+
+  /**
+   * Chave do índice hospital + dia (YYYY-MM-DD, UTC) → shifts
+   */
+  private getHospitalDayIndexKey(hospitalId: string, day: Date): string {
+    return `${this.INDEX_PREFIX}${hospitalId}:${this.toDayKey(day)}`;
+  }
+
+  /**
+   * Dia (YYYY-MM-DD, UTC) usado nas chaves dos índices diários
+   */
+  private toDayKey(day: Date): string {
+    return new Date(day).toISOString().slice(0, 10);
+  }
+
+  /**
+   * Dias UTC (00:00) cobertos pelo intervalo, inclusive
+   */
+  private daysInRange(from: Date, to: Date): Date[] {
+    const days: Date[] = [];
+    const firstDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+
+    for (let day = firstDay; day <= to.getTime(); day += this.DAY_MS) {
+      days.push(new Date(day));
+    }
+
+    return days;
+  }
+
+  /**
+   * Índices em que o shift deve aparecer
+   */
+  private getIndexKeys(shift: Pick<CachedShift, 'hospitalId' | 'startTime' | 'endTime'>): string[] {
+    const keys = [
+      `${this.START_DAY_INDEX_PREFIX}${this.toDayKey(shift.startTime)}`,
+      `${this.END_DAY_INDEX_PREFIX}${this.toDayKey(shift.endTime)}`,
+    ];
+    if (!shift.hospitalId) return keys;
+    return [
+      this.getHospitalIndexKey(shift.hospitalId),
+      this.getHospitalDayIndexKey(shift.hospitalId, shift.startTime),
+      ...keys,
+    ];
+  }
+
+  /**
+   * Grava o shift e ajusta os índices numa única transação
+   * Remove dos índices antigos quando hospital ou dia de início mudaram
+   */
+  private async writeShift(cachedShift: CachedShift, previous: CachedShift | null): Promise<void> {
+    const newIndexKeys = this.getIndexKeys(cachedShift);
+    const staleIndexKeys = previous
+      ? this.getIndexKeys(previous).filter((key) => !newIndexKeys.includes(key))
+      : [];
+
+    const operations: CacheOperation[] = [
+      {
+        op: 'set',
+        key: this.getCacheKey(cachedShift.id),
+        value: JSON.stringify(cachedShift),
+        ttlSeconds: this.getTtlSeconds(cachedShift),
+      },
+      ...newIndexKeys.map((key): CacheOperation => ({ op: 'sAdd', key, member: cachedShift.id })),
+      ...staleIndexKeys.map((key): CacheOperation => ({ op: 'sRem', key, member: cachedShift.id })),
+    ];
+
+    await redisCache.exec(operations);
+  }
+
   /**
    * Cachear dados de shift
    */
@@ -58,10 +157,15 @@ export class ShiftCacheService {
         cachedAt: new Date(),
       };
 
-      const key = this.getCacheKey(shift.id);
-      const value = JSON.stringify(cachedShift);
+      const previous = await this.readCachedShift(shift.id);
 
-      await redisCache.set(key, value, this.CACHE_TTL);
+      // Nunca sobrescrever com dados mais antigos (snapshot/lookup atrasado)
+      if (previous?.version !== undefined && shift.version !== undefined && shift.version < previous.version) {
+        console.warn(`⚠️ Shift ${shift.id} v${shift.version} ignorado (cache já está na v${previous.version})`);
+        return;
+      }
+
+      await this.writeShift(cachedShift, previous);
       console.log(`💾 Shift ${shift.id} cacheado`);
     } catch (error) {
       console.error('❌ Erro ao cachear shift:', error);
@@ -70,8 +174,27 @@ export class ShiftCacheService {
 
   /**
    * Buscar shift do cache
+   * Em cache miss, busca no shift-service (Request/Reply) e repopula o cache
    */
   async getShiftFromCache(shiftId: string): Promise<CachedShift | null> {
+    const cached = await this.readCachedShift(shiftId);
+    if (cached) {
+      return cached;
+    }
+
+    const shift = await this.lookup.fetchShift(shiftId);
+    if (!shift) {
+      return null;
+    }
+
+    await this.cacheShift(shift);
+    return { ...shift, cachedAt: new Date() };
+  }
+
+  /**
+   * Ler shift apenas do cache (sem fallback)
+   */
+  private async readCachedShift(shiftId: string): Promise<CachedShift | null> {
     try {
       const key = this.getCacheKey(shiftId);
       const cachedData = await redisCache.get(key);
@@ -99,6 +222,14 @@ export class ShiftCacheService {
     }
   }
 
+  /**
+   * Versão do shift no cache (sem fallback para o shift-service)
+   */
+  async getCachedVersion(shiftId: string): Promise<number | undefined> {
+    const shift = await this.readCachedShift(shiftId);
+    return shift?.version;
+  }
+
   /**
    * Atualizar shift no cache
    */
@@ -120,7 +251,7 @@ export class ShiftCacheService {
         cachedAt: new Date(),
       };
 
-      await this.cacheShift(updatedShift);
+      await this.writeShift(updatedShift, existingShift);
       console.log(`🔄 Shift ${shiftId} atualizado no cache`);
     } catch (error) {
       console.error(`❌ Erro ao atualizar shift ${shiftId} no cache:`, error);
@@ -132,14 +263,34 @@ export class ShiftCacheService {
    */
   async removeShiftFromCache(shiftId: string): Promise<void> {
     try {
-      const key = this.getCacheKey(shiftId);
-      await redisCache.del(key);
+      const existingShift = await this.readCachedShift(shiftId);
+      const indexKeys = existingShift ? this.getIndexKeys(existingShift) : [];
+
+      await redisCache.exec([
+        { op: 'del', key: this.getCacheKey(shiftId) },
+        ...indexKeys.map((key): CacheOperation => ({ op: 'sRem', key, member: shiftId })),
+      ]);
       console.log(`🗑️ Shift ${shiftId} removido do cache`);
     } catch (error) {
       console.error(`❌ Erro ao remover shift ${shiftId} do cache:`, error);
     }
   }
 
+  /**
+   * Verificar se não há nenhum shift no cache (deploy novo ou Redis limpo)
+   */
+  async isCacheEmpty(): Promise<boolean> {
+    const keys = await redisCache.keys(`${this.CACHE_PREFIX}*`);
+    return keys.length === 0;
+  }
+
+  /**
+   * Início da janela de retenção: shifts que terminaram antes disso não precisam estar no cache
+   */
+  getRetentionCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - this.RETENTION_MS);
+  }
+
   /**
    * Verificar se shift existe no cache
    */
@@ -168,6 +319,31 @@ export class ShiftCacheService {
     await this.removeShiftFromCache(shiftId);
   }
 
+  /**
+   * Buscar shifts do cache por filtros (varre as chaves 'shift:*')
+   * Usado por consultas sem hospital nem período (sem índice secundário)
+   */
+  async findShifts(filters: {
+    hospitalId?: string;
+    doctorId?: string;
+    startFrom?: Date;
+    startTo?: Date;
+  } = {}): Promise<CachedShift[]> {
+    const keys = await redisCache.keys(`${this.CACHE_PREFIX}*`);
+    const shiftIds = keys.map((key) => key.slice(this.CACHE_PREFIX.length));
+    // Apenas o que está no cache (sem fallback para o shift-service)
+    const shifts = await Promise.all(shiftIds.map((id) => this.readCachedShift(id)));
+
+    return shifts.filter((shift): shift is CachedShift => {
+      if (!shift) return false;
+      if (filters.hospitalId && shift.hospitalId !== filters.hospitalId) return false;
+      if (filters.doctorId && shift.doctorId !== filters.doctorId) return false;
+      if (filters.startFrom && shift.startTime < filters.startFrom) return false;
+      if (filters.startTo && shift.startTime > filters.startTo) return false;
+      return true;
+    });
+  }
+
   /**
    * Buscar hospital do cache (dados embedados no shift)
    * TODO: Implementar cache separado de Hospital quando disponível
@@ -180,13 +356,66 @@ export class ShiftCacheService {
   }
 
   /**
-   * Buscar shifts por hospital
-   * TODO: Implementar índice secundário quando necessário
+   * Ler os shifts de um índice
+   * IDs cujo shift já expirou são removidos do set (limpeza preguiçosa)
+   */
+  private async readIndex(indexKey: string): Promise<CachedShift[]> {
+    const shiftIds = await redisCache.sMembers(indexKey);
+    const shifts = await Promise.all(shiftIds.map((id) => this.readCachedShift(id)));
+
+    const staleIds = shiftIds.filter((_, index) => !shifts[index]);
+    if (staleIds.length > 0) {
+      await redisCache.exec(
+        staleIds.map((id): CacheOperation => ({ op: 'sRem', key: indexKey, member: id }))
+      );
+    }
+
+    return shifts.filter((shift): shift is CachedShift => shift !== null);
+  }
+
+  /**
+   * Buscar shifts por hospital (índice hospital → shifts)
    */
   async getShiftsByHospital(hospitalId: string): Promise<CachedShift[]> {
-    // Por enquanto, método stub
-    // Futuramente, implementar com índice secundário no Redis
-    console.warn('[ShiftCacheService] getShiftsByHospital not fully implemented yet');
-    return [];
+    return this.readIndex(this.getHospitalIndexKey(hospitalId));
   }
-}
\ No newline at end of file
+
+  /**
+   * Buscar shifts do hospital com início entre startFrom e startTo (índices diários)
+   */
+  async getShiftsByHospitalInRange(
+    hospitalId: string,
+    startFrom: Date,
+    startTo: Date
+  ): Promise<CachedShift[]> {
+    const indexKeys = this.daysInRange(startFrom, startTo).map((day) =>
+      this.getHospitalDayIndexKey(hospitalId, day)
+    );
+
+    const shifts = (await Promise.all(indexKeys.map((key) => this.readIndex(key)))).flat();
+
+    return shifts.filter((shift) => shift.startTime >= startFrom && shift.startTime <= startTo);
+  }
+
+  /**
+   * Buscar shifts (todos os hospitais) que começaram ou terminaram entre from e to
+   * Lê só os índices diários de início e de fim do intervalo
+   */
+  async getShiftsStartedOrEndedInRange(from: Date, to: Date): Promise<CachedShift[]> {
+    const days = this.daysInRange(from, to).map((day) => this.toDayKey(day));
+    const indexKeys = [
+      ...days.map((day) => `${this.START_DAY_INDEX_PREFIX}${day}`),
+      ...days.map((day) => `${this.END_DAY_INDEX_PREFIX}${day}`),
+    ];
+
+    const byId = new Map<string, CachedShift>();
+    for (const shift of (await Promise.all(indexKeys.map((key) => this.readIndex(key)))).flat()) {
+      byId.set(shift.id, shift);
+    }
+
+    const inRange = (date: Date) => date >= from && date <= to;
+    return Array.from(byId.values()).filter(
+      (shift) => inRange(shift.startTime) || inRange(shift.endTime)
+    );
+  }
+}
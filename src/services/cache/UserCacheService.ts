@@ -1,4 +1,4 @@
-import { redisCache } from './RedisCache';
+import { redisCache, CacheOperation } from './RedisCache';
 
 /**
  * Cached User Data Structure
@@ -12,15 +12,19 @@ export interface CachedUser {
   role: 'client_hospital_worker' | 'client_hospital' | 'client_medic' | 'collaborator' | 'admin_master' | 'admin_mini' | 'admin_read';
   use2FA: boolean;
   createdAt: Date;
+  version?: number; // Versão do agregado (último evento aplicado)
   cachedAt: Date;
 }
 
 /**
  * Service para cache de dados de User
  * Mantém dados recebidos via eventos RabbitMQ
+ *
+ * Índice secundário (set): username → user ID, atualizado na mesma transação que o user
  */
 export class UserCacheService {
   private readonly CACHE_PREFIX = 'user:';
+  private readonly USERNAME_INDEX_PREFIX = 'idx:user:username:';
   private readonly CACHE_TTL = 3600; // 1 hora
 
   /**
@@ -30,6 +34,49 @@ export class UserCacheService {
     return `${this.CACHE_PREFIX}${userId}`;
   }
 
+  /**
+   * Chave do índice username → user ID
+   */
+  private getUsernameIndexKey(username: string): string {
+    return `${this.USERNAME_INDEX_PREFIX}${username}`;
+  }
+
+  /**
+   * Grava o user e ajusta o índice de username numa única transação
+   * Remove do índice antigo quando o username mudou
+   */
+  private async writeUser(cachedUser: CachedUser, previous: CachedUser | null): Promise<void> {
+    const operations: CacheOperation[] = [
+      {
+        op: 'set',
+        key: this.getCacheKey(cachedUser.id),
+        value: JSON.stringify(cachedUser),
+        ttlSeconds: this.CACHE_TTL,
+      },
+    ];
+
+    if (cachedUser.username) {
+      operations.push({
+        op: 'sAdd',
+        key: this.getUsernameIndexKey(cachedUser.username),
+        member: cachedUser.id,
+      });
+    }
+
+    if (
+      previous?.username &&
+      previous.username !== cachedUser.username
+    ) {
+      operations.push({
+        op: 'sRem',
+        key: this.getUsernameIndexKey(previous.username),
+        member: cachedUser.id,
+      });
+    }
+
+    await redisCache.exec(operations);
+  }
+
   /**
    * Cachear dados de user
    */
@@ -40,10 +87,15 @@ export class UserCacheService {
         cachedAt: new Date(),
       };
 
-      const key = this.getCacheKey(user.id);
-      const value = JSON.stringify(cachedUser);
+      const previous = await this.getUserFromCache(user.id);
 
-      await redisCache.set(key, value, this.CACHE_TTL);
+      // Nunca sobrescrever com dados mais antigos (snapshot atrasado)
+      if (previous?.version !== undefined && user.version !== undefined && user.version < previous.version) {
+        console.warn(`⚠️ User ${user.id} v${user.version} ignorado (cache já está na v${previous.version})`);
+        return;
+      }
+
+      await this.writeUser(cachedUser, previous);
       console.log(`💾 User ${user.id} (${user.username}) cacheado`);
     } catch (error) {
       console.error('❌ Erro ao cachear user:', error);
@@ -75,6 +127,14 @@ export class UserCacheService {
     }
   }
 
+  /**
+   * Versão do user no cache
+   */
+  async getCachedVersion(userId: string): Promise<number | undefined> {
+    const user = await this.getUserFromCache(userId);
+    return user?.version;
+  }
+
   /**
    * Atualizar user no cache
    */
@@ -96,7 +156,7 @@ export class UserCacheService {
         cachedAt: new Date(),
       };
 
-      await this.cacheUser(updatedUser);
+      await this.writeUser(updatedUser, existingUser);
       console.log(`🔄 User ${userId} atualizado no cache`);
     } catch (error) {
       console.error(`❌ Erro ao atualizar user ${userId} no cache:`, error);
@@ -108,14 +168,32 @@ export class UserCacheService {
    */
   async removeUserFromCache(userId: string): Promise<void> {
     try {
-      const key = this.getCacheKey(userId);
-      await redisCache.del(key);
+      const existingUser = await this.getUserFromCache(userId);
+      const operations: CacheOperation[] = [{ op: 'del', key: this.getCacheKey(userId) }];
+
+      if (existingUser?.username) {
+        operations.push({
+          op: 'sRem',
+          key: this.getUsernameIndexKey(existingUser.username),
+          member: userId,
+        });
+      }
+
+      await redisCache.exec(operations);
       console.log(`🗑️ User ${userId} removido do cache`);
     } catch (error) {
       console.error(`❌ Erro ao remover user ${userId} do cache:`, error);
     }
   }
 
+  /**
+   * Verificar se não há nenhum user no cache (deploy novo ou Redis limpo)
+   */
+  async isCacheEmpty(): Promise<boolean> {
+    const keys = await redisCache.keys(`${this.CACHE_PREFIX}*`);
+    return keys.length === 0;
+  }
+
   /**
    * Verificar se user existe no cache
    */
@@ -138,12 +216,22 @@ export class UserCacheService {
   }
 
   /**
-   * Buscar user por username (menos eficiente, usar com parcimônia)
+   * Buscar user por username (índice username → user ID)
+   * IDs cujo user já expirou ou mudou de username são removidos do set
    */
   async getUserByUsernameFromCache(username: string): Promise<CachedUser | null> {
-    // Implementação simplificada - em produção considerar índice separado
-    console.warn('⚠️ Busca por username no cache é ineficiente');
-    return null;
+    const indexKey = this.getUsernameIndexKey(username);
+    const userIds = await redisCache.sMembers(indexKey);
+    const users = await this.getMultipleUsersFromCache(userIds);
+
+    const staleIds = userIds.filter((_, index) => users[index]?.username !== username);
+    if (staleIds.length > 0) {
+      await redisCache.exec(
+        staleIds.map((id): CacheOperation => ({ op: 'sRem', key: indexKey, member: id }))
+      );
+    }
+
+    return users.find((user): user is CachedUser => user?.username === username) ?? null;
   }
 
   /**
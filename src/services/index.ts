@@ -14,7 +14,24 @@ export * from './AttendanceGeolocationService';
 export * from './AttendanceDiscountService';
 export * from './AttendancePhotoService';
 export * from './AttendancePolicyService';
+export * from './AttendanceHistoryService';
+export * from './AttendanceNoShowService';
+export * from './EventOutboxService';
+export * from './ShiftLookupService';
+export * from './CacheResyncService';
+export * from './DeadLetterService';
+export * from './FaceEnrollmentService';
+export * from './LivenessChallengeService';
 
 // Cache Services
 export * from './cache/ShiftCacheService';
-export * from './cache/UserCacheService';
\ No newline at end of file
+export * from './cache/UserCacheService';
+export * from './cache/HealthUnitCacheService';
+export * from './cache/ProcessedEventCacheService';
+export * from './cache/FaceVerificationAttemptCacheService';
+
+// Storage de fotos
+export * from './storage/PhotoStorage';
+export * from './storage/PhotoUrlSigner';
+export * from './storage/LocalPhotoStorage';
+export * from './storage/S3PhotoStorage';
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { PhotoStorage, StoredPhoto } from './PhotoStorage';
+import { isValidPhotoKey } from './photoKey';
+import { PhotoSignatureCheck, signPhotoKey, verifyPhotoSignature } from './PhotoUrlSigner';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+};
+
+/**
+ * Driver de storage em diretório local (PHOTO_STORAGE_DRIVER=fs)
+ *
+ * Variáveis: PHOTO_STORAGE_DIR (padrão ./storage/photos), PHOTO_URL_SIGNING_SECRET,
+ * PHOTO_PUBLIC_BASE_URL (prefixo das URLs, padrão relativo: /v2/photos/...)
+ */
+export class LocalPhotoStorage implements PhotoStorage {
+  readonly driver = 'fs' as const;
+  private readonly rootDir: string;
+  private readonly secret: string;
+  private readonly baseUrl: string;
+
+  constructor() {
+    this.rootDir = path.resolve(process.env.PHOTO_STORAGE_DIR || './storage/photos');
+    this.baseUrl = (process.env.PHOTO_PUBLIC_BASE_URL || '').replace(/\/$/, '');
+
+    const secret = process.env.PHOTO_URL_SIGNING_SECRET;
+    if (!secret) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('PHOTO_URL_SIGNING_SECRET não configurado');
+      }
+      console.warn('⚠️ PHOTO_URL_SIGNING_SECRET não configurado, usando segredo de desenvolvimento');
+    }
+    this.secret = secret || 'dev-photo-url-secret';
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+    console.log(`📸 [PHOTO] Foto salva em disco: ${key} (${contentType}, ${body.length} bytes)`);
+  }
+
+  async get(key: string): Promise<StoredPhoto | null> {
+    try {
+      const body = await fs.readFile(this.resolvePath(key));
+      return { body, contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream' };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+    const signature = signPhotoKey(key, expires, this.secret);
+    return `${this.baseUrl}/v2/photos/${encodeURIComponent(key)}?expires=${expires}&signature=${signature}`;
+  }
+
+  verifySignature(key: string, expires: number, signature: string): PhotoSignatureCheck {
+    return verifyPhotoSignature(key, expires, signature, this.secret);
+  }
+
+  /**
+   * Caminho absoluto da key, sempre dentro do diretório raiz
+   */
+  private resolvePath(key: string): string {
+    if (!isValidPhotoKey(key)) {
+      throw new Error(`Key de foto inválida: ${key}`);
+    }
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+}
@@ -0,0 +1,39 @@
+import { LocalPhotoStorage } from './LocalPhotoStorage';
+import { S3PhotoStorage } from './S3PhotoStorage';
+
+export { isValidPhotoKey } from './photoKey';
+
+/**
+ * Storage de fotos de attendance
+ *
+ * Drivers (PHOTO_STORAGE_DRIVER):
+ * - s3 (padrão): bucket S3 ou compatível (MinIO com S3_ENDPOINT), URLs pré-assinadas pelo próprio S3
+ * - fs: diretório local (PHOTO_STORAGE_DIR), URLs assinadas com HMAC servidas em GET /v2/photos/:key
+ *
+ * Validade das URLs: PHOTO_URL_TTL_SECONDS (padrão 3600)
+ */
+
+export type PhotoStorageDriver = 's3' | 'fs';
+
+export interface StoredPhoto {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface PhotoStorage {
+  readonly driver: PhotoStorageDriver;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredPhoto | null>;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+export function getPhotoStorageDriver(): PhotoStorageDriver {
+  return process.env.PHOTO_STORAGE_DRIVER === 'fs' ? 'fs' : 's3';
+}
+
+export function createPhotoStorage(driver: PhotoStorageDriver = getPhotoStorageDriver()): PhotoStorage {
+  return driver === 'fs' ? new LocalPhotoStorage() : new S3PhotoStorage();
+}
+
+// Instância singleton
+export const photoStorage = createPhotoStorage();
@@ -0,0 +1,32 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Assinatura HMAC-SHA256 das URLs de foto servidas pelo próprio serviço (driver fs)
+ *
+ * A assinatura cobre a key e o instante de expiração (epoch em segundos),
+ * então nenhum dos dois pode ser alterado sem invalidar a URL.
+ */
+export function signPhotoKey(key: string, expiresAt: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${key}\n${expiresAt}`).digest('hex');
+}
+
+export type PhotoSignatureCheck = 'valid' | 'invalid' | 'expired';
+
+export function verifyPhotoSignature(
+  key: string,
+  expiresAt: number,
+  signature: string,
+  secret: string,
+  now: Date = new Date()
+): PhotoSignatureCheck {
+  if (!Number.isInteger(expiresAt) || !/^[0-9a-f]{64}$/.test(signature)) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(signPhotoKey(key, expiresAt, secret), 'hex');
+  if (!timingSafeEqual(expected, Buffer.from(signature, 'hex'))) {
+    return 'invalid';
+  }
+
+  return expiresAt * 1000 < now.getTime() ? 'expired' : 'valid';
+}
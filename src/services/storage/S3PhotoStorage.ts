@@ -0,0 +1,68 @@
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import type { PhotoStorage, StoredPhoto } from './PhotoStorage';
+
+/**
+ * Driver S3 / compatível (PHOTO_STORAGE_DRIVER=s3)
+ *
+ * Variáveis: S3_BUCKET, S3_REGION, S3_ENDPOINT (MinIO/local), S3_ACCESS_KEY_ID,
+ * S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE (padrão true quando há S3_ENDPOINT)
+ */
+export class S3PhotoStorage implements PhotoStorage {
+  readonly driver = 's3' as const;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+
+  constructor() {
+    this.bucket = process.env.S3_BUCKET || 'attendance-photos';
+    const endpoint = process.env.S3_ENDPOINT;
+
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(endpoint),
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined, // Cadeia padrão da AWS (IAM role, env AWS_*)
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+    console.log(`📸 [PHOTO] Foto enviada para s3://${this.bucket}/${key} (${body.length} bytes)`);
+  }
+
+  async get(key: string): Promise<StoredPhoto | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!response.Body) return null;
+
+      return {
+        body: Buffer.from(await response.Body.transformToByteArray()),
+        contentType: response.ContentType || 'application/octet-stream',
+      };
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NoSuchKey') return null;
+      throw error;
+    }
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(this.client, new GetObjectCommand({ Bucket: this.bucket, Key: key }), {
+      expiresIn: expiresInSeconds,
+    });
+  }
+}
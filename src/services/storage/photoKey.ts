@@ -0,0 +1,6 @@
+/**
+ * Keys geradas pelo serviço: segmentos [A-Za-z0-9_.-] separados por "/", sem ".."
+ */
+export function isValidPhotoKey(key: string): boolean {
+  return /^[A-Za-z0-9_.-]+(\/[A-Za-z0-9_.-]+)*$/.test(key) && !key.split('/').some((segment) => segment === '..' || segment === '.');
+}
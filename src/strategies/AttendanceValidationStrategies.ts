@@ -1,4 +1,8 @@
 import { AttendanceStatus, Attendance } from "../entities/Attendance";
+import type {
+  CoordinateValidationResult,
+  GeofenceValidationResult,
+} from "../services/AttendanceGeolocationService";
 
 /**
  * Interface base para estratégias de validação de attendance
@@ -28,6 +32,7 @@ export interface ValidationContext {
     hospitalId: string;
     doctorId?: string;
     healthUnitId?: string;
+    specialty?: string;
   };
 
   // Políticas
@@ -39,6 +44,10 @@ export interface ValidationContext {
     excludedMedicIds?: string[];
   };
 
+  // Resultados pré-calculados pelo facade (AttendanceGeolocationService)
+  coordinateValidation?: CoordinateValidationResult;
+  geofence?: GeofenceValidationResult;
+
   // Outros
   existingInPunch?: Attendance;
 }
@@ -56,15 +65,48 @@ export interface ValidationResult {
 }
 
 /**
- * Estratégia de validação de coordenadas GPS
+ * Estratégia de validação de coordenadas GPS (antifraude)
  */
 export class CoordinateValidationStrategy implements IAttendanceValidationStrategy {
   async validate(context: ValidationContext): Promise<ValidationResult> {
-    // Implementação será feita no facade que chama o AttendanceGeolocationService
+    const validation = context.coordinateValidation;
+
+    // Sem análise de coordenadas no contexto: não opina
+    if (!validation) {
+      return {
+        isValid: true,
+        status: "PENDING",
+        autoApprove: false,
+      };
+    }
+
+    let suspicionReason: string | undefined;
+    if (!validation.isValid && validation.severity === "warning") {
+      suspicionReason = validation.reason;
+    }
+    if (validation.trustScore < 50) {
+      suspicionReason =
+        suspicionReason ||
+        `Score de confiança baixo (${validation.trustScore}/100): ${validation.flags.join(", ")}`;
+    }
+
+    if (suspicionReason) {
+      console.warn(`⚠️ [ANTIFRAUDE] Coordenadas suspeitas: ${suspicionReason}`);
+      return {
+        isValid: false,
+        status: "PENDING",
+        autoApprove: false,
+        reason: suspicionReason,
+        metadata: { trustScore: validation.trustScore },
+      };
+    }
+
     return {
       isValid: true,
       status: "PENDING",
       autoApprove: false,
+      warnings: validation.flags,
+      metadata: { trustScore: validation.trustScore },
     };
   }
 }
@@ -74,7 +116,7 @@ export class CoordinateValidationStrategy implements IAttendanceValidationStrate
  */
 export class GeofenceValidationStrategy implements IAttendanceValidationStrategy {
   async validate(context: ValidationContext): Promise<ValidationResult> {
-    const { coordinates, shift, policy } = context;
+    const { policy, geofence } = context;
 
     // Se médico está na lista de exclusão, aprovar automaticamente
     if (policy.excludedMedicIds?.includes(context.doctorId)) {
@@ -87,12 +129,36 @@ export class GeofenceValidationStrategy implements IAttendanceValidationStrategy
       };
     }
 
-    // Verificação simplificada - na versão real usaria geolocation service
+    // Sem resultado de geofence no contexto: não aprova automaticamente
+    if (!geofence) {
+      return {
+        isValid: true,
+        status: "PENDING",
+        autoApprove: false,
+        warnings: ["Área geográfica não avaliada"],
+      };
+    }
+
+    if (geofence.withinAllowedArea) {
+      console.log("✅ [GEOFENCE] Dentro da área permitida");
+      return {
+        isValid: true,
+        status: "APPROVED",
+        autoApprove: true,
+        reason: geofence.reason,
+      };
+    }
+
+    console.log("⏳ [GEOFENCE] Fora da área permitida");
     return {
-      isValid: true,
+      isValid: false,
       status: "PENDING",
       autoApprove: false,
-      reason: "Validação de área será feita pelo facade",
+      reason: geofence.reason,
+      metadata:
+        geofence.distanceToNearestArea !== undefined
+          ? { distanceToNearestArea: geofence.distanceToNearestArea }
+          : undefined,
     };
   }
 }
@@ -104,8 +170,8 @@ export class TimeWindowValidationStrategy implements IAttendanceValidationStrate
   async validate(context: ValidationContext): Promise<ValidationResult> {
     const { type, timestamp, shift, policy } = context;
 
-    if (type !== "OUT") {
-      // IN sempre passa nessa validação
+    if (type !== "OUT" || !policy.useTimeWindow) {
+      // IN (ou política sem janela) sempre passa nessa validação
       return {
         isValid: true,
         status: "PENDING",
@@ -121,7 +187,9 @@ export class TimeWindowValidationStrategy implements IAttendanceValidationStrate
     const isWithinWindow = Math.abs(now.getTime() - shiftEnd.getTime()) <= windowMs;
 
     if (!isWithinWindow) {
-      console.log("⏰ [TIME WINDOW] Check-out fora da janela de 4h");
+      console.log(
+        `⏰ [TIME WINDOW] Check-out fora da janela de ${Math.round(windowMs / 60000)} min`
+      );
       return {
         isValid: false,
         status: "PENDING",
@@ -191,11 +259,11 @@ export class CompositeValidationStrategy implements IAttendanceValidationStrateg
       }
     }
 
-    // Agregar resultados
+    // Agregar resultados (se alguma falhou, só os motivos das que falharam)
     const allValid = results.every((r) => r.isValid);
     const anyAutoApprove = results.some((r) => r.autoApprove);
     const reasons = results
-      .filter((r) => r.reason)
+      .filter((r) => r.reason && (allValid || !r.isValid))
       .map((r) => r.reason!)
       .join("; ");
 
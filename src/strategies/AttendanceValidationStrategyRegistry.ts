@@ -0,0 +1,81 @@
+import {
+  CompositeValidationStrategy,
+  CoordinateValidationStrategy,
+  GeofenceValidationStrategy,
+  IAttendanceValidationStrategy,
+  PreviousInValidationStrategy,
+  TimeWindowValidationStrategy,
+} from "./AttendanceValidationStrategies";
+
+/**
+ * Pipeline padrão (política sem validationStrategies)
+ * Ordem equivalente à cascata original do facade
+ */
+export const DEFAULT_VALIDATION_PIPELINE = ["timeWindow", "coordinates", "geofence"];
+
+/**
+ * Registro de estratégias de validação por nome
+ *
+ * Novas regras são registradas aqui; cada hospital escolhe quais usar
+ * via `validationStrategies` da política de attendance.
+ */
+export class AttendanceValidationStrategyRegistry {
+  private strategies = new Map<string, IAttendanceValidationStrategy>();
+
+  /**
+   * Registra (ou substitui) uma estratégia
+   */
+  register(name: string, strategy: IAttendanceValidationStrategy): this {
+    this.strategies.set(name, strategy);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.strategies.has(name);
+  }
+
+  /**
+   * Nomes registrados (para validação de políticas e documentação)
+   */
+  names(): string[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Nomes desconhecidos em uma lista (vazia = todos registrados)
+   */
+  findUnknown(names: string[]): string[] {
+    return names.filter((name) => !this.strategies.has(name));
+  }
+
+  /**
+   * Monta o pipeline de um hospital
+   * null/undefined → pipeline padrão. Lista vazia ou com nome não registrado (ex.: estratégia
+   * removida depois de gravada na política) também cai no pipeline padrão: um pipeline vazio
+   * ou incompleto deixaria todo ponto em revisão manual ou sem a checagem configurada.
+   */
+  buildPipeline(names?: string[] | null): CompositeValidationStrategy {
+    let selected = names ?? DEFAULT_VALIDATION_PIPELINE;
+
+    const unknown = this.findUnknown(selected);
+    if (selected.length === 0 || unknown.length > 0) {
+      console.warn(
+        `⚠️ [STRATEGIES] Pipeline inválido (${unknown.length > 0 ? `não registradas: ${unknown.join(", ")}` : "vazio"}) - usando o pipeline padrão`
+      );
+      selected = DEFAULT_VALIDATION_PIPELINE;
+    }
+
+    const pipeline = selected.flatMap((name) => this.strategies.get(name) ?? []);
+
+    return new CompositeValidationStrategy(pipeline);
+  }
+}
+
+/**
+ * Registro compartilhado com as estratégias nativas
+ */
+export const validationStrategyRegistry = new AttendanceValidationStrategyRegistry()
+  .register("coordinates", new CoordinateValidationStrategy())
+  .register("geofence", new GeofenceValidationStrategy())
+  .register("timeWindow", new TimeWindowValidationStrategy())
+  .register("previousIn", new PreviousInValidationStrategy());
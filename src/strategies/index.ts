@@ -1 +1,2 @@
-export * from './AttendanceValidationStrategies';
\ No newline at end of file
+export * from './AttendanceValidationStrategies';
+export * from './AttendanceValidationStrategyRegistry';
\ No newline at end of file
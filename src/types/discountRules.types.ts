@@ -0,0 +1,63 @@
+/**
+ * Tipos das regras de desconto por atraso (configuradas na política de attendance)
+ */
+
+/**
+ * Tipo de ponto ao qual a regra se aplica
+ * - IN: check-in atrasado
+ * - OUT: check-out antecipado
+ * - ANY: ambos
+ */
+export type DiscountRuleAppliesTo = "IN" | "OUT" | "ANY";
+
+/**
+ * Forma de cálculo
+ * - TIERED: faixas fixas de minutos (ex.: 16–30 min → 5%)
+ * - INCREMENTAL: valor por bloco de minutos (ex.: 1% a cada 15 min)
+ */
+export type DiscountRuleMode = "TIERED" | "INCREMENTAL";
+
+/**
+ * Unidade do desconto
+ * - PERCENTAGE: percentual sobre o valor do plantão
+ * - FLAT: valor fixo em reais
+ */
+export type DiscountValueKind = "PERCENTAGE" | "FLAT";
+
+/**
+ * Faixa de atraso (limites inclusivos, em minutos)
+ */
+export interface DiscountTier {
+  fromMinutes: number;
+  toMinutes?: number | null; // null/omitido = sem limite superior
+  value: number; // Na unidade da regra (percentual ou reais)
+}
+
+/**
+ * Regra de desconto
+ */
+export interface DiscountRule {
+  id: string; // Identificador legível (ex.: "late-in-uti")
+  appliesTo: DiscountRuleAppliesTo;
+  specialty?: string | null; // null/omitido = todas as especialidades
+  mode: DiscountRuleMode;
+  kind: DiscountValueKind;
+  tiers?: DiscountTier[]; // mode = TIERED
+  graceMinutes?: number; // mode = INCREMENTAL: tolerância sem desconto
+  incrementMinutes?: number; // mode = INCREMENTAL: tamanho do bloco
+  incrementValue?: number; // mode = INCREMENTAL: valor por bloco
+  maxValue?: number; // Teto na unidade da regra
+}
+
+/**
+ * Regra que casou com o ponto (registrada no resultado do cálculo)
+ */
+export interface MatchedDiscountRule {
+  ruleId: string;
+  appliesTo: DiscountRuleAppliesTo;
+  specialty: string | null;
+  mode: DiscountRuleMode;
+  kind: DiscountValueKind;
+  tierIndex: number | null; // Faixa aplicada (apenas TIERED)
+  isDefault: boolean; // true = regra padrão global (política sem regras)
+}
@@ -143,6 +143,41 @@ export interface FaceDeleteResponse extends BaseResponse {
   };
 }
 
+// ============================================================================
+// FACE LIVENESS MESSAGES (Prova de vida / anti-spoofing)
+// ============================================================================
+
+/**
+ * Gesto pedido no desafio de prova de vida
+ */
+export type LivenessGesture = 'BLINK' | 'TURN_HEAD_LEFT' | 'TURN_HEAD_RIGHT';
+
+export interface FaceLivenessRequest extends BaseRequest {
+  messageType: 'face.liveness.request';
+  data: {
+    userId: string;
+    challengeNonce: string; // Nonce do desafio (POST /attendances/challenge)
+    gesture: LivenessGesture; // Gesto que deve aparecer na sequência
+    frames: string[]; // Sequência de imagens em base64 (data URI), na ordem de captura
+    referenceFrameIndex: number; // Frame usado na verificação facial (a foto do ponto)
+  };
+}
+
+export interface FaceLivenessResponse extends BaseResponse {
+  messageType: 'face.liveness.response';
+  data: {
+    userId: string;
+    live: boolean; // Pessoa presente (não é foto impressa / tela / vídeo reproduzido)
+    gestureDetected: boolean; // O gesto pedido foi executado na sequência
+    sameIdentity: boolean; // Todos os frames mostram a mesma pessoa do frame de referência
+    confidence: number;
+    metadata?: {
+      detectionTime?: number; // Tempo de processamento (ms)
+      spoofType?: string; // Ex.: print, screen, replay
+    };
+  };
+}
+
 // ============================================================================
 // UNION TYPES
 // ============================================================================
@@ -152,14 +187,16 @@ export type FaceRequest =
   | FaceRegistrationRequest
   | FaceUpdateRequest
   | FaceRecognitionRequest
-  | FaceDeleteRequest;
+  | FaceDeleteRequest
+  | FaceLivenessRequest;
 
 export type FaceResponse =
   | FaceVerificationResponse
   | FaceRegistrationResponse
   | FaceUpdateResponse
   | FaceRecognitionResponse
-  | FaceDeleteResponse;
+  | FaceDeleteResponse
+  | FaceLivenessResponse;
 
 export type FaceMessage = FaceRequest | FaceResponse;
 
@@ -174,6 +211,7 @@ export const FACE_QUEUES = {
   UPDATE_REQUESTS: 'face.update.requests',
   RECOGNITION_REQUESTS: 'face.recognition.requests',
   DELETE_REQUESTS: 'face.delete.requests',
+  LIVENESS_REQUESTS: 'face.liveness.requests',
 
   // Reply queue (consumida pelo attendance-service - exclusive queue)
   REPLIES: 'face.replies',
@@ -0,0 +1,81 @@
+/**
+ * Tipos para comunicação via RabbitMQ com o shift-service
+ * Padrão Request/Reply com Correlation ID (mesma base do face-recognition-service)
+ */
+
+import type { BaseRequest, BaseResponse } from './faceMessaging.types';
+
+// ============================================================================
+// SHIFT DATA (mesmo formato de shift.created)
+// ============================================================================
+
+export interface ShiftData {
+  id: string;
+  hospitalId: string;
+  doctorId?: string;
+  value: number;
+  finalValue?: number;
+  specialty: string;
+  startTime: string;
+  endTime: string;
+  status: 'open' | 'closed';
+  healthUnitId?: string;
+  approvalStatus: 'PENDING' | 'APPROVED' | 'REJECTED';
+  approvedAt?: string;
+  approvedBy?: string;
+  createdAt: string;
+  version?: number; // Versão do agregado no shift-service
+}
+
+// ============================================================================
+// SHIFT LOOKUP MESSAGES (fallback em cache miss)
+// ============================================================================
+
+export interface ShiftLookupRequest extends BaseRequest {
+  messageType: 'shift.lookup.request';
+  data: {
+    shiftId: string;
+  };
+}
+
+export interface ShiftLookupResponse extends BaseResponse {
+  messageType: 'shift.lookup.response';
+  data: {
+    shift: ShiftData | null;
+  };
+}
+
+// ============================================================================
+// SHIFT SNAPSHOT MESSAGES (resync do cache, paginado)
+// ============================================================================
+
+export interface ShiftSnapshotRequest extends BaseRequest {
+  messageType: 'shift.snapshot.request';
+  data: {
+    page: number;
+    pageSize: number;
+    endAfter?: string; // Apenas shifts que terminam depois desta data (ISO)
+  };
+}
+
+export interface ShiftSnapshotResponse extends BaseResponse {
+  messageType: 'shift.snapshot.response';
+  data: {
+    items: ShiftData[];
+    page: number;
+    hasMore: boolean;
+  };
+}
+
+// ============================================================================
+// QUEUE NAMES (Convenção)
+// ============================================================================
+
+export const SHIFT_QUEUES = {
+  // Request queues (consumidas pelo shift-service)
+  LOOKUP_REQUESTS: 'shift.lookup.requests',
+  SNAPSHOT_REQUESTS: 'shift.snapshot.requests',
+
+  // Reply queue (consumida pelo attendance-service)
+  REPLIES: 'attendance.shift.replies',
+} as const;
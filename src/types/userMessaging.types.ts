@@ -0,0 +1,56 @@
+/**
+ * Tipos para comunicação via RabbitMQ com o user-service
+ * Padrão Request/Reply com Correlation ID (mesma base do face-recognition-service)
+ */
+
+import type { BaseRequest, BaseResponse } from './faceMessaging.types';
+import type { CachedUser } from '../services/cache/UserCacheService';
+
+// ============================================================================
+// USER DATA (mesmo formato de user.created)
+// ============================================================================
+
+export interface UserData {
+  id: string;
+  username: string;
+  email: string;
+  cpfCnpj: string;
+  employeeIdentifier?: string;
+  role: CachedUser['role'];
+  use2FA: boolean;
+  createdAt: string;
+  version?: number; // Versão do agregado no user-service
+}
+
+// ============================================================================
+// USER SNAPSHOT MESSAGES (resync do cache, paginado)
+// ============================================================================
+
+export interface UserSnapshotRequest extends BaseRequest {
+  messageType: 'user.snapshot.request';
+  data: {
+    page: number;
+    pageSize: number;
+  };
+}
+
+export interface UserSnapshotResponse extends BaseResponse {
+  messageType: 'user.snapshot.response';
+  data: {
+    items: UserData[];
+    page: number;
+    hasMore: boolean;
+  };
+}
+
+// ============================================================================
+// QUEUE NAMES (Convenção)
+// ============================================================================
+
+export const USER_QUEUES = {
+  // Request queues (consumidas pelo user-service)
+  SNAPSHOT_REQUESTS: 'user.snapshot.requests',
+
+  // Reply queue (consumida pelo attendance-service)
+  REPLIES: 'attendance.user.replies',
+} as const;
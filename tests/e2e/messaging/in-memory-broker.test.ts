@@ -0,0 +1,76 @@
+/**
+ * E2E Tests: mensageria com o broker em memória (MESSAGE_BROKER=memory)
+ * Publisher e request-reply reais → InMemoryBroker → consumidor, sem mocks de mensageria
+ */
+
+import 'reflect-metadata';
+import { messageBroker } from '@/messaging/MessageBroker';
+import { InMemoryBroker } from '@/messaging/InMemoryBroker';
+import { attendanceEventPublisher } from '@/events/AttendanceEventPublisher';
+import { eventSchemaRegistry } from '@/events/EventSchemaRegistry';
+import { rabbitMQRequestReply } from '@/services/RabbitMQRequestReplyService';
+import type { BaseRequest, BaseResponse } from '@/types/faceMessaging.types';
+
+describe('E2E: Mensageria com broker em memória', () => {
+  const broker = messageBroker as InMemoryBroker;
+
+  beforeAll(async () => {
+    await broker.connect();
+    await rabbitMQRequestReply.initialize();
+  });
+
+  afterAll(async () => {
+    await broker.close();
+  });
+
+  it('should use the in-memory broker under MESSAGE_BROKER=memory', () => {
+    expect(broker).toBeInstanceOf(InMemoryBroker);
+  });
+
+  it('should deliver attendance events from the publisher to a consumer bound to the exchange', async () => {
+    const received: unknown[] = [];
+    broker.bindQueue('e2e.attendance.events', 'attendance.events', 'attendance.*');
+    await broker.consume('e2e.attendance.events', async (message) => {
+      received.push(message);
+    });
+
+    await attendanceEventPublisher.publishAttendanceApproved({
+      attendanceId: 'attendance-1',
+      shiftId: 'shift-1',
+      doctorId: 'doctor-1',
+      hospitalId: 'hospital-1',
+      approvedWithDiscount: false,
+      discountPercentage: 0,
+    });
+    await broker.waitForIdle();
+
+    expect(received).toHaveLength(1);
+    const result = await eventSchemaRegistry.validate(received[0]);
+    expect(result.valid).toBe(true);
+    expect(received[0]).toMatchObject({
+      eventType: 'attendance.approved',
+      aggregateId: 'attendance-1',
+      data: { hospitalId: 'hospital-1' },
+    });
+  });
+
+  it('should complete a request-reply round trip through a request queue consumer', async () => {
+    await broker.consume('e2e.face.requests', async (message) => {
+      const request = message as BaseRequest & { userId: string };
+      const response: BaseResponse & { userId: string } = {
+        requestId: request.requestId,
+        timestamp: new Date().toISOString(),
+        success: true,
+        userId: request.userId,
+      };
+      await broker.publish('', request.replyTo!, response);
+    });
+
+    const response = await rabbitMQRequestReply.sendRequest<
+      BaseRequest & { userId: string },
+      BaseResponse & { userId: string }
+    >('e2e.face.requests', { userId: 'doctor-1' }, 2000);
+
+    expect(response).toMatchObject({ success: true, userId: 'doctor-1' });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Testes unitários para o EventSchemaRegistry
+ *
+ * Valida os contratos dos eventos externos, os erros reportados e o upcast entre versões
+ */
+
+import 'reflect-metadata';
+import { IsISO8601, IsString } from 'class-validator';
+import { EventSchemaRegistry, eventSchemaRegistry } from '../../../src/events/EventSchemaRegistry';
+
+describe('EventSchemaRegistry', () => {
+  const shiftCreated = (data: Record<string, unknown> = {}) => ({
+    id: 'event-1',
+    eventType: 'shift.created',
+    aggregateId: 'shift-1',
+    aggregateType: 'shift',
+    version: 1,
+    timestamp: '2025-10-20T10:00:00Z',
+    data: {
+      id: 'shift-1',
+      hospitalId: 'hospital-1',
+      value: 1000,
+      specialty: 'Cardiologia',
+      startTime: '2025-10-20T07:00:00Z',
+      endTime: '2025-10-20T19:00:00Z',
+      status: 'open',
+      approvalStatus: 'PENDING',
+      createdAt: '2025-10-01T00:00:00Z',
+      ...data,
+    },
+  });
+
+  it('aceita um evento válido e mantém campos extras', async () => {
+    const result = await eventSchemaRegistry.validate({ ...shiftCreated(), source: 'shift-service' });
+
+    expect(result).toMatchObject({ valid: true, event: { source: 'shift-service', data: { id: 'shift-1' } } });
+  });
+
+  it('rejeita datas inválidas com o caminho do campo', async () => {
+    const result = await eventSchemaRegistry.validate(shiftCreated({ startTime: 'amanhã cedo' }));
+
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual([
+      'data.startTime: startTime must be a valid ISO 8601 date string',
+    ]);
+  });
+
+  it('rejeita eventType sem contrato e schemaVersion desconhecida', async () => {
+    const unknownType = await eventSchemaRegistry.validate({ ...shiftCreated(), eventType: 'shift.archived' });
+    const futureVersion = await eventSchemaRegistry.validate({ ...shiftCreated(), schemaVersion: 2 });
+
+    expect(!unknownType.valid && unknownType.errors[0]).toContain('shift.archived não possui contrato');
+    expect(!futureVersion.valid && futureVersion.errors[0]).toContain('versão 2 não suportada');
+  });
+
+  it('converte versões antigas para a atual com os upcasters', async () => {
+    class NoteV1 {
+      @IsString()
+      text!: string;
+    }
+    class NoteV2 {
+      @IsString()
+      body!: string;
+
+      @IsISO8601()
+      writtenAt!: string;
+    }
+
+    const registry = new EventSchemaRegistry().register({
+      eventType: 'note.created',
+      currentVersion: 2,
+      schemas: { 1: NoteV1, 2: NoteV2 },
+      upcasters: {
+        1: ({ text, ...event }) => ({ ...event, body: text, writtenAt: '2025-10-20T00:00:00Z' }),
+      },
+    });
+
+    const result = await registry.validate({ eventType: 'note.created', text: 'olá' });
+
+    expect(result).toEqual({
+      valid: true,
+      upcastedFrom: 1,
+      event: { eventType: 'note.created', body: 'olá', writtenAt: '2025-10-20T00:00:00Z', schemaVersion: 2 },
+    });
+  });
+
+  it('exige upcaster para cada versão anterior registrada', () => {
+    expect(() =>
+      new EventSchemaRegistry().register({
+        eventType: 'note.created',
+        currentVersion: 2,
+        schemas: { 1: class {}, 2: class {} },
+      })
+    ).toThrow('Upcaster ausente para note.created v1 → v2');
+  });
+});
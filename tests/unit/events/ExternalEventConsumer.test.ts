@@ -0,0 +1,114 @@
+/**
+ * Testes unitários para o ExternalEventConsumer (eventos de HealthUnit)
+ *
+ * Publica eventos no broker em memória e valida o efeito no cache (driver em memória)
+ */
+
+import 'reflect-metadata';
+import { InMemoryBroker } from '../../../src/messaging/InMemoryBroker';
+import { redisCache } from '../../../src/services/cache/RedisCache';
+import { HealthUnitCacheService } from '../../../src/services/cache/HealthUnitCacheService';
+
+jest.mock('../../../src/messaging/MessageBroker', () => {
+  const { InMemoryBroker: Broker } = jest.requireActual('../../../src/messaging/InMemoryBroker');
+  return { messageBroker: new Broker() };
+});
+
+import { messageBroker } from '../../../src/messaging/MessageBroker';
+import { ExternalEventConsumer } from '../../../src/events/ExternalEventConsumer';
+
+describe('ExternalEventConsumer - HealthUnit', () => {
+  const broker = messageBroker as unknown as InMemoryBroker;
+  const exchange = 'healthunit.events';
+  const queue = 'attendance.healthunit.sync';
+  const cache = new HealthUnitCacheService();
+
+  const baseEvent = (id: string, eventType: string, version: number) => ({
+    id,
+    aggregateId: 'hu-1',
+    aggregateType: 'healthunit',
+    eventType,
+    version,
+    timestamp: '2025-10-20T12:00:00.000Z',
+  });
+
+  const createdEvent = {
+    ...baseEvent('evt-created', 'healthunit.created', 1),
+    data: {
+      id: 'hu-1',
+      hospitalId: 'hospital-1',
+      name: 'UPA Centro',
+      latitude: -23.55052,
+      longitude: -46.633308,
+      createdAt: '2025-10-01T00:00:00.000Z',
+    },
+  };
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+    await broker.connect();
+    await new ExternalEventConsumer().startConsuming();
+  });
+
+  afterAll(async () => {
+    await broker.close();
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  beforeEach(async () => {
+    await cache.removeHealthUnitFromCache('hu-1');
+  });
+
+  it('cacheia a health unit ao receber healthunit.created', async () => {
+    await broker.publish(exchange, 'healthunit.created', createdEvent);
+    await broker.waitForIdle();
+
+    const cached = await cache.getHealthUnitFromCache('hu-1');
+    expect(cached).toMatchObject({ id: 'hu-1', hospitalId: 'hospital-1', name: 'UPA Centro' });
+    expect(cached?.createdAt.toISOString()).toBe('2025-10-01T00:00:00.000Z');
+  });
+
+  it('aplica as mudanças de healthunit.updated', async () => {
+    await broker.publish(exchange, 'healthunit.created', createdEvent);
+    await broker.publish(exchange, 'healthunit.updated', {
+      ...baseEvent('evt-updated', 'healthunit.updated', 2),
+      data: {
+        id: 'hu-1',
+        changes: { name: 'UPA Centro II' },
+        updatedAt: '2025-10-20T12:00:00.000Z',
+      },
+    });
+    await broker.waitForIdle();
+
+    const cached = await cache.getHealthUnitFromCache('hu-1');
+    expect(cached?.name).toBe('UPA Centro II');
+    expect(cached?.latitude).toBe(-23.55052);
+  });
+
+  it('remove a health unit ao receber healthunit.deleted', async () => {
+    await broker.publish(exchange, 'healthunit.created', createdEvent);
+    await broker.publish(exchange, 'healthunit.deleted', {
+      ...baseEvent('evt-deleted', 'healthunit.deleted', 3),
+      data: { id: 'hu-1', deletedAt: '2025-10-20T12:00:00.000Z' },
+    });
+    await broker.waitForIdle();
+
+    expect(await cache.isHealthUnitCached('hu-1')).toBe(false);
+  });
+
+  it('envia evento inválido para a quarentena sem tocar no cache', async () => {
+    await broker.publish(exchange, 'healthunit.created', {
+      ...createdEvent,
+      id: 'evt-invalid',
+      data: { ...createdEvent.data, hospitalId: '' },
+    });
+    await broker.waitForIdle();
+
+    const quarantined = broker.getQueueMessages(`${queue}.quarantine`);
+    expect(quarantined).toHaveLength(1);
+    expect(JSON.parse(quarantined[0].content).event.id).toBe('evt-invalid');
+    expect(await cache.isHealthUnitCached('hu-1')).toBe(false);
+  });
+});
@@ -0,0 +1,437 @@
+/**
+ * Testes unitários para o AttendanceFacade
+ *
+ * Usa tabelas em memória no lugar do TypeORM (AppDataSource mockado):
+ * transações rodam uma por vez (como os locks de linha) e restauram as tabelas
+ * quando o callback lança erro (rollback)
+ */
+
+import 'reflect-metadata';
+import { FindOperator } from 'typeorm';
+
+type Row = Record<string, unknown>;
+
+const mockTables = new Map<unknown, Row[]>();
+const mockFailingSaves = new Set<unknown>();
+let mockTransactionQueue: Promise<unknown> = Promise.resolve();
+let mockIdSequence = 0;
+
+function mockTable(entity: unknown): Row[] {
+  if (!mockTables.has(entity)) mockTables.set(entity, []);
+  return mockTables.get(entity)!;
+}
+
+function mockMatches(row: Row, where: Row = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    const value = row[field];
+    if (condition instanceof FindOperator) {
+      const operand = condition.value;
+      switch (condition.type) {
+        case 'in':
+          return (operand as unknown[]).includes(value);
+        case 'between': {
+          const [from, to] = operand as Date[];
+          return (value as Date) >= from && (value as Date) <= to;
+        }
+        case 'isNull':
+          return value === null || value === undefined;
+        case 'ilike':
+          return String(value ?? '')
+            .toLowerCase()
+            .includes(String(operand).replace(/%/g, '').toLowerCase());
+        default:
+          throw new Error(`FindOperator não suportado no teste: ${condition.type}`);
+      }
+    }
+    return value === condition;
+  });
+}
+
+function mockRepository(entity: unknown) {
+  const rows = mockTable(entity);
+  return {
+    create: (data: Row) => ({ ...data }),
+    find: async (options: { where?: Row } = {}) =>
+      rows.filter((row) => mockMatches(row, options.where)).map((row) => ({ ...row })),
+    findOne: async (options: { where?: Row } = {}) => {
+      const row = rows.find((candidate) => mockMatches(candidate, options.where));
+      return row ? { ...row } : null;
+    },
+    save: async (entities: Row | Row[]) => {
+      if (mockFailingSaves.has(entity)) throw new Error('falha simulada no banco');
+      for (const saved of Array.isArray(entities) ? entities : [entities]) {
+        saved.id ??= `generated-${++mockIdSequence}`;
+        const index = rows.findIndex((row) => row.id !== undefined && row.id === saved.id);
+        if (index >= 0) rows[index] = { ...saved };
+        else rows.push({ ...saved });
+      }
+      return entities;
+    },
+  };
+}
+
+jest.mock('../../../src/config/database', () => {
+  const manager = { getRepository: (entity: unknown) => mockRepository(entity) };
+  return {
+    AppDataSource: {
+      getRepository: (entity: unknown) => mockRepository(entity),
+      transaction: (run: (transactionManager: unknown) => Promise<unknown>) => {
+        const execute = async () => {
+          const snapshot = new Map([...mockTables].map(([entity, rows]) => [entity, rows.map((row) => ({ ...row }))]));
+          try {
+            return await run(manager);
+          } catch (error) {
+            snapshot.forEach((rows, entity) => mockTable(entity).splice(0, mockTable(entity).length, ...rows));
+            throw error;
+          }
+        };
+        const result = mockTransactionQueue.then(execute);
+        mockTransactionQueue = result.catch(() => undefined);
+        return result;
+      },
+    },
+  };
+});
+
+import { AttendanceFacade } from '../../../src/facades/AttendanceFacade';
+import { Attendance } from '../../../src/entities/Attendance';
+import { AttendanceHistory } from '../../../src/entities/AttendanceHistory';
+import { AttendanceCorrectionRequest } from '../../../src/entities/AttendanceCorrectionRequest';
+import { AppError } from '../../../src/errors/AppError';
+import { AttendanceEventPublisher } from '../../../src/events/AttendanceEventPublisher';
+import { ShiftCacheService, CachedShift } from '../../../src/services/cache/ShiftCacheService';
+import { UserCacheService } from '../../../src/services/cache/UserCacheService';
+import { HealthUnitCacheService } from '../../../src/services/cache/HealthUnitCacheService';
+
+describe('AttendanceFacade', () => {
+  const createShift = (id: string, hospitalId: string): CachedShift => ({
+    id,
+    hospitalId,
+    value: 1000,
+    specialty: 'Clínica Geral',
+    startTime: new Date('2025-10-20T08:00:00Z'),
+    endTime: new Date('2025-10-20T20:00:00Z'),
+    status: 'open',
+    approvalStatus: 'PENDING',
+    createdAt: new Date('2025-10-01T00:00:00Z'),
+    cachedAt: new Date('2025-10-01T00:00:00Z'),
+  });
+
+  const createAttendance = (id: string, overrides: Partial<Attendance> = {}): Row => ({
+    id,
+    shiftId: 'shift-1',
+    doctorId: 'doctor-1',
+    type: 'IN',
+    timestamp: new Date('2025-10-20T08:05:00Z'),
+    status: 'PENDING',
+    statusReason: 'Fora da área do hospital',
+    isLate: false,
+    discountPercentage: 0,
+    approvedWithDiscount: false,
+    hasAutomaticDiscount: false,
+    ...overrides,
+  });
+
+  const shifts: Record<string, CachedShift> = {
+    'shift-1': createShift('shift-1', 'hospital-1'),
+    'shift-2': createShift('shift-2', 'hospital-2'),
+  };
+
+  let shiftCache: { getShiftFromCache: jest.Mock; getShiftsByHospital: jest.Mock; updateShiftCache: jest.Mock };
+  let eventPublisher: {
+    publishAttendanceApproved: jest.Mock;
+    publishAttendanceRejected: jest.Mock;
+    publishAttendanceCorrected: jest.Mock;
+  };
+  let facade: AttendanceFacade;
+
+  const attendanceRows = () => mockTable(Attendance);
+  const historyRows = () => mockTable(AttendanceHistory);
+  const correctionRows = () => mockTable(AttendanceCorrectionRequest);
+
+  beforeEach(() => {
+    mockTables.clear();
+    mockFailingSaves.clear();
+
+    shiftCache = {
+      getShiftFromCache: jest.fn(async (id: string) => shifts[id] ?? null),
+      getShiftsByHospital: jest.fn(async (hospitalId: string) =>
+        Object.values(shifts).filter((shift) => shift.hospitalId === hospitalId)
+      ),
+      updateShiftCache: jest.fn(async () => undefined),
+    };
+    eventPublisher = {
+      publishAttendanceApproved: jest.fn(async () => undefined),
+      publishAttendanceRejected: jest.fn(async () => undefined),
+      publishAttendanceCorrected: jest.fn(async () => undefined),
+    };
+
+    facade = new AttendanceFacade(
+      shiftCache as unknown as ShiftCacheService,
+      { getUserFromCache: jest.fn(async () => null) } as unknown as UserCacheService,
+      eventPublisher as unknown as AttendanceEventPublisher,
+      {} as HealthUnitCacheService
+    );
+  });
+
+  describe('decisões em lote', () => {
+    it('exige attendanceIds ou filter, mas não os dois', async () => {
+      await expect(facade.bulkApproveAttendances({ hospitalId: 'hospital-1' })).rejects.toMatchObject({
+        code: 400,
+      });
+      await expect(
+        facade.bulkApproveAttendances({
+          hospitalId: 'hospital-1',
+          attendanceIds: ['att-1'],
+          filter: { statusReason: 'área' },
+        })
+      ).rejects.toBeInstanceOf(AppError);
+      expect(eventPublisher.publishAttendanceApproved).not.toHaveBeenCalled();
+    });
+
+    it('reporta falhas por item sem abortar o lote', async () => {
+      attendanceRows().push(
+        createAttendance('att-1'),
+        createAttendance('att-2', { status: 'APPROVED' }),
+        createAttendance('att-3', { shiftId: 'shift-2' })
+      );
+
+      const result = await facade.bulkApproveAttendances({
+        hospitalId: 'hospital-1',
+        attendanceIds: ['att-1', 'att-2', 'att-3', 'att-404'],
+      });
+
+      expect(result).toMatchObject({ total: 4, succeeded: 1, failed: 3 });
+      expect(result.items.map((item) => [item.attendanceId, item.success, item.code])).toEqual([
+        ['att-1', true, undefined],
+        ['att-2', false, 400],
+        ['att-3', false, 403],
+        ['att-404', false, 404],
+      ]);
+      expect(attendanceRows().find((row) => row.id === 'att-1')?.status).toBe('APPROVED');
+      expect(attendanceRows().find((row) => row.id === 'att-3')?.status).toBe('PENDING');
+    });
+
+    it('publica um evento por attendance decidido, na transação', async () => {
+      attendanceRows().push(createAttendance('att-1'), createAttendance('att-2', { type: 'OUT' }));
+
+      const result = await facade.bulkRejectAttendances({
+        hospitalId: 'hospital-1',
+        attendanceIds: ['att-1', 'att-2'],
+        reason: 'Sem justificativa',
+      });
+
+      expect(result.succeeded).toBe(2);
+      expect(eventPublisher.publishAttendanceRejected).toHaveBeenCalledTimes(2);
+      expect(eventPublisher.publishAttendanceRejected.mock.calls.map(([data]) => data.attendanceId)).toEqual([
+        'att-1',
+        'att-2',
+      ]);
+      expect(eventPublisher.publishAttendanceRejected.mock.calls[0][1]).toBeDefined();
+      expect(historyRows()).toHaveLength(2);
+    });
+
+    it('faz rollback de todo o lote em erro de banco', async () => {
+      attendanceRows().push(createAttendance('att-1'), createAttendance('att-2'));
+      mockFailingSaves.add(AttendanceHistory);
+
+      await expect(
+        facade.bulkApproveAttendances({ hospitalId: 'hospital-1', attendanceIds: ['att-1', 'att-2'] })
+      ).rejects.toThrow('falha simulada no banco');
+
+      expect(attendanceRows().map((row) => row.status)).toEqual(['PENDING', 'PENDING']);
+      expect(eventPublisher.publishAttendanceApproved).not.toHaveBeenCalled();
+      expect(shiftCache.updateShiftCache).not.toHaveBeenCalled();
+    });
+
+    it('filtra por data em UTC e por motivo, apenas no hospital informado', async () => {
+      attendanceRows().push(
+        createAttendance('att-1', { timestamp: new Date('2025-10-20T23:30:00Z') }),
+        createAttendance('att-2', { timestamp: new Date('2025-10-21T00:30:00Z') }),
+        createAttendance('att-3', { timestamp: new Date('2025-10-20T10:00:00Z'), statusReason: 'Check-in tardio' }),
+        createAttendance('att-4', { shiftId: 'shift-2', timestamp: new Date('2025-10-20T10:00:00Z') })
+      );
+
+      const result = await facade.bulkApproveAttendances({
+        hospitalId: 'hospital-1',
+        filter: { date: '2025-10-20', statusReason: 'área' },
+      });
+
+      expect(result.items.map((item) => item.attendanceId)).toEqual(['att-1']);
+      expect(shiftCache.getShiftsByHospital).toHaveBeenCalledWith('hospital-1');
+    });
+  });
+
+  describe('histórico de auditoria', () => {
+    beforeEach(() => {
+      attendanceRows().push(createAttendance('att-1'));
+      historyRows().push({ id: 'history-1', attendanceId: 'att-1', action: 'CREATED' });
+    });
+
+    it('retorna o histórico de pontos do hospital do usuário', async () => {
+      const history = await facade.getAttendanceHistory('att-1', 'hospital-1');
+
+      expect(history.map((entry) => entry.id)).toEqual(['history-1']);
+    });
+
+    it('responde 404 para pontos de outro hospital', async () => {
+      await expect(facade.getAttendanceHistory('att-1', 'hospital-2')).rejects.toMatchObject({ code: 404 });
+    });
+
+    it('guarda o motivo do revisor no histórico e no evento, sem sobrescrever o motivo do médico', async () => {
+      attendanceRows().push(
+        createAttendance('att-2', { reason: 'Trânsito na entrada' }),
+        createAttendance('att-3', { reason: 'Esqueci de bater' })
+      );
+
+      await facade.approveAttendance({ attendanceId: 'att-2', hospitalId: 'hospital-1', reason: 'Confirmado pela escala' });
+      await facade.bulkRejectAttendances({ hospitalId: 'hospital-1', attendanceIds: ['att-3'], reason: 'Sem justificativa' });
+
+      expect(attendanceRows().find((row) => row.id === 'att-2')?.reason).toBe('Trânsito na entrada');
+      expect(attendanceRows().find((row) => row.id === 'att-3')?.reason).toBe('Esqueci de bater');
+      expect(historyRows().filter((row) => row.attendanceId !== 'att-1').map((row) => [row.action, row.reason])).toEqual([
+        ['APPROVED', 'Confirmado pela escala'],
+        ['REJECTED', 'Sem justificativa'],
+      ]);
+      expect(eventPublisher.publishAttendanceApproved.mock.calls[0][0].reason).toBe('Confirmado pela escala');
+      expect(eventPublisher.publishAttendanceRejected.mock.calls[0][0].reason).toBe('Sem justificativa');
+    });
+
+    it('não aplica escopo sem hospitalId (admins)', async () => {
+      const history = await facade.getAttendanceHistory('att-1');
+
+      expect(history).toHaveLength(1);
+      expect(shiftCache.getShiftFromCache).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('correções de ponto', () => {
+    const createCorrection = (id: string, overrides: Partial<AttendanceCorrectionRequest> = {}): Row => ({
+      id,
+      doctorId: 'doctor-1',
+      shiftId: 'shift-1',
+      hospitalId: 'hospital-1',
+      attendanceId: null,
+      kind: 'MISSING_PUNCH',
+      direction: 'IN',
+      proposedTimestamp: new Date('2025-10-20T08:40:00Z'),
+      latitude: -23.55052,
+      longitude: -46.633308,
+      justification: 'Esqueci de bater o ponto',
+      evidenceUrls: [],
+      status: 'PENDING',
+      ...overrides,
+    });
+
+    it('aprova ponto esquecido criando LATE_IN aprovado', async () => {
+      correctionRows().push(createCorrection('corr-1'));
+
+      const result = await facade.approveCorrection('corr-1', { hospitalId: 'hospital-1' });
+
+      expect(result.correction.status).toBe('APPROVED');
+      expect(attendanceRows()).toHaveLength(1);
+      expect(attendanceRows()[0]).toMatchObject({ type: 'LATE_IN', status: 'APPROVED' });
+      expect(correctionRows()[0]).toMatchObject({
+        status: 'APPROVED',
+        resultingAttendanceId: attendanceRows()[0].id,
+      });
+      expect(eventPublisher.publishAttendanceCorrected).toHaveBeenCalledTimes(1);
+      expect(eventPublisher.publishAttendanceCorrected.mock.calls[0][0]).toMatchObject({
+        kind: 'MISSING_PUNCH',
+        type: 'LATE_IN',
+        status: 'APPROVED',
+      });
+    });
+
+    it('mantém o tipo IN quando o horário corrigido não é tardio', async () => {
+      correctionRows().push(createCorrection('corr-1', { proposedTimestamp: new Date('2025-10-20T07:55:00Z') }));
+
+      await facade.approveCorrection('corr-1', { hospitalId: 'hospital-1' });
+
+      expect(attendanceRows()[0]).toMatchObject({ type: 'IN', isLate: false, status: 'APPROVED' });
+      expect(eventPublisher.publishAttendanceCorrected.mock.calls[0][0]).toMatchObject({ type: 'IN' });
+    });
+
+    it('ajusta o horário mantendo o status do ponto', async () => {
+      attendanceRows().push(createAttendance('att-1'));
+      correctionRows().push(
+        createCorrection('corr-1', {
+          kind: 'ADJUST_TIMESTAMP',
+          attendanceId: 'att-1',
+          proposedTimestamp: new Date('2025-10-20T08:01:00Z'),
+        })
+      );
+
+      await facade.approveCorrection('corr-1', { hospitalId: 'hospital-1' });
+
+      expect(attendanceRows()[0]).toMatchObject({
+        type: 'LATE_IN',
+        timestamp: new Date('2025-10-20T08:01:00Z'),
+        status: 'PENDING',
+        statusReason: 'Fora da área do hospital',
+      });
+      expect(eventPublisher.publishAttendanceCorrected.mock.calls[0][0]).toMatchObject({
+        kind: 'ADJUST_TIMESTAMP',
+        previousTimestamp: new Date('2025-10-20T08:05:00Z'),
+        status: 'PENDING',
+      });
+    });
+
+    it('aprova o ponto ajustado quando o revisor pede', async () => {
+      attendanceRows().push(createAttendance('att-1'));
+      correctionRows().push(createCorrection('corr-1', { kind: 'ADJUST_TIMESTAMP', attendanceId: 'att-1' }));
+
+      await facade.approveCorrection('corr-1', { hospitalId: 'hospital-1', approveAttendance: true });
+
+      expect(attendanceRows()[0]).toMatchObject({
+        status: 'APPROVED',
+        statusReason: 'Correção aprovada (ADJUST_TIMESTAMP)',
+      });
+    });
+
+    it('nega a correção sem tocar nos pontos', async () => {
+      correctionRows().push(createCorrection('corr-1'));
+
+      const correction = await facade.denyCorrection(
+        'corr-1',
+        { hospitalId: 'hospital-1', reviewNote: 'Sem evidências' },
+        { id: 'reviewer-1', role: 'client_hospital', ip: '127.0.0.1' }
+      );
+
+      expect(correction).toMatchObject({ status: 'DENIED', reviewNote: 'Sem evidências', reviewedBy: 'reviewer-1' });
+      expect(correctionRows()[0].status).toBe('DENIED');
+      expect(attendanceRows()).toHaveLength(0);
+      expect(eventPublisher.publishAttendanceCorrected).not.toHaveBeenCalled();
+    });
+
+    it('rejeita correção já revisada ou de outro hospital', async () => {
+      correctionRows().push(createCorrection('corr-1', { status: 'DENIED' }), createCorrection('corr-2'));
+
+      await expect(facade.approveCorrection('corr-1', { hospitalId: 'hospital-1' })).rejects.toMatchObject({
+        code: 400,
+      });
+      await expect(
+        facade.denyCorrection('corr-1', { hospitalId: 'hospital-1', reviewNote: 'Duplicada' })
+      ).rejects.toMatchObject({ code: 400 });
+      await expect(facade.approveCorrection('corr-2', { hospitalId: 'hospital-2' })).rejects.toMatchObject({
+        code: 403,
+      });
+      expect(attendanceRows()).toHaveLength(0);
+    });
+
+    it('aplica apenas uma de duas aprovações concorrentes', async () => {
+      correctionRows().push(createCorrection('corr-1'));
+
+      const results = await Promise.allSettled([
+        facade.approveCorrection('corr-1', { hospitalId: 'hospital-1' }),
+        facade.approveCorrection('corr-1', { hospitalId: 'hospital-1' }),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ code: 400 });
+      expect(attendanceRows()).toHaveLength(1);
+      expect(historyRows()).toHaveLength(1);
+      expect(eventPublisher.publishAttendanceCorrected).toHaveBeenCalledTimes(1);
+    });
+  });
+});
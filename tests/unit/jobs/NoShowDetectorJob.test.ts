@@ -0,0 +1,61 @@
+/**
+ * Testes unitários para o NoShowDetectorJob
+ *
+ * Valida que rodadas não se sobrepõem e que erros não travam o job
+ */
+
+import { NoShowDetectorJob } from '../../../src/jobs/NoShowDetectorJob';
+import { AttendanceNoShowService } from '../../../src/services/AttendanceNoShowService';
+
+describe('NoShowDetectorJob', () => {
+  let detectAndMark: jest.Mock;
+  let job: NoShowDetectorJob;
+
+  beforeEach(() => {
+    detectAndMark = jest.fn();
+    job = new NoShowDetectorJob({ detectAndMark } as unknown as AttendanceNoShowService, 1000);
+  });
+
+  it('ignora rodada disparada enquanto a anterior está em andamento', async () => {
+    let finish!: () => void;
+    detectAndMark.mockReturnValueOnce(new Promise<void>((resolve) => (finish = resolve)));
+
+    const first = job.runOnce();
+    await job.runOnce();
+
+    expect(detectAndMark).toHaveBeenCalledTimes(1);
+
+    finish();
+    await first;
+    detectAndMark.mockResolvedValueOnce({ detected: 0, marked: 0, published: 0 });
+    await job.runOnce();
+
+    expect(detectAndMark).toHaveBeenCalledTimes(2);
+  });
+
+  it('libera a próxima rodada após erro na detecção', async () => {
+    detectAndMark.mockRejectedValueOnce(new Error('banco indisponível'));
+    await job.runOnce();
+
+    detectAndMark.mockResolvedValueOnce({ detected: 0, marked: 0, published: 0 });
+    await job.runOnce();
+
+    expect(detectAndMark).toHaveBeenCalledTimes(2);
+  });
+
+  it('não agenda rodadas com NO_SHOW_JOB_ENABLED=false', () => {
+    jest.useFakeTimers();
+    process.env.NO_SHOW_JOB_ENABLED = 'false';
+
+    try {
+      job.start();
+      jest.advanceTimersByTime(5000);
+
+      expect(detectAndMark).not.toHaveBeenCalled();
+    } finally {
+      job.stop();
+      delete process.env.NO_SHOW_JOB_ENABLED;
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Testes unitários para o OutboxRelayJob
+ *
+ * Valida que rodadas não se sobrepõem, quando a rodada para de buscar lotes
+ * e o intervalo da limpeza de eventos publicados
+ */
+
+import { OutboxRelayJob } from '../../../src/jobs/OutboxRelayJob';
+import { EventOutboxService, OUTBOX_BATCH_SIZE } from '../../../src/services/EventOutboxService';
+
+describe('OutboxRelayJob', () => {
+  const fullBatch = { claimed: OUTBOX_BATCH_SIZE, sent: OUTBOX_BATCH_SIZE };
+
+  let relayBatch: jest.Mock;
+  let purgeSent: jest.Mock;
+  let job: OutboxRelayJob;
+
+  beforeEach(() => {
+    relayBatch = jest.fn().mockResolvedValue({ claimed: 0, sent: 0 });
+    purgeSent = jest.fn().mockResolvedValue(0);
+    job = new OutboxRelayJob({ relayBatch, purgeSent } as unknown as EventOutboxService, 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('ignora rodada disparada enquanto a anterior está em andamento', async () => {
+    let finish!: (value: { claimed: number; sent: number }) => void;
+    relayBatch.mockReturnValueOnce(new Promise((resolve) => (finish = resolve)));
+
+    const first = job.runOnce();
+    await job.runOnce();
+
+    expect(relayBatch).toHaveBeenCalledTimes(1);
+
+    finish({ claimed: 0, sent: 0 });
+    await first;
+    await job.runOnce();
+
+    expect(relayBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('continua enquanto os lotes vêm cheios e para no lote incompleto', async () => {
+    relayBatch
+      .mockResolvedValueOnce(fullBatch)
+      .mockResolvedValueOnce(fullBatch)
+      .mockResolvedValueOnce({ claimed: 3, sent: 3 });
+
+    await job.runOnce();
+
+    expect(relayBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it('para no lote com falhas de publicação', async () => {
+    relayBatch.mockResolvedValueOnce({ claimed: OUTBOX_BATCH_SIZE, sent: OUTBOX_BATCH_SIZE - 1 });
+
+    await job.runOnce();
+
+    expect(relayBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('limita a quantidade de lotes por rodada', async () => {
+    relayBatch.mockResolvedValue(fullBatch);
+
+    await job.runOnce();
+
+    expect(relayBatch).toHaveBeenCalledTimes(10);
+  });
+
+  it('libera a próxima rodada após erro no relay', async () => {
+    relayBatch.mockRejectedValueOnce(new Error('banco indisponível'));
+    await job.runOnce();
+
+    await job.runOnce();
+
+    expect(relayBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it('limpa eventos publicados no máximo uma vez por hora', async () => {
+    jest.useFakeTimers({ now: new Date('2025-10-20T10:00:00Z') });
+
+    await job.runOnce();
+    await job.runOnce();
+    expect(purgeSent).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(new Date('2025-10-20T10:59:00Z'));
+    await job.runOnce();
+    expect(purgeSent).toHaveBeenCalledTimes(1);
+
+    jest.setSystemTime(new Date('2025-10-20T11:00:00Z'));
+    await job.runOnce();
+    expect(purgeSent).toHaveBeenCalledTimes(2);
+  });
+
+  it('não agenda rodadas com OUTBOX_RELAY_ENABLED=false', () => {
+    jest.useFakeTimers();
+    process.env.OUTBOX_RELAY_ENABLED = 'false';
+
+    try {
+      job.start();
+      jest.advanceTimersByTime(5000);
+
+      expect(relayBatch).not.toHaveBeenCalled();
+    } finally {
+      job.stop();
+      delete process.env.OUTBOX_RELAY_ENABLED;
+    }
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Testes unitários para o InMemoryBroker
+ *
+ * Valida o roteamento topic, ack/nack com DLQ e o fluxo de request-reply no mesmo processo
+ */
+
+import { InMemoryBroker, matchesRoutingKey } from '../../../src/messaging/InMemoryBroker';
+
+describe('InMemoryBroker', () => {
+  let broker: InMemoryBroker;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    broker = new InMemoryBroker();
+    await broker.connect();
+  });
+
+  afterEach(async () => {
+    await broker.close();
+    jest.restoreAllMocks();
+  });
+
+  it('casa routing keys com "*" e "#"', () => {
+    expect(matchesRoutingKey('shift.created', 'shift.created')).toBe(true);
+    expect(matchesRoutingKey('shift.*', 'shift.updated')).toBe(true);
+    expect(matchesRoutingKey('shift.*', 'shift.updated.v2')).toBe(false);
+    expect(matchesRoutingKey('attendance.#', 'attendance')).toBe(true);
+    expect(matchesRoutingKey('#.approved', 'attendance.bulk.approved')).toBe(true);
+    expect(matchesRoutingKey('user.*', 'shift.created')).toBe(false);
+  });
+
+  it('entrega eventos externos na queue de sync pelos bindings da topologia', async () => {
+    const received: unknown[] = [];
+    await broker.consume('attendance.shift.sync', async (message) => {
+      received.push(message);
+    });
+
+    await broker.publish('shift.events', 'shift.created', { id: 'e1', aggregateId: 'shift-1' });
+    await broker.publish('user.events', 'user.created', { id: 'e2' });
+    await broker.waitForIdle();
+
+    expect(received).toEqual([{ id: 'e1', aggregateId: 'shift-1' }]);
+    expect(broker.getQueueMessages('attendance.user.sync')).toHaveLength(1);
+  });
+
+  it('reentrega mensagens com falha e envia para a DLQ ao esgotar as tentativas', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('cache indisponível'));
+    await broker.consume('attendance.user.sync', handler);
+
+    await broker.publish('user.events', 'user.updated', { id: 'e1' }, { messageId: 'e1' });
+    await broker.waitForIdle();
+
+    expect(handler).toHaveBeenCalledTimes(4);
+    expect(broker.getQueueMessages('attendance.user.sync')).toHaveLength(0);
+    expect(broker.getQueueMessages('attendance.user.sync.dlq')).toEqual([
+      expect.objectContaining({ messageId: 'e1', deliveryCount: 4 }),
+    ]);
+  });
+
+  it('suporta request-reply pelo exchange default', async () => {
+    await broker.assertQueue('face.verification.requests');
+    await broker.assertQueue('face.replies', { durable: false, autoDelete: true });
+
+    // Responder simulado do face-recognition-service
+    await broker.consume('face.verification.requests', async (request: { requestId: string; replyTo: string }) => {
+      await broker.publish('', request.replyTo, { requestId: request.requestId, success: true });
+    });
+
+    const replies: unknown[] = [];
+    await broker.consume('face.replies', async (reply) => {
+      replies.push(reply);
+    }, { noAck: true });
+
+    await broker.publish('', 'face.verification.requests', { requestId: 'r1', replyTo: 'face.replies' });
+    await broker.waitForIdle();
+
+    expect(replies).toEqual([{ requestId: 'r1', success: true }]);
+  });
+});
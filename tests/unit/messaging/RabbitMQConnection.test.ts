@@ -0,0 +1,174 @@
+/**
+ * Testes unitários para a reconexão do RabbitMQConnection
+ *
+ * Valida o backoff, a recriação dos consumidores, o buffer de publicação e a
+ * republicação confirmada de mensagens que falharam (amqplib simulado)
+ */
+
+import { EventEmitter } from 'events';
+import * as amqp from 'amqplib';
+import { RabbitMQConnection } from '../../../src/messaging/RabbitMQConnection';
+import { retryExchangeName } from '../../../src/messaging/RetryPolicy';
+
+jest.mock('amqplib', () => ({ connect: jest.fn() }));
+
+class FakeChannel extends EventEmitter {
+  assertExchange = jest.fn().mockResolvedValue({});
+  assertQueue = jest.fn().mockResolvedValue({});
+  bindQueue = jest.fn().mockResolvedValue({});
+  consume = jest.fn().mockResolvedValue({ consumerTag: 'tag' });
+  publish = jest.fn((_exchange, _routingKey, _content, _options, callback?: (err: unknown) => void) => {
+    callback?.(null);
+    return true;
+  });
+  ack = jest.fn();
+  nack = jest.fn();
+  close = jest.fn().mockResolvedValue(undefined);
+}
+
+class FakeConnection extends EventEmitter {
+  channel = new FakeChannel();
+  confirmChannel = new FakeChannel();
+  createChannel = jest.fn().mockResolvedValue(this.channel);
+  createConfirmChannel = jest.fn().mockResolvedValue(this.confirmChannel);
+  close = jest.fn().mockResolvedValue(undefined);
+
+  drop(): void {
+    this.emit('close');
+  }
+}
+
+describe('RabbitMQConnection', () => {
+  let connections: FakeConnection[];
+  let connection: RabbitMQConnection;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    process.env.RABBITMQ_PUBLISH_BUFFER_SIZE = '2';
+    connections = [];
+    (amqp.connect as jest.Mock).mockImplementation(async () => {
+      const fake = new FakeConnection();
+      connections.push(fake);
+      return fake;
+    });
+    connection = new RabbitMQConnection();
+  });
+
+  afterEach(async () => {
+    await connection.close();
+    delete process.env.RABBITMQ_PUBLISH_BUFFER_SIZE;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('resolve publish apenas após a confirmação do broker', async () => {
+    await connection.connect();
+    const confirmChannel = connections[0].confirmChannel;
+    confirmChannel.publish.mockImplementationOnce(() => true);
+
+    let resolved = false;
+    const published = connection.publish('attendance.events', 'attendance.recorded', { id: '1' }).then(() => {
+      resolved = true;
+    });
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+
+    const callback = confirmChannel.publish.mock.calls[0][4] as (err: unknown) => void;
+    callback(null);
+    await published;
+    expect(resolved).toBe(true);
+  });
+
+  it('reconecta com backoff e registra os consumidores novamente', async () => {
+    await connection.connect();
+    await connection.assertQueue('face.replies', { durable: false, autoDelete: true });
+    await connection.consume('attendance.shift.sync', async () => undefined);
+
+    connections[0].drop();
+    expect(connection.isConnected()).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(connection.getReconnectDelay(1));
+
+    expect(connections).toHaveLength(2);
+    expect(connection.isConnected()).toBe(true);
+    expect(connections[1].channel.assertQueue).toHaveBeenCalledWith('face.replies', { durable: false, autoDelete: true });
+    expect(connections[1].channel.consume).toHaveBeenCalledWith('attendance.shift.sync', expect.any(Function), {
+      noAck: false,
+    });
+  });
+
+  it('guarda publicações enquanto desconectado e reenvia após reconectar', async () => {
+    await connection.connect();
+    connections[0].drop();
+
+    const first = connection.publish('attendance.events', 'attendance.approved', { id: '1' });
+    const second = connection.publish('attendance.events', 'attendance.rejected', { id: '2' });
+    await expect(connection.publish('attendance.events', 'attendance.recorded', { id: '3' })).rejects.toThrow(
+      'buffer de publicação cheio'
+    );
+    expect(connection.getBufferedPublishCount()).toBe(2);
+
+    await jest.advanceTimersByTimeAsync(connection.getReconnectDelay(1));
+
+    await expect(Promise.all([first, second])).resolves.toEqual([true, true]);
+    expect(connections[1].confirmChannel.publish.mock.calls.map((call) => call[1])).toEqual([
+      'attendance.approved',
+      'attendance.rejected',
+    ]);
+    expect(connection.getBufferedPublishCount()).toBe(0);
+  });
+
+  it('confirma a mensagem que falhou apenas após o broker aceitar a retentativa', async () => {
+    await connection.connect();
+    await connection.consume('attendance.shift.sync', async () => {
+      throw new Error('cache indisponível');
+    });
+    const { channel, confirmChannel } = connections[0];
+    confirmChannel.publish.mockImplementationOnce(() => true);
+
+    const onMessage = channel.consume.mock.calls[0][1] as (msg: unknown) => Promise<void>;
+    const msg = { content: Buffer.from('{"id":"evt-1"}'), properties: { messageId: 'evt-1', headers: {} } };
+    const handled = onMessage(msg);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(confirmChannel.publish.mock.calls[0][0]).toBe(retryExchangeName('attendance.shift.sync'));
+    expect(channel.publish).not.toHaveBeenCalled();
+    expect(channel.ack).not.toHaveBeenCalled();
+
+    const callback = confirmChannel.publish.mock.calls[0][4] as (err: unknown) => void;
+    callback(null);
+    await handled;
+
+    expect(channel.ack).toHaveBeenCalledWith(msg);
+    expect(channel.nack).not.toHaveBeenCalled();
+  });
+
+  it('devolve a mensagem para a queue quando o broker rejeita a republicação', async () => {
+    await connection.connect();
+    await connection.consume('attendance.shift.sync', async () => {
+      throw new Error('cache indisponível');
+    });
+    const { channel, confirmChannel } = connections[0];
+    confirmChannel.publish.mockImplementationOnce((_exchange, _routingKey, _content, _options, callback) => {
+      callback?.(new Error('nack'));
+      return true;
+    });
+
+    const onMessage = channel.consume.mock.calls[0][1] as (msg: unknown) => Promise<void>;
+    const msg = { content: Buffer.from('{"id":"evt-1"}'), properties: { messageId: 'evt-1', headers: {} } };
+    await onMessage(msg);
+
+    expect(channel.nack).toHaveBeenCalledWith(msg, false, true);
+    expect(channel.ack).not.toHaveBeenCalled();
+  });
+
+  it('aumenta o intervalo de reconexão até o teto', () => {
+    expect(connection.getReconnectDelay(1)).toBe(1000);
+    expect(connection.getReconnectDelay(3)).toBe(4000);
+    expect(connection.getReconnectDelay(10)).toBe(30000);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Testes unitários para a RetryPolicy
+ *
+ * Valida o backoff entre tentativas, o envio para a DLQ e a leitura dos headers
+ */
+
+import {
+  deadLetterQueueName,
+  getRetryCount,
+  parseRetryDelays,
+  resolveRetry,
+  retryQueueName,
+} from '../../../src/messaging/RetryPolicy';
+
+describe('RetryPolicy', () => {
+  const delays = [1000, 10000, 60000];
+
+  it('agenda as retentativas com delays crescentes', () => {
+    expect(resolveRetry(0, delays)).toEqual({ action: 'retry', attempt: 1, delayMs: 1000, routingKey: '1000ms' });
+    expect(resolveRetry(1, delays)).toMatchObject({ attempt: 2, delayMs: 10000 });
+    expect(resolveRetry(2, delays)).toMatchObject({ attempt: 3, delayMs: 60000 });
+  });
+
+  it('envia para a DLQ após esgotar as retentativas', () => {
+    expect(resolveRetry(3, delays)).toEqual({ action: 'dead-letter', attempts: 4 });
+    expect(resolveRetry(0, [])).toEqual({ action: 'dead-letter', attempts: 1 });
+  });
+
+  it('lê o contador de retentativas dos headers', () => {
+    expect(getRetryCount(undefined)).toBe(0);
+    expect(getRetryCount({ 'x-retry-count': 2 })).toBe(2);
+    expect(getRetryCount({ 'x-retry-count': 'abc' })).toBe(0);
+  });
+
+  it('interpreta RABBITMQ_RETRY_DELAYS_MS e ignora valores inválidos', () => {
+    expect(parseRetryDelays('500, 5000')).toEqual([500, 5000]);
+    expect(parseRetryDelays('x,-1')).toEqual(delays);
+    expect(parseRetryDelays(undefined)).toEqual(delays);
+  });
+
+  it('nomeia as queues de retry e DLQ a partir da queue original', () => {
+    expect(retryQueueName('attendance.shift.sync', 10000)).toBe('attendance.shift.sync.retry.10000ms');
+    expect(deadLetterQueueName('attendance.user.sync')).toBe('attendance.user.sync.dlq');
+  });
+});
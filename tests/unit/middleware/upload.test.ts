@@ -0,0 +1,57 @@
+/**
+ * Testes unitários para o middleware de upload de fotos
+ *
+ * Valida a detecção por magic bytes e o mapeamento dos erros de upload para 400/413
+ */
+
+import { Request, Response } from 'express';
+import multer from 'multer';
+import { AppError } from '../../../src/middleware/errorHandler';
+import { detectImageType, handleMulterError, validatePhotoContent } from '../../../src/middleware/upload';
+
+describe('upload middleware', () => {
+  const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+  const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+  const res = {} as Response;
+
+  const runValidation = (file?: Partial<Express.Multer.File>) => {
+    const next = jest.fn();
+    validatePhotoContent({ file } as Request, res, next);
+    return next.mock.calls[0][0];
+  };
+
+  const mapError = (error: unknown) => {
+    const next = jest.fn();
+    handleMulterError(error, {} as Request, res, next);
+    return next.mock.calls[0][0];
+  };
+
+  it('detecta JPEG e PNG pelos primeiros bytes', () => {
+    expect(detectImageType(jpeg)).toBe('image/jpeg');
+    expect(detectImageType(png)).toBe('image/png');
+    expect(detectImageType(Buffer.from('GIF89a'))).toBeNull();
+    expect(detectImageType(Buffer.alloc(0))).toBeNull();
+  });
+
+  it('aceita a foto quando o conteúdo corresponde ao tipo declarado', () => {
+    expect(runValidation({ buffer: png, mimetype: 'image/png' })).toBeUndefined();
+    expect(runValidation(undefined)).toBeUndefined();
+  });
+
+  it('rejeita conteúdo que não é imagem ou diverge do mimetype', () => {
+    const notImage = runValidation({ buffer: Buffer.from('%PDF-1.7'), mimetype: 'image/jpeg' });
+    const mismatch = runValidation({ buffer: png, mimetype: 'image/jpeg' });
+
+    expect(notImage).toBeInstanceOf(AppError);
+    expect(notImage.statusCode).toBe(400);
+    expect(mismatch.message).toContain('não corresponde ao tipo declarado');
+  });
+
+  it('mapeia erros do multer para 413 (tamanho) e 400 (demais)', () => {
+    expect(mapError(new multer.MulterError('LIMIT_FILE_SIZE', 'photo')).statusCode).toBe(413);
+    expect(mapError(new multer.MulterError('LIMIT_UNEXPECTED_FILE', 'avatar')).statusCode).toBe(400);
+
+    const other = new Error('falha inesperada');
+    expect(mapError(other)).toBe(other);
+  });
+});
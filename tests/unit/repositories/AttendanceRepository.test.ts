@@ -0,0 +1,86 @@
+/**
+ * Testes unitários para a detecção de pontos faltando do AttendanceRepository
+ *
+ * Valida NO_SHOW, MISSING_IN e MISSING_OUT com tolerância (TypeORM em memória)
+ */
+
+import { Repository } from 'typeorm';
+import {
+  AttendanceRepository,
+  MissingAttendanceShift,
+} from '../../../src/repositories/AttendanceRepository';
+import { Attendance } from '../../../src/entities/Attendance';
+
+describe('AttendanceRepository.findMissingAttendances', () => {
+  let punches: Partial<Attendance>[];
+
+  const typeorm = {
+    find: async () => punches,
+  } as unknown as Repository<Attendance>;
+
+  const repository = new AttendanceRepository(typeorm);
+
+  const shift: MissingAttendanceShift = {
+    id: 'shift-1',
+    hospitalId: 'hospital-1',
+    doctorId: 'doctor-1',
+    specialty: 'Cardiologia',
+    startTime: new Date('2025-10-20T07:00:00Z'),
+    endTime: new Date('2025-10-20T19:00:00Z'),
+  };
+
+  const options = (now: string) => ({ now: new Date(now), toleranceMinutes: 30 });
+
+  beforeEach(() => {
+    punches = [];
+  });
+
+  it('marca NO_SHOW sem nenhum ponto após o início + tolerância', async () => {
+    const result = await repository.findMissingAttendances([shift], options('2025-10-20T07:31:00Z'));
+
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({
+      shiftId: 'shift-1',
+      doctorId: 'doctor-1',
+      hospitalId: 'hospital-1',
+      date: '2025-10-20',
+      status: 'NO_SHOW',
+      hasInPunch: false,
+      hasOutPunch: false,
+    });
+  });
+
+  it('não marca falta dentro da tolerância', async () => {
+    const result = await repository.findMissingAttendances([shift], options('2025-10-20T07:29:00Z'));
+    expect(result).toEqual([]);
+  });
+
+  it('marca MISSING_OUT após o fim + tolerância e considera LATE_IN como IN', async () => {
+    punches = [{ shiftId: 'shift-1', doctorId: 'doctor-1', type: 'LATE_IN', status: 'APPROVED' }];
+
+    expect(
+      await repository.findMissingAttendances([shift], options('2025-10-20T12:00:00Z'))
+    ).toEqual([]);
+
+    const result = await repository.findMissingAttendances([shift], options('2025-10-20T19:31:00Z'));
+    expect(result[0]).toMatchObject({ status: 'MISSING_OUT', hasInPunch: true, hasOutPunch: false });
+  });
+
+  it('marca MISSING_IN quando há OUT sem IN', async () => {
+    punches = [{ shiftId: 'shift-1', doctorId: 'doctor-1', type: 'OUT', status: 'PENDING' }];
+
+    const result = await repository.findMissingAttendances([shift], options('2025-10-20T19:10:00Z'));
+    expect(result[0]).toMatchObject({ status: 'MISSING_IN', hasInPunch: false, hasOutPunch: true });
+  });
+
+  it('ignora pontos rejeitados e plantões sem médico', async () => {
+    punches = [{ shiftId: 'shift-1', doctorId: 'doctor-1', type: 'IN', status: 'REJECTED' }];
+
+    const result = await repository.findMissingAttendances(
+      [shift, { ...shift, id: 'shift-2', doctorId: undefined }],
+      options('2025-10-20T08:00:00Z')
+    );
+
+    expect(result.map((item) => [item.shiftId, item.status])).toEqual([['shift-1', 'NO_SHOW']]);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Testes unitários para as regras de desconto do AttendanceDiscountService
+ *
+ * Valida regra padrão, faixas, valor fixo, IN/OUT e override por especialidade
+ */
+
+import { AttendanceDiscountService } from '../../../src/services/AttendanceDiscountService';
+import { DiscountRule } from '../../../src/types/discountRules.types';
+
+describe('AttendanceDiscountService', () => {
+  let service: AttendanceDiscountService;
+
+  const shiftStart = new Date('2024-01-15T08:00:00Z');
+  const shiftEnd = new Date('2024-01-15T20:00:00Z');
+  const shiftValue = 1000;
+
+  const minutesAfterStart = (minutes: number) =>
+    new Date(shiftStart.getTime() + minutes * 60 * 1000);
+  const minutesBeforeEnd = (minutes: number) =>
+    new Date(shiftEnd.getTime() - minutes * 60 * 1000);
+
+  const steppedRule: DiscountRule = {
+    id: 'late-in-stepped',
+    appliesTo: 'IN',
+    mode: 'TIERED',
+    kind: 'PERCENTAGE',
+    tiers: [
+      { fromMinutes: 0, toMinutes: 15, value: 0 },
+      { fromMinutes: 16, toMinutes: 30, value: 5 },
+      { fromMinutes: 31, value: 20 },
+    ],
+  };
+
+  beforeEach(() => {
+    service = new AttendanceDiscountService();
+  });
+
+  describe('calculateTimeBasedDiscount', () => {
+    it('should keep the default rule when the policy has no rules', () => {
+      const result = service.calculateTimeBasedDiscount(
+        'IN',
+        minutesAfterStart(45),
+        shiftStart,
+        shiftEnd,
+        shiftValue
+      );
+
+      expect(result.discountPercentage).toBe(3);
+      expect(result.discountAmount).toBe(30);
+      expect(result.matchedRule?.ruleId).toBe('default');
+      expect(result.matchedRule?.isDefault).toBe(true);
+    });
+
+    it('should not discount nor match a rule when on time', () => {
+      const result = service.calculateTimeBasedDiscount(
+        'IN',
+        shiftStart,
+        shiftStart,
+        shiftEnd,
+        shiftValue,
+        [steppedRule]
+      );
+
+      expect(result.isLate).toBe(false);
+      expect(result.shouldApplyDiscount).toBe(false);
+      expect(result.matchedRule).toBeNull();
+    });
+
+    it('should apply stepped tiers', () => {
+      const grace = service.calculateTimeBasedDiscount(
+        'IN', minutesAfterStart(15), shiftStart, shiftEnd, shiftValue, [steppedRule]
+      );
+      const middle = service.calculateTimeBasedDiscount(
+        'IN', minutesAfterStart(20), shiftStart, shiftEnd, shiftValue, [steppedRule]
+      );
+      const over = service.calculateTimeBasedDiscount(
+        'IN', minutesAfterStart(90), shiftStart, shiftEnd, shiftValue, [steppedRule]
+      );
+
+      expect(grace.shouldApplyDiscount).toBe(false);
+      expect(grace.matchedRule?.tierIndex).toBe(0);
+      expect(middle.discountPercentage).toBe(5);
+      expect(middle.matchedRule?.tierIndex).toBe(1);
+      expect(over.discountPercentage).toBe(20);
+      expect(over.matchedRule?.tierIndex).toBe(2);
+    });
+
+    it('should convert flat amounts into a percentage of the shift value', () => {
+      const flatRule: DiscountRule = {
+        id: 'early-out-flat',
+        appliesTo: 'OUT',
+        mode: 'TIERED',
+        kind: 'FLAT',
+        tiers: [{ fromMinutes: 10, value: 150 }],
+      };
+
+      const result = service.calculateTimeBasedDiscount(
+        'OUT', minutesBeforeEnd(30), shiftStart, shiftEnd, shiftValue, [steppedRule, flatRule]
+      );
+
+      expect(result.discountAmount).toBe(150);
+      expect(result.discountPercentage).toBe(15);
+      expect(result.matchedRule?.ruleId).toBe('early-out-flat');
+      expect(result.matchedRule?.kind).toBe('FLAT');
+    });
+
+    it('should not discount early check-out when only check-in rules exist', () => {
+      const result = service.calculateTimeBasedDiscount(
+        'OUT', minutesBeforeEnd(60), shiftStart, shiftEnd, shiftValue, [steppedRule]
+      );
+
+      expect(result.isLate).toBe(true);
+      expect(result.shouldApplyDiscount).toBe(false);
+      expect(result.matchedRule).toBeNull();
+    });
+
+    it('should prefer the specialty override over the generic rule', () => {
+      const utiRule: DiscountRule = {
+        id: 'uti-any',
+        appliesTo: 'ANY',
+        specialty: 'UTI',
+        mode: 'INCREMENTAL',
+        kind: 'PERCENTAGE',
+        graceMinutes: 5,
+        incrementMinutes: 10,
+        incrementValue: 2,
+        maxValue: 10,
+      };
+
+      const uti = service.calculateTimeBasedDiscount(
+        'IN', minutesAfterStart(90), shiftStart, shiftEnd, shiftValue, [steppedRule, utiRule], 'uti'
+      );
+      const clinic = service.calculateTimeBasedDiscount(
+        'IN', minutesAfterStart(90), shiftStart, shiftEnd, shiftValue, [steppedRule, utiRule], 'Clínica'
+      );
+
+      expect(uti.matchedRule?.ruleId).toBe('uti-any');
+      expect(uti.discountPercentage).toBe(10); // 18% limitado ao teto de 10%
+      expect(clinic.matchedRule?.ruleId).toBe('late-in-stepped');
+      expect(clinic.discountPercentage).toBe(20);
+    });
+  });
+
+  describe('validateRules', () => {
+    it('should accept consistent rules', () => {
+      expect(service.validateRules([steppedRule])).toEqual([]);
+    });
+
+    it('should reject overlapping tiers and duplicated ids', () => {
+      const overlapping: DiscountRule = {
+        ...steppedRule,
+        tiers: [
+          { fromMinutes: 0, toMinutes: 20, value: 0 },
+          { fromMinutes: 15, value: 5 },
+        ],
+      };
+
+      const errors = service.validateRules([overlapping, steppedRule]);
+
+      expect(errors).toHaveLength(2);
+      expect(errors[0]).toContain('se sobrepõem');
+      expect(errors[1]).toContain('id duplicado');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Testes unitários para o geofencing do AttendanceGeolocationService
+ *
+ * Valida ray casting e distância até a área mais próxima (sem DB)
+ */
+
+import {
+  AttendanceGeolocationService,
+  HealthUnitData,
+} from '../../../src/services/AttendanceGeolocationService';
+
+describe('AttendanceGeolocationService', () => {
+  let service: AttendanceGeolocationService;
+
+  // Quadrado de ~110m x ~100m em São Paulo
+  const createHealthUnit = (overrides: Partial<HealthUnitData> = {}): HealthUnitData => ({
+    id: 'health-unit-1',
+    name: 'Hospital Central',
+    polygonAreas: [
+      {
+        name: 'Prédio Principal',
+        type: 'polygon',
+        coordinates: [
+          [-23.5500, -46.6340],
+          [-23.5500, -46.6330],
+          [-23.5510, -46.6330],
+          [-23.5510, -46.6340],
+        ],
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    service = new AttendanceGeolocationService();
+  });
+
+  describe('validateGeofence', () => {
+    it('should approve a point inside the polygon', () => {
+      const result = service.validateGeofence(-23.5505, -46.6335, createHealthUnit());
+
+      expect(result.withinAllowedArea).toBe(true);
+      expect(result.isWithinPolygon).toBe(true);
+      expect(result.distanceToNearestArea).toBe(0);
+      expect(result.matchedAreas).toEqual([
+        { name: 'Prédio Principal', type: 'polygon', description: undefined },
+      ]);
+    });
+
+    it('should reject a point outside the polygon', () => {
+      const result = service.validateGeofence(-23.5600, -46.6335, createHealthUnit());
+
+      expect(result.withinAllowedArea).toBe(false);
+      expect(result.hasPolygons).toBe(true);
+      expect(result.isWithinPolygon).toBe(false);
+      expect(result.matchedAreas).toEqual([]);
+      expect(result.reason).toContain('Fora da área geográfica permitida');
+    });
+
+    it('should measure distance to the nearest edge in meters', () => {
+      // ~0.001° de latitude ao sul da aresta inferior (~111m)
+      const result = service.validateGeofence(-23.5520, -46.6335, createHealthUnit());
+
+      expect(result.distanceToNearestArea).toBeGreaterThan(105);
+      expect(result.distanceToNearestArea).toBeLessThan(116);
+    });
+
+    it('should list only the areas containing the point', () => {
+      const healthUnit = createHealthUnit({
+        polygonAreas: [
+          ...createHealthUnit().polygonAreas!,
+          {
+            name: 'Anexo',
+            type: 'polygon',
+            coordinates: [
+              [-23.5600, -46.6400],
+              [-23.5600, -46.6390],
+              [-23.5610, -46.6390],
+              [-23.5610, -46.6400],
+            ],
+          },
+        ],
+      });
+
+      const result = service.validateGeofence(-23.5605, -46.6395, healthUnit);
+
+      expect(result.withinAllowedArea).toBe(true);
+      expect(result.matchedAreas?.map((a) => a.name)).toEqual(['Anexo']);
+    });
+
+    it('should handle concave polygons', () => {
+      // Formato em "U": o ponto no vão central fica fora
+      const healthUnit = createHealthUnit({
+        polygonAreas: [
+          {
+            name: 'Bloco U',
+            type: 'polygon',
+            coordinates: [
+              [-23.5500, -46.6340],
+              [-23.5500, -46.6337],
+              [-23.5507, -46.6337],
+              [-23.5507, -46.6333],
+              [-23.5500, -46.6333],
+              [-23.5500, -46.6330],
+              [-23.5510, -46.6330],
+              [-23.5510, -46.6340],
+            ],
+          },
+        ],
+      });
+
+      expect(service.validateGeofence(-23.5502, -46.6335, healthUnit).withinAllowedArea).toBe(false);
+      expect(service.validateGeofence(-23.5509, -46.6335, healthUnit).withinAllowedArea).toBe(true);
+    });
+
+    it('should not allow health units without polygons', () => {
+      const result = service.validateGeofence(
+        -23.5505,
+        -46.6335,
+        createHealthUnit({ polygonAreas: [] })
+      );
+
+      expect(result.withinAllowedArea).toBe(false);
+      expect(result.hasPolygons).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Testes unitários para a trilha de auditoria do AttendanceHistoryService
+ *
+ * Valida snapshot, diff e montagem das entradas (repository em memória)
+ */
+
+import { AttendanceHistoryService } from '../../../src/services/AttendanceHistoryService';
+import { IAttendanceHistoryRepository } from '../../../src/repositories/AttendanceHistoryRepository';
+import { Attendance } from '../../../src/entities/Attendance';
+import { AttendanceHistory } from '../../../src/entities/AttendanceHistory';
+
+describe('AttendanceHistoryService', () => {
+  let saved: AttendanceHistory[];
+  let service: AttendanceHistoryService;
+
+  const repository: IAttendanceHistoryRepository = {
+    findByAttendance: async (attendanceId) => saved.filter((h) => h.attendanceId === attendanceId),
+    create: (data) => data as AttendanceHistory,
+    save: async (entries) => {
+      saved.push(...entries);
+      return entries;
+    },
+  };
+
+  const createAttendance = (overrides: Partial<Attendance> = {}): Attendance =>
+    ({
+      id: 'attendance-1',
+      type: 'IN',
+      status: 'PENDING',
+      statusReason: 'Fora da área geográfica permitida',
+      reason: 'Trânsito na marginal',
+      timestamp: new Date('2024-01-15T08:20:00Z'),
+      isLate: true,
+      lateMinutes: 20,
+      hasAutomaticDiscount: true,
+      discountPercentage: '1.00' as unknown as number, // decimal do Postgres
+      approvedWithDiscount: false,
+      policyVersionId: null,
+      ...overrides,
+    }) as Attendance;
+
+  beforeEach(() => {
+    saved = [];
+    service = new AttendanceHistoryService(repository);
+  });
+
+  it('should snapshot audited fields with serializable values', () => {
+    const snapshot = service.snapshot(createAttendance());
+
+    expect(snapshot.timestamp).toBe('2024-01-15T08:20:00.000Z');
+    expect(snapshot.discountPercentage).toBe(1);
+    expect(snapshot.policyVersionId).toBeNull();
+  });
+
+  it('should record only the changed fields', async () => {
+    const attendance = createAttendance();
+    const before = service.snapshot(attendance);
+
+    attendance.status = 'APPROVED';
+    attendance.approvedWithDiscount = true;
+
+    await service.record([
+      {
+        attendanceId: attendance.id,
+        action: 'APPROVED',
+        before,
+        after: service.snapshot(attendance),
+        actor: { id: 'manager-1', role: 'client_hospital', ip: '10.0.0.1' },
+        reason: 'Atraso justificado',
+      },
+    ]);
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].changes).toEqual({
+      status: { before: 'PENDING', after: 'APPROVED' },
+      approvedWithDiscount: { before: false, after: true },
+    });
+    expect(saved[0].actorId).toBe('manager-1');
+    expect(saved[0].ip).toBe('10.0.0.1');
+    expect(saved[0].reason).toBe('Atraso justificado');
+  });
+
+  it('should record every field as new on creation', async () => {
+    await service.record([
+      {
+        attendanceId: 'attendance-1',
+        action: 'CREATED',
+        before: null,
+        after: service.snapshot(createAttendance()),
+      },
+    ]);
+
+    expect(saved[0].changes.status).toEqual({ before: null, after: 'PENDING' });
+    expect(saved[0].changes.reason).toEqual({ before: null, after: 'Trânsito na marginal' });
+    expect(saved[0].changes.policyVersionId).toBeUndefined(); // null → null não é mudança
+    expect(saved[0].actorId).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Testes unitários para o AttendanceNoShowService
+ *
+ * Valida a deduplicação de faltas (insertNew) e a republicação de eventos pendentes
+ * (repository em memória com o mesmo índice único de attendance_no_show)
+ */
+
+import { AttendanceNoShowService } from '../../../src/services/AttendanceNoShowService';
+import { IAttendanceNoShowRepository } from '../../../src/repositories/AttendanceNoShowRepository';
+import { IAttendanceRepository, MissingAttendance } from '../../../src/repositories/AttendanceRepository';
+import { AttendanceNoShow } from '../../../src/entities/AttendanceNoShow';
+import { ShiftCacheService } from '../../../src/services/cache/ShiftCacheService';
+import { AttendanceEventPublisher } from '../../../src/events/AttendanceEventPublisher';
+
+describe('AttendanceNoShowService', () => {
+  const now = new Date('2025-10-20T12:00:00Z');
+  let rows: AttendanceNoShow[];
+  let missing: MissingAttendance[];
+  let publishAttendanceMissing: jest.Mock;
+  let service: AttendanceNoShowService;
+
+  const createMissing = (shiftId: string, status: MissingAttendance['status']): MissingAttendance => ({
+    date: '2025-10-20',
+    shiftId,
+    hospitalId: 'hospital-1',
+    doctorId: 'doctor-1',
+    shiftStart: new Date('2025-10-20T08:00:00Z'),
+    shiftEnd: new Date('2025-10-20T11:00:00Z'),
+    hasInPunch: status === 'MISSING_OUT',
+    hasOutPunch: false,
+    status,
+  });
+
+  const repository: IAttendanceNoShowRepository = {
+    insertNew: async (newRows) => {
+      let inserted = 0;
+      for (const row of newRows) {
+        const duplicate = rows.some(
+          (existing) =>
+            existing.shiftId === row.shiftId &&
+            existing.doctorId === row.doctorId &&
+            existing.status === row.status
+        );
+        if (duplicate) continue;
+
+        rows.push({
+          ...row,
+          id: `no-show-${rows.length + 1}`,
+          eventPublished: false,
+          detectedAt: now,
+        } as AttendanceNoShow);
+        inserted++;
+      }
+      return inserted;
+    },
+    findUnpublished: async (limit) => rows.filter((row) => !row.eventPublished).slice(0, limit),
+    markPublished: async (ids) => {
+      rows.filter((row) => ids.includes(row.id)).forEach((row) => (row.eventPublished = true));
+    },
+  };
+
+  beforeEach(() => {
+    rows = [];
+    missing = [createMissing('shift-1', 'NO_SHOW'), createMissing('shift-2', 'MISSING_OUT')];
+    publishAttendanceMissing = jest.fn().mockResolvedValue(undefined);
+
+    service = new AttendanceNoShowService(
+      { findMissingAttendances: async () => missing } as unknown as IAttendanceRepository,
+      repository,
+      { getShiftsStartedOrEndedInRange: async () => [] } as unknown as ShiftCacheService,
+      { publishAttendanceMissing } as unknown as AttendanceEventPublisher
+    );
+  });
+
+  it('registra e publica as faltas detectadas', async () => {
+    const result = await service.detectAndMark(now);
+
+    expect(result).toEqual({ detected: 2, marked: 2, published: 2 });
+    expect(publishAttendanceMissing).toHaveBeenCalledTimes(2);
+    expect(publishAttendanceMissing.mock.calls[0][0]).toMatchObject({
+      noShowId: 'no-show-1',
+      shiftId: 'shift-1',
+      status: 'NO_SHOW',
+    });
+    expect(rows.every((row) => row.eventPublished)).toBe(true);
+  });
+
+  it('não registra nem publica de novo faltas já conhecidas', async () => {
+    await service.detectAndMark(now);
+    publishAttendanceMissing.mockClear();
+
+    const result = await service.detectAndMark(now);
+
+    expect(result).toEqual({ detected: 2, marked: 0, published: 0 });
+    expect(rows).toHaveLength(2);
+    expect(publishAttendanceMissing).not.toHaveBeenCalled();
+  });
+
+  it('republica na próxima execução os eventos que falharam', async () => {
+    publishAttendanceMissing.mockRejectedValueOnce(new Error('broker indisponível'));
+
+    const first = await service.detectAndMark(now);
+    expect(first).toEqual({ detected: 2, marked: 2, published: 1 });
+    expect(rows.find((row) => row.shiftId === 'shift-1')?.eventPublished).toBe(false);
+
+    publishAttendanceMissing.mockClear();
+    const second = await service.detectAndMark(now);
+
+    expect(second).toEqual({ detected: 2, marked: 0, published: 1 });
+    expect(publishAttendanceMissing).toHaveBeenCalledTimes(1);
+    expect(publishAttendanceMissing.mock.calls[0][0]).toMatchObject({ shiftId: 'shift-1' });
+    expect(rows.every((row) => row.eventPublished)).toBe(true);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * Testes unitários para resolução de políticas versionadas
+ *
+ * Usa repository em memória (sem DB); Redis não conectado = sem cache
+ */
+
+import { QueryFailedError } from 'typeorm';
+import {
+  AttendancePolicyService,
+  DEFAULT_ATTENDANCE_POLICY,
+} from '../../../src/services/AttendancePolicyService';
+import { IAttendancePolicyRepository } from '../../../src/repositories/AttendancePolicyRepository';
+import { AttendancePolicy } from '../../../src/entities/AttendancePolicy';
+import { redisCache } from '../../../src/services/cache/RedisCache';
+
+describe('AttendancePolicyService', () => {
+  const HOSPITAL_ID = 'hospital-1';
+  const HEALTH_UNIT_ID = 'health-unit-1';
+
+  const createVersion = (overrides: Partial<AttendancePolicy> = {}): AttendancePolicy =>
+    ({
+      id: `version-${Math.random()}`,
+      policyId: 'policy-hospital',
+      version: 1,
+      effectiveFrom: new Date('2024-01-01T00:00:00Z'),
+      hospitalId: HOSPITAL_ID,
+      healthUnitId: null,
+      maxDistanceMeters: 100,
+      outTimeWindowMs: 4 * 60 * 60 * 1000,
+      useDistance: false,
+      useTimeWindow: true,
+      excludedMedicIds: [],
+      createdBy: null,
+      changeReason: null,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+      ...overrides,
+    }) as AttendancePolicy;
+
+  const createRepository = (versions: AttendancePolicy[]): IAttendancePolicyRepository => ({
+    findById: async (id) => versions.find((v) => v.id === id) ?? null,
+    findVersions: async (policyId) => versions.filter((v) => v.policyId === policyId),
+    findLatestVersion: async (policyId) =>
+      versions
+        .filter((v) => v.policyId === policyId)
+        .sort((a, b) => b.version - a.version)[0] ?? null,
+    findScopeVersions: async (hospitalId, healthUnitId) =>
+      versions.filter((v) => v.hospitalId === hospitalId && v.healthUnitId === healthUnitId),
+    findByHospital: async (hospitalId) => versions.filter((v) => v.hospitalId === hospitalId),
+    saveNextVersion: async (policyId, build) => {
+      const latest = versions
+        .filter((v) => v.policyId === policyId)
+        .sort((a, b) => b.version - a.version)[0];
+      return latest ? build(latest) : null;
+    },
+    create: (data) => data as AttendancePolicy,
+    save: async (policy) => policy,
+  });
+
+  it('should fall back to the global default without policies', async () => {
+    const service = new AttendancePolicyService(createRepository([]));
+
+    const policy = await service.getEffectiveForShift(HOSPITAL_ID);
+
+    expect(policy.source).toBe('default');
+    expect(policy.outTimeWindowMs).toBe(DEFAULT_ATTENDANCE_POLICY.outTimeWindowMs);
+  });
+
+  it('should pick the version in force at the punch timestamp', async () => {
+    const service = new AttendancePolicyService(
+      createRepository([
+        createVersion({ version: 1, outTimeWindowMs: 1000 }),
+        createVersion({
+          version: 2,
+          outTimeWindowMs: 2000,
+          effectiveFrom: new Date('2024-03-01T00:00:00Z'),
+        }),
+      ])
+    );
+
+    const february = await service.getEffectiveForShift(
+      HOSPITAL_ID,
+      undefined,
+      new Date('2024-02-15T10:00:00Z')
+    );
+    const april = await service.getEffectiveForShift(
+      HOSPITAL_ID,
+      undefined,
+      new Date('2024-04-15T10:00:00Z')
+    );
+
+    expect(february.version).toBe(1);
+    expect(february.outTimeWindowMs).toBe(1000);
+    expect(april.version).toBe(2);
+    expect(april.outTimeWindowMs).toBe(2000);
+  });
+
+  it('should ignore versions scheduled for the future', async () => {
+    const service = new AttendancePolicyService(
+      createRepository([
+        createVersion({
+          effectiveFrom: new Date('2024-06-01T00:00:00Z'),
+        }),
+      ])
+    );
+
+    const policy = await service.getEffectiveForShift(
+      HOSPITAL_ID,
+      undefined,
+      new Date('2024-05-01T00:00:00Z')
+    );
+
+    expect(policy.source).toBe('default');
+  });
+
+  it('should prefer the health unit override over the hospital policy', async () => {
+    const service = new AttendancePolicyService(
+      createRepository([
+        createVersion({ maxDistanceMeters: 100 }),
+        createVersion({
+          policyId: 'policy-unit',
+          healthUnitId: HEALTH_UNIT_ID,
+          maxDistanceMeters: 30,
+        }),
+      ])
+    );
+
+    const unitPolicy = await service.getEffectiveForShift(HOSPITAL_ID, HEALTH_UNIT_ID);
+    const otherUnitPolicy = await service.getEffectiveForShift(HOSPITAL_ID, 'other-unit');
+
+    expect(unitPolicy.source).toBe('healthunit');
+    expect(unitPolicy.maxDistanceMeters).toBe(30);
+    expect(otherUnitPolicy.source).toBe('hospital');
+    expect(otherUnitPolicy.maxDistanceMeters).toBe(100);
+  });
+
+  it('should create a new version inheriting omitted fields on update', async () => {
+    const service = new AttendancePolicyService(
+      createRepository([createVersion({ maxDistanceMeters: 80, useDistance: true })])
+    );
+
+    const updated = await service.updatePolicy('policy-hospital', { outTimeWindowMs: 5000 }, 'admin-1');
+
+    expect(updated.version).toBe(2);
+    expect(updated.outTimeWindowMs).toBe(5000);
+    expect(updated.maxDistanceMeters).toBe(80);
+    expect(updated.useDistance).toBe(true);
+    expect(updated.createdBy).toBe('admin-1');
+  });
+
+  it('should return 404 when updating an unknown policy', async () => {
+    const service = new AttendancePolicyService(createRepository([]));
+
+    await expect(service.updatePolicy('missing', { outTimeWindowMs: 5000 })).rejects.toMatchObject({ code: 404 });
+  });
+
+  it('should return 409 when a concurrent write hits a unique index', async () => {
+    const uniqueViolation = new QueryFailedError('INSERT', [], Object.assign(new Error('duplicate key'), { code: '23505' }));
+    const repository = createRepository([createVersion()]);
+    repository.saveNextVersion = async () => {
+      throw uniqueViolation;
+    };
+    repository.save = async () => {
+      throw uniqueViolation;
+    };
+    const service = new AttendancePolicyService(repository);
+
+    await expect(service.updatePolicy('policy-hospital', { outTimeWindowMs: 5000 })).rejects.toMatchObject({
+      code: 409,
+    });
+    await expect(
+      service.createPolicy({ hospitalId: HOSPITAL_ID, healthUnitId: HEALTH_UNIT_ID })
+    ).rejects.toMatchObject({ code: 409 });
+  });
+
+  it('should reject an empty validation strategy list', async () => {
+    const service = new AttendancePolicyService(createRepository([createVersion()]));
+
+    await expect(
+      service.updatePolicy('policy-hospital', { validationStrategies: [] })
+    ).rejects.toMatchObject({ code: 400 });
+    await expect(
+      service.createPolicy({ hospitalId: HOSPITAL_ID, healthUnitId: HEALTH_UNIT_ID, validationStrategies: [] })
+    ).rejects.toMatchObject({ code: 400 });
+  });
+
+  it('should reject retroactive effective dates', async () => {
+    const service = new AttendancePolicyService(createRepository([createVersion()]));
+
+    await expect(
+      service.updatePolicy('policy-hospital', { effectiveFrom: '2020-01-01T00:00:00Z' })
+    ).rejects.toThrow('effectiveFrom não pode estar no passado');
+  });
+});
+
+describe('AttendancePolicyService (cache)', () => {
+  const HOSPITAL_ID = 'hospital-1';
+  const HEALTH_UNIT_ID = 'health-unit-1';
+
+  const hospitalVersion = {
+    id: 'version-hospital',
+    policyId: 'policy-hospital',
+    version: 1,
+    effectiveFrom: new Date('2024-01-01T00:00:00Z'),
+    hospitalId: HOSPITAL_ID,
+    healthUnitId: null,
+    maxDistanceMeters: 100,
+    outTimeWindowMs: 1000,
+    useDistance: false,
+    useTimeWindow: true,
+    excludedMedicIds: [],
+  } as unknown as AttendancePolicy;
+
+  let versions: AttendancePolicy[];
+  let findScopeVersions: jest.Mock;
+  let service: AttendancePolicyService;
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  beforeEach(async () => {
+    versions = [{ ...hospitalVersion }];
+    findScopeVersions = jest.fn(async (hospitalId: string, healthUnitId: string | null) =>
+      versions.filter((v) => v.hospitalId === hospitalId && v.healthUnitId === healthUnitId)
+    );
+    service = new AttendancePolicyService({
+      findById: async () => null,
+      findVersions: async (policyId) => versions.filter((v) => v.policyId === policyId),
+      findLatestVersion: async (policyId) =>
+        versions.filter((v) => v.policyId === policyId).sort((a, b) => b.version - a.version)[0] ?? null,
+      saveNextVersion: async (policyId, build) => {
+        const latest = versions.filter((v) => v.policyId === policyId).sort((a, b) => b.version - a.version)[0];
+        if (!latest) return null;
+        const next = build(latest);
+        versions.push(next);
+        return next;
+      },
+      findScopeVersions,
+      findByHospital: async () => versions,
+      create: (data) => data as AttendancePolicy,
+      save: async (policy) => {
+        versions.push(policy);
+        return policy;
+      },
+    });
+    await service.invalidate(HOSPITAL_ID, null);
+    await service.invalidate(HOSPITAL_ID, HEALTH_UNIT_ID);
+  });
+
+  it('should resolve health unit → hospital → default and cache each scope', async () => {
+    const first = await service.getEffectiveForShift(HOSPITAL_ID, HEALTH_UNIT_ID);
+    const second = await service.getEffectiveForShift(HOSPITAL_ID, HEALTH_UNIT_ID);
+
+    expect(first.source).toBe('hospital');
+    expect(second).toEqual(first);
+    expect(second.effectiveFrom).toBeInstanceOf(Date);
+    // Unidade (sem override) e hospital: uma leitura no banco por escopo
+    expect(findScopeVersions).toHaveBeenCalledTimes(2);
+    expect(findScopeVersions).toHaveBeenCalledWith(HOSPITAL_ID, HEALTH_UNIT_ID);
+    expect(findScopeVersions).toHaveBeenCalledWith(HOSPITAL_ID, null);
+
+    const fallback = await service.getEffectiveForShift('hospital-without-policy');
+    expect(fallback.source).toBe('default');
+  });
+
+  it('should invalidate the scope cache when a new version is saved', async () => {
+    const before = await service.getEffectiveForShift(HOSPITAL_ID);
+    expect(before.outTimeWindowMs).toBe(1000);
+
+    await service.updatePolicy('policy-hospital', { outTimeWindowMs: 2000 });
+    const after = await service.getEffectiveForShift(HOSPITAL_ID);
+
+    expect(after.version).toBe(2);
+    expect(after.outTimeWindowMs).toBe(2000);
+    expect(findScopeVersions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pick up a new health unit override after it is created', async () => {
+    expect((await service.getEffectiveForShift(HOSPITAL_ID, HEALTH_UNIT_ID)).source).toBe('hospital');
+
+    await service.createPolicy({ hospitalId: HOSPITAL_ID, healthUnitId: HEALTH_UNIT_ID, maxDistanceMeters: 30 });
+    const policy = await service.getEffectiveForShift(HOSPITAL_ID, HEALTH_UNIT_ID);
+
+    expect(policy.source).toBe('healthunit');
+    expect(policy.maxDistanceMeters).toBe(30);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Testes unitários para validações de correção de ponto do AttendanceValidationService
+ *
+ * Valida a janela do horário proposto (futuro e ± tolerância do plantão)
+ */
+
+import { AttendanceValidationService } from '../../../src/services/AttendanceValidationService';
+import { AttendanceRepository } from '../../../src/repositories/AttendanceRepository';
+import { AppError } from '../../../src/errors/AppError';
+
+describe('AttendanceValidationService', () => {
+  const service = new AttendanceValidationService({} as AttendanceRepository);
+
+  const shiftStart = new Date('2025-10-20T07:00:00Z');
+  const shiftEnd = new Date('2025-10-20T19:00:00Z');
+  const now = new Date('2025-10-21T12:00:00Z');
+
+  const expectError = (proposed: Date, code: number) => {
+    expect(() =>
+      service.validateCorrectionTimestamp(proposed, shiftStart, shiftEnd, now)
+    ).toThrow(expect.objectContaining({ code }));
+    expect(() =>
+      service.validateCorrectionTimestamp(proposed, shiftStart, shiftEnd, now)
+    ).toThrow(AppError);
+  };
+
+  describe('validateCorrectionTimestamp', () => {
+    it('aceita horário dentro do plantão', () => {
+      expect(() =>
+        service.validateCorrectionTimestamp(
+          new Date('2025-10-20T07:20:00Z'),
+          shiftStart,
+          shiftEnd,
+          now
+        )
+      ).not.toThrow();
+    });
+
+    it('aceita horário dentro da tolerância após o fim do plantão', () => {
+      expect(() =>
+        service.validateCorrectionTimestamp(
+          new Date('2025-10-21T06:00:00Z'),
+          shiftStart,
+          shiftEnd,
+          now
+        )
+      ).not.toThrow();
+    });
+
+    it('rejeita horário no futuro', () => {
+      expectError(new Date('2025-10-21T12:30:00Z'), 400);
+    });
+
+    it('rejeita horário fora da tolerância do plantão', () => {
+      expectError(new Date('2025-10-19T18:00:00Z'), 400);
+      expectError(new Date('2025-10-21T08:00:00Z'), 400);
+    });
+  });
+
+  describe('applyFaceVerification', () => {
+    const face = { verified: true, confidence: 0.93, requiredConfidence: 0.85, attempts: 1 };
+
+    it('mantém o status sem verificação facial ou com face verificada', () => {
+      expect(service.applyFaceVerification('APPROVED', 'Dentro da área', undefined)).toEqual({
+        status: 'APPROVED',
+        statusReason: 'Dentro da área',
+      });
+      expect(service.applyFaceVerification('APPROVED', 'Dentro da área', face)).toEqual({
+        status: 'APPROVED',
+        statusReason: 'Dentro da área',
+      });
+    });
+
+    it('rebaixa APPROVED para PENDING quando a face não corresponde', () => {
+      const result = service.applyFaceVerification('APPROVED', 'Dentro da área', {
+        ...face,
+        verified: false,
+        confidence: 0.42,
+        attempts: 3,
+      });
+
+      expect(result.status).toBe('PENDING');
+      expect(result.statusReason).toBe(
+        'Face não corresponde ao cadastro: confiança 42.0% (mínimo 85.0%), 3 tentativas; Dentro da área'
+      );
+    });
+
+    it('rebaixa para PENDING com confiança abaixo do limiar', () => {
+      const result = service.applyFaceVerification('APPROVED', undefined, { ...face, confidence: 0.8 });
+
+      expect(result.status).toBe('PENDING');
+      expect(result.statusReason).toBe('Verificação facial com confiança baixa: 80.0% (mínimo 85.0%)');
+    });
+
+    it('rebaixa para PENDING quando a prova de vida falha, mesmo com a face verificada', () => {
+      const result = service.applyFaceVerification('APPROVED', 'Dentro da área', { ...face, livenessPassed: false });
+
+      expect(result.status).toBe('PENDING');
+      expect(result.statusReason).toBe('Prova de vida não confirmada (possível foto ou vídeo); Dentro da área');
+      expect(service.applyFaceVerification('APPROVED', undefined, { ...face, livenessPassed: true }).status).toBe(
+        'APPROVED'
+      );
+    });
+
+    it('mantém REJECTED', () => {
+      const result = service.applyFaceVerification('REJECTED', 'Coordenadas suspeitas', { ...face, verified: false });
+
+      expect(result.status).toBe('REJECTED');
+      expect(result.statusReason).toContain('Coordenadas suspeitas');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Testes unitários para o CacheResyncService
+ *
+ * Valida a paginação dos snapshots e o isolamento de falhas entre shifts e users
+ */
+
+import { CacheResyncService } from '../../../src/services/CacheResyncService';
+import { RabbitMQRequestReplyService } from '../../../src/services/RabbitMQRequestReplyService';
+import { ShiftCacheService } from '../../../src/services/cache/ShiftCacheService';
+import { UserCacheService } from '../../../src/services/cache/UserCacheService';
+import { AppError } from '../../../src/errors/AppError';
+
+describe('CacheResyncService', () => {
+  const shiftData = (id: string) => ({
+    id,
+    hospitalId: 'hospital-1',
+    value: 1000,
+    specialty: 'Cardiologia',
+    startTime: '2025-10-20T07:00:00Z',
+    endTime: '2025-10-20T19:00:00Z',
+    status: 'open',
+    approvalStatus: 'PENDING',
+    createdAt: '2025-10-01T00:00:00Z',
+  });
+
+  const requestReply = (sendRequest: jest.Mock, isInitialized = true) =>
+    ({
+      sendRequest,
+      getStats: () => ({ isInitialized, pendingRequests: 0, replyQueue: 'test' }),
+    }) as unknown as RabbitMQRequestReplyService;
+
+  let shiftCache: { cacheShift: jest.Mock; isCacheEmpty: jest.Mock; getRetentionCutoff: jest.Mock };
+  let userCache: { cacheUser: jest.Mock; isCacheEmpty: jest.Mock };
+
+  beforeEach(() => {
+    shiftCache = {
+      cacheShift: jest.fn(),
+      isCacheEmpty: jest.fn().mockResolvedValue(true),
+      getRetentionCutoff: jest.fn().mockReturnValue(new Date('2025-09-15T00:00:00Z')),
+    };
+    userCache = {
+      cacheUser: jest.fn(),
+      isCacheEmpty: jest.fn().mockResolvedValue(false),
+    };
+  });
+
+  const createService = (shiftRequests: RabbitMQRequestReplyService, userRequests: RabbitMQRequestReplyService) =>
+    new CacheResyncService(
+      shiftCache as unknown as ShiftCacheService,
+      userCache as unknown as UserCacheService,
+      shiftRequests,
+      userRequests
+    );
+
+  it('percorre as páginas do snapshot até hasMore=false', async () => {
+    const sendShifts = jest
+      .fn()
+      .mockResolvedValueOnce({ data: { items: [shiftData('s1'), shiftData('s2')], page: 1, hasMore: true } })
+      .mockResolvedValueOnce({ data: { items: [shiftData('s3')], page: 2, hasMore: false } });
+    const service = createService(requestReply(sendShifts), requestReply(jest.fn()));
+
+    const result = await service.resync(['shifts']);
+
+    expect(result.shifts).toEqual({ pages: 2, cached: 3 });
+    expect(result.users).toBeUndefined();
+    expect(shiftCache.cacheShift).toHaveBeenCalledTimes(3);
+    expect(shiftCache.cacheShift.mock.calls[0][0].startTime).toBeInstanceOf(Date);
+    expect(sendShifts.mock.calls[1][1].data).toEqual({
+      page: 2,
+      pageSize: 500,
+      endAfter: '2025-09-15T00:00:00.000Z',
+    });
+  });
+
+  it('registra a falha de um alvo sem interromper o outro', async () => {
+    const sendShifts = jest.fn().mockRejectedValue(new AppError(504, 'Request timeout'));
+    const sendUsers = jest.fn().mockResolvedValue({
+      data: {
+        items: [{ id: 'u1', username: 'dra.ana', email: 'a@h.com', cpfCnpj: '1', role: 'client_medic', use2FA: false, createdAt: '2025-10-01T00:00:00Z' }],
+        page: 1,
+        hasMore: false,
+      },
+    });
+    const service = createService(requestReply(sendShifts), requestReply(sendUsers));
+
+    const result = await service.resync();
+
+    expect(result.shifts).toEqual({ pages: 0, cached: 0, error: 'Request timeout' });
+    expect(result.users).toEqual({ pages: 1, cached: 1 });
+    expect(service.isRunning()).toBe(false);
+  });
+
+  it('não envia requests quando o Request/Reply não foi inicializado', async () => {
+    const sendShifts = jest.fn();
+    const service = createService(requestReply(sendShifts, false), requestReply(jest.fn()));
+
+    const result = await service.resync(['shifts']);
+
+    expect(result.shifts?.error).toBe('Request/Reply não inicializado');
+    expect(sendShifts).not.toHaveBeenCalled();
+  });
+
+  it('no startup faz resync apenas dos caches vazios', async () => {
+    const sendShifts = jest.fn().mockResolvedValue({ data: { items: [], page: 1, hasMore: false } });
+    const sendUsers = jest.fn();
+    const service = createService(requestReply(sendShifts), requestReply(sendUsers));
+
+    const result = await service.resyncIfEmpty();
+
+    expect(result?.shifts).toEqual({ pages: 1, cached: 0 });
+    expect(sendUsers).not.toHaveBeenCalled();
+  });
+
+  it('rejeita um segundo resync enquanto o primeiro está em andamento', async () => {
+    let release!: () => void;
+    const sendShifts = jest.fn().mockImplementation(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve({ data: { items: [], page: 1, hasMore: false } });
+        })
+    );
+    const service = createService(requestReply(sendShifts), requestReply(jest.fn()));
+
+    const first = service.resync(['shifts']);
+    await expect(service.resync(['shifts'])).rejects.toMatchObject({ code: 409 });
+
+    release();
+    await first;
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Testes unitários para o replay da DLQ (DeadLetterService)
+ *
+ * Valida que a mensagem só sai da DLQ após a confirmação da republicação (canal simulado)
+ */
+
+import { DeadLetterService } from '../../../src/services/DeadLetterService';
+import { RETRY_HEADERS } from '../../../src/messaging/RetryPolicy';
+
+describe('DeadLetterService', () => {
+  type ConfirmCallback = (err: unknown) => void;
+
+  let messages: Array<{ content: Buffer; properties: { messageId: string; headers: Record<string, unknown> } }>;
+  let channel: {
+    get: jest.Mock;
+    sendToQueue: jest.Mock;
+    ack: jest.Mock;
+    nack: jest.Mock;
+    close: jest.Mock;
+  };
+  let service: DeadLetterService;
+
+  beforeEach(() => {
+    messages = [
+      {
+        content: Buffer.from(JSON.stringify({ id: 'evt-1' })),
+        properties: { messageId: 'evt-1', headers: { [RETRY_HEADERS.RETRY_COUNT]: 3 } },
+      },
+    ];
+    channel = {
+      get: jest.fn(async () => messages.shift() ?? false),
+      sendToQueue: jest.fn((_queue: string, _content: Buffer, _options: unknown, callback: ConfirmCallback) => {
+        callback(null);
+        return true;
+      }),
+      ack: jest.fn(),
+      nack: jest.fn(),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new DeadLetterService({
+      isConnected: () => true,
+      createConfirmChannel: async () => channel as never,
+    });
+  });
+
+  it('republica na queue original e confirma na DLQ após o broker confirmar', async () => {
+    const result = await service.replay('shift');
+
+    expect(result.replayed).toEqual(['evt-1']);
+    expect(channel.sendToQueue).toHaveBeenCalledWith(
+      'attendance.shift.sync',
+      expect.any(Buffer),
+      expect.objectContaining({
+        headers: expect.objectContaining({ [RETRY_HEADERS.RETRY_COUNT]: 0 }),
+      }),
+      expect.any(Function)
+    );
+    expect(channel.sendToQueue.mock.invocationCallOrder[0]).toBeLessThan(channel.ack.mock.invocationCallOrder[0]);
+  });
+
+  it('mantém a mensagem na DLQ quando o broker rejeita a republicação', async () => {
+    channel.sendToQueue.mockImplementationOnce(
+      (_queue: string, _content: Buffer, _options: unknown, callback: ConfirmCallback) => {
+        callback(new Error('nack'));
+        return true;
+      }
+    );
+
+    await expect(service.replay('shift')).rejects.toThrow('nack');
+
+    expect(channel.ack).not.toHaveBeenCalled();
+    expect(channel.nack).toHaveBeenCalledWith(expect.anything(), false, true);
+    expect(channel.close).toHaveBeenCalled();
+  });
+});
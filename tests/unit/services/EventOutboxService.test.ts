@@ -0,0 +1,101 @@
+/**
+ * Testes unitários para o relay do EventOutboxService
+ *
+ * Valida a publicação em ordem, o backoff em falha e o cálculo de lag (repository em memória)
+ */
+
+import { EventOutboxService, outboxRetryDelay } from '../../../src/services/EventOutboxService';
+import { IEventOutboxRepository } from '../../../src/repositories/EventOutboxRepository';
+import { AttendanceEventPublisher } from '../../../src/events/AttendanceEventPublisher';
+import { EventOutbox } from '../../../src/entities/EventOutbox';
+
+describe('EventOutboxService', () => {
+  const now = new Date('2025-10-20T12:00:00Z');
+  let rows: EventOutbox[];
+  let publishOutboxEvent: jest.Mock;
+  let service: EventOutboxService;
+
+  const createRow = (id: string, createdAt: Date): EventOutbox =>
+    ({
+      id,
+      eventType: 'attendance.approved',
+      aggregateId: `attendance-${id}`,
+      aggregateType: 'attendance',
+      exchange: 'attendance.events',
+      routingKey: 'attendance.approved',
+      payload: { id },
+      status: 'PENDING',
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: createdAt,
+      createdAt,
+      sentAt: null,
+    }) as EventOutbox;
+
+  const repository: IEventOutboxRepository = {
+    enqueue: async () => undefined,
+    processDue: async (limit, at, handler) => {
+      const due = rows
+        .filter((row) => row.status === 'PENDING' && row.nextAttemptAt <= at)
+        .slice(0, limit);
+      if (due.length > 0) await handler(due);
+      return due.length;
+    },
+    getBacklog: async () => {
+      const pending = rows.filter((row) => row.status === 'PENDING');
+      return {
+        pending: pending.length,
+        oldestPendingAt: pending.length > 0 ? pending[0].createdAt : null,
+      };
+    },
+    deleteSentBefore: async () => 0,
+  };
+
+  beforeEach(() => {
+    rows = [
+      createRow('1', new Date('2025-10-20T11:59:00Z')),
+      createRow('2', new Date('2025-10-20T11:59:30Z')),
+    ];
+    publishOutboxEvent = jest.fn().mockResolvedValue(undefined);
+    service = new EventOutboxService(repository, {
+      publishOutboxEvent,
+    } as unknown as AttendanceEventPublisher);
+  });
+
+  it('publica os eventos pendentes e marca como enviados', async () => {
+    const result = await service.relayBatch(now);
+
+    expect(result).toEqual({ claimed: 2, sent: 2 });
+    expect(publishOutboxEvent.mock.calls.map(([row]) => row.id)).toEqual(['1', '2']);
+    expect(rows.every((row) => row.status === 'SENT' && row.sentAt)).toBe(true);
+  });
+
+  it('interrompe o lote na primeira falha e reagenda com backoff', async () => {
+    publishOutboxEvent.mockRejectedValueOnce(new Error('Channel closed'));
+
+    const result = await service.relayBatch(now);
+
+    expect(result).toEqual({ claimed: 2, sent: 0 });
+    expect(publishOutboxEvent).toHaveBeenCalledTimes(1);
+    expect(rows[0]).toMatchObject({ status: 'PENDING', attempts: 1, lastError: 'Channel closed' });
+    expect(rows[0].nextAttemptAt.getTime()).toBe(now.getTime() + outboxRetryDelay(1));
+    expect(rows[1].attempts).toBe(0);
+  });
+
+  it('calcula o lag pelo evento pendente mais antigo', async () => {
+    expect(await service.getLag(now)).toEqual({
+      pending: 2,
+      oldestPendingAt: '2025-10-20T11:59:00.000Z',
+      lagSeconds: 60,
+    });
+
+    await service.relayBatch(now);
+    expect(await service.getLag(now)).toEqual({ pending: 0, oldestPendingAt: null, lagSeconds: 0 });
+  });
+
+  it('aumenta o intervalo entre tentativas até o teto', () => {
+    expect(outboxRetryDelay(1, 1000, 300000)).toBe(1000);
+    expect(outboxRetryDelay(3, 1000, 300000)).toBe(4000);
+    expect(outboxRetryDelay(20, 1000, 300000)).toBe(300000);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Testes unitários para o cadastro facial (situação por usuário)
+ */
+
+import { FaceEnrollmentService } from '../../../src/services/FaceEnrollmentService';
+import { FaceRecognitionService } from '../../../src/services/FaceRecognitionService';
+import { IFaceEnrollmentRepository } from '../../../src/repositories/FaceEnrollmentRepository';
+import { FaceEnrollment } from '../../../src/entities/FaceEnrollment';
+
+describe('FaceEnrollmentService', () => {
+  const photo = { buffer: Buffer.from([0xff, 0xd8, 0xff]), mimetype: 'image/jpeg' };
+
+  let rows: Map<string, FaceEnrollment>;
+  let faceService: {
+    registerFace: jest.Mock;
+    updateFace: jest.Mock;
+    deleteFace: jest.Mock;
+  };
+  let service: FaceEnrollmentService;
+
+  beforeEach(() => {
+    rows = new Map();
+    const repository: IFaceEnrollmentRepository = {
+      findByUserId: async (userId) => rows.get(userId) ?? null,
+      create: (data) => Object.assign(new FaceEnrollment(), data),
+      save: async (enrollment) => {
+        rows.set(enrollment.userId, enrollment);
+        return enrollment;
+      },
+    };
+    faceService = {
+      registerFace: jest.fn().mockResolvedValue({ faceId: 'face-1', detectionConfidence: 0.98 }),
+      updateFace: jest.fn().mockResolvedValue({ faceId: 'face-2', detectionConfidence: 0.97 }),
+      deleteFace: jest.fn().mockResolvedValue(undefined),
+    };
+    service = new FaceEnrollmentService(repository, faceService as unknown as FaceRecognitionService);
+  });
+
+  it('usuário sem cadastro fica NOT_ENROLLED e recebe 412 no assertEnrolled', async () => {
+    expect(await service.getStatus('doctor-1')).toEqual(
+      expect.objectContaining({ enrolled: false, status: 'NOT_ENROLLED', enrollmentCount: 0 })
+    );
+    await expect(service.assertEnrolled('doctor-1')).rejects.toMatchObject({
+      code: 412,
+      message: expect.stringContaining('Cadastre sua face'),
+    });
+  });
+
+  it('exige o cadastro mesmo quando a verificação facial é obrigatória pela política', async () => {
+    process.env.FACE_RECOGNITION_REQUIRED = 'true';
+    try {
+      expect(await service.isFaceCheckRequired('doctor-1')).toBe(true);
+      await expect(service.assertEnrolled('doctor-1')).rejects.toMatchObject({ code: 412 });
+    } finally {
+      delete process.env.FACE_RECOGNITION_REQUIRED;
+    }
+  });
+
+  it('exige verificação facial com cadastro ativo ou pela política global', async () => {
+    expect(await service.isFaceCheckRequired('doctor-1')).toBe(false);
+
+    process.env.FACE_RECOGNITION_REQUIRED = 'true';
+    try {
+      expect(await service.isFaceCheckRequired('doctor-1')).toBe(true);
+    } finally {
+      delete process.env.FACE_RECOGNITION_REQUIRED;
+    }
+
+    await service.enroll('doctor-1', photo);
+    expect(await service.isFaceCheckRequired('doctor-1')).toBe(true);
+  });
+
+  it('cadastra e recadastra a face', async () => {
+    const enrolled = await service.enroll('doctor-1', photo);
+
+    expect(faceService.registerFace).toHaveBeenCalledWith('doctor-1', photo.buffer, 'image/jpeg');
+    expect(enrolled).toEqual(
+      expect.objectContaining({ enrolled: true, status: 'ENROLLED', faceId: 'face-1', enrollmentCount: 1 })
+    );
+    await expect(service.assertEnrolled('doctor-1')).resolves.toBeUndefined();
+
+    const reenrolled = await service.reenroll('doctor-1', photo);
+
+    expect(faceService.updateFace).toHaveBeenCalledWith('doctor-1', photo.buffer, 'image/jpeg');
+    expect(reenrolled).toEqual(expect.objectContaining({ faceId: 'face-2', enrollmentCount: 2 }));
+  });
+
+  it('recusa cadastro duplicado e recadastro sem cadastro', async () => {
+    await expect(service.reenroll('doctor-1', photo)).rejects.toMatchObject({ code: 409 });
+
+    await service.enroll('doctor-1', photo);
+
+    await expect(service.enroll('doctor-1', photo)).rejects.toMatchObject({ code: 409 });
+    expect(faceService.registerFace).toHaveBeenCalledTimes(1);
+  });
+
+  it('reset remove o cadastro e permite cadastrar novamente', async () => {
+    await service.enroll('doctor-1', photo);
+
+    const reset = await service.reset('doctor-1', 'admin-1', 'Foto de outra pessoa');
+
+    expect(faceService.deleteFace).toHaveBeenCalledWith('doctor-1');
+    expect(reset).toEqual(
+      expect.objectContaining({
+        enrolled: false,
+        status: 'RESET',
+        faceId: null,
+        resetBy: 'admin-1',
+        resetReason: 'Foto de outra pessoa',
+      })
+    );
+    await expect(service.assertEnrolled('doctor-1')).rejects.toMatchObject({ code: 412 });
+    await expect(service.reset('doctor-1', 'admin-1')).rejects.toMatchObject({ code: 404 });
+
+    const enrolledAgain = await service.enroll('doctor-1', photo);
+    expect(enrolledAgain).toEqual(expect.objectContaining({ status: 'ENROLLED', enrollmentCount: 2 }));
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Testes unitários para os desafios de prova de vida (nonce de uso único)
+ */
+
+import { redisCache } from '../../../src/services/cache/RedisCache';
+import { LIVENESS_GESTURES, LivenessChallengeService } from '../../../src/services/LivenessChallengeService';
+
+describe('LivenessChallengeService', () => {
+  const service = new LivenessChallengeService();
+  const now = new Date('2025-10-26T10:00:00Z');
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  it('emite nonce aleatório com gesto e validade curta', async () => {
+    const first = await service.createChallenge('doctor-1', 'shift-1', now);
+    const second = await service.createChallenge('doctor-1', 'shift-1', now);
+
+    expect(first.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.nonce).not.toBe(second.nonce);
+    expect(LIVENESS_GESTURES).toContain(first.gesture);
+    expect(new Date(first.expiresAt).getTime() - now.getTime()).toBe(60 * 1000);
+  });
+
+  it('responde 503 quando o desafio não pode ser gravado no cache', async () => {
+    // Cache desconectado: set não grava e não lança erro
+    jest.spyOn(redisCache, 'set').mockResolvedValueOnce(undefined);
+
+    await expect(service.createChallenge('doctor-1', 'shift-1', now)).rejects.toMatchObject({ code: 503 });
+  });
+
+  it('consome o desafio uma única vez', async () => {
+    const challenge = await service.createChallenge('doctor-1', 'shift-1', now);
+
+    await expect(service.consumeChallenge(challenge.nonce, 'doctor-1', 'shift-1', now)).resolves.toEqual(challenge);
+    await expect(service.consumeChallenge(challenge.nonce, 'doctor-1', 'shift-1', now)).rejects.toMatchObject({
+      code: 409,
+    });
+  });
+
+  it('rejeita nonce expirado, inexistente ou malformado', async () => {
+    const challenge = await service.createChallenge('doctor-1', 'shift-1', now);
+    const later = new Date(now.getTime() + 61 * 1000);
+
+    await expect(service.consumeChallenge(challenge.nonce, 'doctor-1', 'shift-1', later)).rejects.toMatchObject({
+      code: 410,
+    });
+    await expect(service.consumeChallenge('0'.repeat(32), 'doctor-1', 'shift-1', now)).rejects.toMatchObject({
+      code: 410,
+    });
+    await expect(service.consumeChallenge('not-a-nonce', 'doctor-1', 'shift-1', now)).rejects.toMatchObject({
+      code: 400,
+    });
+  });
+
+  it('rejeita desafio emitido para outro médico ou plantão', async () => {
+    const challenge = await service.createChallenge('doctor-1', 'shift-1', now);
+
+    await expect(service.consumeChallenge(challenge.nonce, 'doctor-2', 'shift-1', now)).rejects.toMatchObject({
+      code: 403,
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Testes unitários para o FaceVerificationAttemptCacheService
+ *
+ * Valida a contagem de tentativas por plantão + médico + tipo e o fallback sem cache
+ */
+
+import { redisCache } from '../../../../src/services/cache/RedisCache';
+import { FaceVerificationAttemptCacheService } from '../../../../src/services/cache/FaceVerificationAttemptCacheService';
+
+describe('FaceVerificationAttemptCacheService', () => {
+  const service = new FaceVerificationAttemptCacheService();
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  it('conta tentativas concorrentes sem perder incrementos', async () => {
+    const attempts = await Promise.all([
+      service.registerAttempt('shift-1', 'doctor-1', 'IN'),
+      service.registerAttempt('shift-1', 'doctor-1', 'IN'),
+    ]);
+
+    expect(attempts.sort()).toEqual([1, 2]);
+    expect(await service.registerAttempt('shift-1', 'doctor-1', 'IN')).toBe(3);
+  });
+
+  it('separa a contagem por tipo de registro', async () => {
+    expect(await service.registerAttempt('shift-2', 'doctor-1', 'IN')).toBe(1);
+    expect(await service.registerAttempt('shift-2', 'doctor-1', 'OUT')).toBe(1);
+  });
+
+  it('conta apenas a tentativa atual quando o cache está indisponível', async () => {
+    const spy = jest.spyOn(redisCache, 'incr').mockResolvedValue(null);
+
+    expect(await service.registerAttempt('shift-3', 'doctor-1', 'IN')).toBe(1);
+
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Testes unitários para o HealthUnitCacheService
+ *
+ * Valida cache, atualização parcial e remoção de health units (driver em memória)
+ */
+
+import { redisCache } from '../../../../src/services/cache/RedisCache';
+import {
+  HealthUnitCacheService,
+  CachedHealthUnit,
+} from '../../../../src/services/cache/HealthUnitCacheService';
+
+describe('HealthUnitCacheService', () => {
+  const healthUnit: Omit<CachedHealthUnit, 'cachedAt'> = {
+    id: 'hu-1',
+    hospitalId: 'hospital-1',
+    name: 'UPA Centro',
+    latitude: -23.55052,
+    longitude: -46.633308,
+    polygonAreas: [
+      {
+        name: 'Entrada',
+        type: 'entrance',
+        coordinates: [
+          [-23.5504, -46.6334],
+          [-23.5504, -46.6332],
+          [-23.5506, -46.6332],
+        ],
+      },
+    ],
+    createdAt: new Date('2025-10-01T00:00:00Z'),
+  };
+
+  const service = new HealthUnitCacheService();
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  beforeEach(async () => {
+    await service.removeHealthUnitFromCache('hu-1');
+  });
+
+  it('cacheia a health unit e restaura as datas ao buscar', async () => {
+    await service.cacheHealthUnit(healthUnit);
+
+    const found = await service.getHealthUnitFromCache('hu-1');
+
+    expect(found).toMatchObject({
+      id: 'hu-1',
+      hospitalId: 'hospital-1',
+      name: 'UPA Centro',
+      polygonAreas: healthUnit.polygonAreas,
+    });
+    expect(found?.createdAt).toBeInstanceOf(Date);
+    expect(found?.createdAt.toISOString()).toBe('2025-10-01T00:00:00.000Z');
+    expect(found?.cachedAt).toBeInstanceOf(Date);
+    expect(await service.isHealthUnitCached('hu-1')).toBe(true);
+  });
+
+  it('retorna null para health unit fora do cache', async () => {
+    expect(await service.getHealthUnitFromCache('hu-1')).toBeNull();
+    expect(await service.isHealthUnitCached('hu-1')).toBe(false);
+  });
+
+  it('atualiza apenas os campos definidos', async () => {
+    await service.cacheHealthUnit(healthUnit);
+
+    await service.updateHealthUnitCache('hu-1', { name: 'UPA Centro II', latitude: undefined });
+
+    const found = await service.getHealthUnitFromCache('hu-1');
+    expect(found?.name).toBe('UPA Centro II');
+    expect(found?.latitude).toBe(-23.55052);
+    expect(found?.polygonAreas).toEqual(healthUnit.polygonAreas);
+  });
+
+  it('ignora atualização de health unit que não está no cache', async () => {
+    await service.updateHealthUnitCache('hu-1', { name: 'UPA Centro II' });
+
+    expect(await service.isHealthUnitCached('hu-1')).toBe(false);
+  });
+
+  it('remove a health unit do cache', async () => {
+    await service.cacheHealthUnit(healthUnit);
+
+    await service.removeHealthUnitFromCache('hu-1');
+
+    expect(await service.getHealthUnitFromCache('hu-1')).toBeNull();
+    expect(await service.isHealthUnitCached('hu-1')).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Testes unitários para a deduplicação e o controle de versão de eventos externos
+ */
+
+import { redisCache } from '../../../../src/services/cache/RedisCache';
+import {
+  ProcessedEventCacheService,
+  isStaleVersion,
+} from '../../../../src/services/cache/ProcessedEventCacheService';
+
+describe('ProcessedEventCacheService', () => {
+  const service = new ProcessedEventCacheService();
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  it('registra eventos aplicados', async () => {
+    expect(await service.isProcessed('event-1')).toBe(false);
+
+    await service.markProcessed('event-1', 'shift.updated');
+
+    expect(await service.isProcessed('event-1')).toBe(true);
+    expect(await service.isProcessed('event-2')).toBe(false);
+  });
+
+  it('considera stale versões menores ou iguais à aplicada', () => {
+    expect(isStaleVersion(2, 3)).toBe(true);
+    expect(isStaleVersion(3, 3)).toBe(true);
+    expect(isStaleVersion(4, 3)).toBe(false);
+  });
+
+  it('aplica o evento quando não há versão no cache', () => {
+    expect(isStaleVersion(1, undefined)).toBe(false);
+    expect(isStaleVersion(undefined, 3)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Testes unitários para o RedisCache
+ *
+ * Valida o driver em memória (CACHE_DRIVER=memory) e o backoff de reconexão
+ */
+
+import { redisCache, reconnectDelay } from '../../../../src/services/cache/RedisCache';
+
+describe('RedisCache', () => {
+  describe('reconnectDelay', () => {
+    it('cresce exponencialmente a partir da base', () => {
+      expect(reconnectDelay(0, 100, 30000)).toBe(100);
+      expect(reconnectDelay(1, 100, 30000)).toBe(200);
+      expect(reconnectDelay(4, 100, 30000)).toBe(1600);
+    });
+
+    it('respeita o teto', () => {
+      expect(reconnectDelay(20, 100, 30000)).toBe(30000);
+    });
+  });
+
+  describe('CACHE_DRIVER=memory', () => {
+    beforeAll(async () => {
+      process.env.CACHE_DRIVER = 'memory';
+      await redisCache.connect();
+    });
+
+    afterAll(async () => {
+      await redisCache.close();
+      delete process.env.CACHE_DRIVER;
+    });
+
+    it('reporta conexão pronta', () => {
+      expect(redisCache.getConnectionStatus()).toBe(true);
+      expect(redisCache.getConnectionInfo()).toMatchObject({ driver: 'memory', state: 'ready' });
+    });
+
+    it('grava, lê e remove valores', async () => {
+      await redisCache.set('shift:1', 'a');
+
+      expect(await redisCache.get('shift:1')).toBe('a');
+      expect(await redisCache.exists('shift:1')).toBe(true);
+
+      await redisCache.del('shift:1');
+      expect(await redisCache.get('shift:1')).toBeNull();
+    });
+
+    it('expira valores após o TTL', async () => {
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await redisCache.set('user:1', 'b', 60);
+      expect(await redisCache.get('user:1')).toBe('b');
+
+      spy.mockReturnValue(now + 61 * 1000);
+      expect(await redisCache.get('user:1')).toBeNull();
+
+      spy.mockRestore();
+    });
+
+    it('lista chaves por padrão glob', async () => {
+      await redisCache.set('shift:a', '1');
+      await redisCache.set('shift:b', '2');
+      await redisCache.set('user:a', '3');
+
+      expect((await redisCache.keys('shift:*')).sort()).toEqual(['shift:a', 'shift:b']);
+      expect(await redisCache.keys('user:?')).toEqual(['user:a']);
+    });
+
+    it('incrementa contadores de forma atômica', async () => {
+      const results = await Promise.all([
+        redisCache.incr('counter:1', 60),
+        redisCache.incr('counter:1', 60),
+        redisCache.incr('counter:1', 60),
+      ]);
+
+      expect(results.sort()).toEqual([1, 2, 3]);
+      expect(await redisCache.get('counter:1')).toBe('3');
+    });
+
+    it('renova o TTL a cada incremento', async () => {
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await redisCache.incr('counter:2', 60);
+      spy.mockReturnValue(now + 50 * 1000);
+      expect(await redisCache.incr('counter:2', 60)).toBe(2);
+
+      spy.mockReturnValue(now + 100 * 1000);
+      expect(await redisCache.get('counter:2')).toBe('2');
+
+      spy.mockReturnValue(now + 111 * 1000);
+      expect(await redisCache.get('counter:2')).toBeNull();
+
+      spy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Testes unitários para o ShiftCacheService
+ *
+ * Valida a retenção do shift no cache, os índices secundários por hospital/dia
+ * e o fallback para o shift-service em cache miss
+ */
+
+import { redisCache, CacheOperation } from '../../../../src/services/cache/RedisCache';
+import { ShiftCacheService, CachedShift } from '../../../../src/services/cache/ShiftCacheService';
+import { ShiftLookupService } from '../../../../src/services/ShiftLookupService';
+
+describe('ShiftCacheService', () => {
+  const shift: Omit<CachedShift, 'cachedAt'> = {
+    id: 'shift-1',
+    hospitalId: 'hospital-1',
+    doctorId: 'doctor-1',
+    value: 1000,
+    specialty: 'Cardiologia',
+    startTime: new Date('2025-10-20T07:00:00Z'),
+    endTime: new Date('2025-10-20T19:00:00Z'),
+    status: 'open',
+    approvalStatus: 'PENDING',
+    createdAt: new Date('2025-10-01T00:00:00Z'),
+  };
+
+  let fetchShift: jest.Mock;
+  let service: ShiftCacheService;
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  beforeEach(async () => {
+    await service?.removeShiftFromCache('shift-1');
+    fetchShift = jest.fn().mockResolvedValue(null);
+    service = new ShiftCacheService({ fetchShift } as unknown as ShiftLookupService);
+  });
+
+  it('mantém o shift até o fim do plantão + retenção', async () => {
+    const execSpy = jest.spyOn(redisCache, 'exec');
+    const now = new Date('2025-10-19T12:00:00Z').getTime();
+    jest.useFakeTimers({ now });
+
+    await service.cacheShift(shift);
+
+    const operations = execSpy.mock.calls[0][0] as CacheOperation[];
+    const setOperation = operations.find((operation) => operation.op === 'set');
+    const ttl = setOperation?.op === 'set' ? setOperation.ttlSeconds : undefined;
+    const expected = (shift.endTime.getTime() + 35 * 24 * 60 * 60 * 1000 - now) / 1000;
+    expect(ttl).toBe(expected);
+
+    jest.useRealTimers();
+    execSpy.mockRestore();
+  });
+
+  it('não consulta o shift-service quando o shift está no cache', async () => {
+    await service.cacheShift(shift);
+
+    const cached = await service.getShiftFromCache('shift-1');
+
+    expect(cached?.id).toBe('shift-1');
+    expect(cached?.startTime).toBeInstanceOf(Date);
+    expect(fetchShift).not.toHaveBeenCalled();
+  });
+
+  it('busca no shift-service em cache miss e repopula o cache', async () => {
+    fetchShift.mockResolvedValue(shift);
+
+    const fetched = await service.getShiftFromCache('shift-1');
+    expect(fetched?.hospitalId).toBe('hospital-1');
+    expect(fetchShift).toHaveBeenCalledWith('shift-1');
+
+    await service.getShiftFromCache('shift-1');
+    expect(fetchShift).toHaveBeenCalledTimes(1);
+  });
+
+  it('retorna null quando o shift-service não encontra o shift', async () => {
+    expect(await service.getShiftFromCache('shift-1')).toBeNull();
+  });
+
+  it('indexa o shift por hospital e por dia de início', async () => {
+    await service.cacheShift(shift);
+
+    expect((await service.getShiftsByHospital('hospital-1')).map((s) => s.id)).toEqual(['shift-1']);
+
+    const inRange = await service.getShiftsByHospitalInRange(
+      'hospital-1',
+      new Date('2025-10-20T00:00:00Z'),
+      new Date('2025-10-20T23:59:59Z')
+    );
+    expect(inRange.map((s) => s.id)).toEqual(['shift-1']);
+
+    const otherDay = await service.getShiftsByHospitalInRange(
+      'hospital-1',
+      new Date('2025-10-21T00:00:00Z'),
+      new Date('2025-10-21T23:59:59Z')
+    );
+    expect(otherDay).toEqual([]);
+  });
+
+  it('busca shifts de todos os hospitais pelo dia de início ou de fim', async () => {
+    const longShift = {
+      ...shift,
+      id: 'shift-long',
+      hospitalId: 'hospital-2',
+      startTime: new Date('2025-10-16T07:00:00Z'),
+      endTime: new Date('2025-10-20T07:00:00Z'),
+    };
+    await service.cacheShift(shift);
+    await service.cacheShift(longShift);
+    const keysSpy = jest.spyOn(redisCache, 'keys');
+
+    // Janela de 48h: shift-1 começou nela; shift-long começou antes, mas terminou nela
+    const found = await service.getShiftsStartedOrEndedInRange(
+      new Date('2025-10-19T12:00:00Z'),
+      new Date('2025-10-21T12:00:00Z')
+    );
+    const before = await service.getShiftsStartedOrEndedInRange(
+      new Date('2025-10-17T00:00:00Z'),
+      new Date('2025-10-18T00:00:00Z')
+    );
+
+    expect(found.map((s) => s.id).sort()).toEqual(['shift-1', 'shift-long']);
+    expect(before).toEqual([]);
+    expect(keysSpy).not.toHaveBeenCalled();
+
+    keysSpy.mockRestore();
+    await service.removeShiftFromCache('shift-long');
+  });
+
+  it('move o shift entre índices quando hospital ou data mudam', async () => {
+    await service.cacheShift(shift);
+    await service.updateShiftCache('shift-1', {
+      hospitalId: 'hospital-2',
+      startTime: new Date('2025-10-22T07:00:00Z'),
+      endTime: new Date('2025-10-22T19:00:00Z'),
+    });
+
+    expect(await service.getShiftsByHospital('hospital-1')).toEqual([]);
+    expect(await redisCache.sMembers('idx:shift:hospital:hospital-1:2025-10-20')).toEqual([]);
+    expect(await redisCache.sMembers('idx:shift:hospital:hospital-2:2025-10-22')).toEqual(['shift-1']);
+  });
+
+  it('remove o shift dos índices junto com o próprio shift', async () => {
+    await service.cacheShift(shift);
+    await service.removeShiftFromCache('shift-1');
+
+    expect(await redisCache.sMembers('idx:shift:hospital:hospital-1')).toEqual([]);
+    expect(await redisCache.sMembers('idx:shift:hospital:hospital-1:2025-10-20')).toEqual([]);
+  });
+
+  it('limpa do índice shifts que já expiraram', async () => {
+    await service.cacheShift(shift);
+    await redisCache.del('shift:shift-1');
+
+    expect(await service.getShiftsByHospital('hospital-1')).toEqual([]);
+    expect(await redisCache.sMembers('idx:shift:hospital:hospital-1')).toEqual([]);
+  });
+
+  it('não sobrescreve o shift com uma versão mais antiga', async () => {
+    await service.cacheShift({ ...shift, version: 3, status: 'closed' });
+    await service.cacheShift({ ...shift, version: 2, status: 'open' });
+
+    expect(await service.getCachedVersion('shift-1')).toBe(3);
+    expect((await service.getShiftFromCache('shift-1'))?.status).toBe('closed');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Testes unitários para o UserCacheService
+ *
+ * Valida o índice username → user ID (driver em memória)
+ */
+
+import { redisCache } from '../../../../src/services/cache/RedisCache';
+import { UserCacheService, CachedUser } from '../../../../src/services/cache/UserCacheService';
+
+describe('UserCacheService', () => {
+  const user: Omit<CachedUser, 'cachedAt'> = {
+    id: 'user-1',
+    username: 'dra.ana',
+    email: 'ana@hospital.com',
+    cpfCnpj: '12345678900',
+    role: 'client_medic',
+    use2FA: false,
+    createdAt: new Date('2025-10-01T00:00:00Z'),
+  };
+
+  const service = new UserCacheService();
+
+  beforeAll(async () => {
+    process.env.CACHE_DRIVER = 'memory';
+    await redisCache.connect();
+  });
+
+  afterAll(async () => {
+    await redisCache.close();
+    delete process.env.CACHE_DRIVER;
+  });
+
+  beforeEach(async () => {
+    await service.removeUserFromCache('user-1');
+  });
+
+  it('busca o user pelo username', async () => {
+    await service.cacheUser(user);
+
+    const found = await service.getUserByUsernameFromCache('dra.ana');
+
+    expect(found?.id).toBe('user-1');
+    expect(found?.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('troca o índice quando o username muda', async () => {
+    await service.cacheUser(user);
+    await service.updateUserCache('user-1', { username: 'ana.souza' });
+
+    expect(await service.getUserByUsernameFromCache('dra.ana')).toBeNull();
+    expect((await service.getUserByUsernameFromCache('ana.souza'))?.id).toBe('user-1');
+    expect(await redisCache.sMembers('idx:user:username:dra.ana')).toEqual([]);
+  });
+
+  it('remove o username do índice junto com o user', async () => {
+    await service.cacheUser(user);
+    await service.removeUserFromCache('user-1');
+
+    expect(await service.getUserByUsernameFromCache('dra.ana')).toBeNull();
+    expect(await redisCache.sMembers('idx:user:username:dra.ana')).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Testes unitários para a assinatura das URLs de foto (driver fs)
+ */
+
+import { signPhotoKey, verifyPhotoSignature } from '../../../../src/services/storage/PhotoUrlSigner';
+import { isValidPhotoKey } from '../../../../src/services/storage/photoKey';
+
+describe('PhotoUrlSigner', () => {
+  const secret = 'test-secret';
+  const key = 'attendance-photos/shift-1/doctor-1/1700000000000.jpg';
+  const now = new Date('2025-01-01T12:00:00Z');
+  const expiresAt = Math.floor(now.getTime() / 1000) + 3600;
+
+  it('aceita assinatura válida dentro do prazo', () => {
+    const signature = signPhotoKey(key, expiresAt, secret);
+
+    expect(verifyPhotoSignature(key, expiresAt, signature, secret, now)).toBe('valid');
+  });
+
+  it('rejeita key, expiração ou segredo alterados', () => {
+    const signature = signPhotoKey(key, expiresAt, secret);
+
+    expect(verifyPhotoSignature(key.replace('doctor-1', 'doctor-2'), expiresAt, signature, secret, now)).toBe('invalid');
+    expect(verifyPhotoSignature(key, expiresAt + 3600, signature, secret, now)).toBe('invalid');
+    expect(verifyPhotoSignature(key, expiresAt, signature, 'outro-segredo', now)).toBe('invalid');
+  });
+
+  it('rejeita assinaturas mal formadas', () => {
+    expect(verifyPhotoSignature(key, expiresAt, '', secret, now)).toBe('invalid');
+    expect(verifyPhotoSignature(key, expiresAt, 'abc', secret, now)).toBe('invalid');
+    expect(verifyPhotoSignature(key, NaN, signPhotoKey(key, expiresAt, secret), secret, now)).toBe('invalid');
+  });
+
+  it('marca como expirada após o prazo', () => {
+    const expired = Math.floor(now.getTime() / 1000) - 1;
+    const signature = signPhotoKey(key, expired, secret);
+
+    expect(verifyPhotoSignature(key, expired, signature, secret, now)).toBe('expired');
+  });
+});
+
+describe('isValidPhotoKey', () => {
+  it('aceita keys geradas pelo serviço', () => {
+    expect(isValidPhotoKey('attendance-photos/shift-1/doctor-1/1700000000000.png')).toBe(true);
+  });
+
+  it('rejeita travessia de diretório e caminhos absolutos', () => {
+    expect(isValidPhotoKey('../etc/passwd')).toBe(false);
+    expect(isValidPhotoKey('attendance-photos/../../secret.jpg')).toBe(false);
+    expect(isValidPhotoKey('/etc/passwd')).toBe(false);
+    expect(isValidPhotoKey('')).toBe(false);
+  });
+});
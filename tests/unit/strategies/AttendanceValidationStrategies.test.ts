@@ -515,4 +515,74 @@ describe('AttendanceValidationStrategies', () => {
       expect(result.isValid).toBe(true);
     });
   });
+  describe('Context-driven decisions', () => {
+    const insideArea = {
+      withinAllowedArea: true,
+      hasPolygons: true,
+      reason: 'Dentro da área permitida (Prédio Principal)',
+    };
+    const outsideArea = {
+      withinAllowedArea: false,
+      hasPolygons: true,
+      distanceToNearestArea: 350,
+      reason: 'Fora da área geográfica permitida (350m de "Prédio Principal")',
+    };
+    const suspiciousCoordinates = {
+      isValid: false,
+      latDecimals: 2,
+      lngDecimals: 2,
+      trustScore: 40,
+      confidence: 'low' as const,
+      flags: ['Precisão baixa'],
+      severity: 'warning' as const,
+      reason: 'Precisão baixa',
+    };
+
+    const pipeline = () =>
+      new CompositeValidationStrategy([
+        new TimeWindowValidationStrategy(),
+        new CoordinateValidationStrategy(),
+        new GeofenceValidationStrategy(),
+      ]);
+
+    it('should approve a punch inside the geofence', async () => {
+      const result = await pipeline().validate(createMockContext({ geofence: insideArea }));
+
+      expect(result.status).toBe('APPROVED');
+      expect(result.reason).toBe(insideArea.reason);
+    });
+
+    it('should keep a punch outside the geofence pending with the distance reason', async () => {
+      const result = await pipeline().validate(createMockContext({ geofence: outsideArea }));
+
+      expect(result.status).toBe('PENDING');
+      expect(result.reason).toBe(outsideArea.reason);
+    });
+
+    it('should keep suspicious coordinates pending even inside the geofence', async () => {
+      const result = await pipeline().validate(
+        createMockContext({ geofence: insideArea, coordinateValidation: suspiciousCoordinates })
+      );
+
+      expect(result.status).toBe('PENDING');
+      expect(result.reason).toBe('Precisão baixa');
+    });
+
+    it('should skip the time window when the policy disables it', async () => {
+      const result = await new TimeWindowValidationStrategy().validate(
+        createMockContext({
+          type: 'OUT',
+          timestamp: new Date('2024-01-16T08:00:00Z'), // 16h depois do fim
+          policy: {
+            maxDistanceMeters: 500,
+            outTimeWindowMs: 4 * 60 * 60 * 1000,
+            useDistance: true,
+            useTimeWindow: false,
+          },
+        })
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+  });
 });
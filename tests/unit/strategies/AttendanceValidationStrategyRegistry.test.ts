@@ -0,0 +1,94 @@
+/**
+ * Testes unitários para o registro de estratégias de validação
+ *
+ * Valida montagem do pipeline por hospital (sem DB)
+ */
+
+import {
+  AttendanceValidationStrategyRegistry,
+  validationStrategyRegistry,
+} from '../../../src/strategies/AttendanceValidationStrategyRegistry';
+import {
+  IAttendanceValidationStrategy,
+  ValidationContext,
+} from '../../../src/strategies/AttendanceValidationStrategies';
+
+describe('AttendanceValidationStrategyRegistry', () => {
+  const context: ValidationContext = {
+    doctorId: 'doctor-123',
+    shiftId: 'shift-456',
+    type: 'IN',
+    timestamp: new Date('2024-01-15T08:00:00Z'),
+    coordinates: { latitude: -23.5505, longitude: -46.6333 },
+    shift: {
+      id: 'shift-456',
+      startTime: new Date('2024-01-15T08:00:00Z'),
+      endTime: new Date('2024-01-15T16:00:00Z'),
+      value: 1000,
+      hospitalId: 'hospital-789',
+    },
+    policy: {
+      maxDistanceMeters: 100,
+      outTimeWindowMs: 4 * 60 * 60 * 1000,
+      useDistance: false,
+      useTimeWindow: true,
+    },
+    geofence: {
+      withinAllowedArea: true,
+      hasPolygons: true,
+      reason: 'Dentro da área permitida (Prédio Principal)',
+    },
+  };
+
+  const rejectAll: IAttendanceValidationStrategy = {
+    validate: async () => ({
+      isValid: false,
+      status: 'REJECTED',
+      autoApprove: false,
+      reason: 'Bloqueado pelo hospital',
+    }),
+  };
+
+  it('should expose the built-in strategies', () => {
+    expect(validationStrategyRegistry.names()).toEqual(
+      expect.arrayContaining(['coordinates', 'geofence', 'timeWindow', 'previousIn'])
+    );
+  });
+
+  it('should use the default pipeline when the policy has no strategies', async () => {
+    const result = await validationStrategyRegistry.buildPipeline(null).validate(context);
+
+    expect(result.status).toBe('APPROVED');
+  });
+
+  it('should run only the strategies selected by the hospital', async () => {
+    const result = await validationStrategyRegistry
+      .buildPipeline(['timeWindow', 'coordinates'])
+      .validate(context);
+
+    // Sem geofence no pipeline ninguém aprova automaticamente
+    expect(result.status).toBe('PENDING');
+  });
+
+  it('should run custom strategies registered by name', async () => {
+    const registry = new AttendanceValidationStrategyRegistry().register('block', rejectAll);
+
+    const result = await registry.buildPipeline(['block']).validate(context);
+
+    expect(result.status).toBe('REJECTED');
+    expect(result.reason).toBe('Bloqueado pelo hospital');
+  });
+
+  it('should fall back to the default pipeline for empty or unknown strategy lists', async () => {
+    const empty = await validationStrategyRegistry.buildPipeline([]).validate(context);
+    const unknown = await validationStrategyRegistry.buildPipeline(['geofence', 'selfie']).validate(context);
+
+    // Pipeline padrão aprova o contexto válido (um pipeline vazio deixaria PENDING)
+    expect(empty.status).toBe('APPROVED');
+    expect(unknown.status).toBe('APPROVED');
+  });
+
+  it('should report unknown strategy names', () => {
+    expect(validationStrategyRegistry.findUnknown(['geofence', 'selfie'])).toEqual(['selfie']);
+  });
+});